@@ -8,18 +8,45 @@ import {
 import { ChatDisplay } from "./components/ChatDisplay";
 import { TTSControls } from "./components/TTSControls";
 import { QueueStatus } from "./components/QueueStatus";
+import { QueuePriorityControls } from "./components/QueuePriorityControls";
+import { QueueLimitControls } from "./components/QueueLimitControls";
+import { RateLimitControls } from "./components/RateLimitControls";
 import { FilterControls } from "./components/FilterControls";
+import { EmoteSpeechControls } from "./components/EmoteSpeechControls";
 import { ConnectionStatus } from "./components/ConnectionStatus";
 import { TabContainer } from "./components/TabContainer";
 import type { TabItem } from "./components/TabContainer";
+import { ChannelManager } from "./components/ChannelManager";
+import { TwitchLogin } from "./components/TwitchLogin";
+import { ChatCommandControls } from "./components/ChatCommandControls";
+import { ViewerVoiceControls } from "./components/ViewerVoiceControls";
+import { SpeechEngineControls } from "./components/SpeechEngineControls";
+import { LanguageVoiceControls } from "./components/LanguageVoiceControls";
+import { MessageTemplateControls } from "./components/MessageTemplateControls";
+import { SubstitutionControls } from "./components/SubstitutionControls";
+import { NormalizationControls } from "./components/NormalizationControls";
+import { buildChannelUrl, getChannelsFromSearch } from "./utils/channelUrl";
+import { setNickname } from "./utils/nicknames";
 import "./App.css";
 
+/**
+ * Channels joined on startup when the page URL has no `?channel=` parameter
+ */
+const DEFAULT_CHANNELS = ["huikkakoodaa"];
+
+/**
+ * Channels joined on startup, `?channel=name` lets one build be shared between streamers
+ * Requirements: 1.1
+ */
+const INITIAL_CHANNELS =
+  getChannelsFromSearch(window.location.search) ?? DEFAULT_CHANNELS;
+
 /**
  * Inner App component that orchestrates all services and handles application lifecycle
  * Requirements: 1.1, 1.2, 2.1, 5.1
  */
 function AppContent() {
-  const { chat } = useAppContext();
+  const { chat, tts } = useAppContext();
   const actions = useAppActions();
   const status = useAppStatus();
   const hasInitialized = useRef(false);
@@ -36,8 +63,7 @@ function AppContent() {
     console.log("Initializing Twitch Chat TTS application...");
 
     try {
-      // Connect to Twitch chat for "Huikkakoodaa" channel
-      console.log("Connecting to Huikkakoodaa Twitch chat...");
+      console.log(`Connecting to Twitch chat: ${INITIAL_CHANNELS.join(", ")}...`);
       await actions.connectToChat();
 
       console.log("Application initialized successfully");
@@ -97,6 +123,22 @@ function AppContent() {
     }
   }, [status.chatConnectionStatus, status.chatError, actions]);
 
+  /**
+   * Keep `?channel=` in sync with the joined channels so the URL can be shared or reloaded
+   * Requirements: 1.1
+   */
+  const channelList = Object.keys(chat.state.channels).join(",");
+  useEffect(() => {
+    if (!channelList) {
+      return;
+    }
+
+    const url = buildChannelUrl(window.location.href, channelList.split(","));
+    if (url !== window.location.href) {
+      window.history.replaceState(null, "", url);
+    }
+  }, [channelList]);
+
   /**
    * Log application status changes for debugging
    * Requirements: 1.2, 2.1, 4.1
@@ -125,6 +167,16 @@ function AppContent() {
     // For now, we'll just log the error
   }, []);
 
+  /**
+   * Save a nickname set from a chatter's user card
+   * Requirements: 2.4, 3.1
+   */
+  const { nicknames } = tts.state.settings;
+  const { updateSettings } = tts.actions;
+  const handleNicknameChange = useCallback((username: string, nickname: string | null) => {
+    updateSettings({ nicknames: setNickname(nicknames, username, nickname) });
+  }, [nicknames, updateSettings]);
+
   // Monitor for critical errors
   useEffect(() => {
     if (status.hasErrors) {
@@ -152,6 +204,9 @@ function AppContent() {
             status.chatConnectionStatus === "connecting"
           }
           isConnected={status.isConnectedToChat}
+          nicknames={nicknames}
+          autoCleanNames={tts.state.settings.autoCleanNames}
+          onNicknameChange={handleNicknameChange}
         />
       ),
       badge:
@@ -161,25 +216,63 @@ function AppContent() {
       id: "connection",
       label: "Connection",
       icon: "🔗",
-      content: <ConnectionStatus />,
+      content: (
+        <div className="app-settings-stack">
+          <ConnectionStatus />
+          <TwitchLogin />
+          <ChannelManager />
+        </div>
+      ),
     },
     {
       id: "tts",
       label: "Text-to-Speech",
       icon: "🔊",
-      content: <TTSControls />,
+      content: (
+        <div className="app-settings-stack">
+          <TTSControls />
+          <SpeechEngineControls />
+          <LanguageVoiceControls />
+          <MessageTemplateControls />
+        </div>
+      ),
     },
     {
       id: "filters",
       label: "Filters",
       icon: "🔍",
-      content: <FilterControls />,
+      content: (
+        <div className="app-settings-stack">
+          <FilterControls />
+          <RateLimitControls />
+          <EmoteSpeechControls />
+          <SubstitutionControls />
+          <NormalizationControls />
+        </div>
+      ),
+    },
+    {
+      id: "commands",
+      label: "Commands",
+      icon: "🛡️",
+      content: (
+        <div className="app-settings-stack">
+          <ChatCommandControls />
+          <ViewerVoiceControls />
+        </div>
+      ),
     },
     {
       id: "queue",
       label: "Queue",
       icon: "📋",
-      content: <QueueStatus />,
+      content: (
+        <div className="app-settings-stack">
+          <QueueStatus />
+          <QueueLimitControls />
+          <QueuePriorityControls />
+        </div>
+      ),
       badge: status.queueCount > 0 ? status.queueCount : undefined,
     },
   ];
@@ -188,7 +281,10 @@ function AppContent() {
     <div className="app">
       <header className="app-header">
         <h1>Twitch Chat TTS</h1>
-        <p>Real-time chat display for Huikkakoodaa's stream</p>
+        <p>
+          Real-time chat display for{" "}
+          {Object.keys(chat.state.channels).join(", ") || "no channels"}
+        </p>
 
         {/* Show initialization status */}
         {!hasInitialized.current && (
@@ -230,7 +326,7 @@ function AppContent() {
 function App() {
   return (
     <AppProvider
-      channel="huikkakoodaa"
+      channels={INITIAL_CHANNELS}
       maxMessages={100}
       initialTTSSettings={{
         enabled: false, // Start with TTS disabled, user can enable it
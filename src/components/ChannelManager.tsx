@@ -0,0 +1,200 @@
+import React, { useState, useCallback } from 'react';
+import { useConnectionStatus, useChatActions } from '../contexts/ChatContext';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { useAppActions } from '../contexts/AppContext';
+import { isValidChannelName, normalizeChannelName } from '../utils/channelUrl';
+import { mergeChannelSettings } from '../utils/channelSettings';
+import type { ChannelTTSSettings } from '../types';
+import './ChannelManager.css';
+
+/**
+ * Channel Manager component for switching, joining and leaving channels at runtime
+ * and routing TTS per channel
+ * Requirements: 1.1, 3.1, 6.1
+ */
+export function ChannelManager() {
+  const { channels } = useConnectionStatus();
+  const { joinChannel, partChannel } = useChatActions();
+  const { switchChannel } = useAppActions();
+  const { settings, updateSettings, availableVoices } = useTTSSettings();
+
+  const [newChannel, setNewChannel] = useState('');
+  const [switchTarget, setSwitchTarget] = useState('');
+
+  const channelNames = Object.keys(channels);
+  const trimmedChannel = normalizeChannelName(newChannel);
+  const canJoin = isValidChannelName(trimmedChannel);
+  const trimmedSwitchTarget = normalizeChannelName(switchTarget);
+  const canSwitch = isValidChannelName(trimmedSwitchTarget);
+
+  // Get the overrides for a channel, channels without overrides speak with the global settings
+  const getChannelSettings = useCallback((channel: string): ChannelTTSSettings => {
+    return settings.channelSettings[channel] ?? { enabled: true };
+  }, [settings.channelSettings]);
+
+  // Merge changes into a channel's overrides
+  const updateChannelSettings = useCallback((channel: string, changes: Partial<ChannelTTSSettings>) => {
+    updateSettings({ channelSettings: mergeChannelSettings(settings, channel, changes) });
+  }, [settings, updateSettings]);
+
+  // Leave every channel and reconnect to the one typed into the switch input
+  const handleSwitch = useCallback(async () => {
+    if (!canSwitch) {
+      return;
+    }
+
+    setSwitchTarget('');
+    await switchChannel(trimmedSwitchTarget);
+  }, [canSwitch, trimmedSwitchTarget, switchChannel]);
+
+  // Join the channel typed into the input
+  const handleJoin = useCallback(() => {
+    if (!canJoin) {
+      return;
+    }
+
+    if (joinChannel(trimmedChannel)) {
+      setNewChannel('');
+    }
+  }, [canJoin, trimmedChannel, joinChannel]);
+
+  // Submit an input on Enter
+  const submitOnEnter = useCallback((submit: () => void) => (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      submit();
+    }
+  }, []);
+
+  // Handle per-channel voice selection, an empty value falls back to the global voice
+  const handleVoiceChange = useCallback((channel: string, event: React.ChangeEvent<HTMLSelectElement>) => {
+    const voiceIndex = parseInt(event.target.value);
+    updateChannelSettings(channel, { voice: availableVoices[voiceIndex] ?? null });
+  }, [availableVoices, updateChannelSettings]);
+
+  return (
+    <div className="channel-manager">
+      <div className="channel-manager__header">
+        <h3 className="channel-manager__title">Channels</h3>
+      </div>
+
+      <div className="channel-manager__content">
+
+        {/* Switch channel */}
+        <div className="channel-manager__group">
+          <label className="channel-manager__label" htmlFor="switch-channel-input">
+            Switch channel
+          </label>
+          <div className="channel-manager__input-group">
+            <input
+              id="switch-channel-input"
+              type="text"
+              value={switchTarget}
+              onChange={(event) => setSwitchTarget(event.target.value)}
+              onKeyDown={submitOnEnter(handleSwitch)}
+              className="channel-manager__input"
+              placeholder="Channel name"
+            />
+            <button
+              onClick={handleSwitch}
+              disabled={!canSwitch}
+              className="channel-manager__button channel-manager__button--switch"
+            >
+              Switch
+            </button>
+          </div>
+          <p className="channel-manager__description">
+            Leaves every channel, clears the chat and TTS queue, then reconnects
+          </p>
+        </div>
+
+        {/* Join channel */}
+        <div className="channel-manager__group">
+          <label className="channel-manager__label" htmlFor="join-channel-input">
+            Join channel
+          </label>
+          <div className="channel-manager__input-group">
+            <input
+              id="join-channel-input"
+              type="text"
+              value={newChannel}
+              onChange={(event) => setNewChannel(event.target.value)}
+              onKeyDown={submitOnEnter(handleJoin)}
+              className="channel-manager__input"
+              placeholder="Channel name"
+            />
+            <button
+              onClick={handleJoin}
+              disabled={!canJoin}
+              className="channel-manager__button channel-manager__button--join"
+            >
+              Join
+            </button>
+          </div>
+        </div>
+
+        {/* Channel list */}
+        {channelNames.length > 0 ? (
+          <ul className="channel-manager__list">
+            {channelNames.map(channel => {
+              const channelSettings = getChannelSettings(channel);
+              const voiceIndex = channelSettings.voice
+                ? availableVoices.findIndex(voice => voice === channelSettings.voice)
+                : -1;
+
+              return (
+                <li key={channel} className="channel-manager__item">
+                  <span className="channel-manager__channel">#{channel}</span>
+                  <label className="channel-manager__toggle">
+                    <input
+                      type="checkbox"
+                      checked={channelSettings.enabled}
+                      onChange={() => updateChannelSettings(channel, { enabled: !channelSettings.enabled })}
+                    />
+                    Speak
+                  </label>
+                  <select
+                    aria-label={`Voice for ${channel}`}
+                    value={voiceIndex}
+                    onChange={(event) => handleVoiceChange(channel, event)}
+                    className="channel-manager__select"
+                  >
+                    <option value={-1}>Default voice</option>
+                    {availableVoices.map((voice, index) => (
+                      <option key={`${voice.name}-${voice.lang}`} value={index}>
+                        {voice.name} ({voice.lang})
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="range"
+                    aria-label={`Volume for ${channel}`}
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    value={channelSettings.volume ?? settings.volume}
+                    onChange={(event) => updateChannelSettings(channel, { volume: parseFloat(event.target.value) })}
+                    className="channel-manager__volume"
+                  />
+                  <button
+                    onClick={() => partChannel(channel)}
+                    className="channel-manager__button channel-manager__button--leave"
+                    title={`Leave ${channel}`}
+                  >
+                    Leave
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="channel-manager__empty-state">Not in any channel</div>
+        )}
+
+        <p className="channel-manager__description">
+          Channels that are not spoken still show up in the chat view
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import {
+  CHAT_COMMAND_NAMES,
+  COMMAND_PERMISSIONS,
+  COMMAND_PREFIX,
+  formatPermission,
+} from '../utils/chatCommands';
+import type { ChatCommandName, CommandPermission } from '../types';
+import './ChatCommandControls.css';
+
+/**
+ * Usage shown for each chat command
+ */
+const COMMAND_USAGE: Record<ChatCommandName, string> = {
+  skip: 'Skip the message being read when it is from this channel',
+  clear: 'Clear this channel\'s waiting messages',
+  pause: 'Pause reading, only from your own channel',
+  resume: 'Resume reading, only from your own channel',
+  on: 'Turn TTS on in this channel',
+  off: 'Turn TTS off in this channel and clear its messages',
+  volume: 'Set this channel\'s volume, e.g. 0.5',
+  block: 'Never read a user in any channel, waiting messages included',
+  nick: 'Set how a user\'s name is read, e.g. nick user "Dark Lord"',
+};
+
+/**
+ * Chat Command Controls component for choosing who may use each `!tts` command
+ * Requirements: 4.3, 6.1
+ */
+export function ChatCommandControls() {
+  const { settings, updateSettings } = useTTSSettings();
+
+  // Handle permission change for a single command
+  const handlePermissionChange = useCallback((
+    command: ChatCommandName,
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    updateSettings({
+      commandPermissions: {
+        ...settings.commandPermissions,
+        [command]: event.target.value as CommandPermission,
+      },
+    });
+  }, [settings.commandPermissions, updateSettings]);
+
+  return (
+    <div className="chat-command-controls">
+      <div className="chat-command-controls__header">
+        <h3 className="chat-command-controls__title">Chat Commands</h3>
+      </div>
+
+      <div className="chat-command-controls__content">
+        <ul className="chat-command-controls__list">
+          {CHAT_COMMAND_NAMES.map(command => (
+            <li key={command} className="chat-command-controls__item">
+              <div className="chat-command-controls__command">
+                <code className="chat-command-controls__syntax">{COMMAND_PREFIX} {command}</code>
+                <span className="chat-command-controls__usage">{COMMAND_USAGE[command]}</span>
+              </div>
+              <select
+                aria-label={`Who can use ${COMMAND_PREFIX} ${command}`}
+                value={settings.commandPermissions[command]}
+                onChange={(event) => handlePermissionChange(command, event)}
+                className="chat-command-controls__select"
+              >
+                {COMMAND_PERMISSIONS.map(permission => (
+                  <option key={permission} value={permission}>
+                    {formatPermission(permission)}
+                  </option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+
+        <p className="chat-command-controls__description">
+          Messages starting with {COMMAND_PREFIX} are never read aloud. When logged in, the app replies
+          to each command in chat
+        </p>
+      </div>
+    </div>
+  );
+}
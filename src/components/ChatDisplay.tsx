@@ -1,10 +1,12 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { ChatMessage } from '../types';
+import { getMessageFragments } from '../utils/messageFragments';
+import { cleanUsername, getSpokenName } from '../utils/nicknames';
 import './ChatDisplay.css';
 
 /**
  * Props for the ChatDisplay component
- * Requirements: 1.2, 5.1, 5.2, 5.3, 5.4
+ * Requirements: 1.2, 2.4, 5.1, 5.2, 5.3, 5.4
  */
 interface ChatDisplayProps {
   messages: ChatMessage[];
@@ -13,6 +15,10 @@ interface ChatDisplayProps {
   className?: string;
   isLoading?: boolean;
   isConnected?: boolean;
+  hideDeleted?: boolean;
+  nicknames?: Record<string, string>;
+  autoCleanNames?: boolean;
+  onNicknameChange?: (username: string, nickname: string | null) => void;
 }
 
 /**
@@ -27,6 +33,17 @@ function formatTimestamp(timestamp: Date): string {
   });
 }
 
+/**
+ * Picks a stable color for a channel so its messages are recognisable in a mixed feed
+ */
+function getChannelColor(channel: string): string {
+  let hash = 0;
+  for (let i = 0; i < channel.length; i++) {
+    hash = (hash * 31 + channel.charCodeAt(i)) % 360;
+  }
+  return `hsl(${hash}, 60%, 45%)`;
+}
+
 /**
  * Renders badges for a user
  */
@@ -44,6 +61,92 @@ function renderBadges(badges: string[]): React.ReactNode {
   );
 }
 
+/**
+ * Renders message text with Twitch emotes as images
+ */
+function renderMessageContent(message: ChatMessage): React.ReactNode {
+  return getMessageFragments(message).map((fragment, index) =>
+    fragment.type === 'emote' && fragment.emoteId ? (
+      <img
+        key={index}
+        className="chat-message__emote"
+        src={`https://static-cdn.jtvnw.net/emoticons/v2/${fragment.emoteId}/default/dark/1.0`}
+        alt={fragment.text}
+        title={fragment.text}
+      />
+    ) : (
+      <React.Fragment key={index}>{fragment.text}</React.Fragment>
+    )
+  );
+}
+
+/**
+ * Props for the user card opened from a username
+ */
+interface UserCardProps {
+  message: ChatMessage;
+  nicknames: Record<string, string>;
+  autoCleanNames: boolean;
+  onNicknameChange: (username: string, nickname: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Card showing how a chatter's name is read, with their nickname
+ * Requirements: 2.4, 3.1
+ */
+function UserCard({ message, nicknames, autoCleanNames, onNicknameChange, onClose }: UserCardProps) {
+  const savedNickname = nicknames[message.username.toLowerCase()];
+  const [nickname, setNickname] = useState(savedNickname ?? '');
+  const name = message.displayName || message.username;
+  const inputId = `chat-user-card-nickname-${message.id}`;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onNicknameChange(message.username, nickname.trim() || null);
+  };
+
+  const handleClear = () => {
+    setNickname('');
+    onNicknameChange(message.username, null);
+  };
+
+  return (
+    <form className="chat-user-card" aria-label={`User card for ${name}`} onSubmit={handleSubmit}>
+      <div className="chat-user-card__header">
+        <span className="chat-user-card__name">{name}</span>
+        <span className="chat-user-card__login">@{message.username}</span>
+        <button type="button" className="chat-user-card__close" onClick={onClose} aria-label="Close user card">
+          ✕
+        </button>
+      </div>
+      <div className="chat-user-card__spoken">
+        Read as "{getSpokenName(message.username, message.displayName, { nicknames, autoCleanNames })}"
+      </div>
+      <label className="chat-user-card__label" htmlFor={inputId}>Nickname</label>
+      <div className="chat-user-card__row">
+        <input
+          id={inputId}
+          type="text"
+          value={nickname}
+          onChange={(event) => setNickname(event.target.value)}
+          className="chat-user-card__input"
+          placeholder={cleanUsername(name)}
+        />
+        <button type="submit" className="chat-user-card__button">Save</button>
+        <button
+          type="button"
+          className="chat-user-card__button chat-user-card__button--secondary"
+          onClick={handleClear}
+          disabled={!savedNickname}
+        >
+          Clear
+        </button>
+      </div>
+    </form>
+  );
+}
+
 /**
  * ChatDisplay component that shows real-time Twitch chat messages
  * Requirements: 1.2, 5.1, 5.2, 5.3, 5.4
@@ -54,10 +157,22 @@ export function ChatDisplay({
   autoScroll = true,
   className = '',
   isLoading = false,
-  isConnected = false
+  isConnected = false,
+  hideDeleted = false,
+  nicknames = {},
+  autoCleanNames = false,
+  onNicknameChange
 }: ChatDisplayProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [userCardMessageId, setUserCardMessageId] = useState<string | null>(null);
+
+  // Open the user card of a message, or close it when it is already open
+  const toggleUserCard = (messageId: string) => {
+    if (onNicknameChange) {
+      setUserCardMessageId(current => (current === messageId ? null : messageId));
+    }
+  };
 
   // Auto-scroll to latest messages
   useEffect(() => {
@@ -70,7 +185,12 @@ export function ChatDisplay({
   }, [messages, autoScroll]);
 
   // Limit messages to prevent performance issues
-  const displayMessages = messages.slice(-maxMessages);
+  const displayMessages = messages
+    .filter(message => !(hideDeleted && message.isDeleted))
+    .slice(-maxMessages);
+
+  // Only tag messages with their channel when more than one channel is in the feed
+  const showChannel = new Set(displayMessages.map(message => message.channel)).size > 1;
 
   const chatDisplayClasses = [
     'chat-display',
@@ -118,7 +238,7 @@ export function ChatDisplay({
           displayMessages.map((message, index) => (
             <div 
               key={message.id} 
-              className={`chat-message ${message.isBot ? 'chat-message--bot' : ''} ${index === displayMessages.length - 1 ? 'chat-message--new' : ''}`}
+              className={`chat-message ${message.isBot ? 'chat-message--bot' : ''} ${message.isDeleted ? 'chat-message--deleted' : ''} ${index === displayMessages.length - 1 ? 'chat-message--new' : ''}`}
               role="article"
               aria-label={`Message from ${message.username}`}
             >
@@ -130,27 +250,56 @@ export function ChatDisplay({
                 >
                   {formatTimestamp(message.timestamp)}
                 </time>
+                {showChannel && (
+                  <span
+                    className="chat-message__channel"
+                    style={{ backgroundColor: getChannelColor(message.channel) }}
+                    title={`Channel: ${message.channel}`}
+                  >
+                    #{message.channel}
+                  </span>
+                )}
                 {renderBadges(message.badges)}
                 <span 
                   className={`chat-message__username ${message.isBot ? 'chat-message__username--bot' : ''}`}
                   role="button"
                   tabIndex={0}
+                  style={message.color ? { color: message.color } : undefined}
                   aria-label={`User: ${message.username}${message.isBot ? ' (bot)' : ''}`}
+                  aria-expanded={onNicknameChange ? userCardMessageId === message.id : undefined}
+                  onClick={() => toggleUserCard(message.id)}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' || e.key === ' ') {
-                      // Could implement user profile or mention functionality
-                      console.log('User clicked:', message.username);
+                      e.preventDefault();
+                      toggleUserCard(message.id);
                     }
                   }}
                 >
-                  {message.username}
+                  {message.displayName || message.username}
                 </span>
               </div>
+              {onNicknameChange && userCardMessageId === message.id && (
+                <UserCard
+                  message={message}
+                  nicknames={nicknames}
+                  autoCleanNames={autoCleanNames}
+                  onNicknameChange={onNicknameChange}
+                  onClose={() => setUserCardMessageId(null)}
+                />
+              )}
+              {message.reply && (
+                <div
+                  className="chat-message__reply"
+                  title={message.reply.message}
+                >
+                  Replying to @{message.reply.displayName}
+                </div>
+              )}
               <div 
                 className="chat-message__content"
-                aria-label="Message content"
+                aria-label={message.isDeleted ? 'Message deleted by a moderator' : 'Message content'}
               >
-                {message.message}
+                {message.isDeleted ? '<message deleted>' : renderMessageContent(message)}
               </div>
             </div>
           ))
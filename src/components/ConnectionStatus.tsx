@@ -1,14 +1,33 @@
 import { useEffect, useState } from 'react';
 import { useConnectionStatus, useChatActions } from '../contexts/ChatContext';
+import type { ChannelJoinState } from '../types';
 import './ConnectionStatus.css';
 
+/**
+ * Labels for each channel join state
+ */
+const CHANNEL_STATE_LABELS: Record<ChannelJoinState, string> = {
+  joining: 'Joining...',
+  joined: 'Joined',
+  failed: 'Failed to join',
+};
+
 /**
  * Connection status indicator component
  * Shows Twitch connection state with visual indicators and error messages
  * Requirements: 1.3, 1.4
  */
 export function ConnectionStatus() {
-  const { status, isConnected, reconnectAttempts, error } = useConnectionStatus();
+  const {
+    status,
+    isConnected,
+    reconnectAttempts,
+    error,
+    channels,
+    authStatus,
+    username,
+  } = useConnectionStatus();
+  const channelEntries = Object.entries(channels);
   const { connect, disconnect } = useChatActions();
   const [countdown, setCountdown] = useState<number | null>(null);
 
@@ -67,6 +86,23 @@ export function ConnectionStatus() {
     }
   };
 
+  /**
+   * Get login state text, anonymous connections can only read chat
+   */
+  const getAuthText = (): string => {
+    switch (authStatus) {
+      case 'authenticated':
+        return `Logged in as ${username}`;
+      case 'authenticating':
+        return `Logging in as ${username}...`;
+      case 'failed':
+        return 'Login failed, reading chat anonymously';
+      case 'anonymous':
+      default:
+        return 'Anonymous (read-only)';
+    }
+  };
+
   /**
    * Get CSS class for status indicator
    */
@@ -126,6 +162,10 @@ export function ConnectionStatus() {
         </span>
       </div>
 
+      <div className={`connection-status__auth connection-status__auth--${authStatus}`}>
+        {getAuthText()}
+      </div>
+
       {error && (
         <div className="connection-status__error" role="alert">
           <span className="connection-status__error-icon" role="img" aria-label="Error">
@@ -150,6 +190,22 @@ export function ConnectionStatus() {
         </div>
       )}
 
+      {channelEntries.length > 0 && (
+        <ul className="connection-status__channels" aria-label="Channels">
+          {channelEntries.map(([channel, channelState]) => (
+            <li
+              key={channel}
+              className={`connection-status__channel connection-status__channel--${channelState}`}
+            >
+              <span className="connection-status__channel-name">#{channel}</span>
+              <span className="connection-status__channel-state">
+                {CHANNEL_STATE_LABELS[channelState]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
       <div className="connection-status__actions">
         <button
           className={`connection-status__button ${
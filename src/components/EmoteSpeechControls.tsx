@@ -0,0 +1,171 @@
+import React, { useState, useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import type { EmoteSpeechAction } from '../types';
+import './EmoteSpeechControls.css';
+
+/**
+ * Labels for each emote speech action
+ */
+const ACTION_LABELS: Record<EmoteSpeechAction, string> = {
+  drop: 'Drop',
+  name: 'Speak name',
+  phrase: 'Custom phrase',
+  collapse: 'Collapse repeats',
+};
+
+const ACTIONS = Object.keys(ACTION_LABELS) as EmoteSpeechAction[];
+
+/**
+ * Emote Speech Controls component for managing how emotes are spoken
+ * Requirements: 2.4, 3.1
+ */
+export function EmoteSpeechControls() {
+  const { settings, updateSettings } = useTTSSettings();
+
+  const [newEmote, setNewEmote] = useState('');
+  const [newAction, setNewAction] = useState<EmoteSpeechAction>('name');
+  const [newPhrase, setNewPhrase] = useState('');
+
+  const rules = settings.emoteSpeechRules;
+  const trimmedEmote = newEmote.trim();
+  const canAdd = !!trimmedEmote && (newAction !== 'phrase' || !!newPhrase.trim());
+
+  // Handle default action change for emotes without a rule
+  const handleDefaultActionChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    updateSettings({ defaultEmoteAction: event.target.value as EmoteSpeechAction });
+  }, [updateSettings]);
+
+  // Add or replace the rule for an emote (emote names are case-sensitive)
+  const handleAddRule = useCallback(() => {
+    if (!canAdd) {
+      return;
+    }
+
+    const rule = newAction === 'phrase'
+      ? { emote: trimmedEmote, action: newAction, phrase: newPhrase.trim() }
+      : { emote: trimmedEmote, action: newAction };
+
+    updateSettings({
+      emoteSpeechRules: [...rules.filter(existing => existing.emote !== trimmedEmote), rule]
+    });
+
+    setNewEmote('');
+    setNewPhrase('');
+  }, [canAdd, newAction, trimmedEmote, newPhrase, rules, updateSettings]);
+
+  // Remove the rule for an emote
+  const handleRemoveRule = useCallback((emote: string) => {
+    updateSettings({
+      emoteSpeechRules: rules.filter(rule => rule.emote !== emote)
+    });
+  }, [rules, updateSettings]);
+
+  // Handle Enter key in the add form inputs
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleAddRule();
+    }
+  }, [handleAddRule]);
+
+  return (
+    <div className="emote-speech-controls">
+      <div className="emote-speech-controls__header">
+        <h3 className="emote-speech-controls__title">Emote Speech</h3>
+      </div>
+
+      <div className="emote-speech-controls__content">
+
+        {/* Default action */}
+        <div className="emote-speech-controls__group">
+          <label className="emote-speech-controls__label" htmlFor="default-emote-action">
+            Emotes without a rule
+          </label>
+          <select
+            id="default-emote-action"
+            value={settings.defaultEmoteAction}
+            onChange={handleDefaultActionChange}
+            className="emote-speech-controls__select"
+          >
+            {ACTIONS.filter(action => action !== 'phrase').map(action => (
+              <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Add rule */}
+        <div className="emote-speech-controls__group">
+          <label className="emote-speech-controls__label" htmlFor="emote-name-input">
+            Emote rules
+          </label>
+          <div className="emote-speech-controls__input-group">
+            <input
+              id="emote-name-input"
+              type="text"
+              value={newEmote}
+              onChange={(event) => setNewEmote(event.target.value)}
+              onKeyDown={handleKeyDown}
+              className="emote-speech-controls__input"
+              placeholder="Emote name, e.g. Kappa"
+            />
+            <select
+              aria-label="Emote action"
+              value={newAction}
+              onChange={(event) => setNewAction(event.target.value as EmoteSpeechAction)}
+              className="emote-speech-controls__select"
+            >
+              {ACTIONS.map(action => (
+                <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            {newAction === 'phrase' && (
+              <input
+                type="text"
+                aria-label="Custom phrase"
+                value={newPhrase}
+                onChange={(event) => setNewPhrase(event.target.value)}
+                onKeyDown={handleKeyDown}
+                className="emote-speech-controls__input"
+                placeholder="e.g. kappa face"
+              />
+            )}
+            <button
+              onClick={handleAddRule}
+              disabled={!canAdd}
+              className="emote-speech-controls__button emote-speech-controls__button--add"
+            >
+              Add
+            </button>
+          </div>
+
+          {/* Rule list */}
+          {rules.length > 0 ? (
+            <ul className="emote-speech-controls__list">
+              {rules.map(rule => (
+                <li key={rule.emote} className="emote-speech-controls__item">
+                  <span className="emote-speech-controls__emote">{rule.emote}</span>
+                  <span className="emote-speech-controls__action">
+                    {rule.action === 'phrase' ? `"${rule.phrase}"` : ACTION_LABELS[rule.action]}
+                  </span>
+                  <button
+                    onClick={() => handleRemoveRule(rule.emote)}
+                    className="emote-speech-controls__button emote-speech-controls__button--remove"
+                    title={`Remove rule for ${rule.emote}`}
+                  >
+                    ❌
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="emote-speech-controls__empty-state">No emote rules</div>
+          )}
+
+          <p className="emote-speech-controls__description">
+            Rules match Twitch emotes by exact name. "Collapse repeats" reads "LUL LUL LUL" as "LUL times three"
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,20 @@
 import React, { useState, useCallback } from 'react';
 import { useTTSSettings } from '../contexts/TTSContext';
+import type { SpamFilterSettings } from '../types';
 import './FilterControls.css';
 
+/**
+ * Spam detection thresholds, each a whole number of the given unit
+ */
+const SPAM_THRESHOLDS: { key: Exclude<keyof SpamFilterSettings, 'enabled' | 'similarityThreshold'>; label: string; suffix: string }[] = [
+  { key: 'duplicateWindowSeconds', label: 'Duplicate window', suffix: 'seconds' },
+  { key: 'copypastaMinLength', label: 'Copypasta length', suffix: 'characters' },
+  { key: 'copypastaWindowSeconds', label: 'Copypasta window', suffix: 'seconds' },
+  { key: 'maxRepeatedChars', label: 'Longest repeated run', suffix: 'characters' },
+  { key: 'maxCombiningMarks', label: 'Stacked accent marks', suffix: 'per letter' },
+  { key: 'maxArtSymbols', label: 'Drawing symbols', suffix: 'per message' },
+];
+
 /**
  * Filter Controls component for managing message filtering preferences
  * Requirements: 6.1, 6.2, 6.3, 6.4
@@ -23,6 +36,11 @@ export function FilterControls() {
     updateSettings({ skipEmoteOnly: !settings.skipEmoteOnly });
   }, [settings.skipEmoteOnly, updateSettings]);
 
+  // Update spam detection settings
+  const updateSpamFilter = useCallback((changes: Partial<SpamFilterSettings>) => {
+    updateSettings({ spamFilter: { ...settings.spamFilter, ...changes } });
+  }, [settings.spamFilter, updateSettings]);
+
   // Handle minimum message length change with validation
   const handleMinLengthChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
@@ -145,7 +163,67 @@ export function FilterControls() {
             </label>
           </div>
           <p className="filter-controls__description">
-            Skip messages that appear to contain only emotes
+            Skip messages that contain only Twitch emotes
+          </p>
+        </div>
+
+        {/* Spam Detection */}
+        <div className="filter-controls__group">
+          <div className="filter-controls__toggle">
+            <label className="filter-controls__toggle-label">
+              <input
+                type="checkbox"
+                checked={settings.spamFilter.enabled}
+                onChange={() => updateSpamFilter({ enabled: !settings.spamFilter.enabled })}
+                className="filter-controls__toggle-input"
+              />
+              <span className="filter-controls__toggle-slider"></span>
+              <span className="filter-controls__toggle-text">
+                Skip spam and repeated messages
+              </span>
+            </label>
+          </div>
+          <div className="filter-controls__thresholds">
+            <label className="filter-controls__threshold">
+              <span className="filter-controls__threshold-label">Duplicate similarity</span>
+              <span className="filter-controls__input-group">
+                <input
+                  type="number"
+                  aria-label="Duplicate similarity"
+                  min="0"
+                  max="100"
+                  value={Math.round(settings.spamFilter.similarityThreshold * 100)}
+                  onChange={(event) => updateSpamFilter({
+                    similarityThreshold: Math.min(100, Math.max(0, parseInt(event.target.value, 10) || 0)) / 100
+                  })}
+                  disabled={!settings.spamFilter.enabled}
+                  className="filter-controls__input"
+                />
+                <span className="filter-controls__input-suffix">%</span>
+              </span>
+            </label>
+            {SPAM_THRESHOLDS.map(({ key, label, suffix }) => (
+              <label key={key} className="filter-controls__threshold">
+                <span className="filter-controls__threshold-label">{label}</span>
+                <span className="filter-controls__input-group">
+                  <input
+                    type="number"
+                    aria-label={label}
+                    min="0"
+                    value={settings.spamFilter[key]}
+                    onChange={(event) => updateSpamFilter({ [key]: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+                    disabled={!settings.spamFilter.enabled}
+                    className="filter-controls__input"
+                  />
+                  <span className="filter-controls__input-suffix">{suffix}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <p className="filter-controls__description">
+            Skip messages this similar to one sent in the duplicate window, long copypastas posted again
+            in the copypasta window, and messages with long repeated runs, Zalgo text or ASCII art.
+            A limit of 0 turns that check off. The queue shows the latest skipped message and why
           </p>
         </div>
 
@@ -252,6 +330,12 @@ export function FilterControls() {
                 Emote-only messages filtered
               </li>
             )}
+            {settings.spamFilter.enabled && (
+              <li className="filter-controls__summary-item">
+                <span className="filter-controls__summary-icon">🧹</span>
+                Spam and repeated messages filtered
+              </li>
+            )}
             <li className="filter-controls__summary-item">
               <span className="filter-controls__summary-icon">📏</span>
               Messages under {settings.minMessageLength} characters filtered
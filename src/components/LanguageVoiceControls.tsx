@@ -0,0 +1,86 @@
+import React, { useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { DETECTABLE_LANGUAGES, LANGUAGE_NAMES, voiceSpeaksLanguage } from '../utils/languageDetection';
+import './LanguageVoiceControls.css';
+
+/**
+ * Language Voice Controls component for reading each message with a voice speaking its language
+ * Requirements: 2.1, 3.1
+ */
+export function LanguageVoiceControls() {
+  const { settings, updateSettings, availableVoices } = useTTSSettings();
+  const { languageDetection } = settings;
+
+  // Handle detection toggle
+  const handleToggle = useCallback(() => {
+    updateSettings({ languageDetection: { ...languageDetection, enabled: !languageDetection.enabled } });
+  }, [languageDetection, updateSettings]);
+
+  // Choose the preferred voice for a language, empty uses any voice speaking it
+  const handleVoiceChange = useCallback((language: string, event: React.ChangeEvent<HTMLSelectElement>) => {
+    const preferredVoices = { ...languageDetection.preferredVoices };
+    if (event.target.value) {
+      preferredVoices[language] = event.target.value;
+    } else {
+      delete preferredVoices[language];
+    }
+    updateSettings({ languageDetection: { ...languageDetection, preferredVoices } });
+  }, [languageDetection, updateSettings]);
+
+  return (
+    <div className="language-voice-controls">
+      <div className="language-voice-controls__header">
+        <h3 className="language-voice-controls__title">Languages</h3>
+      </div>
+
+      <div className="language-voice-controls__content">
+        <div className="language-voice-controls__group">
+          <label className="language-voice-controls__toggle">
+            <input
+              type="checkbox"
+              checked={languageDetection.enabled}
+              onChange={handleToggle}
+            />
+            Detect each message's language and read it with a matching voice
+          </label>
+        </div>
+
+        <ul className="language-voice-controls__list">
+          {DETECTABLE_LANGUAGES.map(language => {
+            const name = LANGUAGE_NAMES[language];
+            const voices = availableVoices.filter(voice => voiceSpeaksLanguage(voice, language));
+
+            return (
+              <li key={language} className="language-voice-controls__item">
+                <label className="language-voice-controls__label" htmlFor={`language-voice-${language}`}>
+                  {name}
+                </label>
+                <select
+                  id={`language-voice-${language}`}
+                  value={languageDetection.preferredVoices[language] ?? ''}
+                  onChange={(event) => handleVoiceChange(language, event)}
+                  disabled={!languageDetection.enabled || voices.length === 0}
+                  className="language-voice-controls__select"
+                >
+                  <option value="">
+                    {voices.length > 0 ? `Any ${name} voice` : `No ${name} voice installed`}
+                  </option>
+                  {voices.map(voice => (
+                    <option key={`${voice.name}-${voice.lang}`} value={voice.name}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className="language-voice-controls__description">
+          Short messages and messages mixing languages keep the usual voice, as do viewers who picked
+          their own voice with !voice
+        </p>
+      </div>
+    </div>
+  );
+}
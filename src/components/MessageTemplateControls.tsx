@@ -0,0 +1,173 @@
+import React, { useCallback, useState } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { DETECTABLE_LANGUAGES, LANGUAGE_NAMES } from '../utils/languageDetection';
+import { SPOKEN_EVENT_LABELS, SPOKEN_EVENT_TYPES, TEMPLATE_PLACEHOLDERS } from '../utils/messageTemplates';
+import { setNickname } from '../utils/nicknames';
+import type { SpokenEventType } from '../types';
+import './MessageTemplateControls.css';
+
+/**
+ * Editing the default templates rather than a single language's
+ */
+const ALL_LANGUAGES = '';
+
+/**
+ * Message Template Controls component for saying who is talking before each message
+ * Requirements: 2.4, 3.1
+ */
+export function MessageTemplateControls() {
+  const { settings, updateSettings } = useTTSSettings();
+  const { messageTemplates, nicknames } = settings;
+  const [language, setLanguage] = useState(ALL_LANGUAGES);
+
+  const handleToggle = useCallback(() => {
+    updateSettings({ messageTemplates: { ...messageTemplates, enabled: !messageTemplates.enabled } });
+  }, [messageTemplates, updateSettings]);
+
+  const handleSkipRepeatedNameToggle = useCallback(() => {
+    updateSettings({
+      messageTemplates: { ...messageTemplates, skipRepeatedName: !messageTemplates.skipRepeatedName }
+    });
+  }, [messageTemplates, updateSettings]);
+
+  const handleAutoCleanToggle = useCallback(() => {
+    updateSettings({ autoCleanNames: !settings.autoCleanNames });
+  }, [settings.autoCleanNames, updateSettings]);
+
+  const handleRemoveNickname = useCallback((username: string) => {
+    updateSettings({ nicknames: setNickname(nicknames, username, null) });
+  }, [nicknames, updateSettings]);
+
+  // Edit a default template, or a language's own template where empty falls back to the default
+  const handleTemplateChange = useCallback((eventType: SpokenEventType, event: React.ChangeEvent<HTMLInputElement>) => {
+    const template = event.target.value;
+
+    if (language === ALL_LANGUAGES) {
+      updateSettings({
+        messageTemplates: { ...messageTemplates, templates: { ...messageTemplates.templates, [eventType]: template } }
+      });
+      return;
+    }
+
+    const languageTemplates = { ...messageTemplates.languageTemplates[language] };
+    if (template) {
+      languageTemplates[eventType] = template;
+    } else {
+      delete languageTemplates[eventType];
+    }
+    updateSettings({
+      messageTemplates: {
+        ...messageTemplates,
+        languageTemplates: { ...messageTemplates.languageTemplates, [language]: languageTemplates }
+      }
+    });
+  }, [language, messageTemplates, updateSettings]);
+
+  return (
+    <div className="message-template-controls">
+      <div className="message-template-controls__header">
+        <h3 className="message-template-controls__title">Spoken Templates</h3>
+      </div>
+
+      <div className="message-template-controls__content">
+        <div className="message-template-controls__group">
+          <label className="message-template-controls__toggle">
+            <input
+              type="checkbox"
+              checked={messageTemplates.enabled}
+              onChange={handleToggle}
+            />
+            Say who is talking before each message
+          </label>
+          <label className="message-template-controls__toggle">
+            <input
+              type="checkbox"
+              checked={messageTemplates.skipRepeatedName}
+              onChange={handleSkipRepeatedNameToggle}
+              disabled={!messageTemplates.enabled}
+            />
+            Skip the name when the same chatter speaks again
+          </label>
+        </div>
+
+        <div className="message-template-controls__group">
+          <label className="message-template-controls__label" htmlFor="message-template-language">
+            Templates for
+          </label>
+          <select
+            id="message-template-language"
+            value={language}
+            onChange={(event) => setLanguage(event.target.value)}
+            className="message-template-controls__select"
+          >
+            <option value={ALL_LANGUAGES}>All languages</option>
+            {DETECTABLE_LANGUAGES.map(code => (
+              <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+            ))}
+          </select>
+        </div>
+
+        <ul className="message-template-controls__list">
+          {SPOKEN_EVENT_TYPES.map(eventType => (
+            <li key={eventType} className="message-template-controls__item">
+              <label className="message-template-controls__label" htmlFor={`message-template-${eventType}`}>
+                {SPOKEN_EVENT_LABELS[eventType]}
+              </label>
+              <input
+                id={`message-template-${eventType}`}
+                type="text"
+                value={language === ALL_LANGUAGES
+                  ? messageTemplates.templates[eventType]
+                  : messageTemplates.languageTemplates[language]?.[eventType] ?? ''}
+                onChange={(event) => handleTemplateChange(eventType, event)}
+                disabled={!messageTemplates.enabled}
+                className="message-template-controls__input"
+                placeholder={messageTemplates.templates[eventType]}
+              />
+            </li>
+          ))}
+        </ul>
+
+        {/* Names */}
+        <div className="message-template-controls__group">
+          <label className="message-template-controls__toggle">
+            <input
+              type="checkbox"
+              checked={settings.autoCleanNames}
+              onChange={handleAutoCleanToggle}
+            />
+            Clean up names, e.g. read xX_d4rkL0rd_Xx as "Dark Lord"
+          </label>
+          <span className="message-template-controls__label">Nicknames</span>
+          {Object.keys(nicknames).length > 0 ? (
+            <ul className="message-template-controls__nicknames">
+              {Object.entries(nicknames).map(([username, nickname]) => (
+                <li key={username} className="message-template-controls__nickname">
+                  <span className="message-template-controls__username">{username}</span>
+                  <span className="message-template-controls__arrow">→</span>
+                  <span className="message-template-controls__spoken">"{nickname}"</span>
+                  <button
+                    onClick={() => handleRemoveNickname(username)}
+                    className="message-template-controls__button"
+                    title={`Remove nickname for ${username}`}
+                  >
+                    ❌
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="message-template-controls__empty-state">
+              Set nicknames from a chatter's name in chat or with !tts nick
+            </div>
+          )}
+        </div>
+
+        <p className="message-template-controls__description">
+          Placeholders: {TEMPLATE_PLACEHOLDERS.map(placeholder => `{${placeholder}}`).join(' ')}.
+          Language templates are used when language detection is on, empty ones use the template for all languages
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import React, { useCallback, useState } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { NORMALIZER_STAGES, normalizeText } from '../utils/normalizers';
+import { getEmojiKey, getEmojiName } from '../utils/normalizers/emoji';
+import type { EmojiMode, MentionMode, NormalizerStageId } from '../types';
+import './NormalizationControls.css';
+
+/**
+ * Labels for each way of reading @mentions
+ */
+const MENTION_MODE_LABELS: Record<MentionMode, string> = {
+  name: 'Name only',
+  at: '"at" and the name',
+  drop: 'Leave out',
+};
+
+const MENTION_MODES = Object.keys(MENTION_MODE_LABELS) as MentionMode[];
+
+/**
+ * Labels for each way of reading emoji
+ */
+const EMOJI_MODE_LABELS: Record<EmojiMode, string> = {
+  speak: 'Each one by name',
+  dedupe: 'Repeats once with a count',
+  drop: 'Leave out',
+};
+
+const EMOJI_MODES = Object.keys(EMOJI_MODE_LABELS) as EmojiMode[];
+
+const MIN_MAX_LENGTH = 20;
+const MAX_MAX_LENGTH = 500;
+
+/**
+ * Normalization Controls component for choosing how message text is prepared for speech
+ * Requirements: 2.4, 3.1
+ */
+export function NormalizationControls() {
+  const { settings, updateSettings } = useTTSSettings();
+  const { normalization } = settings;
+  const [preview, setPreview] = useState('@huikka check https://www.youtube.com/x 🔥🔥🔥 loooool 2nd!!!');
+  const [emoji, setEmoji] = useState('');
+  const [emojiName, setEmojiName] = useState('');
+
+  const emojiKey = getEmojiKey(emoji.trim());
+
+  // Turn a single stage on or off
+  const handleStageToggle = useCallback((id: NormalizerStageId) => {
+    updateSettings({
+      normalization: {
+        ...normalization,
+        stages: { ...normalization.stages, [id]: !normalization.stages[id] }
+      }
+    });
+  }, [normalization, updateSettings]);
+
+  const handleMentionModeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    updateSettings({ normalization: { ...normalization, mentionMode: event.target.value as MentionMode } });
+  }, [normalization, updateSettings]);
+
+  const handleEmojiModeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    updateSettings({ normalization: { ...normalization, emojiMode: event.target.value as EmojiMode } });
+  }, [normalization, updateSettings]);
+
+  // Add or replace the name of an emoji, an empty name keeps it silent
+  const handleAddEmojiName = useCallback(() => {
+    if (!emojiKey) {
+      return;
+    }
+
+    updateSettings({
+      normalization: {
+        ...normalization,
+        emojiOverrides: { ...normalization.emojiOverrides, [emojiKey]: emojiName.trim() }
+      }
+    });
+
+    setEmoji('');
+    setEmojiName('');
+  }, [emojiKey, emojiName, normalization, updateSettings]);
+
+  const handleRemoveEmojiName = useCallback((key: string) => {
+    const emojiOverrides = { ...normalization.emojiOverrides };
+    delete emojiOverrides[key];
+    updateSettings({ normalization: { ...normalization, emojiOverrides } });
+  }, [normalization, updateSettings]);
+
+  // Handle Enter key in the emoji name inputs
+  const handleEmojiKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleAddEmojiName();
+    }
+  }, [handleAddEmojiName]);
+
+  // Ignore values outside the allowed range while typing
+  const handleMaxLengthChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const maxLength = parseInt(event.target.value, 10);
+    if (!isNaN(maxLength) && maxLength >= MIN_MAX_LENGTH && maxLength <= MAX_MAX_LENGTH) {
+      updateSettings({ normalization: { ...normalization, maxLength } });
+    }
+  }, [normalization, updateSettings]);
+
+  return (
+    <div className="normalization-controls">
+      <div className="normalization-controls__header">
+        <h3 className="normalization-controls__title">Text Cleanup</h3>
+      </div>
+
+      <div className="normalization-controls__content">
+        <ul className="normalization-controls__list">
+          {NORMALIZER_STAGES.map(stage => (
+            <li key={stage.id} className="normalization-controls__item">
+              <label className="normalization-controls__toggle">
+                <input
+                  type="checkbox"
+                  checked={normalization.stages[stage.id]}
+                  onChange={() => handleStageToggle(stage.id)}
+                />
+                {stage.label}
+              </label>
+              <span className="normalization-controls__description">{stage.description}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="normalization-controls__group">
+          <label className="normalization-controls__label" htmlFor="normalization-mention-mode">
+            Read mentions as
+          </label>
+          <select
+            id="normalization-mention-mode"
+            value={normalization.mentionMode}
+            onChange={handleMentionModeChange}
+            disabled={!normalization.stages.mentions}
+            className="normalization-controls__select"
+          >
+            {MENTION_MODES.map(mode => (
+              <option key={mode} value={mode}>{MENTION_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="normalization-controls__group">
+          <label className="normalization-controls__label" htmlFor="normalization-emoji-mode">
+            Read emoji
+          </label>
+          <select
+            id="normalization-emoji-mode"
+            value={normalization.emojiMode}
+            onChange={handleEmojiModeChange}
+            disabled={!normalization.stages.emoji}
+            className="normalization-controls__select"
+          >
+            {EMOJI_MODES.map(mode => (
+              <option key={mode} value={mode}>{EMOJI_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Emoji names */}
+        <div className="normalization-controls__group">
+          <label className="normalization-controls__label" htmlFor="normalization-emoji">
+            Emoji names
+          </label>
+          <div className="normalization-controls__input-group">
+            <input
+              id="normalization-emoji"
+              type="text"
+              value={emoji}
+              onChange={(event) => setEmoji(event.target.value)}
+              onKeyDown={handleEmojiKeyDown}
+              className="normalization-controls__input normalization-controls__input--emoji"
+              placeholder="🐐"
+            />
+            <input
+              type="text"
+              aria-label="Emoji name"
+              value={emojiName}
+              onChange={(event) => setEmojiName(event.target.value)}
+              onKeyDown={handleEmojiKeyDown}
+              className="normalization-controls__input"
+              placeholder={(emojiKey && getEmojiName(emojiKey)) || 'Name, empty to stay silent'}
+            />
+            <button
+              onClick={handleAddEmojiName}
+              disabled={!emojiKey}
+              className="normalization-controls__button"
+            >
+              Add
+            </button>
+          </div>
+          {Object.keys(normalization.emojiOverrides).length > 0 && (
+            <ul className="normalization-controls__overrides">
+              {Object.entries(normalization.emojiOverrides).map(([key, name]) => (
+                <li key={key} className="normalization-controls__override">
+                  <span className="normalization-controls__emoji">{key}</span>
+                  <span className="normalization-controls__arrow">→</span>
+                  <span className="normalization-controls__name">{name ? `"${name}"` : 'silent'}</span>
+                  <button
+                    onClick={() => handleRemoveEmojiName(key)}
+                    className="normalization-controls__button normalization-controls__button--remove"
+                    title={`Remove name for ${key}`}
+                  >
+                    ❌
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="normalization-controls__group">
+          <label className="normalization-controls__label" htmlFor="normalization-max-length">
+            Maximum length
+          </label>
+          <input
+            id="normalization-max-length"
+            type="number"
+            min={MIN_MAX_LENGTH}
+            max={MAX_MAX_LENGTH}
+            value={normalization.maxLength}
+            onChange={handleMaxLengthChange}
+            disabled={!normalization.stages.maxLength}
+            className="normalization-controls__input"
+          />
+        </div>
+
+        {/* Live preview */}
+        <div className="normalization-controls__group">
+          <label className="normalization-controls__label" htmlFor="normalization-preview">
+            Preview
+          </label>
+          <input
+            id="normalization-preview"
+            type="text"
+            value={preview}
+            onChange={(event) => setPreview(event.target.value)}
+            className="normalization-controls__input"
+          />
+          <output className="normalization-controls__preview" htmlFor="normalization-preview">
+            {normalizeText(preview, normalization)}
+          </output>
+        </div>
+
+        <p className="normalization-controls__description">
+          Steps run from top to bottom after emotes and substitutions. Numbers are only spelled out in English,
+          emoji are named in English or Finnish
+        </p>
+      </div>
+    </div>
+  );
+}
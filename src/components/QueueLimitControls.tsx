@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { OVERFLOW_POLICIES, OVERFLOW_POLICY_LABELS, SUGGESTED_QUEUE_LIMIT_SETTINGS } from '../utils/queueLimit';
+import type { OverflowPolicy, QueueLimitSettings } from '../types';
+import './QueueLimitControls.css';
+
+/**
+ * Queue Limit Controls component for bounding the queue during raids and skipping stale messages
+ * Requirements: 3.1, 4.1
+ */
+export function QueueLimitControls() {
+  const { settings, updateSettings } = useTTSSettings();
+  const { queueLimit } = settings;
+
+  const updateLimit = useCallback((changes: Partial<QueueLimitSettings>) => {
+    updateSettings({ queueLimit: { ...queueLimit, ...changes } });
+  }, [queueLimit, updateSettings]);
+
+  return (
+    <div className="queue-limit-controls">
+      <div className="queue-limit-controls__header">
+        <h3 className="queue-limit-controls__title">Limits</h3>
+      </div>
+
+      <div className="queue-limit-controls__content">
+        <div className="queue-limit-controls__group">
+          <label className="queue-limit-controls__label" htmlFor="queue-limit-max-length">
+            Most messages waiting
+          </label>
+          <input
+            id="queue-limit-max-length"
+            type="number"
+            min={0}
+            max={500}
+            value={queueLimit.maxLength}
+            onChange={(event) => updateLimit({ maxLength: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+            className="queue-limit-controls__input"
+          />
+        </div>
+
+        <div className="queue-limit-controls__group">
+          <label className="queue-limit-controls__label" htmlFor="queue-limit-policy">
+            When the queue is full
+          </label>
+          <select
+            id="queue-limit-policy"
+            value={queueLimit.overflowPolicy}
+            onChange={(event) => updateLimit({ overflowPolicy: event.target.value as OverflowPolicy })}
+            disabled={queueLimit.maxLength === 0}
+            className="queue-limit-controls__select"
+          >
+            {OVERFLOW_POLICIES.map(policy => (
+              <option key={policy} value={policy}>{OVERFLOW_POLICY_LABELS[policy]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="queue-limit-controls__group">
+          <label className="queue-limit-controls__label" htmlFor="queue-limit-max-age">
+            Skip messages older than (seconds)
+          </label>
+          <input
+            id="queue-limit-max-age"
+            type="number"
+            min={0}
+            max={3600}
+            value={queueLimit.maxAgeSeconds}
+            onChange={(event) => updateLimit({ maxAgeSeconds: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+            className="queue-limit-controls__input"
+          />
+        </div>
+
+        <button
+          type="button"
+          onClick={() => updateLimit(SUGGESTED_QUEUE_LIMIT_SETTINGS)}
+          className="queue-limit-controls__button"
+        >
+          Use raid limits ({SUGGESTED_QUEUE_LIMIT_SETTINGS.maxLength} messages, {SUGGESTED_QUEUE_LIMIT_SETTINGS.maxAgeSeconds} seconds)
+        </button>
+
+        <p className="queue-limit-controls__description">
+          Both are off by default, so every message waits until it is read. The message being spoken does not
+          count towards the limit. Set either to 0 to let the queue grow without limit or keep messages until
+          they are read
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import {
+  PRIORITY_CONDITIONS,
+  PRIORITY_CONDITION_LABELS,
+  createPriorityTierId,
+  movePriorityTier,
+} from '../utils/queuePriority';
+import type { PriorityCondition, PriorityTier, QueuePrioritySettings } from '../types';
+import './QueuePriorityControls.css';
+
+/**
+ * Queue Priority Controls component for ordering the queue by priority tiers
+ * Requirements: 3.1, 4.1
+ */
+export function QueuePriorityControls() {
+  const { settings, updateSettings } = useTTSSettings();
+  const { queuePriority } = settings;
+  const { tiers } = queuePriority;
+  const disabled = !queuePriority.enabled;
+
+  const updatePriority = useCallback((changes: Partial<QueuePrioritySettings>) => {
+    updateSettings({ queuePriority: { ...queuePriority, ...changes } });
+  }, [queuePriority, updateSettings]);
+
+  // Update a single tier
+  const updateTier = useCallback((id: string, changes: Partial<PriorityTier>) => {
+    updatePriority({ tiers: tiers.map(tier => (tier.id === id ? { ...tier, ...changes } : tier)) });
+  }, [tiers, updatePriority]);
+
+  // Turn a condition on or off for a tier
+  const toggleCondition = useCallback((tier: PriorityTier, condition: PriorityCondition) => {
+    const conditions = tier.conditions.includes(condition)
+      ? tier.conditions.filter(existing => existing !== condition)
+      : [...tier.conditions, condition];
+    updateTier(tier.id, { conditions });
+  }, [updateTier]);
+
+  // Add a tier at the bottom, it matches everyone until conditions are picked
+  const handleAddTier = useCallback(() => {
+    const tier: PriorityTier = { id: createPriorityTierId(), label: `Tier ${tiers.length + 1}`, conditions: [] };
+    updatePriority({ tiers: [...tiers, tier] });
+  }, [tiers, updatePriority]);
+
+  return (
+    <div className="queue-priority-controls">
+      <div className="queue-priority-controls__header">
+        <h3 className="queue-priority-controls__title">Priorities</h3>
+      </div>
+
+      <div className="queue-priority-controls__content">
+        <div className="queue-priority-controls__group">
+          <label className="queue-priority-controls__toggle">
+            <input
+              type="checkbox"
+              checked={queuePriority.enabled}
+              onChange={() => updatePriority({ enabled: !queuePriority.enabled })}
+            />
+            Read messages from higher tiers first
+          </label>
+          <label className="queue-priority-controls__toggle">
+            Move waiting messages up a tier every
+            <input
+              type="number"
+              aria-label="Aging interval in seconds"
+              min={0}
+              max={600}
+              value={queuePriority.agingSeconds}
+              onChange={(event) => updatePriority({ agingSeconds: Math.max(0, parseInt(event.target.value, 10) || 0) })}
+              disabled={disabled}
+              className="queue-priority-controls__input queue-priority-controls__input--number"
+            />
+            seconds
+          </label>
+        </div>
+
+        <ol className="queue-priority-controls__list">
+          {tiers.map((tier, index) => (
+            <li key={tier.id} className="queue-priority-controls__tier">
+              <div className="queue-priority-controls__tier-header">
+                <input
+                  type="text"
+                  aria-label={`Tier ${index + 1} name`}
+                  value={tier.label}
+                  onChange={(event) => updateTier(tier.id, { label: event.target.value })}
+                  disabled={disabled}
+                  className="queue-priority-controls__input"
+                />
+                <button
+                  type="button"
+                  onClick={() => updatePriority({ tiers: movePriorityTier(tiers, tier.id, -1) })}
+                  disabled={disabled || index === 0}
+                  aria-label={`Move ${tier.label} up`}
+                  className="queue-priority-controls__button"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updatePriority({ tiers: movePriorityTier(tiers, tier.id, 1) })}
+                  disabled={disabled || index === tiers.length - 1}
+                  aria-label={`Move ${tier.label} down`}
+                  className="queue-priority-controls__button"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updatePriority({ tiers: tiers.filter(existing => existing.id !== tier.id) })}
+                  disabled={disabled}
+                  title={`Remove ${tier.label}`}
+                  className="queue-priority-controls__button"
+                >
+                  ❌
+                </button>
+              </div>
+
+              <div className="queue-priority-controls__conditions">
+                {PRIORITY_CONDITIONS.map(condition => (
+                  <label key={condition} className="queue-priority-controls__condition">
+                    <input
+                      type="checkbox"
+                      checked={tier.conditions.includes(condition)}
+                      onChange={() => toggleCondition(tier, condition)}
+                      disabled={disabled}
+                    />
+                    {PRIORITY_CONDITION_LABELS[condition]}
+                  </label>
+                ))}
+                {tier.conditions.includes('bits') && (
+                  <label className="queue-priority-controls__condition">
+                    at least
+                    <input
+                      type="number"
+                      aria-label={`Smallest cheer for ${tier.label}`}
+                      min={1}
+                      value={tier.minBits ?? 1}
+                      onChange={(event) => updateTier(tier.id, { minBits: Math.max(1, parseInt(event.target.value, 10) || 1) })}
+                      disabled={disabled}
+                      className="queue-priority-controls__input queue-priority-controls__input--number"
+                    />
+                    bits
+                  </label>
+                )}
+              </div>
+              {tier.conditions.length === 0 && (
+                <div className="queue-priority-controls__hint">Matches everyone</div>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <button
+          type="button"
+          onClick={handleAddTier}
+          disabled={disabled}
+          className="queue-priority-controls__button queue-priority-controls__button--add"
+        >
+          Add tier
+        </button>
+
+        <p className="queue-priority-controls__description">
+          Each message joins the first tier it matches. Messages matching no tier wait behind all tiers,
+          and an aging interval of 0 never moves them up
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useTTSQueue } from '../contexts/TTSContext';
+import { LANGUAGE_NAMES } from '../utils/languageDetection';
 import './QueueStatus.css';
 
 /**
@@ -29,9 +30,13 @@ export function QueueStatus({
   showControls = true 
 }: QueueStatusProps) {
   const {
+    queue,
     currentItem,
     isProcessing,
+    isPaused,
     queueCount,
+    droppedCount,
+    lastRejected,
     isEmpty,
     actions
   } = useTTSQueue();
@@ -48,6 +53,20 @@ export function QueueStatus({
     <div className={`queue-status ${className}`}>
       <div className="queue-status__header">
         <h3 className="queue-status__title">TTS Queue</h3>
+        {isPaused && (
+          <div className="queue-status__paused">
+            <span className="queue-status__paused-label">Paused</span>
+            {showControls && (
+              <button
+                className="queue-status__resume-button"
+                onClick={actions.resumeQueue}
+                title="Resume speaking queued messages"
+              >
+                Resume
+              </button>
+            )}
+          </div>
+        )}
         <div className="queue-status__count">
           <span className="queue-status__count-number">{queueCount}</span>
           <span className="queue-status__count-label">
@@ -85,6 +104,19 @@ export function QueueStatus({
             <div className="queue-status__current-message">
               <div className="queue-status__current-user">
                 {currentItem.message.username}
+                {currentItem.tier && (
+                  <span className="queue-status__tier" title="Priority tier">
+                    {currentItem.tier}
+                  </span>
+                )}
+                {currentItem.language && (
+                  <span
+                    className="queue-status__language"
+                    title={`Detected language: ${LANGUAGE_NAMES[currentItem.language] ?? currentItem.language}`}
+                  >
+                    {currentItem.language.toUpperCase()}
+                  </span>
+                )}
               </div>
               <div className="queue-status__current-text">
                 {formatCurrentMessage(currentItem.message.message)}
@@ -104,12 +136,28 @@ export function QueueStatus({
         {/* Queue Count and Status */}
         <div className="queue-status__info">
           {queueCount > 0 ? (
-            <div className="queue-status__pending">
-              <div className="queue-status__pending-icon">⏳</div>
-              <div className="queue-status__pending-text">
-                {queueCount} message{queueCount !== 1 ? 's' : ''} waiting
+            <>
+              <div className="queue-status__pending">
+                <div className="queue-status__pending-icon">⏳</div>
+                <div className="queue-status__pending-text">
+                  {queueCount} message{queueCount !== 1 ? 's' : ''} waiting
+                </div>
               </div>
-            </div>
+              {/* Waiting messages in the order they will be spoken */}
+              <ol className="queue-status__list" aria-label="Waiting messages">
+                {queue.map(item => (
+                  <li key={item.id} className="queue-status__item">
+                    <span className="queue-status__item-user">{item.message.username}</span>
+                    {item.tier && (
+                      <span className="queue-status__tier" title="Priority tier">{item.tier}</span>
+                    )}
+                    <span className="queue-status__item-text">
+                      {formatCurrentMessage(item.message.message, 40)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </>
           ) : (
             !currentItem && (
               <div className="queue-status__empty-state">
@@ -122,6 +170,20 @@ export function QueueStatus({
           )}
         </div>
 
+        {/* Messages dropped from a full queue */}
+        {droppedCount > 0 && (
+          <div className="queue-status__dropped" title="Dropped because the queue was full">
+            {droppedCount} message{droppedCount !== 1 ? 's' : ''} dropped
+          </div>
+        )}
+
+        {/* Latest message the filters skipped, and why */}
+        {lastRejected && (
+          <div className="queue-status__rejected" title="Latest message not read">
+            Skipped {lastRejected.message.displayName || lastRejected.message.username}: {lastRejected.reason}
+          </div>
+        )}
+
         {/* Queue Controls */}
         {showControls && (queueCount > 0 || currentItem) && (
           <div className="queue-status__controls">
@@ -0,0 +1,122 @@
+import { useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { COMMAND_PERMISSIONS, PERMISSION_LABELS } from '../utils/chatCommands';
+import type { CommandPermission, UserRateLimit } from '../types';
+import './RateLimitControls.css';
+
+/**
+ * Read a whole number from a number input, never below 0
+ */
+function parseCount(value: string): number {
+  return Math.max(0, parseInt(value, 10) || 0);
+}
+
+/**
+ * Rate Limit Controls component for per-chatter limits by badge tier
+ * Requirements: 3.1, 4.1
+ */
+export function RateLimitControls() {
+  const { settings, updateSettings } = useTTSSettings();
+  const { rateLimits } = settings;
+  const disabled = !rateLimits.enabled;
+
+  // Update the limits of one tier
+  const updateLimit = useCallback((permission: CommandPermission, changes: Partial<UserRateLimit>) => {
+    updateSettings({
+      rateLimits: {
+        ...rateLimits,
+        limits: { ...rateLimits.limits, [permission]: { ...rateLimits.limits[permission], ...changes } }
+      }
+    });
+  }, [rateLimits, updateSettings]);
+
+  return (
+    <div className="rate-limit-controls">
+      <div className="rate-limit-controls__header">
+        <h3 className="rate-limit-controls__title">Rate Limits</h3>
+      </div>
+
+      <div className="rate-limit-controls__content">
+        <label className="rate-limit-controls__toggle">
+          <input
+            type="checkbox"
+            checked={rateLimits.enabled}
+            onChange={() => updateSettings({ rateLimits: { ...rateLimits, enabled: !rateLimits.enabled } })}
+          />
+          Limit how often each chatter is read
+        </label>
+
+        <table className="rate-limit-controls__table">
+          <thead>
+            <tr>
+              <th scope="col">Tier</th>
+              <th scope="col">Messages</th>
+              <th scope="col">Per (seconds)</th>
+              <th scope="col">Cooldown (seconds)</th>
+              <th scope="col">One waiting</th>
+            </tr>
+          </thead>
+          <tbody>
+            {COMMAND_PERMISSIONS.map(permission => {
+              const label = PERMISSION_LABELS[permission];
+              const limit = rateLimits.limits[permission];
+
+              return (
+                <tr key={permission}>
+                  <th scope="row" className="rate-limit-controls__tier">{label}</th>
+                  <td>
+                    <input
+                      type="number"
+                      aria-label={`${label} messages per window`}
+                      min={0}
+                      value={limit.messages}
+                      onChange={(event) => updateLimit(permission, { messages: parseCount(event.target.value) })}
+                      disabled={disabled}
+                      className="rate-limit-controls__input"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      aria-label={`${label} window in seconds`}
+                      min={1}
+                      value={limit.windowSeconds}
+                      onChange={(event) => updateLimit(permission, { windowSeconds: Math.max(1, parseCount(event.target.value)) })}
+                      disabled={disabled || limit.messages === 0}
+                      className="rate-limit-controls__input"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      aria-label={`${label} cooldown in seconds`}
+                      min={0}
+                      value={limit.cooldownSeconds}
+                      onChange={(event) => updateLimit(permission, { cooldownSeconds: parseCount(event.target.value) })}
+                      disabled={disabled}
+                      className="rate-limit-controls__input"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      aria-label={`${label} may only have one message waiting`}
+                      checked={limit.onePending}
+                      onChange={() => updateLimit(permission, { onePending: !limit.onePending })}
+                      disabled={disabled}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <p className="rate-limit-controls__description">
+          Chatters get the limits of their highest badge. 0 messages or 0 seconds of cooldown turns that limit
+          off, and the cooldown starts when a message is read out
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState, useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import './SpeechEngineControls.css';
+
+/**
+ * Speech Engine Controls component for speaking through an HTTP speech server
+ * as well as the browser's own voices, and for telling when the offline voice is in use
+ * Requirements: 2.1, 3.1
+ */
+export function SpeechEngineControls() {
+  const { settings, updateSettings, availableVoices } = useTTSSettings();
+  const { httpEngine } = settings;
+
+  const [url, setUrl] = useState(httpEngine.url);
+  const serverVoiceCount = availableVoices.filter(voice => voice.engine === 'http').length;
+  const onlyOfflineVoices = availableVoices.length > 0
+    && availableVoices.every(voice => voice.engine === 'fallback');
+
+  // Handle server toggle
+  const handleToggle = useCallback(() => {
+    updateSettings({ httpEngine: { ...httpEngine, enabled: !httpEngine.enabled } });
+  }, [httpEngine, updateSettings]);
+
+  // Apply the server URL, which reloads its voices
+  const handleSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    updateSettings({ httpEngine: { ...httpEngine, url: url.trim() } });
+  }, [httpEngine, url, updateSettings]);
+
+  return (
+    <div className="speech-engine-controls">
+      <div className="speech-engine-controls__header">
+        <h3 className="speech-engine-controls__title">Speech Server</h3>
+      </div>
+
+      <div className="speech-engine-controls__content">
+        {onlyOfflineVoices && (
+          <p className="speech-engine-controls__notice" role="note">
+            This browser has no speech voices, so messages are read with the built-in offline voice
+          </p>
+        )}
+
+        <div className="speech-engine-controls__group">
+          <label className="speech-engine-controls__toggle">
+            <input
+              type="checkbox"
+              checked={httpEngine.enabled}
+              onChange={handleToggle}
+            />
+            Use voices from an HTTP speech server
+          </label>
+        </div>
+
+        <form className="speech-engine-controls__group" onSubmit={handleSubmit}>
+          <label className="speech-engine-controls__label" htmlFor="speech-server-url">
+            Server URL
+          </label>
+          <div className="speech-engine-controls__row">
+            <input
+              id="speech-server-url"
+              type="url"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              disabled={!httpEngine.enabled}
+              className="speech-engine-controls__input"
+              placeholder="http://localhost:5002"
+            />
+            <button
+              type="submit"
+              disabled={!httpEngine.enabled || url.trim() === httpEngine.url}
+              className="speech-engine-controls__button"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+
+        {httpEngine.enabled && (
+          <span className="speech-engine-controls__status" role="status">
+            {serverVoiceCount > 0
+              ? `${serverVoiceCount} server voices available`
+              : 'No voices loaded from the server'}
+          </span>
+        )}
+
+        <p className="speech-engine-controls__description">
+          Server voices are listed next to the browser's voices. The server answers GET /voices with
+          a voice list and POST /synthesize with audio
+        </p>
+      </div>
+    </div>
+  );
+}
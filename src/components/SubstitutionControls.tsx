@@ -0,0 +1,250 @@
+import React, { useState, useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import {
+  createSubstitutionId,
+  exportSubstitutions,
+  getSubstitutionError,
+  importSubstitutions,
+  mergeSubstitutions,
+  substituteMessageText,
+} from '../utils/substitutions';
+import type { SubstitutionRule, SubstitutionScope } from '../types';
+import './SubstitutionControls.css';
+
+/**
+ * Labels for each substitution scope
+ */
+const SCOPE_LABELS: Record<SubstitutionScope, string> = {
+  all: 'Everywhere',
+  usernames: 'Usernames only',
+};
+
+const SCOPES = Object.keys(SCOPE_LABELS) as SubstitutionScope[];
+
+/**
+ * Describe the flags of a rule, e.g. "regex, match case"
+ */
+function describeRule(rule: SubstitutionRule): string {
+  const flags = [
+    rule.regex && 'regex',
+    rule.caseSensitive && 'match case',
+    rule.wholeWord && 'whole word',
+    rule.scope === 'usernames' && 'usernames',
+  ].filter(Boolean);
+
+  return flags.join(', ');
+}
+
+/**
+ * Substitution Controls component for pronunciation fixes and text substitutions
+ * Requirements: 2.4, 3.1
+ */
+export function SubstitutionControls() {
+  const { settings, updateSettings } = useTTSSettings();
+
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(true);
+  const [scope, setScope] = useState<SubstitutionScope>('all');
+  const [preview, setPreview] = useState('gg @huikkakoodaa xD');
+  const [json, setJson] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const rules = settings.substitutions;
+  const findError = find ? getSubstitutionError({ find, regex, caseSensitive, wholeWord }) : null;
+  const canAdd = !!find && !findError;
+
+  // Add a rule after the existing ones
+  const handleAddRule = useCallback(() => {
+    if (!canAdd) {
+      return;
+    }
+
+    updateSettings({
+      substitutions: [
+        ...rules,
+        { id: createSubstitutionId(), find, replace, regex, caseSensitive, wholeWord, scope }
+      ]
+    });
+
+    setFind('');
+    setReplace('');
+  }, [canAdd, rules, find, replace, regex, caseSensitive, wholeWord, scope, updateSettings]);
+
+  // Remove a rule
+  const handleRemoveRule = useCallback((id: string) => {
+    updateSettings({ substitutions: rules.filter(rule => rule.id !== id) });
+  }, [rules, updateSettings]);
+
+  // Handle Enter key in the add form inputs
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleAddRule();
+    }
+  }, [handleAddRule]);
+
+  // Import rules pasted as JSON, replacing rules that find the same text
+  const handleImport = useCallback(() => {
+    try {
+      updateSettings({ substitutions: mergeSubstitutions(rules, importSubstitutions(json)) });
+      setJson('');
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import rules');
+    }
+  }, [json, rules, updateSettings]);
+
+  return (
+    <div className="substitution-controls">
+      <div className="substitution-controls__header">
+        <h3 className="substitution-controls__title">Pronunciation</h3>
+      </div>
+
+      <div className="substitution-controls__content">
+
+        {/* Add rule */}
+        <div className="substitution-controls__group">
+          <label className="substitution-controls__label" htmlFor="substitution-find">
+            Substitutions
+          </label>
+          <div className="substitution-controls__input-group">
+            <input
+              id="substitution-find"
+              type="text"
+              value={find}
+              onChange={(event) => setFind(event.target.value)}
+              onKeyDown={handleKeyDown}
+              className="substitution-controls__input"
+              placeholder="Find, e.g. gg"
+              aria-invalid={!!findError}
+            />
+            <input
+              type="text"
+              aria-label="Replace with"
+              value={replace}
+              onChange={(event) => setReplace(event.target.value)}
+              onKeyDown={handleKeyDown}
+              className="substitution-controls__input"
+              placeholder="Say, e.g. good game"
+            />
+            <button
+              onClick={handleAddRule}
+              disabled={!canAdd}
+              className="substitution-controls__button substitution-controls__button--add"
+            >
+              Add
+            </button>
+          </div>
+          <div className="substitution-controls__options">
+            <label className="substitution-controls__option">
+              <input type="checkbox" checked={regex} onChange={() => setRegex(!regex)} />
+              Regex
+            </label>
+            <label className="substitution-controls__option">
+              <input type="checkbox" checked={caseSensitive} onChange={() => setCaseSensitive(!caseSensitive)} />
+              Match case
+            </label>
+            <label className="substitution-controls__option">
+              <input type="checkbox" checked={wholeWord} onChange={() => setWholeWord(!wholeWord)} />
+              Whole word
+            </label>
+            <select
+              aria-label="Applies to"
+              value={scope}
+              onChange={(event) => setScope(event.target.value as SubstitutionScope)}
+              className="substitution-controls__select"
+            >
+              {SCOPES.map(option => (
+                <option key={option} value={option}>{SCOPE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          {findError && (
+            <div className="substitution-controls__error" role="alert">{findError}</div>
+          )}
+
+          {/* Rule list */}
+          {rules.length > 0 ? (
+            <ol className="substitution-controls__list">
+              {rules.map(rule => (
+                <li key={rule.id} className="substitution-controls__item">
+                  <span className="substitution-controls__find">{rule.find}</span>
+                  <span className="substitution-controls__arrow">→</span>
+                  <span className="substitution-controls__replace">{rule.replace ? `"${rule.replace}"` : 'nothing'}</span>
+                  <span className="substitution-controls__flags">{describeRule(rule)}</span>
+                  <button
+                    onClick={() => handleRemoveRule(rule.id)}
+                    className="substitution-controls__button substitution-controls__button--remove"
+                    title={`Remove rule for ${rule.find}`}
+                  >
+                    ❌
+                  </button>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="substitution-controls__empty-state">No substitutions</div>
+          )}
+        </div>
+
+        {/* Live preview */}
+        <div className="substitution-controls__group">
+          <label className="substitution-controls__label" htmlFor="substitution-preview">
+            Preview
+          </label>
+          <input
+            id="substitution-preview"
+            type="text"
+            value={preview}
+            onChange={(event) => setPreview(event.target.value)}
+            className="substitution-controls__input"
+          />
+          <output className="substitution-controls__preview" htmlFor="substitution-preview">
+            {substituteMessageText(preview, rules)}
+          </output>
+        </div>
+
+        {/* Import and export */}
+        <div className="substitution-controls__group">
+          <label className="substitution-controls__label" htmlFor="substitution-json">
+            Import or export as JSON
+          </label>
+          <textarea
+            id="substitution-json"
+            value={json}
+            onChange={(event) => setJson(event.target.value)}
+            className="substitution-controls__textarea"
+            rows={4}
+            placeholder='[{ "find": "gg", "replace": "good game" }]'
+          />
+          <div className="substitution-controls__input-group">
+            <button
+              onClick={() => setJson(exportSubstitutions(rules))}
+              disabled={rules.length === 0}
+              className="substitution-controls__button"
+            >
+              Export
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!json.trim()}
+              className="substitution-controls__button"
+            >
+              Import
+            </button>
+          </div>
+          {importError && (
+            <div className="substitution-controls__error" role="alert">{importError}</div>
+          )}
+        </div>
+
+        <p className="substitution-controls__description">
+          Rules run in order. Usernames rules apply to @mentions, and regex replacements may use $1 for groups
+        </p>
+      </div>
+    </div>
+  );
+}
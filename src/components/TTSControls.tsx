@@ -1,7 +1,18 @@
 import React, { useState, useCallback } from 'react';
 import { useTTSControls, useTTSQueue } from '../contexts/TTSContext';
+import { VOICE_POOL_SPREAD_MAX } from '../utils/voicePool';
+import { BADGE_LABELS, moveBadgeProfile } from '../utils/badgeVoices';
+import type { BadgeVoiceProfile, BadgeVoiceSettings, VoicePoolSettings, VoiceProfileBadge } from '../types';
 import './TTSControls.css';
 
+/**
+ * Read an optional number input, empty uses the streamer's setting
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
 /**
  * TTS Controls component for managing text-to-speech settings
  * Requirements: 3.1, 3.2, 3.3, 3.4, 4.3, 5.4
@@ -20,6 +31,9 @@ export function TTSControls() {
   
   const [showClearConfirmation, setShowClearConfirmation] = useState(false);
   const [isTestSpeaking, setIsTestSpeaking] = useState(false);
+  const [showVoicePool, setShowVoicePool] = useState(false);
+  const [showBadgeVoices, setShowBadgeVoices] = useState(false);
+  const { voicePool, badgeVoices } = settings;
 
   // Handle TTS enable/disable toggle
   const handleToggleEnabled = useCallback(() => {
@@ -51,6 +65,31 @@ export function TTSControls() {
     updateSettings({ voice: selectedVoice });
   }, [availableVoices, updateSettings]);
 
+  // Update part of the voice pool settings
+  const updateVoicePool = useCallback((changes: Partial<VoicePoolSettings>) => {
+    updateSettings({ voicePool: { ...voicePool, ...changes } });
+  }, [voicePool, updateSettings]);
+
+  // Add or remove a single voice from the pool
+  const togglePoolVoice = useCallback((voiceName: string) => {
+    const voices = voicePool.voices.includes(voiceName)
+      ? voicePool.voices.filter(name => name !== voiceName)
+      : [...voicePool.voices, voiceName];
+    updateVoicePool({ voices });
+  }, [voicePool.voices, updateVoicePool]);
+
+  // Update part of the badge voice settings
+  const updateBadgeVoices = useCallback((changes: Partial<BadgeVoiceSettings>) => {
+    updateSettings({ badgeVoices: { ...badgeVoices, ...changes } });
+  }, [badgeVoices, updateSettings]);
+
+  // Update a single badge's profile
+  const updateBadgeProfile = useCallback((badge: VoiceProfileBadge, changes: Partial<BadgeVoiceProfile>) => {
+    updateBadgeVoices({
+      profiles: badgeVoices.profiles.map(profile => profile.badge === badge ? { ...profile, ...changes } : profile)
+    });
+  }, [badgeVoices.profiles, updateBadgeVoices]);
+
   // Handle clear queue with confirmation
   const handleClearQueue = useCallback(() => {
     if (showClearConfirmation) {
@@ -198,6 +237,229 @@ export function TTSControls() {
           />
         </div>
 
+        {/* Voice Pool */}
+        <div className="tts-controls__group">
+          <button
+            type="button"
+            onClick={() => setShowVoicePool(!showVoicePool)}
+            aria-expanded={showVoicePool}
+            className="tts-controls__disclosure-toggle"
+          >
+            Chatter voices: {voicePool.enabled ? 'On' : 'Off'}
+          </button>
+
+          {showVoicePool && (
+            <div className="tts-controls__disclosure-content">
+              <label className="tts-controls__checkbox">
+                <input
+                  type="checkbox"
+                  checked={voicePool.enabled}
+                  onChange={() => updateVoicePool({ enabled: !voicePool.enabled })}
+                  disabled={!settings.enabled}
+                />
+                Give each chatter their own voice from the pool
+              </label>
+
+              <fieldset className="tts-controls__pool-voices" disabled={!settings.enabled || !voicePool.enabled}>
+                <legend className="tts-controls__label">Pool</legend>
+                {availableVoices.length === 0 ? (
+                  <p className="tts-controls__pool-empty">No voices available</p>
+                ) : (
+                  <ul className="tts-controls__pool-list">
+                    {availableVoices.map(voice => (
+                      <li key={`${voice.name}-${voice.lang}`}>
+                        <label className="tts-controls__checkbox">
+                          <input
+                            type="checkbox"
+                            checked={voicePool.voices.includes(voice.name)}
+                            onChange={() => togglePoolVoice(voice.name)}
+                          />
+                          {voice.name} ({voice.lang})
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="tts-controls__hint">
+                  {voicePool.voices.length === 0
+                    ? 'No voices ticked, chatters are spread across the voices in the default voice\'s language'
+                    : `${voicePool.voices.length} voices in the pool`}
+                </p>
+              </fieldset>
+
+              <label className="tts-controls__label" htmlFor="pool-rate-spread">
+                Speed spread: ±{voicePool.rateSpread.toFixed(2)}
+              </label>
+              <input
+                id="pool-rate-spread"
+                type="range"
+                min="0"
+                max={VOICE_POOL_SPREAD_MAX}
+                step="0.05"
+                value={voicePool.rateSpread}
+                onChange={(event) => updateVoicePool({ rateSpread: parseFloat(event.target.value) })}
+                disabled={!settings.enabled || !voicePool.enabled}
+                className="tts-controls__slider"
+              />
+
+              <label className="tts-controls__label" htmlFor="pool-pitch-spread">
+                Tone spread: ±{voicePool.pitchSpread.toFixed(2)}
+              </label>
+              <input
+                id="pool-pitch-spread"
+                type="range"
+                min="0"
+                max={VOICE_POOL_SPREAD_MAX}
+                step="0.05"
+                value={voicePool.pitchSpread}
+                onChange={(event) => updateVoicePool({ pitchSpread: parseFloat(event.target.value) })}
+                disabled={!settings.enabled || !voicePool.enabled}
+                className="tts-controls__slider"
+              />
+
+              <p className="tts-controls__hint">
+                A chatter always gets the same voice and small speed and tone offsets.
+                Voices viewers pick with !voice take priority
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Badge Voices */}
+        <div className="tts-controls__group">
+          <button
+            type="button"
+            onClick={() => setShowBadgeVoices(!showBadgeVoices)}
+            aria-expanded={showBadgeVoices}
+            className="tts-controls__disclosure-toggle"
+          >
+            Badge voices: {badgeVoices.enabled ? 'On' : 'Off'}
+          </button>
+
+          {showBadgeVoices && (
+            <div className="tts-controls__disclosure-content">
+              <label className="tts-controls__checkbox">
+                <input
+                  type="checkbox"
+                  checked={badgeVoices.enabled}
+                  onChange={() => updateBadgeVoices({ enabled: !badgeVoices.enabled })}
+                  disabled={!settings.enabled}
+                />
+                Give chatters with badges their own voice
+              </label>
+
+              <ol className="tts-controls__profiles">
+                {badgeVoices.profiles.map((profile, index) => {
+                  const label = BADGE_LABELS[profile.badge];
+                  const profileDisabled = !settings.enabled || !badgeVoices.enabled;
+                  const fieldDisabled = profileDisabled || !profile.enabled;
+
+                  return (
+                    <li key={profile.badge} className="tts-controls__profile">
+                      <div className="tts-controls__profile-header">
+                        <label className="tts-controls__checkbox">
+                          <input
+                            type="checkbox"
+                            checked={profile.enabled}
+                            onChange={() => updateBadgeProfile(profile.badge, { enabled: !profile.enabled })}
+                            disabled={profileDisabled}
+                          />
+                          {label}
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => updateBadgeVoices({ profiles: moveBadgeProfile(badgeVoices.profiles, profile.badge, -1) })}
+                          disabled={profileDisabled || index === 0}
+                          aria-label={`Move ${label} up`}
+                          className="tts-controls__profile-move"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updateBadgeVoices({ profiles: moveBadgeProfile(badgeVoices.profiles, profile.badge, 1) })}
+                          disabled={profileDisabled || index === badgeVoices.profiles.length - 1}
+                          aria-label={`Move ${label} down`}
+                          className="tts-controls__profile-move"
+                        >
+                          ↓
+                        </button>
+                      </div>
+
+                      <div className="tts-controls__profile-fields">
+                        <select
+                          aria-label={`${label} voice`}
+                          value={profile.voiceName ?? ''}
+                          onChange={(event) => updateBadgeProfile(profile.badge, { voiceName: event.target.value || undefined })}
+                          disabled={fieldDisabled}
+                          className="tts-controls__select"
+                        >
+                          <option value="">Default voice</option>
+                          {availableVoices.map(voice => (
+                            <option key={`${voice.name}-${voice.lang}`} value={voice.name}>
+                              {voice.name} ({voice.lang})
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          aria-label={`${label} speed`}
+                          min="0.5"
+                          max="2"
+                          step="0.1"
+                          placeholder="Speed"
+                          value={profile.rate ?? ''}
+                          onChange={(event) => updateBadgeProfile(profile.badge, { rate: parseOptionalNumber(event.target.value) })}
+                          disabled={fieldDisabled}
+                          className="tts-controls__profile-number"
+                        />
+                        <input
+                          type="number"
+                          aria-label={`${label} pitch`}
+                          min="0"
+                          max="2"
+                          step="0.1"
+                          placeholder="Pitch"
+                          value={profile.pitch ?? ''}
+                          onChange={(event) => updateBadgeProfile(profile.badge, { pitch: parseOptionalNumber(event.target.value) })}
+                          disabled={fieldDisabled}
+                          className="tts-controls__profile-number"
+                        />
+                        <input
+                          type="number"
+                          aria-label={`${label} volume`}
+                          min="0"
+                          max="1"
+                          step="0.1"
+                          placeholder="Volume"
+                          value={profile.volume ?? ''}
+                          onChange={(event) => updateBadgeProfile(profile.badge, { volume: parseOptionalNumber(event.target.value) })}
+                          disabled={fieldDisabled}
+                          className="tts-controls__profile-number"
+                        />
+                        <input
+                          type="text"
+                          aria-label={`${label} prefix`}
+                          placeholder={`e.g. ${label} says`}
+                          value={profile.prefix ?? ''}
+                          onChange={(event) => updateBadgeProfile(profile.badge, { prefix: event.target.value || undefined })}
+                          disabled={fieldDisabled}
+                          className="tts-controls__profile-prefix"
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              <p className="tts-controls__hint">
+                Chatters with several badges use the highest profile in the list. Empty fields use the
+                settings above, and voices viewers pick with !voice take priority
+              </p>
+            </div>
+          )}
+        </div>
+
         {/* Action Buttons */}
         <div className="tts-controls__actions">
           {/* Test Speak Button */}
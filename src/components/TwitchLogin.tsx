@@ -0,0 +1,184 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { useConnectionStatus, useChatActions } from '../contexts/ChatContext';
+import {
+  buildAuthorizeUrl,
+  normalizeOAuthToken,
+  parseAuthRedirect,
+  validateToken,
+} from '../utils/twitchAuth';
+import './TwitchLogin.css';
+
+/**
+ * Session key for the implicit grant `state` value, checked when Twitch redirects back
+ */
+const OAUTH_STATE_KEY = 'twitch-oauth-state';
+
+/**
+ * Read and consume a token from an implicit grant redirect in the page URL
+ */
+function takeRedirectToken(): string | null {
+  const token = parseAuthRedirect(window.location.hash, sessionStorage.getItem(OAUTH_STATE_KEY));
+  if (!token) {
+    return null;
+  }
+
+  // Keep the token out of the address bar and browser history
+  sessionStorage.removeItem(OAUTH_STATE_KEY);
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  return token;
+}
+
+/**
+ * Twitch Login component for logging in with an OAuth token so the app can post to chat
+ * Requirements: 1.1
+ */
+export function TwitchLogin() {
+  const { authStatus, username } = useConnectionStatus();
+  const { login, logout } = useChatActions();
+
+  const [token, setToken] = useState('');
+  const [nick, setNick] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  const clientId = import.meta.env.VITE_TWITCH_CLIENT_ID;
+  const isLoggedIn = authStatus === 'authenticated' || authStatus === 'authenticating';
+
+  // Log in with a token, looking up its login name when no nick is given
+  const loginWithToken = useCallback(async (rawToken: string, rawNick: string) => {
+    const accessToken = normalizeOAuthToken(rawToken);
+    if (!accessToken) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setLoginError(null);
+
+    try {
+      let loginName = rawNick.trim().toLowerCase();
+      if (!loginName) {
+        const validation = await validateToken(accessToken);
+        if (!validation.scopes.includes('chat:edit')) {
+          throw new Error('Token is missing the chat:edit scope');
+        }
+        loginName = validation.login;
+      }
+
+      await login({ token: accessToken, username: loginName });
+      setToken('');
+      setNick('');
+    } catch (error) {
+      setLoginError(error instanceof Error ? error.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [login]);
+
+  // Finish an implicit grant login when Twitch redirects back with a token
+  useEffect(() => {
+    const redirectToken = takeRedirectToken();
+    if (redirectToken) {
+      loginWithToken(redirectToken, '');
+    }
+  }, [loginWithToken]);
+
+  // Send the user to Twitch to authorize the app
+  const handleTwitchLogin = useCallback(() => {
+    if (!clientId) {
+      return;
+    }
+
+    const state = crypto.randomUUID();
+    sessionStorage.setItem(OAUTH_STATE_KEY, state);
+
+    const redirectUri = window.location.origin + window.location.pathname;
+    window.location.assign(buildAuthorizeUrl(clientId, redirectUri, state));
+  }, [clientId]);
+
+  // Handle pasted token form submission
+  const handleSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    loginWithToken(token, nick);
+  }, [loginWithToken, token, nick]);
+
+  return (
+    <div className="twitch-login">
+      <div className="twitch-login__header">
+        <h3 className="twitch-login__title">Chat Login</h3>
+      </div>
+
+      <div className="twitch-login__content">
+        {isLoggedIn ? (
+          <div className="twitch-login__group">
+            <span className="twitch-login__status">
+              {authStatus === 'authenticated' ? `Logged in as ${username}` : `Logging in as ${username}...`}
+            </span>
+            <button
+              onClick={() => logout()}
+              className="twitch-login__button twitch-login__button--logout"
+            >
+              Log out
+            </button>
+          </div>
+        ) : (
+          <>
+            {clientId && (
+              <div className="twitch-login__group">
+                <button
+                  onClick={handleTwitchLogin}
+                  className="twitch-login__button twitch-login__button--twitch"
+                >
+                  Log in with Twitch
+                </button>
+              </div>
+            )}
+
+            <form className="twitch-login__group" onSubmit={handleSubmit}>
+              <label className="twitch-login__label" htmlFor="oauth-token-input">
+                OAuth token
+              </label>
+              <input
+                id="oauth-token-input"
+                type="password"
+                autoComplete="off"
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+                className="twitch-login__input"
+                placeholder="oauth:..."
+              />
+              <label className="twitch-login__label" htmlFor="oauth-nick-input">
+                Username
+              </label>
+              <input
+                id="oauth-nick-input"
+                type="text"
+                value={nick}
+                onChange={(event) => setNick(event.target.value)}
+                className="twitch-login__input"
+                placeholder="Looked up from the token when empty"
+              />
+              <button
+                type="submit"
+                disabled={!token.trim() || isSubmitting}
+                className="twitch-login__button twitch-login__button--login"
+              >
+                {isSubmitting ? 'Logging in...' : 'Log in'}
+              </button>
+            </form>
+
+            {loginError && (
+              <div className="twitch-login__error" role="alert">
+                {loginError}
+              </div>
+            )}
+          </>
+        )}
+
+        <p className="twitch-login__description">
+          Logging in lets the app post to chat. The token needs the chat:read and chat:edit scopes
+          and is not saved between visits
+        </p>
+      </div>
+    </div>
+  );
+}
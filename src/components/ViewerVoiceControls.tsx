@@ -0,0 +1,120 @@
+import React, { useCallback } from 'react';
+import { useTTSSettings } from '../contexts/TTSContext';
+import { COMMAND_PERMISSIONS, formatPermission } from '../utils/chatCommands';
+import { VOICE_COMMAND_PREFIX } from '../utils/viewerVoices';
+import type { CommandPermission, ViewerVoiceSettings } from '../types';
+import './ViewerVoiceControls.css';
+
+/**
+ * Viewer Voice Controls component for letting viewers pick their own voice with `!voice`
+ * Requirements: 3.1, 6.1
+ */
+export function ViewerVoiceControls() {
+  const { settings, updateSettings, availableVoices } = useTTSSettings();
+  const { viewerVoices } = settings;
+  const savedCount = Object.keys(settings.userVoices).length;
+
+  // Update part of the viewer voice settings
+  const updateViewerVoices = useCallback((changes: Partial<ViewerVoiceSettings>) => {
+    updateSettings({ viewerVoices: { ...viewerVoices, ...changes } });
+  }, [viewerVoices, updateSettings]);
+
+  // Handle permission change
+  const handlePermissionChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    updateViewerVoices({ permission: event.target.value as CommandPermission });
+  }, [updateViewerVoices]);
+
+  // Allow or disallow a single voice
+  const toggleVoice = useCallback((voiceName: string) => {
+    const allowedVoices = viewerVoices.allowedVoices.includes(voiceName)
+      ? viewerVoices.allowedVoices.filter(name => name !== voiceName)
+      : [...viewerVoices.allowedVoices, voiceName];
+    updateViewerVoices({ allowedVoices });
+  }, [viewerVoices.allowedVoices, updateViewerVoices]);
+
+  return (
+    <div className="viewer-voice-controls">
+      <div className="viewer-voice-controls__header">
+        <h3 className="viewer-voice-controls__title">Viewer Voices</h3>
+      </div>
+
+      <div className="viewer-voice-controls__content">
+        <div className="viewer-voice-controls__group">
+          <label className="viewer-voice-controls__toggle">
+            <input
+              type="checkbox"
+              checked={viewerVoices.enabled}
+              onChange={() => updateViewerVoices({ enabled: !viewerVoices.enabled })}
+            />
+            Let viewers choose their voice with {VOICE_COMMAND_PREFIX}
+          </label>
+        </div>
+
+        <div className="viewer-voice-controls__group">
+          <label className="viewer-voice-controls__label" htmlFor="viewer-voice-permission">
+            Who can choose
+          </label>
+          <select
+            id="viewer-voice-permission"
+            value={viewerVoices.permission}
+            onChange={handlePermissionChange}
+            disabled={!viewerVoices.enabled}
+            className="viewer-voice-controls__select"
+          >
+            {COMMAND_PERMISSIONS.map(permission => (
+              <option key={permission} value={permission}>
+                {formatPermission(permission)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <fieldset className="viewer-voice-controls__group viewer-voice-controls__voices" disabled={!viewerVoices.enabled}>
+          <legend className="viewer-voice-controls__label">Allowed voices</legend>
+          {availableVoices.length === 0 ? (
+            <p className="viewer-voice-controls__empty-state">No voices available</p>
+          ) : (
+            <ul className="viewer-voice-controls__list">
+              {availableVoices.map(voice => (
+                <li key={voice.name} className="viewer-voice-controls__item">
+                  <label className="viewer-voice-controls__toggle">
+                    <input
+                      type="checkbox"
+                      checked={viewerVoices.allowedVoices.includes(voice.name)}
+                      onChange={() => toggleVoice(voice.name)}
+                    />
+                    {voice.name} <span className="viewer-voice-controls__lang">({voice.lang})</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="viewer-voice-controls__description">
+            {viewerVoices.allowedVoices.length === 0
+              ? 'No voices ticked, viewers can choose any voice'
+              : `${viewerVoices.allowedVoices.length} voices allowed`}
+          </p>
+        </fieldset>
+
+        <div className="viewer-voice-controls__group viewer-voice-controls__saved">
+          <span className="viewer-voice-controls__count">
+            {savedCount === 1 ? '1 viewer has a saved voice' : `${savedCount} viewers have saved voices`}
+          </span>
+          <button
+            onClick={() => updateSettings({ userVoices: {} })}
+            disabled={savedCount === 0}
+            className="viewer-voice-controls__button"
+          >
+            Forget all
+          </button>
+        </div>
+
+        <p className="viewer-voice-controls__description">
+          Viewers type {VOICE_COMMAND_PREFIX} list to see numbered voices, {VOICE_COMMAND_PREFIX} 2 or
+          {' '}{VOICE_COMMAND_PREFIX} Samantha 1.2 0.9 to pick a voice with an optional rate and pitch,
+          and {VOICE_COMMAND_PREFIX} reset to go back to the default. Choices are saved in this browser
+        </p>
+      </div>
+    </div>
+  );
+}
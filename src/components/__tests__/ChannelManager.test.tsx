@@ -0,0 +1,137 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChannelManager } from '../ChannelManager';
+import type { ChannelJoinState, TTSSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the context hooks directly
+const mockUseConnectionStatus = vi.fn();
+
+const joinChannel = vi.fn();
+const partChannel = vi.fn();
+const switchChannel = vi.fn();
+
+vi.mock('../../contexts/ChatContext', () => ({
+  useConnectionStatus: () => mockUseConnectionStatus(),
+  useChatActions: () => ({ joinChannel, partChannel })
+}));
+
+vi.mock('../../contexts/AppContext', () => ({
+  useAppActions: () => ({ switchChannel })
+}));
+
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+
+const voices = [
+  { name: 'Voice A', lang: 'en-US' },
+  { name: 'Voice B', lang: 'fi-FI' }
+] as SpeechSynthesisVoice[];
+
+function renderChannelManager(
+  channels: Record<string, ChannelJoinState>,
+  settings: Partial<TTSSettings> = {}
+) {
+  mockUseConnectionStatus.mockReturnValue({ channels });
+  mockTTSSettings({ volume: 0.8, ...settings }, voices);
+
+  return render(<ChannelManager />);
+}
+
+describe('ChannelManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    joinChannel.mockReturnValue(true);
+  });
+
+  it('renders the empty state', () => {
+    renderChannelManager({});
+
+    expect(screen.getByText('Not in any channel')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Join' })).toBeDisabled();
+  });
+
+  it('joins a channel typed into the input', async () => {
+    const user = userEvent.setup();
+    renderChannelManager({ huikkakoodaa: 'joined' });
+
+    await user.type(screen.getByLabelText('Join channel'), '#OtherChannel{Enter}');
+
+    expect(joinChannel).toHaveBeenCalledWith('otherchannel');
+    expect(screen.getByLabelText('Join channel')).toHaveValue('');
+  });
+
+  it('leaves a channel', async () => {
+    const user = userEvent.setup();
+    renderChannelManager({ huikkakoodaa: 'joined', otherchannel: 'joined' });
+
+    await user.click(screen.getByTitle('Leave otherchannel'));
+
+    expect(partChannel).toHaveBeenCalledWith('otherchannel');
+  });
+
+  it('toggles TTS for a single channel', async () => {
+    const user = userEvent.setup();
+    renderChannelManager(
+      { huikkakoodaa: 'joined', otherchannel: 'joined' },
+      { channelSettings: { huikkakoodaa: { enabled: true, minMessageLength: 5 } } }
+    );
+
+    const [firstToggle] = screen.getAllByRole('checkbox');
+    await user.click(firstToggle);
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      channelSettings: {
+        huikkakoodaa: { enabled: false, minMessageLength: 5 }
+      }
+    });
+  });
+
+  it('sets a voice for a single channel', async () => {
+    const user = userEvent.setup();
+    renderChannelManager({ otherchannel: 'joined' });
+
+    await user.selectOptions(screen.getByLabelText('Voice for otherchannel'), '1');
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      channelSettings: {
+        otherchannel: { enabled: true, voice: voices[1] }
+      }
+    });
+  });
+
+  it('sets the volume for a single channel', () => {
+    renderChannelManager({ otherchannel: 'joined' });
+
+    expect(screen.getByLabelText('Volume for otherchannel')).toHaveValue('0.8');
+    fireEvent.change(screen.getByLabelText('Volume for otherchannel'), { target: { value: '0.3' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      channelSettings: {
+        otherchannel: { enabled: true, volume: 0.3 }
+      }
+    });
+  });
+
+  it('switches to a single new channel', async () => {
+    const user = userEvent.setup();
+    renderChannelManager({ huikkakoodaa: 'joined', otherchannel: 'joined' });
+
+    await user.type(screen.getByLabelText('Switch channel'), 'NewChannel');
+    await user.click(screen.getByRole('button', { name: 'Switch' }));
+
+    expect(switchChannel).toHaveBeenCalledWith('newchannel');
+    expect(screen.getByLabelText('Switch channel')).toHaveValue('');
+  });
+
+  it('does not accept invalid channel names', async () => {
+    const user = userEvent.setup();
+    renderChannelManager({ huikkakoodaa: 'joined' });
+
+    await user.type(screen.getByLabelText('Switch channel'), 'not a channel');
+
+    expect(screen.getByRole('button', { name: 'Switch' })).toBeDisabled();
+  });
+});
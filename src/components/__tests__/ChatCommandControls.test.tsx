@@ -0,0 +1,41 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChatCommandControls } from '../ChatCommandControls';
+import { DEFAULT_COMMAND_PERMISSIONS } from '../../utils/chatCommands';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+
+function renderChatCommandControls() {
+  mockTTSSettings();
+  return render(<ChatCommandControls />);
+}
+
+describe('ChatCommandControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists every command with its permission', () => {
+    renderChatCommandControls();
+
+    expect(screen.getByText('!tts skip')).toBeInTheDocument();
+    expect(screen.getByText('!tts volume')).toBeInTheDocument();
+    expect(screen.getByLabelText('Who can use !tts block')).toHaveValue('vip');
+  });
+
+  it('changes the permission for a single command', async () => {
+    const user = userEvent.setup();
+    renderChatCommandControls();
+
+    await user.selectOptions(screen.getByLabelText('Who can use !tts clear'), 'moderator');
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      commandPermissions: { ...DEFAULT_COMMAND_PERMISSIONS, clear: 'moderator' }
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ChatDisplay } from '../ChatDisplay';
 import type { ChatMessage } from '../../types';
@@ -15,6 +16,7 @@ describe('ChatDisplay', () => {
   const mockMessages: ChatMessage[] = [
     {
       id: '1',
+      channel: 'huikkakoodaa',
       username: 'testuser1',
       message: 'Hello world!',
       timestamp: new Date('2024-01-01T14:00:00Z'),
@@ -23,6 +25,7 @@ describe('ChatDisplay', () => {
     },
     {
       id: '2',
+      channel: 'huikkakoodaa',
       username: 'botuser',
       message: 'This is a bot message',
       timestamp: new Date('2024-01-01T14:01:00Z'),
@@ -31,6 +34,7 @@ describe('ChatDisplay', () => {
     },
     {
       id: '3',
+      channel: 'huikkakoodaa',
       username: 'vipuser',
       message: 'VIP message here',
       timestamp: new Date('2024-01-01T14:02:00Z'),
@@ -171,4 +175,133 @@ describe('ChatDisplay', () => {
     
     expect(screen.getByText(/This is a very long message/)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('marks messages deleted by moderators', () => {
+    const messages: ChatMessage[] = [
+      { ...mockMessages[0], isDeleted: true },
+      mockMessages[1]
+    ];
+
+    render(<ChatDisplay messages={messages} />);
+
+    expect(screen.queryByText('Hello world!')).not.toBeInTheDocument();
+    expect(screen.getByText('<message deleted>')).toBeInTheDocument();
+    expect(screen.getByRole('article', { name: 'Message from testuser1' })).toHaveClass('chat-message--deleted');
+  });
+
+  it('hides deleted messages when hideDeleted is set', () => {
+    const messages: ChatMessage[] = [
+      { ...mockMessages[0], isDeleted: true },
+      mockMessages[1]
+    ];
+
+    render(<ChatDisplay messages={messages} hideDeleted />);
+
+    expect(screen.queryByText('testuser1')).not.toBeInTheDocument();
+    expect(screen.getByText('1 message')).toBeInTheDocument();
+  });
+
+  it('shows display names, user colors and reply context', () => {
+    const messages: ChatMessage[] = [{
+      ...mockMessages[0],
+      displayName: 'TestUser1',
+      color: '#1E90FF',
+      reply: {
+        messageId: 'parent',
+        userId: '1',
+        username: 'huikkakoodaa',
+        displayName: 'Huikkakoodaa',
+        message: 'any questions?'
+      }
+    }];
+
+    render(<ChatDisplay messages={messages} />);
+
+    expect(screen.getByText('TestUser1')).toHaveStyle({ color: '#1E90FF' });
+    expect(screen.getByText('Replying to @Huikkakoodaa')).toHaveAttribute('title', 'any questions?');
+  });
+
+  it('renders emote fragments as images', () => {
+    const messages: ChatMessage[] = [{
+      ...mockMessages[0],
+      message: 'nice Kappa',
+      fragments: [
+        { type: 'text', text: 'nice ' },
+        { type: 'emote', text: 'Kappa', emoteId: '25' }
+      ]
+    }];
+
+    render(<ChatDisplay messages={messages} />);
+
+    const emote = screen.getByAltText('Kappa');
+    expect(emote).toHaveAttribute('src', 'https://static-cdn.jtvnw.net/emoticons/v2/25/default/dark/1.0');
+    expect(screen.getByText(/nice/)).toBeInTheDocument();
+  });
+
+  it('tags messages with their channel only when several channels are shown', () => {
+    const { rerender } = render(<ChatDisplay messages={mockMessages} />);
+
+    expect(screen.queryByText('#huikkakoodaa')).not.toBeInTheDocument();
+
+    rerender(
+      <ChatDisplay
+        messages={[...mockMessages, { ...mockMessages[0], id: '4', channel: 'otherchannel' }]}
+      />
+    );
+
+    expect(screen.getAllByText('#huikkakoodaa')).toHaveLength(3);
+    expect(screen.getByText('#otherchannel')).toHaveAttribute('title', 'Channel: otherchannel');
+  });
+
+  describe('user card', () => {
+    const gamer: ChatMessage = { ...mockMessages[0], username: 'xx_d4rklord_xx', displayName: 'xX_d4rkL0rd_Xx' };
+
+    it('opens from the username and shows how the name is read', async () => {
+      const user = userEvent.setup();
+      render(<ChatDisplay messages={[gamer]} autoCleanNames onNicknameChange={vi.fn()} />);
+
+      await user.click(screen.getByRole('button', { name: 'User: xx_d4rklord_xx' }));
+
+      expect(screen.getByRole('form', { name: 'User card for xX_d4rkL0rd_Xx' })).toBeInTheDocument();
+      expect(screen.getByText('Read as "Dark Lord"')).toBeInTheDocument();
+    });
+
+    it('saves and clears a nickname', async () => {
+      const user = userEvent.setup();
+      const onNicknameChange = vi.fn();
+      render(
+        <ChatDisplay messages={[gamer]} nicknames={{ 'xx_d4rklord_xx': 'Lord' }} onNicknameChange={onNicknameChange} />
+      );
+
+      await user.click(screen.getByRole('button', { name: 'User: xx_d4rklord_xx' }));
+      expect(screen.getByText('Read as "Lord"')).toBeInTheDocument();
+
+      const input = screen.getByLabelText('Nickname');
+      await user.clear(input);
+      await user.type(input, 'Dark Lord{Enter}');
+      expect(onNicknameChange).toHaveBeenCalledWith('xx_d4rklord_xx', 'Dark Lord');
+
+      await user.click(screen.getByRole('button', { name: 'Clear' }));
+      expect(onNicknameChange).toHaveBeenLastCalledWith('xx_d4rklord_xx', null);
+    });
+
+    it('closes again', async () => {
+      const user = userEvent.setup();
+      render(<ChatDisplay messages={[gamer]} onNicknameChange={vi.fn()} />);
+
+      await user.click(screen.getByRole('button', { name: 'User: xx_d4rklord_xx' }));
+      await user.click(screen.getByLabelText('Close user card'));
+
+      expect(screen.queryByLabelText('Nickname')).not.toBeInTheDocument();
+    });
+
+    it('does not open without a nickname handler', async () => {
+      const user = userEvent.setup();
+      render(<ChatDisplay messages={[gamer]} />);
+
+      await user.click(screen.getByRole('button', { name: 'User: xx_d4rklord_xx' }));
+
+      expect(screen.queryByLabelText('Nickname')).not.toBeInTheDocument();
+    });
+  });
+});
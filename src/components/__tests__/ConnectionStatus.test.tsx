@@ -29,6 +29,9 @@ describe('ConnectionStatus', () => {
 
   it('renders connected state correctly', () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'connected',
       isConnected: true,
       reconnectAttempts: 0,
@@ -45,6 +48,9 @@ describe('ConnectionStatus', () => {
 
   it('renders connecting state correctly', () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'connecting',
       isConnected: false,
       reconnectAttempts: 0,
@@ -61,6 +67,9 @@ describe('ConnectionStatus', () => {
 
   it('renders disconnected state correctly', () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'disconnected',
       isConnected: false,
       reconnectAttempts: 0,
@@ -78,6 +87,9 @@ describe('ConnectionStatus', () => {
   it('renders error state with error message', () => {
     const errorMessage = 'Connection failed: Network error';
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'error',
       isConnected: false,
       reconnectAttempts: 2,
@@ -97,6 +109,9 @@ describe('ConnectionStatus', () => {
     vi.useFakeTimers();
     
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'disconnected',
       isConnected: false,
       reconnectAttempts: 3,
@@ -122,6 +137,9 @@ describe('ConnectionStatus', () => {
 
   it('handles connect button click', async () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'disconnected',
       isConnected: false,
       reconnectAttempts: 0,
@@ -138,6 +156,9 @@ describe('ConnectionStatus', () => {
 
   it('handles disconnect button click', async () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'connected',
       isConnected: true,
       reconnectAttempts: 0,
@@ -154,6 +175,9 @@ describe('ConnectionStatus', () => {
 
   it('disables button during connecting state', () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'connecting',
       isConnected: false,
       reconnectAttempts: 0,
@@ -171,6 +195,9 @@ describe('ConnectionStatus', () => {
 
     // Test connected state
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'connected',
       isConnected: true,
       reconnectAttempts: 0,
@@ -182,6 +209,9 @@ describe('ConnectionStatus', () => {
 
     // Test error state
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'error',
       isConnected: false,
       reconnectAttempts: 1,
@@ -197,6 +227,9 @@ describe('ConnectionStatus', () => {
 
     // Test first reconnect attempt (2 second delay)
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'disconnected',
       isConnected: false,
       reconnectAttempts: 1,
@@ -212,6 +245,9 @@ describe('ConnectionStatus', () => {
 
     // Test higher reconnect attempt (longer delay)
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'disconnected',
       isConnected: false,
       reconnectAttempts: 4,
@@ -233,6 +269,9 @@ describe('ConnectionStatus', () => {
     const clearIntervalSpy = vi.spyOn(globalThis, 'clearInterval');
 
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'disconnected',
       isConnected: false,
       reconnectAttempts: 2,
@@ -248,6 +287,9 @@ describe('ConnectionStatus', () => {
 
   it('handles accessibility attributes correctly', () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'connected',
       isConnected: true,
       reconnectAttempts: 0,
@@ -262,6 +304,9 @@ describe('ConnectionStatus', () => {
 
   it('shows error alert with proper role', () => {
     mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: {},
       status: 'error',
       isConnected: false,
       reconnectAttempts: 1,
@@ -274,4 +319,44 @@ describe('ConnectionStatus', () => {
     expect(errorAlert).toBeInTheDocument();
     expect(errorAlert).toHaveTextContent('Test error message');
   });
-});
\ No newline at end of file
+
+  it('shows join state for each channel', () => {
+    mockUseConnectionStatus.mockReturnValue({
+      authStatus: 'anonymous',
+      username: null,
+      channels: { huikkakoodaa: 'joined', otherchannel: 'joining', bannedchannel: 'failed' },
+      status: 'connected',
+      isConnected: true,
+      reconnectAttempts: 0,
+      error: null,
+    });
+
+    render(<ConnectionStatus />);
+
+    const list = screen.getByRole('list', { name: 'Channels' });
+    expect(list).toHaveTextContent('#huikkakoodaaJoined');
+    expect(list).toHaveTextContent('#otherchannelJoining...');
+    expect(list).toHaveTextContent('#bannedchannelFailed to join');
+  });
+
+  it.each([
+    ['anonymous', null, 'Anonymous (read-only)'],
+    ['authenticating', 'huikkakoodaa', 'Logging in as huikkakoodaa...'],
+    ['authenticated', 'huikkakoodaa', 'Logged in as huikkakoodaa'],
+    ['failed', null, 'Login failed, reading chat anonymously'],
+  ])('shows the %s login state', (authStatus, username, text) => {
+    mockUseConnectionStatus.mockReturnValue({
+      authStatus,
+      username,
+      channels: {},
+      status: 'connected',
+      isConnected: true,
+      reconnectAttempts: 0,
+      error: null,
+    });
+
+    render(<ConnectionStatus />);
+
+    expect(screen.getByText(text)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,92 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EmoteSpeechControls } from '../EmoteSpeechControls';
+import type { TTSSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+
+function renderEmoteSpeechControls(settings: Partial<TTSSettings> = {}) {
+  mockTTSSettings(settings);
+
+  return render(<EmoteSpeechControls />);
+}
+
+describe('EmoteSpeechControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the empty state', () => {
+    renderEmoteSpeechControls();
+
+    expect(screen.getByText('Emote Speech')).toBeInTheDocument();
+    expect(screen.getByText('No emote rules')).toBeInTheDocument();
+  });
+
+  it('lists existing rules', () => {
+    renderEmoteSpeechControls({
+      emoteSpeechRules: [
+        { emote: 'Kappa', action: 'phrase', phrase: 'kappa face' },
+        { emote: 'LUL', action: 'collapse' }
+      ]
+    });
+
+    expect(screen.getByText('Kappa')).toBeInTheDocument();
+    expect(screen.getByText('"kappa face"')).toBeInTheDocument();
+    expect(screen.getByText('LUL')).toBeInTheDocument();
+  });
+
+  it('adds a custom phrase rule', async () => {
+    const user = userEvent.setup();
+    renderEmoteSpeechControls();
+
+    await user.type(screen.getByLabelText('Emote rules'), 'Kappa');
+    await user.selectOptions(screen.getByLabelText('Emote action'), 'phrase');
+
+    const addButton = screen.getByRole('button', { name: 'Add' });
+    expect(addButton).toBeDisabled();
+
+    await user.type(screen.getByLabelText('Custom phrase'), 'kappa face');
+    await user.click(addButton);
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      emoteSpeechRules: [{ emote: 'Kappa', action: 'phrase', phrase: 'kappa face' }]
+    });
+  });
+
+  it('replaces an existing rule for the same emote', async () => {
+    const user = userEvent.setup();
+    renderEmoteSpeechControls({ emoteSpeechRules: [{ emote: 'LUL', action: 'drop' }] });
+
+    await user.type(screen.getByLabelText('Emote rules'), 'LUL');
+    await user.selectOptions(screen.getByLabelText('Emote action'), 'collapse');
+    await user.click(screen.getByRole('button', { name: 'Add' }));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      emoteSpeechRules: [{ emote: 'LUL', action: 'collapse' }]
+    });
+  });
+
+  it('removes a rule', async () => {
+    const user = userEvent.setup();
+    renderEmoteSpeechControls({ emoteSpeechRules: [{ emote: 'LUL', action: 'drop' }] });
+
+    await user.click(screen.getByTitle('Remove rule for LUL'));
+
+    expect(updateSettings).toHaveBeenCalledWith({ emoteSpeechRules: [] });
+  });
+
+  it('changes the default action', async () => {
+    const user = userEvent.setup();
+    renderEmoteSpeechControls();
+
+    await user.selectOptions(screen.getByLabelText('Emotes without a rule'), 'name');
+
+    expect(updateSettings).toHaveBeenCalledWith({ defaultEmoteAction: 'name' });
+  });
+});
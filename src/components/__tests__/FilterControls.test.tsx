@@ -4,6 +4,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FilterControls } from '../FilterControls';
 import { TTSProvider } from '../../contexts/TTSContext';
 import type { TTSSettings } from '../../types';
+import { DEFAULT_SPAM_FILTER_SETTINGS } from '../../utils/spamDetection';
+import { createTestSettings } from '../../test-fixtures';
 
 // Mock the TTS services
 vi.mock('../../services/TTSService', () => ({
@@ -25,23 +27,19 @@ vi.mock('../../services/QueueManager', () => ({
     remove: vi.fn(),
     clear: vi.fn(),
     skip: vi.fn(),
+    updateSettings: vi.fn(),
     isCurrentlyProcessing: () => false,
     destroy: vi.fn(),
     on: vi.fn(),
   })),
 }));
 
-const defaultSettings: TTSSettings = {
-  enabled: true,
+const defaultSettings = createTestSettings({
   volume: 0.8,
-  rate: 1.0,
-  pitch: 1.0,
-  voice: null,
   filterBots: true,
   minMessageLength: 3,
-  blockedUsers: [],
   skipEmoteOnly: true,
-};
+});
 
 function renderFilterControls(initialSettings: Partial<TTSSettings> = {}) {
   const settings = { ...defaultSettings, ...initialSettings };
@@ -137,6 +135,56 @@ describe('FilterControls', () => {
     });
   });
 
+  describe('Spam Detection', () => {
+    it('is off by default', () => {
+      renderFilterControls();
+
+      expect(screen.getByRole('checkbox', { name: /skip spam and repeated messages/i })).not.toBeChecked();
+      expect(screen.queryByText('Spam and repeated messages filtered')).not.toBeInTheDocument();
+    });
+
+    it('toggles spam detection and disables its thresholds when off', async () => {
+      const user = userEvent.setup();
+      renderFilterControls({ spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true } });
+
+      const toggle = screen.getByRole('checkbox', { name: /skip spam and repeated messages/i });
+      expect(toggle).toBeChecked();
+      expect(screen.getByLabelText('Duplicate window')).toBeEnabled();
+
+      await user.click(toggle);
+
+      await waitFor(() => {
+        expect(toggle).not.toBeChecked();
+      });
+      expect(screen.getByLabelText('Duplicate window')).toBeDisabled();
+      expect(screen.getByLabelText('Duplicate similarity')).toBeDisabled();
+    });
+
+    it('shows the similarity threshold as a percentage', async () => {
+      const user = userEvent.setup();
+      renderFilterControls({ spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true, similarityThreshold: 0.85 } });
+
+      const input = screen.getByLabelText('Duplicate similarity');
+      expect(input).toHaveValue(85);
+
+      await user.clear(input);
+      await user.type(input, '90');
+
+      expect(input).toHaveValue(90);
+    });
+
+    it('updates a threshold', async () => {
+      const user = userEvent.setup();
+      renderFilterControls({ spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true, maxRepeatedChars: 12 } });
+
+      const input = screen.getByLabelText('Longest repeated run');
+      await user.clear(input);
+      await user.type(input, '8');
+
+      expect(input).toHaveValue(8);
+    });
+  });
+
   describe('Minimum Message Length', () => {
     it('updates minimum length when valid number is entered', async () => {
       const user = userEvent.setup();
@@ -319,12 +367,14 @@ describe('FilterControls', () => {
         skipEmoteOnly: true,
         minMessageLength: 5,
         blockedUsers: ['user1', 'user2'],
+        spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true },
       });
       
       expect(screen.getByText('Bot messages filtered')).toBeInTheDocument();
       expect(screen.getByText('Emote-only messages filtered')).toBeInTheDocument();
       expect(screen.getByText('Messages under 5 characters filtered')).toBeInTheDocument();
       expect(screen.getByText('2 users blocked')).toBeInTheDocument();
+      expect(screen.getByText('Spam and repeated messages filtered')).toBeInTheDocument();
     });
 
     it('shows correct singular/plural for blocked users count', () => {
@@ -338,11 +388,13 @@ describe('FilterControls', () => {
         filterBots: false,
         skipEmoteOnly: false,
         blockedUsers: [],
+        spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: false },
       });
       
       expect(screen.queryByText('Bot messages filtered')).not.toBeInTheDocument();
       expect(screen.queryByText('Emote-only messages filtered')).not.toBeInTheDocument();
       expect(screen.queryByText('users blocked')).not.toBeInTheDocument();
+      expect(screen.queryByText('Spam and repeated messages filtered')).not.toBeInTheDocument();
     });
   });
 
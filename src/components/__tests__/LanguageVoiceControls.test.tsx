@@ -0,0 +1,66 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LanguageVoiceControls } from '../LanguageVoiceControls';
+import type { LanguageDetectionSettings, TTSVoice } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let languageDetection: LanguageDetectionSettings;
+
+const availableVoices: TTSVoice[] = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha', default: true, localService: true },
+  { name: 'Satu', lang: 'fi-FI', voiceURI: 'satu', default: false, localService: true }
+];
+
+function renderLanguageVoiceControls() {
+  mockTTSSettings({ languageDetection }, availableVoices);
+  return render(<LanguageVoiceControls />);
+}
+
+describe('LanguageVoiceControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    languageDetection = { enabled: true, preferredVoices: {} };
+  });
+
+  it('turns language detection off', async () => {
+    const user = userEvent.setup();
+    renderLanguageVoiceControls();
+
+    await user.click(screen.getByLabelText(/Detect each message's language/));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      languageDetection: { enabled: false, preferredVoices: {} }
+    });
+  });
+
+  it('offers only voices speaking each language', () => {
+    renderLanguageVoiceControls();
+
+    const finnish = screen.getByLabelText('Finnish');
+    expect(Array.from(finnish.querySelectorAll('option')).map(option => option.textContent))
+      .toEqual(['Any Finnish voice', 'Satu (fi-FI)']);
+    expect(screen.getByLabelText('German')).toBeDisabled();
+    expect(screen.getByLabelText('German')).toHaveTextContent('No German voice installed');
+  });
+
+  it('sets and clears the preferred voice for a language', async () => {
+    const user = userEvent.setup();
+    languageDetection.preferredVoices = { en: 'Samantha' };
+    renderLanguageVoiceControls();
+
+    await user.selectOptions(screen.getByLabelText('Finnish'), 'Satu');
+    expect(updateSettings).toHaveBeenCalledWith({
+      languageDetection: { enabled: true, preferredVoices: { en: 'Samantha', fi: 'Satu' } }
+    });
+
+    await user.selectOptions(screen.getByLabelText('English'), '');
+    expect(updateSettings).toHaveBeenCalledWith({
+      languageDetection: { enabled: true, preferredVoices: {} }
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MessageTemplateControls } from '../MessageTemplateControls';
+import { DEFAULT_MESSAGE_TEMPLATE_SETTINGS } from '../../utils/messageTemplates';
+import type { MessageTemplateSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let messageTemplates: MessageTemplateSettings;
+let nicknames: Record<string, string>;
+
+function renderMessageTemplateControls() {
+  mockTTSSettings({ messageTemplates, nicknames });
+  return render(<MessageTemplateControls />);
+}
+
+describe('MessageTemplateControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    messageTemplates = { ...DEFAULT_MESSAGE_TEMPLATE_SETTINGS, enabled: true };
+    nicknames = {};
+  });
+
+  it('turns templates off', async () => {
+    const user = userEvent.setup();
+    renderMessageTemplateControls();
+
+    await user.click(screen.getByLabelText('Say who is talking before each message'));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      messageTemplates: { ...messageTemplates, enabled: false }
+    });
+  });
+
+  it('disables the templates while they are off', () => {
+    messageTemplates = DEFAULT_MESSAGE_TEMPLATE_SETTINGS;
+    renderMessageTemplateControls();
+
+    expect(screen.getByLabelText('Message')).toBeDisabled();
+    expect(screen.getByLabelText('Skip the name when the same chatter speaks again')).toBeDisabled();
+  });
+
+  it('edits the template used for all languages', () => {
+    renderMessageTemplateControls();
+
+    expect(screen.getByLabelText('Message')).toHaveValue('{displayName} says {message}');
+    fireEvent.change(screen.getByLabelText('Cheer'), { target: { value: '{displayName} sent {bits} bits' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      messageTemplates: {
+        ...messageTemplates,
+        templates: { ...messageTemplates.templates, cheer: '{displayName} sent {bits} bits' }
+      }
+    });
+  });
+
+  it('edits the templates of a single language', async () => {
+    const user = userEvent.setup();
+    renderMessageTemplateControls();
+
+    await user.selectOptions(screen.getByLabelText('Templates for'), 'sv');
+    expect(screen.getByLabelText('Message')).toHaveValue('');
+    expect(screen.getByLabelText('Message')).toHaveAttribute('placeholder', '{displayName} says {message}');
+
+    fireEvent.change(screen.getByLabelText('Message'), { target: { value: '{displayName} säger {message}' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      messageTemplates: {
+        ...messageTemplates,
+        languageTemplates: { ...messageTemplates.languageTemplates, sv: { message: '{displayName} säger {message}' } }
+      }
+    });
+  });
+
+  it('falls back to the shared template when a language template is cleared', async () => {
+    const user = userEvent.setup();
+    renderMessageTemplateControls();
+
+    await user.selectOptions(screen.getByLabelText('Templates for'), 'fi');
+    expect(screen.getByLabelText('Reply')).toHaveValue('{displayName} vastaa käyttäjälle {replyTo}: {message}');
+
+    fireEvent.change(screen.getByLabelText('Reply'), { target: { value: '' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      messageTemplates: {
+        ...messageTemplates,
+        languageTemplates: {
+          fi: {
+            message: '{displayName} sanoo {message}',
+            cheer: '{displayName} cheerasi {bits} bittiä: {message}'
+          }
+        }
+      }
+    });
+  });
+
+  it('turns name cleanup on', async () => {
+    const user = userEvent.setup();
+    renderMessageTemplateControls();
+
+    await user.click(screen.getByLabelText(/Clean up names/));
+
+    expect(updateSettings).toHaveBeenCalledWith({ autoCleanNames: true });
+  });
+
+  it('lists and removes nicknames', async () => {
+    const user = userEvent.setup();
+    nicknames = { 'xx_d4rkl0rd_xx': 'Dark Lord', huikkakoodaa: 'Huikka' };
+    renderMessageTemplateControls();
+
+    expect(screen.getByText('"Dark Lord"')).toBeInTheDocument();
+    await user.click(screen.getByTitle('Remove nickname for xx_d4rkl0rd_xx'));
+
+    expect(updateSettings).toHaveBeenCalledWith({ nicknames: { huikkakoodaa: 'Huikka' } });
+  });
+});
@@ -0,0 +1,133 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NormalizationControls } from '../NormalizationControls';
+import { DEFAULT_NORMALIZATION_SETTINGS } from '../../utils/normalizers';
+import type { NormalizationSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let normalization: NormalizationSettings;
+
+function renderNormalizationControls() {
+  mockTTSSettings({ normalization });
+  return render(<NormalizationControls />);
+}
+
+describe('NormalizationControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    normalization = DEFAULT_NORMALIZATION_SETTINGS;
+  });
+
+  it('lists every stage with its description', () => {
+    renderNormalizationControls();
+
+    expect(screen.getByLabelText('Links')).toBeChecked();
+    expect(screen.getByLabelText('Numbers')).toBeChecked();
+    expect(screen.getByText('Read "loooool" as "lol"')).toBeInTheDocument();
+  });
+
+  it('turns a stage off', async () => {
+    const user = userEvent.setup();
+    renderNormalizationControls();
+
+    await user.click(screen.getByLabelText('Numbers'));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      normalization: {
+        ...DEFAULT_NORMALIZATION_SETTINGS,
+        stages: { ...DEFAULT_NORMALIZATION_SETTINGS.stages, numbers: false }
+      }
+    });
+  });
+
+  it('changes how mentions are read', async () => {
+    const user = userEvent.setup();
+    renderNormalizationControls();
+
+    await user.selectOptions(screen.getByLabelText('Read mentions as'), 'drop');
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      normalization: { ...DEFAULT_NORMALIZATION_SETTINGS, mentionMode: 'drop' }
+    });
+  });
+
+  it('disables options of stages that are off', () => {
+    normalization = {
+      ...DEFAULT_NORMALIZATION_SETTINGS,
+      stages: { ...DEFAULT_NORMALIZATION_SETTINGS.stages, mentions: false, maxLength: false }
+    };
+    renderNormalizationControls();
+
+    expect(screen.getByLabelText('Read mentions as')).toBeDisabled();
+    expect(screen.getByLabelText('Maximum length')).toBeDisabled();
+  });
+
+  it('changes how emoji are read', async () => {
+    const user = userEvent.setup();
+    renderNormalizationControls();
+
+    await user.selectOptions(screen.getByLabelText('Read emoji'), 'drop');
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      normalization: { ...DEFAULT_NORMALIZATION_SETTINGS, emojiMode: 'drop' }
+    });
+  });
+
+  it('names an emoji without its skin tone', async () => {
+    const user = userEvent.setup();
+    renderNormalizationControls();
+
+    await user.type(screen.getByLabelText('Emoji names'), '👍🏽');
+    expect(screen.getByLabelText('Emoji name')).toHaveAttribute('placeholder', 'thumbs up');
+
+    await user.type(screen.getByLabelText('Emoji name'), 'yes{Enter}');
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      normalization: { ...DEFAULT_NORMALIZATION_SETTINGS, emojiOverrides: { '👍': 'yes' } }
+    });
+  });
+
+  it('lists and removes emoji names', async () => {
+    const user = userEvent.setup();
+    normalization = { ...DEFAULT_NORMALIZATION_SETTINGS, emojiOverrides: { '🐐': 'GOAT', '🤡': '' } };
+    renderNormalizationControls();
+
+    expect(screen.getByText('"GOAT"')).toBeInTheDocument();
+    expect(screen.getByText('silent')).toBeInTheDocument();
+
+    await user.click(screen.getByTitle('Remove name for 🐐'));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      normalization: { ...DEFAULT_NORMALIZATION_SETTINGS, emojiOverrides: { '🤡': '' } }
+    });
+  });
+
+  it('updates the maximum length within range only', () => {
+    renderNormalizationControls();
+    const input = screen.getByLabelText('Maximum length');
+
+    fireEvent.change(input, { target: { value: '5' } });
+    expect(updateSettings).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: '120' } });
+    expect(updateSettings).toHaveBeenCalledWith({
+      normalization: { ...DEFAULT_NORMALIZATION_SETTINGS, maxLength: 120 }
+    });
+  });
+
+  it('previews the cleaned up text', async () => {
+    const user = userEvent.setup();
+    renderNormalizationControls();
+
+    const preview = screen.getByLabelText('Preview');
+    await user.clear(preview);
+    await user.type(preview, 'noooo 3rd 🔥🔥');
+
+    expect(screen.getByRole('status')).toHaveTextContent('no third fire times two');
+  });
+});
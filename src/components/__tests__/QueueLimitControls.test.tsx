@@ -0,0 +1,80 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueueLimitControls } from '../QueueLimitControls';
+import { DEFAULT_QUEUE_LIMIT_SETTINGS, SUGGESTED_QUEUE_LIMIT_SETTINGS } from '../../utils/queueLimit';
+import type { QueueLimitSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let queueLimit: QueueLimitSettings;
+
+function renderQueueLimitControls() {
+  mockTTSSettings({ queueLimit });
+  return render(<QueueLimitControls />);
+}
+
+describe('QueueLimitControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queueLimit = SUGGESTED_QUEUE_LIMIT_SETTINGS;
+  });
+
+  it('has no limit and no expiry by default', () => {
+    queueLimit = DEFAULT_QUEUE_LIMIT_SETTINGS;
+    renderQueueLimitControls();
+
+    expect(screen.getByLabelText('Most messages waiting')).toHaveValue(0);
+    expect(screen.getByLabelText('Skip messages older than (seconds)')).toHaveValue(0);
+  });
+
+  it('applies the raid limits', () => {
+    queueLimit = DEFAULT_QUEUE_LIMIT_SETTINGS;
+    renderQueueLimitControls();
+
+    fireEvent.click(screen.getByRole('button', { name: /use raid limits/i }));
+
+    expect(updateSettings).toHaveBeenCalledWith({ queueLimit: SUGGESTED_QUEUE_LIMIT_SETTINGS });
+  });
+
+  it('shows the current limit and policy', () => {
+    renderQueueLimitControls();
+
+    expect(screen.getByLabelText('Most messages waiting')).toHaveValue(30);
+    expect(screen.getByLabelText('When the queue is full')).toHaveValue('dropOldest');
+  });
+
+  it('changes the limit', () => {
+    renderQueueLimitControls();
+
+    fireEvent.change(screen.getByLabelText('Most messages waiting'), { target: { value: '10' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({ queueLimit: { ...queueLimit, maxLength: 10 } });
+  });
+
+  it('changes the overflow policy', () => {
+    renderQueueLimitControls();
+
+    fireEvent.change(screen.getByLabelText('When the queue is full'), { target: { value: 'onePerUser' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({ queueLimit: { ...queueLimit, overflowPolicy: 'onePerUser' } });
+  });
+
+  it('changes how long messages may wait', () => {
+    renderQueueLimitControls();
+
+    expect(screen.getByLabelText('Skip messages older than (seconds)')).toHaveValue(120);
+    fireEvent.change(screen.getByLabelText('Skip messages older than (seconds)'), { target: { value: '0' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({ queueLimit: { ...queueLimit, maxAgeSeconds: 0 } });
+  });
+
+  it('disables the policy without a limit', () => {
+    queueLimit = { ...DEFAULT_QUEUE_LIMIT_SETTINGS, maxLength: 0 };
+    renderQueueLimitControls();
+
+    expect(screen.getByLabelText('When the queue is full')).toBeDisabled();
+  });
+});
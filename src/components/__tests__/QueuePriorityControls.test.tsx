@@ -0,0 +1,97 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueuePriorityControls } from '../QueuePriorityControls';
+import { DEFAULT_QUEUE_PRIORITY_SETTINGS } from '../../utils/queuePriority';
+import type { QueuePrioritySettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let queuePriority: QueuePrioritySettings;
+
+function renderQueuePriorityControls() {
+  mockTTSSettings({ queuePriority });
+  return render(<QueuePriorityControls />);
+}
+
+describe('QueuePriorityControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queuePriority = { ...DEFAULT_QUEUE_PRIORITY_SETTINGS, enabled: true };
+  });
+
+  it('turns priorities on', async () => {
+    queuePriority = DEFAULT_QUEUE_PRIORITY_SETTINGS;
+    const user = userEvent.setup();
+    renderQueuePriorityControls();
+
+    expect(screen.getByLabelText('Tier 1 name')).toBeDisabled();
+    await user.click(screen.getByLabelText('Read messages from higher tiers first'));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      queuePriority: { ...DEFAULT_QUEUE_PRIORITY_SETTINGS, enabled: true }
+    });
+  });
+
+  it('lists the tiers in priority order with their conditions', () => {
+    renderQueuePriorityControls();
+
+    expect(screen.getByLabelText('Tier 1 name')).toHaveValue('Broadcaster and mods');
+    expect(screen.getByLabelText('Tier 4 name')).toHaveValue('Everyone');
+    expect(screen.getByText('Matches everyone')).toBeInTheDocument();
+    expect(screen.getAllByLabelText('Moderator')[0]).toBeChecked();
+  });
+
+  it('moves a tier up', async () => {
+    const user = userEvent.setup();
+    renderQueuePriorityControls();
+
+    await user.click(screen.getByLabelText('Move Subscribers up'));
+
+    const [{ queuePriority: updated }] = updateSettings.mock.calls[0];
+    expect(updated.tiers.map((tier: { id: string }) => tier.id)).toEqual(['staff', 'subscribers', 'supporters', 'everyone']);
+  });
+
+  it('adds a condition to a tier', async () => {
+    const user = userEvent.setup();
+    renderQueuePriorityControls();
+
+    // The third tier is the subscriber tier
+    await user.click(screen.getAllByLabelText('VIP')[2]);
+
+    const [{ queuePriority: updated }] = updateSettings.mock.calls[0];
+    expect(updated.tiers[2].conditions).toEqual(['subscriber', 'vip']);
+  });
+
+  it('sets the smallest cheer for a bits tier', () => {
+    renderQueuePriorityControls();
+
+    fireEvent.change(screen.getByLabelText('Smallest cheer for Bits and highlights'), { target: { value: '100' } });
+
+    const [{ queuePriority: updated }] = updateSettings.mock.calls[0];
+    expect(updated.tiers[1]).toMatchObject({ id: 'supporters', minBits: 100 });
+  });
+
+  it('adds and removes tiers', async () => {
+    const user = userEvent.setup();
+    renderQueuePriorityControls();
+
+    await user.click(screen.getByText('Add tier'));
+    expect(updateSettings.mock.calls[0][0].queuePriority.tiers).toHaveLength(5);
+
+    await user.click(screen.getByTitle('Remove Everyone'));
+    expect(updateSettings.mock.calls[1][0].queuePriority.tiers.map((tier: { id: string }) => tier.id))
+      .toEqual(['staff', 'supporters', 'subscribers']);
+  });
+
+  it('changes the aging interval', () => {
+    renderQueuePriorityControls();
+
+    fireEvent.change(screen.getByLabelText('Aging interval in seconds'), { target: { value: '45' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({ queuePriority: { ...queuePriority, agingSeconds: 45 } });
+  });
+});
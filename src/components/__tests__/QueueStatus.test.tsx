@@ -1,8 +1,10 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, act, waitFor, within } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { QueueStatus } from '../QueueStatus';
-import { TTSProvider } from '../../contexts/TTSContext';
+import { TTSProvider, useTTSQueue } from '../../contexts/TTSContext';
+import { QueueManager } from '../../services/QueueManager';
+import type { TTSQueueItem } from '../../types';
 
 // Mock the TTS services
 vi.mock('../../services/TTSService', () => ({
@@ -24,6 +26,7 @@ vi.mock('../../services/QueueManager', () => ({
     remove: vi.fn(),
     clear: vi.fn(),
     skip: vi.fn(),
+    updateSettings: vi.fn(),
     getQueue: () => [],
     getCurrentItem: () => null,
     getQueueCount: () => 0,
@@ -250,4 +253,107 @@ describe('QueueStatus Component States', () => {
     
     expect(() => unmount()).not.toThrow();
   });
-});
\ No newline at end of file
+
+  it('shows the detected language of the message being spoken', async () => {
+    render(<QueueStatusWrapper />);
+
+    // The queue manager is created once the voices have had time to load
+    await waitFor(() => expect(QueueManager).toHaveBeenCalled());
+    const queueManager = vi.mocked(QueueManager).mock.results[0].value;
+    const [, onQueueUpdated] = queueManager.on.mock.calls.find(([event]: [string]) => event === 'queue:updated');
+    const item: TTSQueueItem = {
+      id: 'queue-1',
+      message: { id: '1', username: 'huikka', message: 'moikka mitä kuuluu', timestamp: new Date(), isBot: false, badges: [] },
+      status: 'speaking',
+      language: 'fi'
+    };
+
+    act(() => onQueueUpdated([item]));
+
+    expect(screen.getByText('FI')).toHaveAttribute('title', 'Detected language: Finnish');
+  });
+
+  it('lists waiting messages in queue order with their priority tier', async () => {
+    vi.mocked(QueueManager).mockClear();
+    render(<QueueStatusWrapper />);
+
+    await waitFor(() => expect(QueueManager).toHaveBeenCalled());
+    const queueManager = vi.mocked(QueueManager).mock.results[0].value;
+    const [, onQueueUpdated] = queueManager.on.mock.calls.find(([event]: [string]) => event === 'queue:updated');
+    const createItem = (id: string, username: string, status: TTSQueueItem['status'], tier: string): TTSQueueItem => ({
+      id: `queue-${id}`,
+      message: { id, username, message: `hello from ${username}`, timestamp: new Date(), isBot: false, badges: [] },
+      status,
+      tier
+    });
+
+    act(() => onQueueUpdated([
+      createItem('1', 'streamer', 'speaking', 'Broadcaster and mods'),
+      createItem('2', 'cheerer', 'pending', 'Bits and highlights'),
+      createItem('3', 'lurker', 'pending', 'Everyone')
+    ]));
+
+    const waiting = within(screen.getByRole('list', { name: 'Waiting messages' })).getAllByRole('listitem');
+    expect(waiting).toHaveLength(2);
+    expect(waiting[0]).toHaveTextContent('cheererBits and highlightshello from cheerer');
+    expect(waiting[1]).toHaveTextContent('lurkerEveryonehello from lurker');
+    expect(screen.getByText('Broadcaster and mods')).toHaveClass('queue-status__tier');
+  });
+
+  it('counts messages dropped from a full queue', async () => {
+    vi.mocked(QueueManager).mockClear();
+    render(<QueueStatusWrapper />);
+
+    await waitFor(() => expect(QueueManager).toHaveBeenCalled());
+    const queueManager = vi.mocked(QueueManager).mock.results[0].value;
+    const [, onOverflow] = queueManager.on.mock.calls.find(([event]: [string]) => event === 'queue:overflow');
+    const dropped = (id: string): TTSQueueItem => ({
+      id: `queue-${id}`,
+      message: { id, username: 'raider', message: 'raid hype', timestamp: new Date(), isBot: false, badges: [] },
+      status: 'dropped'
+    });
+
+    expect(screen.queryByText(/dropped/)).not.toBeInTheDocument();
+
+    act(() => onOverflow([dropped('1')]));
+    expect(screen.getByText('1 message dropped')).toBeInTheDocument();
+
+    act(() => onOverflow([dropped('2'), dropped('3')]));
+    expect(screen.getByText('3 messages dropped')).toBeInTheDocument();
+  });
+
+  it('shows why the latest message was skipped', async () => {
+    let addToQueue: ReturnType<typeof useTTSQueue>['actions']['addToQueue'] = () => null;
+    function AddMessage() {
+      addToQueue = useTTSQueue().actions.addToQueue;
+      return null;
+    }
+
+    vi.mocked(QueueManager).mockClear();
+    render(
+      <TTSProvider initialSettings={{ enabled: false }}>
+        <AddMessage />
+        <QueueStatus />
+      </TTSProvider>
+    );
+    // Settings reach the queue manager once the provider holds it
+    await waitFor(() => expect(vi.mocked(QueueManager).mock.results[0]?.value.updateSettings).toHaveBeenCalled());
+
+    expect(screen.queryByText(/^Skipped/)).not.toBeInTheDocument();
+
+    act(() => {
+      addToQueue({
+        id: '1',
+        channel: 'testchannel',
+        username: 'viewer',
+        displayName: 'Viewer',
+        message: 'hello',
+        timestamp: new Date(),
+        isBot: false,
+        badges: []
+      });
+    });
+
+    expect(screen.getByText('Skipped Viewer: TTS is off for this channel')).toHaveClass('queue-status__rejected');
+  });
+});
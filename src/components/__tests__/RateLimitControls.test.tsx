@@ -0,0 +1,68 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RateLimitControls } from '../RateLimitControls';
+import { DEFAULT_RATE_LIMIT_SETTINGS } from '../../utils/rateLimits';
+import type { RateLimitSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let rateLimits: RateLimitSettings;
+
+function renderRateLimitControls() {
+  mockTTSSettings({ rateLimits });
+  return render(<RateLimitControls />);
+}
+
+describe('RateLimitControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rateLimits = { ...DEFAULT_RATE_LIMIT_SETTINGS, enabled: true };
+  });
+
+  it('turns rate limits on', async () => {
+    rateLimits = DEFAULT_RATE_LIMIT_SETTINGS;
+    const user = userEvent.setup();
+    renderRateLimitControls();
+
+    expect(screen.getByLabelText('Everyone messages per window')).toBeDisabled();
+    await user.click(screen.getByLabelText('Limit how often each chatter is read'));
+
+    expect(updateSettings).toHaveBeenCalledWith({ rateLimits: { ...DEFAULT_RATE_LIMIT_SETTINGS, enabled: true } });
+  });
+
+  it('shows the limits of every tier', () => {
+    renderRateLimitControls();
+
+    expect(screen.getByLabelText('Everyone messages per window')).toHaveValue(3);
+    expect(screen.getByLabelText('Subscribers cooldown in seconds')).toHaveValue(5);
+    expect(screen.getByLabelText('Everyone may only have one message waiting')).toBeChecked();
+    expect(screen.getByLabelText('Moderators window in seconds')).toBeDisabled();
+  });
+
+  it('changes a limit for one tier', () => {
+    renderRateLimitControls();
+
+    fireEvent.change(screen.getByLabelText('VIPs cooldown in seconds'), { target: { value: '15' } });
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      rateLimits: {
+        ...rateLimits,
+        limits: { ...rateLimits.limits, vip: { ...rateLimits.limits.vip, cooldownSeconds: 15 } }
+      }
+    });
+  });
+
+  it('caps waiting messages for a tier', async () => {
+    const user = userEvent.setup();
+    renderRateLimitControls();
+
+    await user.click(screen.getByLabelText('Subscribers may only have one message waiting'));
+
+    const [{ rateLimits: updated }] = updateSettings.mock.calls[0];
+    expect(updated.limits.subscriber.onePending).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SpeechEngineControls } from '../SpeechEngineControls';
+import type { HttpEngineSettings, TTSVoice } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let httpEngine: HttpEngineSettings;
+let availableVoices: TTSVoice[];
+
+function renderSpeechEngineControls() {
+  mockTTSSettings({ httpEngine }, availableVoices);
+  return render(<SpeechEngineControls />);
+}
+
+describe('SpeechEngineControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    httpEngine = { enabled: false, url: 'http://localhost:5002' };
+    availableVoices = [
+      { name: 'Browser voice', lang: 'en-US', voiceURI: 'browser', default: true, localService: true },
+      { name: 'Amy', lang: 'en-US', voiceURI: 'amy', default: false, localService: false, engine: 'http' }
+    ];
+  });
+
+  it('turns the speech server on', async () => {
+    const user = userEvent.setup();
+    renderSpeechEngineControls();
+
+    expect(screen.getByLabelText('Server URL')).toBeDisabled();
+
+    await user.click(screen.getByLabelText(/Use voices from an HTTP speech server/));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      httpEngine: { enabled: true, url: 'http://localhost:5002' }
+    });
+  });
+
+  it('applies a new server URL', async () => {
+    const user = userEvent.setup();
+    httpEngine.enabled = true;
+    renderSpeechEngineControls();
+
+    const input = screen.getByLabelText('Server URL');
+    await user.clear(input);
+    await user.type(input, 'http://tts.local:8080');
+    await user.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      httpEngine: { enabled: true, url: 'http://tts.local:8080' }
+    });
+  });
+
+  it('shows how many server voices loaded', () => {
+    httpEngine.enabled = true;
+    renderSpeechEngineControls();
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 server voices available');
+  });
+
+  it('tells when only the offline voice is available', () => {
+    availableVoices = [
+      { name: 'Offline voice (low)', lang: 'en', voiceURI: 'fallback-low', default: false, localService: true, engine: 'fallback' }
+    ];
+    renderSpeechEngineControls();
+
+    expect(screen.getByRole('note')).toHaveTextContent('built-in offline voice');
+  });
+
+  it('does not mention the offline voice when the browser has voices', () => {
+    renderSpeechEngineControls();
+
+    expect(screen.queryByRole('note')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,123 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SubstitutionControls } from '../SubstitutionControls';
+import type { SubstitutionRule } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+
+const ggRule: SubstitutionRule = {
+  id: 'rule-1',
+  find: 'gg',
+  replace: 'good game',
+  regex: false,
+  caseSensitive: false,
+  wholeWord: true,
+  scope: 'all'
+};
+
+function renderSubstitutionControls(substitutions: SubstitutionRule[] = []) {
+  mockTTSSettings({ substitutions });
+
+  return render(<SubstitutionControls />);
+}
+
+describe('SubstitutionControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the empty state', () => {
+    renderSubstitutionControls();
+
+    expect(screen.getByText('Pronunciation')).toBeInTheDocument();
+    expect(screen.getByText('No substitutions')).toBeInTheDocument();
+  });
+
+  it('adds a username rule', async () => {
+    const user = userEvent.setup();
+    renderSubstitutionControls([ggRule]);
+
+    await user.type(screen.getByLabelText('Substitutions'), 'huikkakoodaa');
+    await user.type(screen.getByLabelText('Replace with'), 'huikka koodaa');
+    await user.selectOptions(screen.getByLabelText('Applies to'), 'usernames');
+    await user.click(screen.getByRole('button', { name: 'Add' }));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      substitutions: [
+        ggRule,
+        expect.objectContaining({ find: 'huikkakoodaa', replace: 'huikka koodaa', scope: 'usernames', wholeWord: true })
+      ]
+    });
+  });
+
+  it('refuses invalid regular expressions', async () => {
+    const user = userEvent.setup();
+    renderSubstitutionControls();
+
+    await user.click(screen.getByLabelText('Regex'));
+    fireEvent.change(screen.getByLabelText('Substitutions'), { target: { value: '(oops' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid regular expression');
+    expect(screen.getByRole('button', { name: 'Add' })).toBeDisabled();
+  });
+
+  it('removes a rule', async () => {
+    const user = userEvent.setup();
+    renderSubstitutionControls([ggRule]);
+
+    await user.click(screen.getByTitle('Remove rule for gg'));
+
+    expect(updateSettings).toHaveBeenCalledWith({ substitutions: [] });
+  });
+
+  it('previews the text before and after substitution', async () => {
+    const user = userEvent.setup();
+    renderSubstitutionControls([ggRule]);
+
+    const input = screen.getByLabelText('Preview');
+    await user.clear(input);
+    await user.type(input, 'gg wp');
+
+    expect(screen.getByRole('status')).toHaveTextContent('good game wp');
+  });
+
+  it('exports rules as JSON', async () => {
+    const user = userEvent.setup();
+    renderSubstitutionControls([ggRule]);
+
+    await user.click(screen.getByRole('button', { name: 'Export' }));
+
+    const json = (screen.getByLabelText('Import or export as JSON') as HTMLTextAreaElement).value;
+    expect(JSON.parse(json)).toEqual([
+      { find: 'gg', replace: 'good game', regex: false, caseSensitive: false, wholeWord: true, scope: 'all' }
+    ]);
+  });
+
+  it('imports rules from JSON', () => {
+    renderSubstitutionControls([ggRule]);
+
+    fireEvent.change(screen.getByLabelText('Import or export as JSON'), {
+      target: { value: '[{ "find": "xd", "replace": "ex dee" }]' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      substitutions: [ggRule, expect.objectContaining({ find: 'xd', replace: 'ex dee' })]
+    });
+  });
+
+  it('shows why an import failed', () => {
+    renderSubstitutionControls();
+
+    fireEvent.change(screen.getByLabelText('Import or export as JSON'), { target: { value: '{' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The text is not valid JSON');
+    expect(updateSettings).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { TTSControls } from '../TTSControls';
+import { createTestSettings } from '../../test-fixtures';
 
 // Mock the TTS context hooks directly
 const mockUseTTSControls = vi.fn();
@@ -14,17 +15,20 @@ vi.mock('../../contexts/TTSContext', () => ({
 
 // Default mock values
 const defaultTTSControls = {
-  settings: {
+  settings: createTestSettings({
     enabled: false,
     volume: 0.8,
-    rate: 1.0,
-    pitch: 1.0,
-    voice: null,
     filterBots: true,
     minMessageLength: 3,
-    blockedUsers: [],
     skipEmoteOnly: true,
-  },
+    badgeVoices: {
+      enabled: true,
+      profiles: [
+        { badge: 'moderator', enabled: true },
+        { badge: 'vip', enabled: false }
+      ]
+    },
+  }),
   updateSettings: vi.fn(),
   testSpeak: vi.fn().mockResolvedValue(undefined),
   availableVoices: [
@@ -287,4 +291,124 @@ describe('TTSControls', () => {
 
     expect(screen.getByText('Test error message')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  describe('voice pool', () => {
+    const enabledSettings = { ...defaultTTSControls.settings, enabled: true };
+
+    it('keeps the pool editor closed until opened', () => {
+      render(<TTSControls />);
+
+      const toggle = screen.getByRole('button', { name: 'Chatter voices: Off' });
+      expect(toggle).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByLabelText(/Give each chatter/)).not.toBeInTheDocument();
+    });
+
+    it('turns pooled voices on', () => {
+      const updateSettings = vi.fn();
+      mockUseTTSControls.mockReturnValue({ ...defaultTTSControls, settings: enabledSettings, updateSettings });
+
+      render(<TTSControls />);
+      fireEvent.click(screen.getByRole('button', { name: /Chatter voices/ }));
+      fireEvent.click(screen.getByLabelText(/Give each chatter/));
+
+      expect(updateSettings).toHaveBeenCalledWith({
+        voicePool: { enabled: true, voices: [], rateSpread: 0.1, pitchSpread: 0.1 }
+      });
+    });
+
+    it('adds voices to the pool and changes the spread', () => {
+      const updateSettings = vi.fn();
+      mockUseTTSControls.mockReturnValue({
+        ...defaultTTSControls,
+        settings: { ...enabledSettings, voicePool: { ...enabledSettings.voicePool, enabled: true } },
+        updateSettings
+      });
+
+      render(<TTSControls />);
+      fireEvent.click(screen.getByRole('button', { name: /Chatter voices/ }));
+      fireEvent.click(screen.getByLabelText('Test Voice 2 (en-GB)'));
+      fireEvent.change(screen.getByLabelText(/Tone spread/), { target: { value: '0.25' } });
+
+      expect(updateSettings).toHaveBeenCalledWith({
+        voicePool: { enabled: true, voices: ['Test Voice 2'], rateSpread: 0.1, pitchSpread: 0.1 }
+      });
+      expect(updateSettings).toHaveBeenCalledWith({
+        voicePool: { enabled: true, voices: [], rateSpread: 0.1, pitchSpread: 0.25 }
+      });
+    });
+  });
+
+  describe('badge voices', () => {
+    const enabledSettings = { ...defaultTTSControls.settings, enabled: true };
+
+    beforeEach(() => {
+      mockUseTTSControls.mockReturnValue({ ...defaultTTSControls, settings: enabledSettings });
+    });
+
+    it('edits a badge profile', () => {
+      const updateSettings = vi.fn();
+      mockUseTTSControls.mockReturnValue({ ...defaultTTSControls, settings: enabledSettings, updateSettings });
+
+      render(<TTSControls />);
+      fireEvent.click(screen.getByRole('button', { name: /Badge voices/ }));
+      fireEvent.change(screen.getByLabelText('Moderator voice'), { target: { value: 'Test Voice 2' } });
+      fireEvent.change(screen.getByLabelText('Moderator prefix'), { target: { value: 'Mod says' } });
+
+      expect(updateSettings).toHaveBeenCalledWith({
+        badgeVoices: {
+          enabled: true,
+          profiles: [{ badge: 'moderator', enabled: true, voiceName: 'Test Voice 2' }, { badge: 'vip', enabled: false }]
+        }
+      });
+      expect(updateSettings).toHaveBeenCalledWith({
+        badgeVoices: {
+          enabled: true,
+          profiles: [{ badge: 'moderator', enabled: true, prefix: 'Mod says' }, { badge: 'vip', enabled: false }]
+        }
+      });
+    });
+
+    it('clears a profile value back to the default', () => {
+      const updateSettings = vi.fn();
+      const settings = {
+        ...enabledSettings,
+        badgeVoices: { enabled: true, profiles: [{ badge: 'moderator', enabled: true, rate: 1.5 }] }
+      };
+      mockUseTTSControls.mockReturnValue({ ...defaultTTSControls, settings, updateSettings });
+
+      render(<TTSControls />);
+      fireEvent.click(screen.getByRole('button', { name: /Badge voices/ }));
+      fireEvent.change(screen.getByLabelText('Moderator speed'), { target: { value: '' } });
+
+      expect(updateSettings).toHaveBeenCalledWith({
+        badgeVoices: { enabled: true, profiles: [{ badge: 'moderator', enabled: true, rate: undefined }] }
+      });
+    });
+
+    it('reorders profile priority', () => {
+      const updateSettings = vi.fn();
+      mockUseTTSControls.mockReturnValue({ ...defaultTTSControls, settings: enabledSettings, updateSettings });
+
+      render(<TTSControls />);
+      fireEvent.click(screen.getByRole('button', { name: /Badge voices/ }));
+
+      expect(screen.getByLabelText('Move Moderator up')).toBeDisabled();
+      fireEvent.click(screen.getByLabelText('Move VIP up'));
+
+      expect(updateSettings).toHaveBeenCalledWith({
+        badgeVoices: {
+          enabled: true,
+          profiles: [{ badge: 'vip', enabled: false }, { badge: 'moderator', enabled: true }]
+        }
+      });
+    });
+
+    it('disables the fields of a profile that is off', () => {
+      render(<TTSControls />);
+      fireEvent.click(screen.getByRole('button', { name: /Badge voices/ }));
+
+      expect(screen.getByLabelText('Moderator voice')).not.toBeDisabled();
+      expect(screen.getByLabelText('VIP voice')).toBeDisabled();
+    });
+  });
+});
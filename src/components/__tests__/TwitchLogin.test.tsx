@@ -0,0 +1,79 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TwitchLogin } from '../TwitchLogin';
+
+// Mock the chat hooks and token validation directly
+const mockUseConnectionStatus = vi.fn();
+const login = vi.fn();
+const logout = vi.fn();
+const validateToken = vi.fn();
+
+vi.mock('../../contexts/ChatContext', () => ({
+  useConnectionStatus: () => mockUseConnectionStatus(),
+  useChatActions: () => ({ login, logout })
+}));
+
+vi.mock('../../utils/twitchAuth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/twitchAuth')>()),
+  validateToken: (token: string) => validateToken(token)
+}));
+
+function renderTwitchLogin(authStatus = 'anonymous', username: string | null = null) {
+  mockUseConnectionStatus.mockReturnValue({ authStatus, username });
+  return render(<TwitchLogin />);
+}
+
+describe('TwitchLogin', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    login.mockResolvedValue(undefined);
+  });
+
+  it('logs in with a pasted token and nick', async () => {
+    const user = userEvent.setup();
+    renderTwitchLogin();
+
+    await user.type(screen.getByLabelText('OAuth token'), 'oauth:secret');
+    await user.type(screen.getByLabelText('Username'), 'HuikkaBot');
+    await user.click(screen.getByRole('button', { name: 'Log in' }));
+
+    expect(login).toHaveBeenCalledWith({ token: 'secret', username: 'huikkabot' });
+    expect(validateToken).not.toHaveBeenCalled();
+  });
+
+  it('looks up the nick from the token when none is given', async () => {
+    const user = userEvent.setup();
+    validateToken.mockResolvedValue({ login: 'huikkabot', scopes: ['chat:read', 'chat:edit'] });
+    renderTwitchLogin();
+
+    await user.type(screen.getByLabelText('OAuth token'), 'secret');
+    await user.click(screen.getByRole('button', { name: 'Log in' }));
+
+    await waitFor(() => {
+      expect(login).toHaveBeenCalledWith({ token: 'secret', username: 'huikkabot' });
+    });
+  });
+
+  it('refuses tokens that cannot send chat messages', async () => {
+    const user = userEvent.setup();
+    validateToken.mockResolvedValue({ login: 'huikkabot', scopes: ['chat:read'] });
+    renderTwitchLogin();
+
+    await user.type(screen.getByLabelText('OAuth token'), 'secret');
+    await user.click(screen.getByRole('button', { name: 'Log in' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Token is missing the chat:edit scope');
+    expect(login).not.toHaveBeenCalled();
+  });
+
+  it('shows the logged in user and logs out', async () => {
+    const user = userEvent.setup();
+    renderTwitchLogin('authenticated', 'huikkabot');
+
+    expect(screen.getByText('Logged in as huikkabot')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Log out' }));
+
+    expect(logout).toHaveBeenCalled();
+  });
+});
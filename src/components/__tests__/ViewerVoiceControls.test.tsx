@@ -0,0 +1,76 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ViewerVoiceControls } from '../ViewerVoiceControls';
+import type { ViewerVoiceSettings } from '../../types';
+import { mockTTSSettings, ttsSettingsMock } from '../../test-fixtures';
+
+// Mock the TTS settings hook with the shared test settings
+vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext());
+
+const { updateSettings } = ttsSettingsMock;
+let viewerVoices: ViewerVoiceSettings;
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha', default: true, localService: true },
+  { name: 'Satu', lang: 'fi-FI', voiceURI: 'satu', default: false, localService: true }
+];
+
+function renderViewerVoiceControls() {
+  mockTTSSettings({ viewerVoices, userVoices: { 'user-1': { voiceName: 'Satu' } } }, voices);
+  return render(<ViewerVoiceControls />);
+}
+
+describe('ViewerVoiceControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    viewerVoices = { enabled: true, permission: 'everyone', allowedVoices: [] };
+  });
+
+  it('turns viewer voice selection on and off', async () => {
+    const user = userEvent.setup();
+    renderViewerVoiceControls();
+
+    await user.click(screen.getByLabelText(/Let viewers choose their voice/));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      viewerVoices: { enabled: false, permission: 'everyone', allowedVoices: [] }
+    });
+  });
+
+  it('restricts voice selection to subscribers', async () => {
+    const user = userEvent.setup();
+    renderViewerVoiceControls();
+
+    await user.selectOptions(screen.getByLabelText('Who can choose'), 'subscriber');
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      viewerVoices: { enabled: true, permission: 'subscriber', allowedVoices: [] }
+    });
+  });
+
+  it('limits the allowed voices', async () => {
+    const user = userEvent.setup();
+    viewerVoices.allowedVoices = ['Samantha'];
+    renderViewerVoiceControls();
+
+    expect(screen.getByRole('checkbox', { name: /Samantha/ })).toBeChecked();
+
+    await user.click(screen.getByRole('checkbox', { name: /Satu/ }));
+
+    expect(updateSettings).toHaveBeenCalledWith({
+      viewerVoices: { enabled: true, permission: 'everyone', allowedVoices: ['Samantha', 'Satu'] }
+    });
+  });
+
+  it('forgets every saved viewer voice', async () => {
+    const user = userEvent.setup();
+    renderViewerVoiceControls();
+
+    expect(screen.getByText('1 viewer has a saved voice')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Forget all' }));
+
+    expect(updateSettings).toHaveBeenCalledWith({ userVoices: {} });
+  });
+});
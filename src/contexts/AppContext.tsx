@@ -1,8 +1,22 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import type { ReactNode } from "react";
 import { ChatProvider, useChatContext } from "./ChatContext";
 import { TTSProvider, useTTSContext } from "./TTSContext";
-import type { TTSSettings } from "../types";
+import type { ChatMessage, MessageDeletion, TTSSettings, UserClear } from "../types";
+import {
+  executeChatCommand,
+  getSessionChannel,
+  hasCommandPermission,
+  isChatCommand,
+  isCommandAllowedInChannel,
+  parseChatCommand,
+} from "../utils/chatCommands";
+import {
+  canChooseVoice,
+  executeVoiceCommand,
+  isVoiceCommand,
+  parseVoiceCommand,
+} from "../utils/viewerVoices";
 
 /**
  * App context provider props
@@ -10,6 +24,7 @@ import type { TTSSettings } from "../types";
 interface AppProviderProps {
   children: ReactNode;
   channel?: string;
+  channels?: string[];
   maxMessages?: number;
   initialTTSSettings?: Partial<TTSSettings>;
 }
@@ -19,20 +34,139 @@ interface AppProviderProps {
  * Requirements: 1.2, 2.1, 4.1
  */
 function ChatTTSIntegration() {
-  const { state: chatState } = useChatContext();
-  const { actions: ttsActions } = useTTSContext();
+  const { state: chatState, service: chatService } = useChatContext();
+  const { state: ttsState, actions: ttsActions } = useTTSContext();
+  const lastQueuedMessageId = useRef<string | null>(null);
+  const lastAnnouncedEnabled = useRef(ttsState.settings.enabled);
+
+  /**
+   * Run a `!tts` command from chat when the sender's badges allow it
+   * Badges only count in the channel they were typed in, so the command only acts on that channel,
+   * and pausing the shared player is left to the session's own channel
+   * Unknown and unauthorized commands are ignored silently
+   * Requirements: 4.3, 6.1
+   */
+  const handleChatCommand = (message: ChatMessage) => {
+    const command = parseChatCommand(message.message);
+    const sessionChannel = getSessionChannel(chatState.username, Object.keys(chatState.channels));
+    if (
+      !command ||
+      !hasCommandPermission(message.badges, ttsState.settings.commandPermissions[command.name]) ||
+      !isCommandAllowedInChannel(command.name, message.channel, sessionChannel)
+    ) {
+      return;
+    }
+
+    const acknowledgement = executeChatCommand(command, message.channel, ttsState.settings, {
+      skip: ttsActions.skipCurrent,
+      clear: ttsActions.removeMessagesByChannel,
+      pause: ttsActions.pauseQueue,
+      resume: ttsActions.resumeQueue,
+      updateSettings: ttsActions.updateSettings,
+      removeMessagesByUser: ttsActions.removeMessagesByUser,
+    });
+
+    chatService?.sendMessage(
+      message.channel,
+      `@${message.displayName || message.username} ${acknowledgement}`
+    );
+  };
+
+  /**
+   * Run a `!voice` command for its sender when voice selection is on and their badges allow it
+   * Requirements: 3.1, 4.3, 6.1
+   */
+  const handleVoiceCommand = (message: ChatMessage) => {
+    const command = parseVoiceCommand(message.message);
+    if (!command || !canChooseVoice(message, ttsState.settings.viewerVoices)) {
+      return;
+    }
+
+    const reply = executeVoiceCommand(
+      command,
+      message,
+      ttsState.settings,
+      ttsState.availableVoices,
+      { setUserVoice: ttsActions.setUserVoice }
+    );
+
+    chatService?.sendMessage(message.channel, `@${message.displayName || message.username} ${reply}`);
+  };
 
   // Auto-add new chat messages to TTS queue
   useEffect(() => {
     // Get the latest message
     const latestMessage = chatState.messages[chatState.messages.length - 1];
 
-    if (latestMessage && chatState.isConnected) {
+    // The message list also changes when it is trimmed or a message is moderated,
+    // so only queue a message the first time it becomes the latest one
+    if (
+      latestMessage &&
+      chatState.isConnected &&
+      !latestMessage.isDeleted &&
+      latestMessage.id !== lastQueuedMessageId.current
+    ) {
+      lastQueuedMessageId.current = latestMessage.id;
+
+      if (isChatCommand(latestMessage.message)) {
+        handleChatCommand(latestMessage);
+        return;
+      }
+
+      if (isVoiceCommand(latestMessage.message)) {
+        handleVoiceCommand(latestMessage);
+        return;
+      }
+
       // Add to TTS queue (filtering is handled inside the TTS context)
       ttsActions.addToQueue(latestMessage);
     }
   }, [chatState.messages, chatState.isConnected]); // Remove ttsActions from dependencies
 
+  // Pull moderated messages out of the TTS queue
+  // Timeouts, bans and clears only affect the channel they happened in
+  // Requirements: 2.2, 6.1
+  const { removeMessageById, removeMessagesByUser, removeMessagesByChannel } = ttsActions;
+  useEffect(() => {
+    if (!chatService) return;
+
+    const handleMessageDeleted = ({ messageId }: MessageDeletion) => {
+      removeMessageById(messageId);
+    };
+    const handleUserCleared = ({ channel, username }: UserClear) => {
+      removeMessagesByUser(username, channel);
+    };
+    const handleChatCleared = ({ channel }: { channel: string }) => {
+      removeMessagesByChannel(channel);
+    };
+
+    chatService.on("chat:messageDeleted", handleMessageDeleted);
+    chatService.on("chat:userCleared", handleUserCleared);
+    chatService.on("chat:chatCleared", handleChatCleared);
+
+    return () => {
+      chatService.off("chat:messageDeleted", handleMessageDeleted);
+      chatService.off("chat:userCleared", handleUserCleared);
+      chatService.off("chat:chatCleared", handleChatCleared);
+    };
+  }, [chatService, removeMessageById, removeMessagesByUser, removeMessagesByChannel]);
+
+  // Tell chat when TTS is switched on or off, only possible while logged in
+  // Requirements: 3.1
+  const ttsEnabled = ttsState.settings.enabled;
+  useEffect(() => {
+    if (ttsEnabled === lastAnnouncedEnabled.current) return;
+    lastAnnouncedEnabled.current = ttsEnabled;
+
+    if (!chatService || chatState.authStatus !== "authenticated") return;
+
+    Object.entries(chatState.channels)
+      .filter(([, joinState]) => joinState === "joined")
+      .forEach(([channel]) => {
+        chatService.sendMessage(channel, `TTS is now ${ttsEnabled ? "on" : "off"}`);
+      });
+  }, [ttsEnabled, chatService, chatState.authStatus, chatState.channels]);
+
   return null; // This component only handles side effects
 }
 
@@ -43,11 +177,12 @@ function ChatTTSIntegration() {
 export function AppProvider({
   children,
   channel = "huikkakoodaa",
+  channels,
   maxMessages = 100,
   initialTTSSettings = {},
 }: AppProviderProps) {
   return (
-    <ChatProvider channel={channel} maxMessages={maxMessages}>
+    <ChatProvider channel={channel} channels={channels} maxMessages={maxMessages}>
       <TTSProvider initialSettings={initialTTSSettings}>
         <ChatTTSIntegration />
         {children}
@@ -82,6 +217,8 @@ export function useAppActions() {
     // Chat actions
     connectToChat: chatActions.connect,
     disconnectFromChat: chatActions.disconnect,
+    joinChannel: chatActions.joinChannel,
+    partChannel: chatActions.partChannel,
     clearChatMessages: chatActions.clearMessages,
 
     // TTS actions
@@ -96,6 +233,14 @@ export function useAppActions() {
       ttsActions.updateSettings({ enabled: false });
       ttsActions.clearQueue();
     },
+    login: chatActions.login,
+    logout: chatActions.logout,
+    sendChatMessage: chatActions.sendMessage,
+    switchChannel: async (channel: string) => {
+      // Nothing queued for the old channel should be spoken after switching
+      ttsActions.clearQueue();
+      await chatActions.switchChannel(channel);
+    },
   };
 }
 
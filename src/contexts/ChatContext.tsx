@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react';
 import type { ReactNode } from 'react';
-import type { ChatMessage, ConnectionStatus } from '../types';
+import type {
+  AuthStatus,
+  ChannelJoinState,
+  ChatMessage,
+  ConnectionStatus,
+  TwitchCredentials,
+} from '../types';
 import { TwitchChatService } from '../services/TwitchChatService';
 
 /**
@@ -9,7 +15,10 @@ import { TwitchChatService } from '../services/TwitchChatService';
  */
 interface ChatState {
   messages: ChatMessage[];
+  channels: Record<string, ChannelJoinState>;
   connectionStatus: ConnectionStatus;
+  authStatus: AuthStatus;
+  username: string | null; // Logged in user, null when anonymous
   reconnectAttempts: number;
   error: string | null;
   isConnected: boolean;
@@ -21,8 +30,14 @@ interface ChatState {
 type ChatAction =
   | { type: 'ADD_MESSAGE'; payload: ChatMessage }
   | { type: 'SET_CONNECTION_STATUS'; payload: ConnectionStatus }
+  | { type: 'SET_CHANNELS'; payload: Record<string, ChannelJoinState> }
+  | { type: 'SET_CHANNEL_STATE'; payload: { channel: string; state: ChannelJoinState | 'parted' } }
+  | { type: 'SET_AUTH'; payload: { authStatus: AuthStatus; username: string | null } }
   | { type: 'SET_RECONNECT_ATTEMPTS'; payload: number }
   | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'MARK_MESSAGE_DELETED'; payload: string }
+  | { type: 'MARK_USER_CLEARED'; payload: { channel: string; username: string } }
+  | { type: 'MARK_CHANNEL_CLEARED'; payload: string }
   | { type: 'CLEAR_MESSAGES' }
   | { type: 'LIMIT_MESSAGES'; payload: number };
 
@@ -34,6 +49,12 @@ interface ChatContextType {
   actions: {
     connect: () => Promise<void>;
     disconnect: () => void;
+    joinChannel: (channel: string) => boolean;
+    partChannel: (channel: string) => boolean;
+    switchChannel: (channel: string) => Promise<void>;
+    login: (credentials: TwitchCredentials) => Promise<void>;
+    logout: () => Promise<void>;
+    sendMessage: (channel: string, text: string) => boolean;
     clearMessages: () => void;
     limitMessages: (maxMessages: number) => void;
   };
@@ -45,7 +66,10 @@ interface ChatContextType {
  */
 const initialState: ChatState = {
   messages: [],
+  channels: {},
   connectionStatus: 'disconnected',
+  authStatus: 'anonymous',
+  username: null,
   reconnectAttempts: 0,
   error: null,
   isConnected: false,
@@ -70,6 +94,35 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         error: action.payload === 'connected' ? null : state.error,
       };
 
+    case 'SET_CHANNELS':
+      return {
+        ...state,
+        channels: action.payload,
+      };
+
+    case 'SET_CHANNEL_STATE': {
+      const { channel, state: channelState } = action.payload;
+      const channels = { ...state.channels };
+
+      if (channelState === 'parted') {
+        delete channels[channel];
+      } else {
+        channels[channel] = channelState;
+      }
+
+      return {
+        ...state,
+        channels,
+      };
+    }
+
+    case 'SET_AUTH':
+      return {
+        ...state,
+        authStatus: action.payload.authStatus,
+        username: action.payload.username,
+      };
+
     case 'SET_RECONNECT_ATTEMPTS':
       return {
         ...state,
@@ -82,6 +135,33 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         error: action.payload,
       };
 
+    case 'MARK_MESSAGE_DELETED':
+      return {
+        ...state,
+        messages: state.messages.map((message) =>
+          message.id === action.payload ? { ...message, isDeleted: true } : message
+        ),
+      };
+
+    case 'MARK_USER_CLEARED':
+      return {
+        ...state,
+        messages: state.messages.map((message) =>
+          message.channel === action.payload.channel &&
+          message.username.toLowerCase() === action.payload.username
+            ? { ...message, isDeleted: true }
+            : message
+        ),
+      };
+
+    case 'MARK_CHANNEL_CLEARED':
+      return {
+        ...state,
+        messages: state.messages.map((message) =>
+          message.channel === action.payload ? { ...message, isDeleted: true } : message
+        ),
+      };
+
     case 'CLEAR_MESSAGES':
       return {
         ...state,
@@ -110,6 +190,7 @@ const ChatContext = createContext<ChatContextType | null>(null);
 interface ChatProviderProps {
   children: ReactNode;
   channel?: string;
+  channels?: string[]; // Takes precedence over channel
   maxMessages?: number;
 }
 
@@ -120,15 +201,44 @@ interface ChatProviderProps {
 export function ChatProvider({ 
   children, 
   channel = 'huikkakoodaa',
+  channels,
   maxMessages = 100 
 }: ChatProviderProps) {
   const [state, dispatch] = useReducer(chatReducer, initialState);
   const [service, setService] = React.useState<TwitchChatService | null>(null);
+  // Kept outside the service so a login survives the service being recreated
+  const credentialsRef = React.useRef<TwitchCredentials | null>(null);
+
+  // Compare channel lists by value so a new array with the same channels doesn't recreate the service
+  const channelKey = (channels ?? [channel]).join(',');
 
   // Initialize service
   useEffect(() => {
-    const chatService = new TwitchChatService(channel);
+    const chatService = new TwitchChatService(channelKey.split(','));
+    if (credentialsRef.current) {
+      chatService.setCredentials(credentialsRef.current);
+    }
     setService(chatService);
+    dispatch({ type: 'SET_CHANNELS', payload: chatService.getChannelStates() });
+
+    chatService.on('chat:channelState', (channelState) => {
+      dispatch({ type: 'SET_CHANNEL_STATE', payload: channelState });
+    });
+
+    chatService.on('chat:authStatus', (authStatus) => {
+      // The service has dropped a rejected token, don't hand it to the next service either
+      if (authStatus === 'failed') {
+        credentialsRef.current = null;
+      }
+
+      dispatch({
+        type: 'SET_AUTH',
+        payload: {
+          authStatus,
+          username: authStatus === 'anonymous' || authStatus === 'failed' ? null : chatService.getNick(),
+        },
+      });
+    });
 
     // Set up event listeners
     chatService.on('chat:message', (message) => {
@@ -141,6 +251,19 @@ export function ChatProvider({
       }, 0);
     });
 
+    // Moderator actions: mark removed messages so they are not shown or spoken
+    chatService.on('chat:messageDeleted', ({ messageId }) => {
+      dispatch({ type: 'MARK_MESSAGE_DELETED', payload: messageId });
+    });
+
+    chatService.on('chat:userCleared', ({ channel, username }) => {
+      dispatch({ type: 'MARK_USER_CLEARED', payload: { channel, username: username.toLowerCase() } });
+    });
+
+    chatService.on('chat:chatCleared', ({ channel }) => {
+      dispatch({ type: 'MARK_CHANNEL_CLEARED', payload: channel });
+    });
+
     chatService.on('chat:connected', () => {
       dispatch({ type: 'SET_CONNECTION_STATUS', payload: 'connected' });
       dispatch({ type: 'SET_RECONNECT_ATTEMPTS', payload: 0 });
@@ -159,7 +282,7 @@ export function ChatProvider({
     return () => {
       chatService.destroy();
     };
-  }, [channel, maxMessages]);
+  }, [channelKey, maxMessages]);
 
   // Update reconnect attempts periodically when service is available
   useEffect(() => {
@@ -190,6 +313,55 @@ export function ChatProvider({
     }
   }, [service]);
 
+  const joinChannel = useCallback((channelName: string): boolean => {
+    return service ? service.joinChannel(channelName) : false;
+  }, [service]);
+
+  const partChannel = useCallback((channelName: string): boolean => {
+    return service ? service.partChannel(channelName) : false;
+  }, [service]);
+
+  // Leave every channel and reconnect to a single new one with an empty chat
+  const switchChannel = useCallback(async (channelName: string) => {
+    if (!service) {
+      return;
+    }
+
+    dispatch({ type: 'CLEAR_MESSAGES' });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'SET_RECONNECT_ATTEMPTS', payload: 0 });
+
+    try {
+      await service.switchChannels([channelName]);
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to switch channel',
+      });
+    }
+  }, [service]);
+
+  const login = useCallback(async (credentials: TwitchCredentials) => {
+    credentialsRef.current = credentials;
+    dispatch({ type: 'SET_ERROR', payload: null });
+
+    if (service) {
+      await service.setCredentials(credentials);
+    }
+  }, [service]);
+
+  const logout = useCallback(async () => {
+    credentialsRef.current = null;
+
+    if (service) {
+      await service.setCredentials(null);
+    }
+  }, [service]);
+
+  const sendMessage = useCallback((channelName: string, text: string): boolean => {
+    return service ? service.sendMessage(channelName, text) : false;
+  }, [service]);
+
   const clearMessages = useCallback(() => {
     dispatch({ type: 'CLEAR_MESSAGES' });
   }, []);
@@ -203,6 +375,12 @@ export function ChatProvider({
     actions: {
       connect,
       disconnect,
+      joinChannel,
+      partChannel,
+      switchChannel,
+      login,
+      logout,
+      sendMessage,
       clearMessages,
       limitMessages,
     },
@@ -248,9 +426,15 @@ export function useConnectionStatus(): {
   isConnected: boolean;
   reconnectAttempts: number;
   error: string | null;
+  channels: Record<string, ChannelJoinState>;
+  authStatus: AuthStatus;
+  username: string | null;
 } {
   const { state } = useChatContext();
   return {
+    channels: state.channels,
+    authStatus: state.authStatus,
+    username: state.username,
     status: state.connectionStatus,
     isConnected: state.isConnected,
     reconnectAttempts: state.reconnectAttempts,
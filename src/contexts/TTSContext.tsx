@@ -1,8 +1,30 @@
-import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
-import type { TTSSettings, TTSQueueItem, ChatMessage } from '../types';
+import type { TTSSettings, TTSQueueItem, TTSVoice, ChatMessage, UserVoicePreference, FilterResult, RejectedMessage } from '../types';
 import { TTSService } from '../services/TTSService';
 import { QueueManager } from '../services/QueueManager';
+import { isEmoteOnlyMessage } from '../utils/messageFragments';
+import { resolveChannelSettings } from '../utils/channelSettings';
+import { DEFAULT_COMMAND_PERMISSIONS, isChatCommand } from '../utils/chatCommands';
+import {
+  DEFAULT_VIEWER_VOICE_SETTINGS,
+  getUserVoiceKey,
+  isVoiceCommand,
+  loadUserVoices,
+  saveUserVoices,
+} from '../utils/viewerVoices';
+import { DEFAULT_VOICE_POOL_SETTINGS } from '../utils/voicePool';
+import { DEFAULT_BADGE_VOICE_SETTINGS } from '../utils/badgeVoices';
+import { DEFAULT_LANGUAGE_DETECTION_SETTINGS } from '../utils/languageDetection';
+import { DEFAULT_NORMALIZATION_SETTINGS } from '../utils/normalizers';
+import { DEFAULT_MESSAGE_TEMPLATE_SETTINGS } from '../utils/messageTemplates';
+import { loadNicknames, saveNicknames } from '../utils/nicknames';
+import { DEFAULT_QUEUE_PRIORITY_SETTINGS } from '../utils/queuePriority';
+import { DEFAULT_QUEUE_LIMIT_SETTINGS } from '../utils/queueLimit';
+import { DEFAULT_RATE_LIMIT_SETTINGS } from '../utils/rateLimits';
+import { UserRateLimiter } from '../services/UserRateLimiter';
+import { DEFAULT_SPAM_FILTER_SETTINGS } from '../utils/spamDetection';
+import { SpamDetector } from '../services/SpamDetector';
 
 /**
  * TTS context state interface
@@ -13,7 +35,10 @@ interface TTSState {
   queue: TTSQueueItem[];
   currentItem: TTSQueueItem | null;
   isProcessing: boolean;
-  availableVoices: SpeechSynthesisVoice[];
+  isPaused: boolean;
+  droppedCount: number; // Messages dropped from a full queue this session
+  lastRejected: RejectedMessage | null; // Latest message the filters kept out of the queue
+  availableVoices: TTSVoice[];
   isSupported: boolean;
   error: string | null;
 }
@@ -23,10 +48,14 @@ interface TTSState {
  */
 type TTSAction =
   | { type: 'UPDATE_SETTINGS'; payload: Partial<TTSSettings> }
+  | { type: 'SET_USER_VOICE'; payload: { key: string; preference: UserVoicePreference | null } }
   | { type: 'SET_QUEUE'; payload: TTSQueueItem[] }
   | { type: 'SET_CURRENT_ITEM'; payload: TTSQueueItem | null }
   | { type: 'SET_PROCESSING'; payload: boolean }
-  | { type: 'SET_AVAILABLE_VOICES'; payload: SpeechSynthesisVoice[] }
+  | { type: 'SET_PAUSED'; payload: boolean }
+  | { type: 'ADD_DROPPED'; payload: number }
+  | { type: 'SET_REJECTED'; payload: RejectedMessage }
+  | { type: 'SET_AVAILABLE_VOICES'; payload: TTSVoice[] }
   | { type: 'SET_SUPPORTED'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'CLEAR_QUEUE' };
@@ -38,10 +67,16 @@ interface TTSContextType {
   state: TTSState;
   actions: {
     updateSettings: (settings: Partial<TTSSettings>) => void;
+    setUserVoice: (key: string, preference: UserVoicePreference | null) => void;
     addToQueue: (message: ChatMessage) => TTSQueueItem | null;
     removeFromQueue: (itemId: string) => boolean;
+    removeMessageById: (messageId: string) => number;
+    removeMessagesByUser: (username: string, channel?: string) => number;
+    removeMessagesByChannel: (channel: string) => number;
     clearQueue: () => void;
-    skipCurrent: () => boolean;
+    skipCurrent: (channel?: string) => boolean; // Only a message from the channel when one is given
+    pauseQueue: () => void;
+    resumeQueue: () => void;
     testSpeak: (text?: string) => Promise<void>;
   };
   services: {
@@ -64,6 +99,25 @@ const defaultSettings: TTSSettings = {
   minMessageLength: 3,
   blockedUsers: [],
   skipEmoteOnly: true,
+  emoteSpeechRules: [],
+  defaultEmoteAction: 'drop',
+  channelSettings: {},
+  commandPermissions: DEFAULT_COMMAND_PERMISSIONS,
+  viewerVoices: DEFAULT_VIEWER_VOICE_SETTINGS,
+  userVoices: {},
+  voicePool: DEFAULT_VOICE_POOL_SETTINGS,
+  badgeVoices: DEFAULT_BADGE_VOICE_SETTINGS,
+  languageDetection: DEFAULT_LANGUAGE_DETECTION_SETTINGS,
+  substitutions: [],
+  normalization: DEFAULT_NORMALIZATION_SETTINGS,
+  messageTemplates: DEFAULT_MESSAGE_TEMPLATE_SETTINGS,
+  nicknames: {},
+  autoCleanNames: false,
+  httpEngine: { enabled: false, url: 'http://localhost:5002' },
+  queuePriority: DEFAULT_QUEUE_PRIORITY_SETTINGS,
+  queueLimit: DEFAULT_QUEUE_LIMIT_SETTINGS,
+  rateLimits: DEFAULT_RATE_LIMIT_SETTINGS,
+  spamFilter: DEFAULT_SPAM_FILTER_SETTINGS,
 };
 
 /**
@@ -74,6 +128,9 @@ const initialState: TTSState = {
   queue: [],
   currentItem: null,
   isProcessing: false,
+  isPaused: false,
+  droppedCount: 0,
+  lastRejected: null,
   availableVoices: [],
   isSupported: false,
   error: null,
@@ -90,6 +147,21 @@ function ttsReducer(state: TTSState, action: TTSAction): TTSState {
         settings: { ...state.settings, ...action.payload },
       };
 
+    case 'SET_USER_VOICE': {
+      const { key, preference } = action.payload;
+      const userVoices = { ...state.settings.userVoices };
+      if (preference) {
+        userVoices[key] = preference;
+      } else {
+        delete userVoices[key];
+      }
+
+      return {
+        ...state,
+        settings: { ...state.settings, userVoices },
+      };
+    }
+
     case 'SET_QUEUE':
       return {
         ...state,
@@ -108,6 +180,24 @@ function ttsReducer(state: TTSState, action: TTSAction): TTSState {
         isProcessing: action.payload,
       };
 
+    case 'SET_PAUSED':
+      return {
+        ...state,
+        isPaused: action.payload,
+      };
+
+    case 'ADD_DROPPED':
+      return {
+        ...state,
+        droppedCount: state.droppedCount + action.payload,
+      };
+
+    case 'SET_REJECTED':
+      return {
+        ...state,
+        lastRejected: action.payload,
+      };
+
     case 'SET_AVAILABLE_VOICES':
       return {
         ...state,
@@ -162,11 +252,13 @@ export function TTSProvider({
 }: TTSProviderProps) {
   const [state, dispatch] = useReducer(ttsReducer, {
     ...initialState,
-    settings: { ...defaultSettings, ...initialSettings },
+    settings: { ...defaultSettings, userVoices: loadUserVoices(), nicknames: loadNicknames(), ...initialSettings },
   });
   
   const [ttsService, setTTSService] = React.useState<TTSService | null>(null);
   const [queueManager, setQueueManager] = React.useState<QueueManager | null>(null);
+  const rateLimiter = useRef(new UserRateLimiter());
+  const spamDetector = useRef(new SpamDetector());
 
   // Initialize services
   useEffect(() => {
@@ -176,15 +268,6 @@ export function TTSProvider({
       try {
         console.log('Initializing TTS services...');
         
-        // Check basic TTS support first
-        if (!('speechSynthesis' in window)) {
-          if (isMounted) {
-            dispatch({ type: 'SET_ERROR', payload: 'Text-to-speech is not supported in this browser' });
-            dispatch({ type: 'SET_SUPPORTED', payload: false });
-          }
-          return;
-        }
-
         // Create TTS service
         const tts = new TTSService(state.settings);
         
@@ -201,21 +284,21 @@ export function TTSProvider({
         const isSupported = tts.isSupported();
         dispatch({ type: 'SET_SUPPORTED', payload: isSupported });
 
+        // Get available voices, later changes arrive through tts:voicesChanged
+        const voices = tts.getAvailableVoices();
+        dispatch({ type: 'SET_AVAILABLE_VOICES', payload: voices });
+
+        // Create queue manager, an engine configured later can still speak through it
+        const queue = new QueueManager(tts);
+
+        if (!isMounted) return; // Component unmounted during initialization
+
+        setQueueManager(queue);
+
+        // Set up event listeners
+        setupEventListeners(tts, queue);
+
         if (isSupported) {
-          // Get available voices
-          const voices = tts.getAvailableVoices();
-          dispatch({ type: 'SET_AVAILABLE_VOICES', payload: voices });
-
-          // Create queue manager
-          const queue = new QueueManager(tts);
-          
-          if (!isMounted) return; // Component unmounted during initialization
-          
-          setQueueManager(queue);
-
-          // Set up event listeners
-          setupEventListeners(tts, queue);
-          
           console.log('TTS services initialized successfully');
         } else {
           dispatch({ type: 'SET_ERROR', payload: 'Text-to-speech is not supported in this browser' });
@@ -247,6 +330,7 @@ export function TTSProvider({
   const setupEventListeners = useCallback((tts: TTSService, queue: QueueManager) => {
     // TTS service events
     tts.on('tts:started', (queueItem) => {
+      rateLimiter.current.recordSpoken(queueItem.message, tts.getSettings().rateLimits);
       dispatch({ type: 'SET_CURRENT_ITEM', payload: queueItem });
       dispatch({ type: 'SET_PROCESSING', payload: true });
     });
@@ -256,6 +340,11 @@ export function TTSProvider({
       dispatch({ type: 'SET_PROCESSING', payload: false });
     });
 
+    tts.on('tts:voicesChanged', (voices) => {
+      dispatch({ type: 'SET_AVAILABLE_VOICES', payload: voices });
+      dispatch({ type: 'SET_SUPPORTED', payload: tts.isSupported() });
+    });
+
     tts.on('tts:error', ({ error }) => {
       dispatch({ type: 'SET_ERROR', payload: error });
       dispatch({ type: 'SET_CURRENT_ITEM', payload: null });
@@ -276,6 +365,10 @@ export function TTSProvider({
     queue.on('queue:cleared', () => {
       dispatch({ type: 'CLEAR_QUEUE' });
     });
+
+    queue.on('queue:overflow', (dropped) => {
+      dispatch({ type: 'ADD_DROPPED', payload: dropped.length });
+    });
   }, []);
 
   // Update TTS service settings when state changes
@@ -285,41 +378,74 @@ export function TTSProvider({
     }
   }, [ttsService, state.settings]);
 
-  // Message filtering logic
-  const shouldProcessMessage = useCallback((message: ChatMessage): boolean => {
-    const { settings } = state;
+  // Keep queue priorities in sync with the settings
+  useEffect(() => {
+    if (queueManager) {
+      queueManager.updateSettings(state.settings);
+    }
+  }, [queueManager, state.settings]);
+
+  // Keep viewers' voices between visits
+  // Requirements: 3.1
+  useEffect(() => {
+    saveUserVoices(state.settings.userVoices);
+  }, [state.settings.userVoices]);
 
-    // Check if TTS is enabled
+  // Keep nicknames between visits
+  // Requirements: 3.1
+  useEffect(() => {
+    saveNicknames(state.settings.nicknames);
+  }, [state.settings.nicknames]);
+
+  // Message filtering logic, rejections say why the message is not spoken
+  // Requirements: 2.2, 4.1
+  const filterMessage = useCallback((message: ChatMessage): FilterResult => {
+    // Apply the message channel's overrides on top of the global settings
+    const settings = resolveChannelSettings(state.settings, message.channel);
+
+    // Check if TTS is enabled globally and for the channel
     if (!settings.enabled) {
-      return false;
+      return { shouldProcess: false, reason: 'TTS is off for this channel' };
+    }
+
+    // Chat commands are never spoken, whether or not the sender may use them
+    if (isChatCommand(message.message) || isVoiceCommand(message.message)) {
+      return { shouldProcess: false, reason: 'Chat command' };
     }
 
     // Filter bots if enabled
     if (settings.filterBots && message.isBot) {
-      return false;
+      return { shouldProcess: false, reason: 'Bot message' };
     }
 
     // Check minimum message length
     if (message.message.length < settings.minMessageLength) {
-      return false;
+      return { shouldProcess: false, reason: `Shorter than ${settings.minMessageLength} characters` };
     }
 
     // Check blocked users
     if (settings.blockedUsers.includes(message.username.toLowerCase())) {
-      return false;
+      return { shouldProcess: false, reason: 'Blocked user' };
     }
 
     // Check emote-only messages if filtering enabled
-    if (settings.skipEmoteOnly) {
-      // Simple check: if message is all uppercase and short, likely emote-only
-      const isLikelyEmoteOnly = /^[A-Z\s]+$/.test(message.message) && message.message.length < 20;
-      if (isLikelyEmoteOnly) {
-        return false;
-      }
+    if (settings.skipEmoteOnly && isEmoteOnlyMessage(message)) {
+      return { shouldProcess: false, reason: 'Emote-only message' };
+    }
+
+    // Spam, duplicates and copypastas are compared across every chatter in the channel
+    const spam = spamDetector.current.check(message, state.settings.spamFilter);
+    if (!spam.shouldProcess) {
+      return spam;
     }
 
-    return true;
-  }, [state.settings]);
+    // Rate limits come last, the allowance is only used up once the message is queued
+    const userKey = getUserVoiceKey(message);
+    const countPending = () => (queueManager
+      ? queueManager.getQueue().filter(item => getUserVoiceKey(item.message) === userKey).length
+      : 0);
+    return rateLimiter.current.admit(message, state.settings.rateLimits, countPending);
+  }, [state.settings, queueManager]);
 
   // Actions
   const updateSettings = useCallback((newSettings: Partial<TTSSettings>) => {
@@ -327,20 +453,36 @@ export function TTSProvider({
     dispatch({ type: 'SET_ERROR', payload: null });
   }, []);
 
+  const setUserVoice = useCallback((key: string, preference: UserVoicePreference | null) => {
+    dispatch({ type: 'SET_USER_VOICE', payload: { key, preference } });
+  }, []);
+
   const addToQueue = useCallback((message: ChatMessage): TTSQueueItem | null => {
-    if (!queueManager || !shouldProcessMessage(message)) {
+    if (!queueManager) {
+      return null;
+    }
+
+    const result = filterMessage(message);
+    if (!result.shouldProcess) {
+      dispatch({ type: 'SET_REJECTED', payload: { message, reason: result.reason ?? 'Filtered' } });
       return null;
     }
 
     try {
       const queueItem = queueManager.add(message);
+      // A full queue may drop the new message straight away, it then costs the chatter nothing
+      // and does not count as a recent message for the spam filter
+      if (queueItem.status !== 'dropped') {
+        rateLimiter.current.recordQueued(message, state.settings.rateLimits);
+        spamDetector.current.record(message, state.settings.spamFilter);
+      }
       return queueItem;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to add message to queue';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
       return null;
     }
-  }, [queueManager, shouldProcessMessage]);
+  }, [queueManager, filterMessage, state.settings.rateLimits, state.settings.spamFilter]);
 
   const removeFromQueue = useCallback((itemId: string): boolean => {
     if (!queueManager) {
@@ -356,6 +498,48 @@ export function TTSProvider({
     }
   }, [queueManager]);
 
+  const removeMessageById = useCallback((messageId: string): number => {
+    if (!queueManager) {
+      return 0;
+    }
+
+    try {
+      return queueManager.removeByMessageId(messageId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove deleted message from queue';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return 0;
+    }
+  }, [queueManager]);
+
+  const removeMessagesByUser = useCallback((username: string, channel?: string): number => {
+    if (!queueManager) {
+      return 0;
+    }
+
+    try {
+      return queueManager.removeByUser(username, channel);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove user messages from queue';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return 0;
+    }
+  }, [queueManager]);
+
+  const removeMessagesByChannel = useCallback((channel: string): number => {
+    if (!queueManager) {
+      return 0;
+    }
+
+    try {
+      return queueManager.removeByChannel(channel);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove channel messages from queue';
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      return 0;
+    }
+  }, [queueManager]);
+
   const clearQueue = useCallback(() => {
     if (!queueManager) {
       return;
@@ -369,13 +553,13 @@ export function TTSProvider({
     }
   }, [queueManager]);
 
-  const skipCurrent = useCallback((): boolean => {
+  const skipCurrent = useCallback((channel?: string): boolean => {
     if (!queueManager) {
       return false;
     }
 
     try {
-      return queueManager.skip();
+      return queueManager.skip(channel);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to skip current item';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
@@ -383,6 +567,24 @@ export function TTSProvider({
     }
   }, [queueManager]);
 
+  const pauseQueue = useCallback(() => {
+    if (!queueManager) {
+      return;
+    }
+
+    queueManager.pause();
+    dispatch({ type: 'SET_PAUSED', payload: true });
+  }, [queueManager]);
+
+  const resumeQueue = useCallback(() => {
+    if (!queueManager) {
+      return;
+    }
+
+    queueManager.resume();
+    dispatch({ type: 'SET_PAUSED', payload: false });
+  }, [queueManager]);
+
   const testSpeak = useCallback(async (text?: string): Promise<void> => {
     if (!ttsService) {
       throw new Error('TTS service not available');
@@ -401,10 +603,16 @@ export function TTSProvider({
     state,
     actions: {
       updateSettings,
+      setUserVoice,
       addToQueue,
       removeFromQueue,
+      removeMessageById,
+      removeMessagesByUser,
+      removeMessagesByChannel,
       clearQueue,
       skipCurrent,
+      pauseQueue,
+      resumeQueue,
       testSpeak,
     },
     services: {
@@ -441,7 +649,7 @@ export function useTTSContext(): TTSContextType {
 export function useTTSSettings(): {
   settings: TTSSettings;
   updateSettings: (settings: Partial<TTSSettings>) => void;
-  availableVoices: SpeechSynthesisVoice[];
+  availableVoices: TTSVoice[];
   isSupported: boolean;
 } {
   const { state, actions } = useTTSContext();
@@ -461,13 +669,18 @@ export function useTTSQueue(): {
   queue: TTSQueueItem[];
   currentItem: TTSQueueItem | null;
   isProcessing: boolean;
+  isPaused: boolean;
   queueCount: number;
+  droppedCount: number;
+  lastRejected: RejectedMessage | null;
   isEmpty: boolean;
   actions: {
     addToQueue: (message: ChatMessage) => TTSQueueItem | null;
     removeFromQueue: (itemId: string) => boolean;
     clearQueue: () => void;
-    skipCurrent: () => boolean;
+    skipCurrent: (channel?: string) => boolean; // Only a message from the channel when one is given
+    pauseQueue: () => void;
+    resumeQueue: () => void;
   };
 } {
   const { state, actions } = useTTSContext();
@@ -475,13 +688,18 @@ export function useTTSQueue(): {
     queue: state.queue,
     currentItem: state.currentItem,
     isProcessing: state.isProcessing,
+    isPaused: state.isPaused,
     queueCount: state.queue.length,
+    droppedCount: state.droppedCount,
+    lastRejected: state.lastRejected,
     isEmpty: state.queue.length === 0 && !state.currentItem,
     actions: {
       addToQueue: actions.addToQueue,
       removeFromQueue: actions.removeFromQueue,
       clearQueue: actions.clearQueue,
       skipCurrent: actions.skipCurrent,
+      pauseQueue: actions.pauseQueue,
+      resumeQueue: actions.resumeQueue,
     },
   };
 }
@@ -494,7 +712,7 @@ export function useTTSControls(): {
   settings: TTSSettings;
   updateSettings: (settings: Partial<TTSSettings>) => void;
   testSpeak: (text?: string) => Promise<void>;
-  availableVoices: SpeechSynthesisVoice[];
+  availableVoices: TTSVoice[];
   isSupported: boolean;
   error: string | null;
 } {
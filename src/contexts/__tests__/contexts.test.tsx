@@ -4,7 +4,10 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AppProvider, useAppContext, useAppActions, useAppStatus } from '../AppContext';
 import { ChatProvider, useChatContext } from '../ChatContext';
 import { TTSProvider, useTTSContext } from '../TTSContext';
-import type { ChatMessage } from '../../types';
+import type { ChatMessage, RateLimitSettings } from '../../types';
+import type { TwitchChatService } from '../../services/TwitchChatService';
+import { DEFAULT_RATE_LIMIT_SETTINGS } from '../../utils/rateLimits';
+import { DEFAULT_SPAM_FILTER_SETTINGS } from '../../utils/spamDetection';
 
 // Mock WebSocket and SpeechSynthesis APIs
 global.WebSocket = vi.fn().mockImplementation(() => ({
@@ -289,6 +292,280 @@ describe('React Contexts', () => {
   });
 });
 
+describe('Moderation across channels', () => {
+  // Feed raw IRC lines through the chat service as if they came from Twitch
+  const receive = (service: TwitchChatService | null, line: string) => {
+    act(() => {
+      (service as unknown as { handleMessage: (data: string) => void }).handleMessage(line);
+    });
+  };
+
+  const createMessage = (id: string, channel: string, username: string, message: string): ChatMessage => ({
+    id,
+    channel,
+    username,
+    message,
+    timestamp: new Date(),
+    isBot: false,
+    badges: [],
+  });
+
+  describe('chat messages', () => {
+    let chat: ReturnType<typeof useChatContext>;
+
+    function ChatModerationComponent() {
+      chat = useChatContext();
+      return null;
+    }
+
+    const deletedIds = () => chat.state.messages.filter(message => message.isDeleted).map(message => message.id);
+
+    const renderWithMessages = async () => {
+      render(
+        <ChatProvider channels={['first', 'second']}>
+          <ChatModerationComponent />
+        </ChatProvider>
+      );
+      await waitFor(() => expect(chat.service).not.toBeNull());
+
+      receive(chat.service, '@id=1 :spammer!spammer@spammer.tmi.twitch.tv PRIVMSG #first :spam');
+      receive(chat.service, '@id=2 :spammer!spammer@spammer.tmi.twitch.tv PRIVMSG #second :hello');
+      receive(chat.service, '@id=3 :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #first :hi');
+      expect(chat.state.messages).toHaveLength(3);
+    };
+
+    it('hides a timed out user\'s messages only in that channel', async () => {
+      await renderWithMessages();
+
+      receive(chat.service, '@ban-duration=600 :tmi.twitch.tv CLEARCHAT #first :spammer');
+
+      expect(deletedIds()).toEqual(['1']);
+    });
+
+    it('hides every message only in the cleared channel', async () => {
+      await renderWithMessages();
+
+      receive(chat.service, ':tmi.twitch.tv CLEARCHAT #first');
+
+      expect(deletedIds()).toEqual(['1', '3']);
+    });
+  });
+
+  describe('TTS queue', () => {
+    let chat: ReturnType<typeof useChatContext>;
+    let tts: ReturnType<typeof useTTSContext>;
+
+    function QueueModerationComponent() {
+      chat = useChatContext();
+      tts = useTTSContext();
+      return null;
+    }
+
+    const queuedIds = () => tts.state.queue.map(item => item.message.id);
+
+    const renderWithQueue = async () => {
+      render(
+        <AppProvider channels={['first', 'second']} initialTTSSettings={{ enabled: true }}>
+          <QueueModerationComponent />
+        </AppProvider>
+      );
+      await waitFor(() => expect(tts.services.queueManager).not.toBeNull());
+      await waitFor(() => expect(chat.service).not.toBeNull());
+
+      act(() => {
+        tts.actions.pauseQueue();
+      });
+      act(() => {
+        tts.actions.addToQueue(createMessage('1', 'first', 'spammer', 'buy followers now'));
+        tts.actions.addToQueue(createMessage('2', 'second', 'spammer', 'hello everyone'));
+        tts.actions.addToQueue(createMessage('3', 'first', 'viewer', 'what game is this'));
+      });
+      await waitFor(() => expect(queuedIds()).toEqual(['1', '2', '3']));
+    };
+
+    it('drops a timed out user\'s queued messages only in that channel', async () => {
+      await renderWithQueue();
+
+      receive(chat.service, '@ban-duration=600 :tmi.twitch.tv CLEARCHAT #first :spammer');
+
+      await waitFor(() => expect(queuedIds()).toEqual(['2', '3']));
+    });
+
+    it('drops queued messages only from the cleared channel', async () => {
+      await renderWithQueue();
+
+      receive(chat.service, ':tmi.twitch.tv CLEARCHAT #first');
+
+      await waitFor(() => expect(queuedIds()).toEqual(['2']));
+    });
+  });
+});
+
+describe('Chat commands across channels', () => {
+  let chat: ReturnType<typeof useChatContext>;
+  let tts: ReturnType<typeof useTTSContext>;
+
+  function CommandComponent() {
+    chat = useChatContext();
+    tts = useTTSContext();
+    return null;
+  }
+
+  // Drive the chat service as if Twitch had sent the lines
+  const receive = (line: string) => {
+    act(() => {
+      (chat.service as unknown as { handleMessage: (data: string) => void }).handleMessage(line);
+    });
+  };
+
+  const renderConnected = async () => {
+    render(
+      <AppProvider channels={['first', 'second']} initialTTSSettings={{ enabled: true }}>
+        <CommandComponent />
+      </AppProvider>
+    );
+    await waitFor(() => expect(tts.services.queueManager).not.toBeNull());
+    await waitFor(() => expect(chat.service).not.toBeNull());
+
+    act(() => {
+      (chat.service as unknown as { emit: (event: string, data: unknown) => void }).emit('chat:connected', undefined);
+    });
+    await waitFor(() => expect(chat.state.isConnected).toBe(true));
+  };
+
+  it('lets a moderator of one channel turn TTS off only in that channel', async () => {
+    await renderConnected();
+    act(() => {
+      tts.actions.pauseQueue();
+    });
+    receive('@id=1 :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #first :what game is this');
+    receive('@id=2 :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #second :hello from the second channel');
+    await waitFor(() => expect(tts.state.queue.map(item => item.message.id)).toEqual(['1', '2']));
+
+    receive('@badges=moderator/1;id=3 :mod!mod@mod.tmi.twitch.tv PRIVMSG #second :!tts off');
+
+    await waitFor(() => expect(tts.state.settings.channelSettings.second).toEqual({ enabled: false }));
+    expect(tts.state.settings.enabled).toBe(true);
+    expect(tts.state.settings.channelSettings.first).toBeUndefined();
+    await waitFor(() => expect(tts.state.queue.map(item => item.message.id)).toEqual(['1']));
+  });
+
+  it('ignores pausing from a channel that does not own the session', async () => {
+    await renderConnected();
+
+    receive('@badges=moderator/1;id=1 :mod!mod@mod.tmi.twitch.tv PRIVMSG #second :!tts pause');
+
+    await waitFor(() => expect(chat.state.messages).toHaveLength(1));
+    expect(tts.state.isPaused).toBe(false);
+  });
+});
+
+describe('Queue filtering', () => {
+  let tts: ReturnType<typeof useTTSContext>;
+
+  function QueueFilteringComponent() {
+    tts = useTTSContext();
+    return null;
+  }
+
+  const createMessage = (id: string, username: string, message: string): ChatMessage => ({
+    id,
+    channel: 'testchannel',
+    username,
+    message,
+    timestamp: new Date(),
+    isBot: false,
+    badges: [],
+  });
+
+  const renderProvider = async (initialSettings: React.ComponentProps<typeof TTSProvider>['initialSettings']) => {
+    render(
+      <TTSProvider initialSettings={initialSettings}>
+        <QueueFilteringComponent />
+      </TTSProvider>
+    );
+    await waitFor(() => expect(tts.services.queueManager).not.toBeNull());
+  };
+
+  it('keeps the reason of the latest rejected message', async () => {
+    await renderProvider({ enabled: true, blockedUsers: ['troll'] });
+
+    let item: ReturnType<typeof tts.actions.addToQueue> = null;
+    act(() => {
+      item = tts.actions.addToQueue(createMessage('1', 'troll', 'hello there'));
+    });
+
+    expect(item).toBeNull();
+    expect(tts.state.lastRejected).toEqual({ message: expect.objectContaining({ id: '1' }), reason: 'Blocked user' });
+  });
+
+  it('keeps the reason of a message the spam filter rejects', async () => {
+    await renderProvider({ enabled: true, spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true } });
+
+    act(() => {
+      tts.actions.pauseQueue();
+    });
+    act(() => {
+      tts.actions.addToQueue(createMessage('1', 'alice', 'first'));
+      tts.actions.addToQueue(createMessage('2', 'bob', 'FIRST!!!'));
+    });
+
+    expect(tts.state.lastRejected?.message.id).toBe('2');
+    expect(tts.state.lastRejected?.reason).toBe('Duplicate of a recent message');
+  });
+
+  it('does not use up a rate limit for a message the full queue drops', async () => {
+    const oneMessage = { messages: 1, windowSeconds: 60, cooldownSeconds: 0, onePending: false };
+    const rateLimits: RateLimitSettings = {
+      enabled: true,
+      limits: Object.fromEntries(
+        Object.keys(DEFAULT_RATE_LIMIT_SETTINGS.limits).map(permission => [permission, oneMessage])
+      ) as RateLimitSettings['limits'],
+    };
+    await renderProvider({
+      enabled: true,
+      rateLimits,
+      queueLimit: { maxLength: 1, overflowPolicy: 'rejectNewest', maxAgeSeconds: 0 },
+    });
+
+    act(() => {
+      tts.actions.pauseQueue();
+    });
+    act(() => {
+      tts.actions.addToQueue(createMessage('1', 'alice', 'hello there'));
+    });
+    act(() => {
+      expect(tts.actions.addToQueue(createMessage('2', 'bob', 'good morning chat'))?.status).toBe('dropped');
+    });
+    act(() => {
+      tts.actions.clearQueue();
+    });
+
+    act(() => {
+      expect(tts.actions.addToQueue(createMessage('3', 'bob', 'what game is this'))?.status).toBe('pending');
+    });
+    expect(tts.state.lastRejected).toBeNull();
+  });
+
+  it('does not count a rate limited message as recent for the spam filter', async () => {
+    const oneMessage = { messages: 1, windowSeconds: 60, cooldownSeconds: 0, onePending: false };
+    await renderProvider({
+      enabled: true,
+      spamFilter: { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true },
+      rateLimits: { ...DEFAULT_RATE_LIMIT_SETTINGS, enabled: true, limits: { ...DEFAULT_RATE_LIMIT_SETTINGS.limits, everyone: oneMessage } },
+    });
+
+    act(() => {
+      tts.actions.pauseQueue();
+    });
+    act(() => {
+      tts.actions.addToQueue(createMessage('1', 'alice', 'hello there'));
+      expect(tts.actions.addToQueue(createMessage('2', 'alice', 'what game is this'))).toBeNull();
+      expect(tts.actions.addToQueue(createMessage('3', 'bob', 'what game is this'))?.status).toBe('pending');
+    });
+  });
+});
+
 describe('Custom Hooks', () => {
   describe('useAppActions', () => {
     it('should provide all expected actions', () => {
@@ -0,0 +1,183 @@
+import type {
+  TTSEngine,
+  TTSEngineHandlers,
+  TTSEngineUtterance,
+  TTSVoice,
+} from "../types";
+import { synthesize } from "../utils/formantSynthesis";
+
+/**
+ * Sample rate the fallback voice is rendered at, Web Audio resamples it for playback
+ */
+const SAMPLE_RATE = 22050;
+
+/**
+ * Built-in voices and their base pitch in Hz
+ */
+const FALLBACK_VOICES: { voice: TTSVoice; basePitch: number }[] = [
+  {
+    voice: {
+      name: "Offline voice (low)",
+      lang: "en",
+      voiceURI: "fallback-low",
+      default: false,
+      localService: true,
+      engine: "fallback",
+    },
+    basePitch: 110,
+  },
+  {
+    voice: {
+      name: "Offline voice (high)",
+      lang: "en",
+      voiceURI: "fallback-high",
+      default: false,
+      localService: true,
+      engine: "fallback",
+    },
+    basePitch: 190,
+  },
+];
+
+/**
+ * TTS engine with a bundled formant synthesizer that plays through Web Audio
+ * Used when the browser has no speech voices, as in many Linux browsers and OBS browser sources
+ * Requirements: 2.1, 3.2
+ */
+export class FallbackTTSEngine implements TTSEngine {
+  public readonly id = "fallback" as const;
+  private voicesChangedListeners = new Set<(voices: TTSVoice[]) => void>();
+  private context: AudioContext | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private boundaryTimers: ReturnType<typeof setTimeout>[] = [];
+
+  public isSupported(): boolean {
+    return typeof AudioContext === "function";
+  }
+
+  public getVoices(): TTSVoice[] {
+    return this.isSupported() ? FALLBACK_VOICES.map(({ voice }) => voice) : [];
+  }
+
+  public onVoicesChanged(listener: (voices: TTSVoice[]) => void): void {
+    this.voicesChangedListeners.add(listener);
+  }
+
+  /**
+   * The built-in voices are always available, so this resolves immediately
+   */
+  public async loadVoices(): Promise<TTSVoice[]> {
+    const voices = this.getVoices();
+    if (voices.length > 0) {
+      this.voicesChangedListeners.forEach((listener) => listener(voices));
+    }
+    return voices;
+  }
+
+  public speak(utterance: TTSEngineUtterance, handlers: TTSEngineHandlers): void {
+    this.cancel();
+
+    const basePitch = (
+      FALLBACK_VOICES.find(({ voice }) => voice.voiceURI === utterance.voice?.voiceURI)
+      ?? FALLBACK_VOICES[0]
+    ).basePitch;
+
+    const { samples, boundaries } = synthesize(utterance.text, {
+      sampleRate: SAMPLE_RATE,
+      basePitch,
+      rate: utterance.rate,
+      pitch: utterance.pitch,
+      volume: utterance.volume,
+    });
+
+    if (samples.length === 0) {
+      handlers.onError("Nothing to say after synthesis");
+      return;
+    }
+
+    const context = this.getContext();
+    const buffer = context.createBuffer(1, samples.length, SAMPLE_RATE);
+    buffer.getChannelData(0).set(samples);
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = () => {
+      if (this.source === source) {
+        this.clearPlayback();
+        handlers.onEnd();
+      }
+    };
+
+    this.source = source;
+
+    // Browsers start audio contexts suspended until the page has been interacted with
+    context.resume()
+      .then(() => {
+        if (this.source !== source) {
+          return;
+        }
+
+        source.start();
+        handlers.onStart?.();
+        this.boundaryTimers = boundaries.map(({ charIndex, charLength, time }) =>
+          setTimeout(() => handlers.onBoundary?.({ charIndex, charLength }), time * 1000)
+        );
+      })
+      .catch(() => {
+        if (this.source === source) {
+          this.clearPlayback();
+          handlers.onError("Audio playback is blocked until the page is clicked");
+        }
+      });
+  }
+
+  public cancel(): void {
+    const source = this.source;
+    this.clearPlayback();
+
+    if (source) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Stopping a source that never started throws
+      }
+    }
+  }
+
+  public pause(): void {
+    this.context?.suspend();
+  }
+
+  public resume(): void {
+    this.context?.resume();
+  }
+
+  public isSpeaking(): boolean {
+    return this.source !== null;
+  }
+
+  public destroy(): void {
+    this.cancel();
+    this.voicesChangedListeners.clear();
+    this.context?.close();
+    this.context = null;
+  }
+
+  /**
+   * Create the audio context on first use
+   */
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  private clearPlayback(): void {
+    this.boundaryTimers.forEach((timer) => clearTimeout(timer));
+    this.boundaryTimers = [];
+    this.source = null;
+  }
+}
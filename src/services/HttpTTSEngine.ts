@@ -0,0 +1,234 @@
+import type {
+  HttpEngineSettings,
+  TTSEngine,
+  TTSEngineHandlers,
+  TTSEngineUtterance,
+  TTSVoice,
+} from "../types";
+
+/**
+ * A voice as listed by an HTTP speech server
+ */
+interface HttpVoice {
+  id: string;
+  name?: string;
+  lang?: string;
+}
+
+/**
+ * TTS engine that renders audio on an HTTP speech server, e.g. a locally hosted neural TTS
+ *
+ * Protocol, relative to the configured base URL:
+ *
+ * `GET /voices` returns `{ "voices": [{ "id": "amy", "name": "Amy", "lang": "en-US" }] }`.
+ * `name` defaults to `id` and `lang` to an empty string.
+ *
+ * `POST /synthesize` with a JSON body
+ * `{ "text": "Hello", "voice": "amy", "rate": 1, "pitch": 1 }`
+ * returns the spoken audio in any format the browser can play (`audio/wav`, `audio/mpeg`, ...).
+ * `voice` is null when the server should use its default voice. Rate (0.1-10, 1 is normal) and
+ * pitch (0-2, 1 is normal) follow the Web Speech API and may be ignored by the server.
+ * Volume is applied by the browser. Errors use any non-2xx status, with an optional text body.
+ *
+ * The server must send CORS headers when it runs on a different origin than the app.
+ * Requirements: 2.1, 3.2
+ */
+export class HttpTTSEngine implements TTSEngine {
+  public readonly id = "http" as const;
+  private settings: HttpEngineSettings;
+  private voices: TTSVoice[] = [];
+  private voicesChangedListeners = new Set<(voices: TTSVoice[]) => void>();
+  private abortController: AbortController | null = null;
+  private audio: HTMLAudioElement | null = null;
+  private audioUrl: string | null = null;
+
+  constructor(settings: HttpEngineSettings) {
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Point the engine at another server, voices are reloaded when the server changes
+   */
+  public configure(settings: HttpEngineSettings): void {
+    const changed = settings.enabled !== this.settings.enabled || settings.url !== this.settings.url;
+    this.settings = { ...settings };
+
+    if (changed) {
+      this.cancel();
+      this.loadVoices().catch((error) => {
+        console.warn("Failed to load HTTP TTS voices:", error);
+      });
+    }
+  }
+
+  public isSupported(): boolean {
+    return this.isConfigured() && typeof fetch === "function" && typeof Audio === "function";
+  }
+
+  public getVoices(): TTSVoice[] {
+    return [...this.voices];
+  }
+
+  public onVoicesChanged(listener: (voices: TTSVoice[]) => void): void {
+    this.voicesChangedListeners.add(listener);
+  }
+
+  /**
+   * Fetch the server's voices, an unconfigured engine has none
+   * Requirements: 2.1
+   */
+  public async loadVoices(): Promise<TTSVoice[]> {
+    if (!this.isConfigured()) {
+      this.setVoices([]);
+      return [];
+    }
+
+    try {
+      const response = await fetch(this.endpoint("voices"));
+      if (!response.ok) {
+        throw new Error(`Voice list request failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      const voices: HttpVoice[] = Array.isArray(data?.voices) ? data.voices : [];
+      this.setVoices(
+        voices
+          .filter((voice) => typeof voice?.id === "string" && voice.id)
+          .map((voice) => ({
+            name: voice.name || voice.id,
+            lang: voice.lang || "",
+            voiceURI: voice.id,
+            default: false,
+            localService: false,
+            engine: this.id,
+          }))
+      );
+    } catch (error) {
+      this.setVoices([]);
+      throw error;
+    }
+
+    return this.getVoices();
+  }
+
+  public speak(utterance: TTSEngineUtterance, handlers: TTSEngineHandlers): void {
+    this.cancel();
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    const fail = (error: string) => {
+      if (this.abortController === abortController) {
+        this.cleanup();
+        handlers.onError(error);
+      }
+    };
+
+    fetch(this.endpoint("synthesize"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        text: utterance.text,
+        voice: utterance.voice?.voiceURI ?? null,
+        rate: utterance.rate,
+        pitch: utterance.pitch,
+      }),
+      signal: abortController.signal,
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          const detail = (await response.text().catch(() => "")).trim();
+          throw new Error(`Speech server error (${response.status})${detail ? `: ${detail}` : ""}`);
+        }
+        return response.blob();
+      })
+      .then((blob) => {
+        // Cancelled while the audio was rendering
+        if (this.abortController !== abortController) {
+          return;
+        }
+
+        this.audioUrl = URL.createObjectURL(blob);
+        const audio = new Audio(this.audioUrl);
+        audio.volume = utterance.volume;
+        audio.onplay = () => handlers.onStart?.();
+        audio.onended = () => {
+          if (this.audio === audio) {
+            this.cleanup();
+            handlers.onEnd();
+          }
+        };
+        audio.onerror = () => fail("Speech server audio could not be played");
+
+        this.audio = audio;
+        return audio.play();
+      })
+      .catch((error) => {
+        if (abortController.signal.aborted) {
+          return;
+        }
+        fail(error instanceof Error ? error.message : "Speech server request failed");
+      });
+  }
+
+  public cancel(): void {
+    this.abortController?.abort();
+    this.cleanup();
+  }
+
+  public pause(): void {
+    this.audio?.pause();
+  }
+
+  public resume(): void {
+    this.audio?.play().catch(() => {
+      // Playback can be blocked until the user interacts with the page
+    });
+  }
+
+  /**
+   * Speaking from the moment audio is requested until it finishes playing
+   */
+  public isSpeaking(): boolean {
+    return this.abortController !== null;
+  }
+
+  public destroy(): void {
+    this.cancel();
+    this.voicesChangedListeners.clear();
+  }
+
+  private isConfigured(): boolean {
+    return this.settings.enabled && this.settings.url.trim() !== "";
+  }
+
+  private endpoint(path: string): string {
+    return `${this.settings.url.trim().replace(/\/+$/, "")}/${path}`;
+  }
+
+  private setVoices(voices: TTSVoice[]): void {
+    if (voices.length === 0 && this.voices.length === 0) {
+      return;
+    }
+
+    this.voices = voices;
+    this.voicesChangedListeners.forEach((listener) => listener(this.getVoices()));
+  }
+
+  /**
+   * Stop playback and release the audio of the current utterance
+   */
+  private cleanup(): void {
+    if (this.audio) {
+      this.audio.onended = null;
+      this.audio.onerror = null;
+      this.audio.pause();
+      this.audio = null;
+    }
+    if (this.audioUrl) {
+      URL.revokeObjectURL(this.audioUrl);
+      this.audioUrl = null;
+    }
+    this.abortController = null;
+  }
+}
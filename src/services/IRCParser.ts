@@ -0,0 +1,158 @@
+import type { IRCMessage, IRCPrefix } from "../types";
+
+/**
+ * Escape sequences used in IRCv3 message tag values
+ * See https://ircv3.net/specs/extensions/message-tags#escaping-values
+ */
+const TAG_ESCAPES: Record<string, string> = {
+  ":": ";",
+  s: " ",
+  "\\": "\\",
+  r: "\r",
+  n: "\n",
+};
+
+/**
+ * Parse a single raw IRC line into a structured message
+ * Returns null for empty or malformed lines
+ * Requirements: 1.2
+ */
+export function parseIRCLine(line: string): IRCMessage | null {
+  const raw = line.replace(/[\r\n]+$/, "");
+  let position = 0;
+
+  const skipSpaces = () => {
+    while (raw[position] === " ") {
+      position++;
+    }
+  };
+
+  const readToken = (): string => {
+    const end = raw.indexOf(" ", position);
+    const token = end === -1 ? raw.slice(position) : raw.slice(position, end);
+    position = end === -1 ? raw.length : end;
+    return token;
+  };
+
+  skipSpaces();
+
+  // Tags: @key=value;key2=value2
+  let tags: Record<string, string> = {};
+  if (raw[position] === "@") {
+    position++;
+    tags = parseTags(readToken());
+    skipSpaces();
+  }
+
+  // Prefix: :nick!user@host or :servername
+  let prefix: IRCPrefix | null = null;
+  if (raw[position] === ":") {
+    position++;
+    prefix = parsePrefix(readToken());
+    skipSpaces();
+  }
+
+  const command = readToken().toUpperCase();
+  if (!command) {
+    return null;
+  }
+
+  // Params: middle params separated by spaces, trailing param after " :"
+  const params: string[] = [];
+  skipSpaces();
+  while (position < raw.length) {
+    if (raw[position] === ":") {
+      params.push(raw.slice(position + 1));
+      break;
+    }
+
+    params.push(readToken());
+    skipSpaces();
+  }
+
+  return { raw, tags, prefix, command, params };
+}
+
+/**
+ * Parse an IRCv3 tag string (without the leading "@") into unescaped key-value pairs
+ */
+export function parseTags(tagsString: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  if (!tagsString) return tags;
+
+  tagsString.split(";").forEach((tag) => {
+    if (!tag) return;
+
+    const separatorIndex = tag.indexOf("=");
+    const key = separatorIndex === -1 ? tag : tag.slice(0, separatorIndex);
+    const value =
+      separatorIndex === -1 ? "" : unescapeTagValue(tag.slice(separatorIndex + 1));
+
+    if (key) {
+      tags[key] = value;
+    }
+  });
+
+  return tags;
+}
+
+/**
+ * Unescape an IRCv3 tag value (\s, \:, \\, \r, \n)
+ * Unknown escapes drop the backslash and a trailing lone backslash is removed
+ */
+export function unescapeTagValue(value: string): string {
+  if (!value.includes("\\")) return value;
+
+  let result = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char !== "\\") {
+      result += char;
+      continue;
+    }
+
+    const next = value[i + 1];
+    if (next === undefined) {
+      break;
+    }
+
+    result += TAG_ESCAPES[next] ?? next;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Parse an IRC prefix into its nick, user and host parts
+ */
+export function parsePrefix(prefixString: string): IRCPrefix {
+  const userIndex = prefixString.indexOf("!");
+  const hostIndex = prefixString.indexOf("@");
+
+  if (userIndex === -1 && hostIndex === -1) {
+    // Server prefix, e.g. tmi.twitch.tv
+    return { host: prefixString };
+  }
+
+  if (userIndex === -1) {
+    return {
+      nick: prefixString.slice(0, hostIndex),
+      host: prefixString.slice(hostIndex + 1),
+    };
+  }
+
+  if (hostIndex === -1) {
+    return {
+      nick: prefixString.slice(0, userIndex),
+      user: prefixString.slice(userIndex + 1),
+    };
+  }
+
+  return {
+    nick: prefixString.slice(0, userIndex),
+    user: prefixString.slice(userIndex + 1, hostIndex),
+    host: prefixString.slice(hostIndex + 1),
+  };
+}
@@ -1,17 +1,52 @@
-import type { ChatMessage, TTSQueueItem, ServiceEvents } from '../types';
+import type { ChatMessage, TTSQueueItem, TTSSettings, ServiceEvents } from '../types';
 import { TTSService } from './TTSService';
+import {
+  DEFAULT_QUEUE_PRIORITY_SETTINGS,
+  getPriorityTierLabel,
+  orderQueue
+} from '../utils/queuePriority';
+import {
+  DEFAULT_QUEUE_LIMIT_SETTINGS,
+  getExpiryTime,
+  isExpired,
+  selectOverflow
+} from '../utils/queueLimit';
 
 /**
- * Manages the TTS message queue with FIFO processing
+ * How often waiting items are checked for expiry while nothing else happens
+ */
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Queue behaviour taken from the TTS settings
+ */
+export type QueueSettings = Pick<TTSSettings, 'queuePriority' | 'queueLimit'>;
+
+/**
+ * Check whether an item came from a channel, channel names are case-insensitive
+ */
+function isSameChannel(item: TTSQueueItem, channel: string): boolean {
+  return item.message.channel.toLowerCase() === channel.toLowerCase();
+}
+
+/**
+ * Manages the TTS message queue, FIFO unless priority tiers are enabled
+ * The number of waiting items is bounded by the queue limit, and items waiting too long expire
  * Requirements: 2.2, 2.3, 4.1, 4.3, 4.4
  */
 export class QueueManager {
   private queue: TTSQueueItem[] = [];
   private currentItem: TTSQueueItem | null = null;
   private isProcessing = false;
+  private isPaused = false;
   private eventListeners: Map<keyof ServiceEvents, Set<Function>> = new Map();
   private ttsService: TTSService;
   private processingPromise: Promise<void> | null = null;
+  private settings: QueueSettings = {
+    queuePriority: DEFAULT_QUEUE_PRIORITY_SETTINGS,
+    queueLimit: DEFAULT_QUEUE_LIMIT_SETTINGS
+  };
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(ttsService: TTSService) {
     this.ttsService = ttsService;
@@ -25,7 +60,9 @@ export class QueueManager {
   private initializeEventListeners(): void {
     const events: (keyof ServiceEvents)[] = [
       'queue:updated',
-      'queue:cleared'
+      'queue:cleared',
+      'queue:overflow',
+      'queue:expired'
     ];
     
     events.forEach(event => {
@@ -88,18 +125,114 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Update queue settings, waiting items are reordered for new priority tiers,
+   * trimmed to a lower queue limit and given the new time to live
+   * Requirements: 4.1
+   */
+  public updateSettings(settings: QueueSettings): void {
+    const priorityChanged = settings.queuePriority !== this.settings.queuePriority;
+    const limitChanged = settings.queueLimit !== this.settings.queueLimit;
+    if (!priorityChanged && !limitChanged) {
+      return;
+    }
+
+    this.settings = { queuePriority: settings.queuePriority, queueLimit: settings.queueLimit };
+    if (priorityChanged) {
+      this.queue.forEach(item => {
+        item.tier = getPriorityTierLabel(item.message, settings.queuePriority);
+      });
+    }
+
+    if (limitChanged) {
+      this.queue.forEach(item => {
+        item.expiresAt = item.queuedAt === undefined
+          ? undefined
+          : getExpiryTime(item.queuedAt, settings.queueLimit);
+      });
+    }
+
+    this.enforceLimit();
+    this.expireStale();
+    this.emitQueueUpdate();
+  }
+
+  /**
+   * Drop waiting items beyond the queue limit using the overflow policy
+   * Emits the dropped items and returns them
+   * Requirements: 4.1
+   */
+  private enforceLimit(): TTSQueueItem[] {
+    const dropped = selectOverflow(this.queue, this.settings.queueLimit);
+    if (dropped.length === 0) {
+      return dropped;
+    }
+
+    this.queue = this.queue.filter(item => !dropped.includes(item));
+    dropped.forEach(item => {
+      item.status = 'dropped';
+    });
+    this.emit('queue:overflow', dropped);
+    return dropped;
+  }
+
+  /**
+   * Expire waiting items past their time to live instead of speaking them
+   * Emits the expired items and returns them
+   * Requirements: 4.1
+   */
+  private expireStale(): TTSQueueItem[] {
+    const now = Date.now();
+    const expired = this.queue.filter(item => isExpired(item, now));
+    if (expired.length === 0) {
+      return expired;
+    }
+
+    this.queue = this.queue.filter(item => !expired.includes(item));
+    expired.forEach(item => {
+      item.status = 'expired';
+    });
+    this.emit('queue:expired', expired);
+    return expired;
+  }
+
+  /**
+   * Check for expired items on a timer while any item can expire, so the queue updates while idle
+   */
+  private updateExpiryTimer(): void {
+    const canExpire = this.queue.some(item => item.expiresAt !== undefined);
+
+    if (canExpire && !this.expiryTimer) {
+      this.expiryTimer = setInterval(() => {
+        if (this.expireStale().length > 0) {
+          this.emitQueueUpdate();
+        }
+      }, EXPIRY_CHECK_INTERVAL_MS);
+    } else if (!canExpire && this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
   /**
    * Add a message to the TTS queue
+   * A full queue drops items by its overflow policy, possibly the new one
    * Requirements: 2.2, 4.1
    */
   public add(message: ChatMessage): TTSQueueItem {
+    const queuedAt = Date.now();
     const queueItem: TTSQueueItem = {
-      id: `queue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `queue-${queuedAt}-${Math.random().toString(36).substr(2, 9)}`,
       message,
-      status: 'pending'
+      status: 'pending',
+      language: this.ttsService.detectMessageLanguage(message),
+      queuedAt,
+      expiresAt: getExpiryTime(queuedAt, this.settings.queueLimit),
+      tier: getPriorityTierLabel(message, this.settings.queuePriority)
     };
 
     this.queue.push(queueItem);
+    this.enforceLimit();
     this.emitQueueUpdate();
     
     // Start processing if not already processing (use setTimeout to allow synchronous return)
@@ -142,6 +275,57 @@ export class QueueManager {
     return wasRemoved;
   }
 
+  /**
+   * Remove the item for a chat message deleted by a moderator
+   * Cuts off the message if it is currently being spoken
+   * Requirements: 2.2, 4.3
+   */
+  public removeByMessageId(messageId: string): number {
+    return this.removeWhere(item => item.message.id === messageId);
+  }
+
+  /**
+   * Remove all items from a user who was timed out or banned
+   * Only the given channel's items are removed when a channel is given
+   * Cuts off the current message if it belongs to that user
+   * Requirements: 2.2, 4.3
+   */
+  public removeByUser(username: string, channel?: string): number {
+    const normalizedUsername = username.toLowerCase();
+    return this.removeWhere(item =>
+      item.message.username.toLowerCase() === normalizedUsername
+      && (channel === undefined || isSameChannel(item, channel)));
+  }
+
+  /**
+   * Remove all items from a channel, e.g. when its chat was cleared
+   * Cuts off the current message if it came from that channel
+   * Requirements: 2.2, 4.3
+   */
+  public removeByChannel(channel: string): number {
+    return this.removeWhere(item => isSameChannel(item, channel));
+  }
+
+  /**
+   * Remove pending items and the current item matching a predicate
+   * Returns the number of removed items
+   */
+  private removeWhere(predicate: (item: TTSQueueItem) => boolean): number {
+    const remaining = this.queue.filter(item => !predicate(item));
+    let removedCount = this.queue.length - remaining.length;
+    this.queue = remaining;
+
+    if (this.currentItem && predicate(this.currentItem)) {
+      // remove() stops speech, emits the update and moves on to the next item
+      this.remove(this.currentItem.id);
+      removedCount++;
+    } else if (removedCount > 0) {
+      this.emitQueueUpdate();
+    }
+
+    return removedCount;
+  }
+
   /**
    * Clear all items from the queue and stop current speech
    * Requirements: 4.3
@@ -164,10 +348,12 @@ export class QueueManager {
 
   /**
    * Skip the currently speaking message and move to next
+   * With a channel, only skips a message from that channel
    * Requirements: 4.3
    */
-  public skip(): boolean {
-    if (!this.currentItem || !this.ttsService.isSpeaking()) {
+  public skip(channel?: string): boolean {
+    if (!this.currentItem || !this.ttsService.isSpeaking()
+      || (channel !== undefined && !isSameChannel(this.currentItem, channel))) {
       return false;
     }
 
@@ -185,11 +371,11 @@ export class QueueManager {
   }
 
   /**
-   * Get current queue status
+   * Get waiting items in the order they will be spoken
    * Requirements: 4.1, 4.2
    */
   public getQueue(): TTSQueueItem[] {
-    return [...this.queue];
+    return orderQueue(this.queue, this.settings.queuePriority);
   }
 
   /**
@@ -229,20 +415,26 @@ export class QueueManager {
    * Requirements: 2.2, 2.3
    */
   private async processNext(): Promise<void> {
-    // Prevent concurrent processing
-    if (this.isProcessing || this.queue.length === 0) {
+    // Stale items must never be picked
+    if (this.expireStale().length > 0) {
+      this.emitQueueUpdate();
+    }
+
+    // Prevent concurrent processing, and hold the queue while paused
+    if (this.isProcessing || this.isPaused || this.queue.length === 0) {
       return;
     }
 
     this.isProcessing = true;
 
     try {
-      // Get next item from queue (FIFO)
-      const nextItem = this.queue.shift();
+      // Take the highest priority item, the oldest one while priorities are off
+      const [nextItem] = this.getQueue();
       if (!nextItem) {
         this.isProcessing = false;
         return;
       }
+      this.queue = this.queue.filter(item => item !== nextItem);
 
       // Set as current item and update status
       this.currentItem = nextItem;
@@ -308,12 +500,14 @@ export class QueueManager {
 
   /**
    * Emit queue update event
+   * Every queue change passes through here, so the expiry timer is kept in step too
    */
   private emitQueueUpdate(): void {
     const fullQueue = this.currentItem 
-      ? [this.currentItem, ...this.queue]
-      : [...this.queue];
+      ? [this.currentItem, ...this.getQueue()]
+      : this.getQueue();
     
+    this.updateExpiryTimer();
     this.emit('queue:updated', fullQueue);
   }
 
@@ -336,23 +530,48 @@ export class QueueManager {
 
   /**
    * Pause queue processing (stops current and prevents next)
+   * The interrupted message goes back to the front of the queue
+   * Requirements: 4.3
    */
   public pause(): void {
-    if (this.currentItem && this.ttsService.isSpeaking()) {
-      this.ttsService.stop();
+    this.isPaused = true;
+
+    if (this.currentItem) {
+      const interrupted = this.currentItem;
+      this.currentItem = null;
+
+      if (this.ttsService.isSpeaking()) {
+        this.ttsService.stop();
+      }
+
+      interrupted.status = 'pending';
+      this.queue.unshift(interrupted);
     }
+
     this.isProcessing = false;
+    this.processingPromise = null;
+    this.emitQueueUpdate();
   }
 
   /**
    * Resume queue processing
+   * Requirements: 4.3
    */
   public resume(): void {
-    if (!this.isProcessing && (this.queue.length > 0 || this.currentItem)) {
+    this.isPaused = false;
+
+    if (!this.isProcessing && this.queue.length > 0) {
       this.processNext();
     }
   }
 
+  /**
+   * Check whether queue processing is paused
+   */
+  public isQueuePaused(): boolean {
+    return this.isPaused;
+  }
+
   /**
    * Cleanup resources
    */
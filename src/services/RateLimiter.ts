@@ -0,0 +1,54 @@
+/**
+ * Sliding-window rate limiter: at most `limit` events in any `windowMs` period
+ * The limit is passed per check so callers can apply different limits to the same window
+ * Requirements: 1.1
+ */
+export class RateLimiter {
+  private timestamps: number[] = [];
+  private windowMs: number;
+  private now: () => number;
+
+  constructor(windowMs: number, now: () => number = () => Date.now()) {
+    this.windowMs = windowMs;
+    this.now = now;
+  }
+
+  /**
+   * Milliseconds until another event fits under the limit, 0 when one fits now
+   */
+  public getWaitTime(limit: number): number {
+    this.prune();
+
+    if (this.timestamps.length < limit) {
+      return 0;
+    }
+
+    // The window frees up when the oldest event that keeps us at the limit expires
+    const blocking = this.timestamps[this.timestamps.length - limit];
+    return Math.max(0, blocking + this.windowMs - this.now());
+  }
+
+  /**
+   * Record an event at the current time
+   */
+  public record(): void {
+    this.timestamps.push(this.now());
+  }
+
+  /**
+   * Forget every recorded event
+   */
+  public reset(): void {
+    this.timestamps = [];
+  }
+
+  /**
+   * Drop events that have left the window
+   */
+  private prune(): void {
+    const cutoff = this.now() - this.windowMs;
+    while (this.timestamps.length > 0 && this.timestamps[0] <= cutoff) {
+      this.timestamps.shift();
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import type { ChatMessage, FilterResult, SpamFilterSettings } from '../types';
+import { detectSpamPattern, getSimilarity, normalizeForComparison } from '../utils/spamDetection';
+import { getUserVoiceKey } from '../utils/viewerVoices';
+
+type SpamCheckedMessage = Pick<ChatMessage, 'channel' | 'message' | 'userId' | 'username'>;
+
+/**
+ * A message remembered for duplicate and copypasta checks
+ */
+interface RecentMessage {
+  channel: string;
+  user: string; // Keyed like saved voices, by user id with the login as fallback
+  text: string; // Normalized for comparison
+  at: number;
+}
+
+/**
+ * Upper bound on remembered messages, so a busy chat cannot grow the memory without limit
+ */
+const MAX_RECENT_MESSAGES = 500;
+
+/**
+ * Normalized messages shorter than this, e.g. "gg" read as "g", are ordinary reactions
+ * and only count as duplicates of the same chatter's messages
+ */
+const MIN_SHARED_LENGTH = 4;
+
+/**
+ * Rejects spam before it is queued: messages repeating a recent one from any chatter,
+ * copypastas posted again, and single messages with repeated characters, Zalgo text or ASCII art
+ * Thresholds are passed per check so settings changes apply straight away
+ * Requirements: 6.1
+ */
+export class SpamDetector {
+  private recent: RecentMessage[] = [];
+  private now: () => number;
+
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now;
+  }
+
+  /**
+   * Check a message without remembering it, call `record` once the message is actually queued
+   * so messages rejected later, e.g. by rate limits or a full queue, do not block other chatters
+   */
+  public check(message: SpamCheckedMessage, settings: SpamFilterSettings): FilterResult {
+    if (!settings.enabled) {
+      return { shouldProcess: true };
+    }
+
+    const pattern = detectSpamPattern(message.message, settings);
+    if (pattern) {
+      return { shouldProcess: false, reason: pattern };
+    }
+
+    // A similarity of 0 would match every message, it turns comparing off instead
+    const text = normalizeForComparison(message.message);
+    if (!text || settings.similarityThreshold <= 0) {
+      return { shouldProcess: true };
+    }
+
+    const now = this.now();
+    this.prune(now, settings);
+
+    const user = getUserVoiceKey(message);
+    const isSimilar = (recent: RecentMessage, windowSeconds: number) =>
+      recent.channel === message.channel
+      && (text.length >= MIN_SHARED_LENGTH || recent.user === user)
+      && now - recent.at < windowSeconds * 1000
+      && getSimilarity(recent.text, text) >= settings.similarityThreshold;
+
+    if (this.recent.some((recent) => isSimilar(recent, settings.duplicateWindowSeconds))) {
+      return { shouldProcess: false, reason: 'Duplicate of a recent message' };
+    }
+
+    const isCopypasta = settings.copypastaMinLength > 0 && text.length >= settings.copypastaMinLength;
+    if (isCopypasta && this.recent.some((recent) =>
+      recent.text.length >= settings.copypastaMinLength && isSimilar(recent, settings.copypastaWindowSeconds))) {
+      return { shouldProcess: false, reason: 'Repeated copypasta' };
+    }
+
+    return { shouldProcess: true };
+  }
+
+  /**
+   * Remember a queued message for later checks
+   */
+  public record(message: SpamCheckedMessage, settings: SpamFilterSettings): void {
+    const text = normalizeForComparison(message.message);
+    if (!settings.enabled || !text) {
+      return;
+    }
+
+    this.recent.push({ channel: message.channel, user: getUserVoiceKey(message), text, at: this.now() });
+    if (this.recent.length > MAX_RECENT_MESSAGES) {
+      this.recent.shift();
+    }
+  }
+
+  /**
+   * Forget every remembered message
+   */
+  public reset(): void {
+    this.recent = [];
+  }
+
+  /**
+   * Forget messages older than both windows
+   */
+  private prune(now: number, settings: SpamFilterSettings): void {
+    const longestWindow = Math.max(settings.duplicateWindowSeconds, settings.copypastaWindowSeconds) * 1000;
+    this.recent = this.recent.filter((recent) => now - recent.at < longestWindow);
+  }
+}
@@ -1,25 +1,49 @@
 import type {
   ChatMessage,
+  TTSEngine,
+  NormalizationSettings,
+  TTSEngineUtterance,
   TTSQueueItem,
   TTSSettings,
+  TTSVoice,
   ServiceEvents,
 } from "../types";
+import { getMessageFragments } from "../utils/messageFragments";
+import { renderFragmentsForSpeech } from "../utils/emoteSpeech";
+import { resolveChannelSettings } from "../utils/channelSettings";
+import { getUserVoiceKey, resolveUserVoice } from "../utils/viewerVoices";
+import { assignPoolVoice } from "../utils/voicePool";
+import { resolveBadgeVoice } from "../utils/badgeVoices";
+import { chooseLanguageVoice, detectLanguage } from "../utils/languageDetection";
+import { substituteMessageText, substituteUsername } from "../utils/substitutions";
+import { normalizeText } from "../utils/normalizers";
+import { applyMessageTemplate } from "../utils/messageTemplates";
+import { getSpokenName } from "../utils/nicknames";
+import { WebSpeechEngine } from "./WebSpeechEngine";
+import { HttpTTSEngine } from "./HttpTTSEngine";
+import { FallbackTTSEngine } from "./FallbackTTSEngine";
 
 /**
- * Service for handling text-to-speech functionality using Web Speech API
+ * Service for handling text-to-speech functionality through pluggable engines
+ * Speaks with Web Speech by default and with an HTTP speech server when one is configured
+ * A bundled offline voice takes over when the browser has no speech voices
  * Requirements: 2.1, 2.4, 3.2, 3.4
  */
 export class TTSService {
-  private synthesis: SpeechSynthesis;
-  private currentUtterance: SpeechSynthesisUtterance | null = null;
-  private isInitialized = false;
-  private availableVoices: SpeechSynthesisVoice[] = [];
+  private engines: TTSEngine[];
+  private httpEngine: HttpTTSEngine;
+  private currentItem: TTSQueueItem | null = null;
+  private currentEngine: TTSEngine | null = null;
+  private lastSpeakerKey: string | null = null;
+  private autoSelectedVoice: TTSVoice | null = null;
+  private availableVoices: TTSVoice[] = [];
   private eventListeners: Map<keyof ServiceEvents, Set<Function>> = new Map();
   private settings: TTSSettings;
 
   constructor(initialSettings: TTSSettings) {
-    this.synthesis = window.speechSynthesis;
     this.settings = { ...initialSettings };
+    this.httpEngine = new HttpTTSEngine(this.settings.httpEngine);
+    this.engines = [new WebSpeechEngine(), this.httpEngine, new FallbackTTSEngine()];
     this.initializeEventListeners();
     this.initializeVoices();
   }
@@ -32,6 +56,8 @@ export class TTSService {
       "tts:started",
       "tts:ended",
       "tts:error",
+      "tts:boundary",
+      "tts:voicesChanged",
     ];
 
     events.forEach((event) => {
@@ -85,75 +111,58 @@ export class TTSService {
   }
 
   /**
-   * Initialize and load available voices
+   * Load voices from every engine, voices that load later are merged in as they arrive
    * Requirements: 2.1
    */
   private async initializeVoices(): Promise<void> {
-    return new Promise((resolve) => {
-      let attempts = 0;
-      const maxAttempts = 50; // 5 seconds max wait time
-
-      // Voices might not be immediately available, so we need to wait
-      const loadVoices = () => {
-        attempts++;
-        this.availableVoices = this.synthesis.getVoices();
-
-        if (this.availableVoices.length > 0) {
-          this.isInitialized = true;
-
-          // Set default voice if none is selected
-          if (!this.settings.voice && this.availableVoices.length > 0) {
-            // Prefer English voices
-            const englishVoice = this.availableVoices.find((voice) =>
-              voice.lang.startsWith("en")
-            );
-            this.settings.voice = englishVoice || this.availableVoices[0];
-          }
-
-          console.log(
-            `TTS initialized with ${this.availableVoices.length} voices`
-          );
-          resolve();
-        } else if (attempts >= maxAttempts) {
-          // Timeout - mark as initialized anyway but with no voices
-          console.warn(
-            "TTS voices not loaded after timeout, continuing without voices"
-          );
-          this.isInitialized = true;
-          resolve();
-        } else {
-          // Voices not loaded yet, wait a bit and try again
-          setTimeout(loadVoices, 100);
-        }
-      };
-
-      // Some browsers fire this event when voices are loaded
-      if ("onvoiceschanged" in this.synthesis) {
-        this.synthesis.onvoiceschanged = () => {
-          if (!this.isInitialized) {
-            loadVoices();
-          }
-        };
-      }
-
-      // Also try immediately in case voices are already available
-      loadVoices();
+    this.engines.forEach((engine) => {
+      engine.onVoicesChanged(() => this.mergeVoices());
     });
+
+    await Promise.all(
+      this.engines.map((engine) =>
+        engine.loadVoices().catch((error) => {
+          console.warn(`Failed to load voices for the ${engine.id} engine:`, error);
+          return [];
+        })
+      )
+    );
+
+    console.log(`TTS initialized with ${this.availableVoices.length} voices`);
+  }
+
+  /**
+   * Merge the voice lists of every engine and tell listeners
+   * Requirements: 2.1
+   */
+  private mergeVoices(): void {
+    this.availableVoices = this.engines.flatMap((engine) => engine.getVoices());
+
+    // Set default voice if none is selected, preferring English voices over the offline voice
+    // A default picked before the browser's voices loaded is picked again
+    if (!this.settings.voice || this.settings.voice === this.autoSelectedVoice) {
+      const voices = this.availableVoices.filter((voice) => voice.engine !== "fallback");
+      const englishVoice = voices.find((voice) => voice.lang.startsWith("en"));
+      this.settings.voice = englishVoice || voices[0] || this.availableVoices[0] || null;
+      this.autoSelectedVoice = this.settings.voice;
+    }
+
+    this.emit("tts:voicesChanged", this.getAvailableVoices());
   }
 
   /**
-   * Get all available voices
+   * Get all available voices from every engine
    * Requirements: 2.1
    */
-  public getAvailableVoices(): SpeechSynthesisVoice[] {
+  public getAvailableVoices(): TTSVoice[] {
     return [...this.availableVoices];
   }
 
   /**
-   * Check if TTS is supported and initialized
+   * Check if any engine can speak
    */
   public isSupported(): boolean {
-    return "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+    return this.engines.some((engine) => engine.isSupported());
   }
 
   /**
@@ -163,6 +172,10 @@ export class TTSService {
   public updateSettings(newSettings: Partial<TTSSettings>): void {
     this.settings = { ...this.settings, ...newSettings };
 
+    if (newSettings.httpEngine) {
+      this.httpEngine.configure(newSettings.httpEngine);
+    }
+
     // If TTS is disabled, stop current speech
     if (newSettings.enabled === false) {
       this.stop();
@@ -185,32 +198,47 @@ export class TTSService {
       throw new Error("TTS is not supported or disabled");
     }
 
-    if (this.currentUtterance) {
+    if (this.currentItem) {
       throw new Error("Another message is currently being spoken");
     }
 
     try {
-      const processedText = this.preprocessMessage(queueItem.message.message);
-
-      if (!processedText.trim()) {
+      // Detect the language first, normalizers such as numbers only apply to English
+      const language = this.settings.languageDetection.enabled
+        ? queueItem.language ?? this.detectMessageLanguage(queueItem.message)
+        : undefined;
+      if (!this.preprocessMessage(queueItem.message, language)) {
         throw new Error("Message is empty after preprocessing");
       }
 
-      const utterance = new SpeechSynthesisUtterance(processedText);
-      this.configureUtterance(utterance);
+      // Say who is talking before the message is preprocessed, so names get substitutions too
+      const speakerKey = `${queueItem.message.channel}:${getUserVoiceKey(queueItem.message)}`;
+      const spokenMessage = applyMessageTemplate(queueItem.message, this.settings.messageTemplates, {
+        language,
+        repeatedSpeaker: speakerKey === this.lastSpeakerKey,
+        speakName: (username, displayName) => this.speakName(username, displayName),
+      });
+      const processedText = this.preprocessMessage(spokenMessage, language);
 
-      this.currentUtterance = utterance;
+      const utterance = this.createUtterance(processedText, queueItem.message, language);
+      const resolved = this.resolveEngine(utterance.voice);
+      if (!resolved) {
+        throw new Error("No TTS engine is available");
+      }
+      const { engine } = resolved;
 
-      // Set up event handlers for the utterance
-      this.setupUtteranceHandlers(utterance, queueItem);
+      this.currentItem = queueItem;
+      this.currentEngine = engine;
 
       // Start speaking
-      this.synthesis.speak(utterance);
+      engine.speak({ ...utterance, voice: resolved.voice }, this.createEngineHandlers(queueItem));
+      this.lastSpeakerKey = speakerKey;
 
       // Emit started event
       this.emit("tts:started", queueItem);
     } catch (error) {
-      this.currentUtterance = null;
+      this.currentItem = null;
+      this.currentEngine = null;
       const errorMessage =
         error instanceof Error ? error.message : "Unknown TTS error";
       this.emit("tts:error", { item: queueItem, error: errorMessage });
@@ -223,103 +251,180 @@ export class TTSService {
    * Requirements: 3.2
    */
   public stop(): void {
-    if (this.synthesis.speaking) {
-      this.synthesis.cancel();
-    }
-    this.currentUtterance = null;
+    this.engines.forEach((engine) => engine.cancel());
+    this.currentItem = null;
+    this.currentEngine = null;
   }
 
   /**
    * Check if currently speaking
    */
   public isSpeaking(): boolean {
-    return this.synthesis.speaking;
+    return this.engines.some((engine) => engine.isSpeaking());
   }
 
   /**
-   * Preprocess message text for TTS
-   * Requirements: 2.4
+   * Pause the message being spoken without giving up its place
+   * Requirements: 3.2
    */
-  private preprocessMessage(message: string): string {
-    let processed = message;
-
-    // Remove URLs
-    processed = processed.replace(/https?:\/\/[^\s]+/g, "link");
-
-    // Remove Twitch emotes (words in all caps that are likely emotes)
-    processed = processed.replace(/\b[A-Z]{3,}\b/g, "");
-
-    // Remove special characters but keep basic punctuation
-    processed = processed.replace(/[^\w\s.,!?'-]/g, " ");
-
-    // Replace multiple spaces with single space
-    processed = processed.replace(/\s+/g, " ");
+  public pause(): void {
+    this.currentEngine?.pause();
+  }
 
-    // Remove leading/trailing whitespace
-    processed = processed.trim();
+  /**
+   * Resume a paused message
+   * Requirements: 3.2
+   */
+  public resume(): void {
+    this.currentEngine?.resume();
+  }
 
-    // Limit message length to prevent very long speeches
-    const maxLength = 200;
-    if (processed.length > maxLength) {
-      processed = processed.substring(0, maxLength) + "...";
-    }
+  /**
+   * Preprocess message text for TTS
+   * Requirements: 2.4
+   */
+  private preprocessMessage(
+    message: ChatMessage,
+    language?: string,
+    normalization: NormalizationSettings = this.settings.normalization
+  ): string {
+    // Speak or drop emotes using the ranges Twitch sent with the message
+    let processed = renderFragmentsForSpeech(
+      getMessageFragments(message),
+      this.settings.emoteSpeechRules,
+      this.settings.defaultEmoteAction,
+      language
+    );
+
+    // Apply the streamer's pronunciation fixes and substitutions
+    processed = substituteMessageText(processed, this.settings.substitutions);
+
+    // Run the enabled normalizer stages, such as links, numbers and the length limit
+    return normalizeText(processed, normalization, {
+      language,
+      speakName: (username) => this.speakName(username),
+    });
+  }
 
-    return processed;
+  /**
+   * Read a chatter's name with their nickname or cleaned up name and the username substitutions
+   * Requirements: 2.4
+   */
+  private speakName(username: string, displayName?: string): string {
+    return substituteUsername(getSpokenName(username, displayName, this.settings), this.settings.substitutions);
   }
 
   /**
-   * Configure utterance with current settings
-   * Requirements: 3.2, 3.4
+   * Detect the language of a message once emotes and links are removed
+   * Returns undefined while language detection is off or when the language is unclear
+   * Requirements: 2.1
    */
-  private configureUtterance(utterance: SpeechSynthesisUtterance): void {
-    // Set voice
-    if (this.settings.voice) {
-      utterance.voice = this.settings.voice;
+  public detectMessageLanguage(message: ChatMessage): string | undefined {
+    if (!this.settings.languageDetection.enabled) {
+      return undefined;
     }
 
-    // Set volume (0-1)
-    utterance.volume = Math.max(0, Math.min(1, this.settings.volume));
-
-    // Set rate (0.1-10)
-    utterance.rate = Math.max(0.1, Math.min(10, this.settings.rate));
+    // Spelled out numbers and emoji names would read as English words to the detector
+    const { normalization } = this.settings;
+    const text = this.preprocessMessage(message, undefined, {
+      ...normalization,
+      stages: { ...normalization.stages, numbers: false, emoji: false },
+    });
 
-    // Set pitch (0-2)
-    utterance.pitch = Math.max(0, Math.min(2, this.settings.pitch));
+    return detectLanguage(text) ?? undefined;
   }
 
   /**
-   * Set up event handlers for speech utterance
-   * Requirements: 2.1
+   * Create an engine utterance with current settings
+   * Requirements: 3.2, 3.4
    */
-  private setupUtteranceHandlers(
-    utterance: SpeechSynthesisUtterance,
-    queueItem: TTSQueueItem
-  ): void {
-    utterance.onstart = () => {
-      console.log("TTS started for message:", queueItem.message.message);
+  private createUtterance(text: string, message: ChatMessage, language?: string): TTSEngineUtterance {
+
+    // Set voice, preferring the viewer's own voice, then their badge's voice, then their pooled voice,
+    // then the message channel's voice
+    const userVoice = resolveUserVoice(message, this.settings, this.availableVoices);
+    const badgeVoice = resolveBadgeVoice(message, this.settings.badgeVoices, this.availableVoices);
+    const channelSettings = resolveChannelSettings(this.settings, message.channel);
+    const defaultVoice = channelSettings.voice;
+    const pooledVoice = assignPoolVoice(message, this.settings.voicePool, this.availableVoices, defaultVoice);
+    const personalVoice = badgeVoice?.voice ?? pooledVoice?.voice;
+
+    // Read the message with a voice speaking its language, unless the viewer chose their own voice
+    const voice = userVoice?.voice ?? (language
+      ? chooseLanguageVoice(language, this.settings.languageDetection, this.availableVoices, personalVoice, defaultVoice)
+      : personalVoice ?? defaultVoice);
+    const rate = badgeVoice?.rate ?? this.settings.rate;
+    const pitch = badgeVoice?.pitch ?? this.settings.pitch;
+
+    return {
+      text: badgeVoice?.prefix ? `${badgeVoice.prefix} ${text}` : text,
+      voice: voice ?? null,
+      // Set volume (0-1)
+      volume: Math.max(0, Math.min(1, badgeVoice?.volume ?? channelSettings.volume)),
+      // Set rate (0.1-10)
+      rate: Math.max(0.1, Math.min(10, userVoice?.rate ?? rate + (pooledVoice?.rateOffset ?? 0))),
+      // Set pitch (0-2)
+      pitch: Math.max(0, Math.min(2, userVoice?.pitch ?? pitch + (pooledVoice?.pitchOffset ?? 0))),
     };
+  }
 
-    utterance.onend = () => {
-      console.log("TTS ended for message:", queueItem.message.message);
-      this.currentUtterance = null;
-      this.emit("tts:ended", queueItem);
-    };
+  /**
+   * Pick the engine that owns a voice
+   * A voice whose engine is switched off or unsupported, e.g. a speech server that went away,
+   * falls back to the next engine that has voices and that engine's default voice
+   * Without a voice, the first engine that has voices, so the offline voice is used
+   * when the browser has none
+   */
+  private resolveEngine(voice: TTSVoice | null): { engine: TTSEngine; voice: TTSVoice | null } | undefined {
+    const supported = this.engines.filter((engine) => engine.isSupported());
+
+    if (voice) {
+      const engineId = voice.engine ?? "web-speech";
+      const owner = supported.find((engine) => engine.id === engineId);
+      if (owner) {
+        return { engine: owner, voice };
+      }
+    }
 
-    utterance.onerror = (event) => {
-      console.error("TTS error:", event.error);
-      this.currentUtterance = null;
-      this.emit("tts:error", {
-        item: queueItem,
-        error: `Speech synthesis error: ${event.error}`,
-      });
-    };
+    const engine = supported.find((candidate) => candidate.getVoices().length > 0) ?? supported[0];
+    if (!engine) {
+      return undefined;
+    }
 
-    utterance.onpause = () => {
-      console.log("TTS paused for message:", queueItem.message.message);
-    };
+    // Null lets the engine use its own default
+    return { engine, voice: engine.getVoices().find((candidate) => candidate.default) ?? null };
+  }
 
-    utterance.onresume = () => {
-      console.log("TTS resumed for message:", queueItem.message.message);
+  /**
+   * Create the callbacks an engine calls while speaking a queue item
+   * Callbacks for an item that was stopped are ignored
+   * Requirements: 2.1
+   */
+  private createEngineHandlers(queueItem: TTSQueueItem) {
+    const isCurrent = () => this.currentItem === queueItem;
+
+    return {
+      onStart: () => {
+        console.log("TTS started for message:", queueItem.message.message);
+      },
+      onEnd: () => {
+        if (!isCurrent()) return;
+        console.log("TTS ended for message:", queueItem.message.message);
+        this.currentItem = null;
+        this.currentEngine = null;
+        this.emit("tts:ended", queueItem);
+      },
+      onBoundary: ({ charIndex, charLength }: { charIndex: number; charLength?: number }) => {
+        if (!isCurrent()) return;
+        this.emit("tts:boundary", { item: queueItem, charIndex, charLength });
+      },
+      onError: (error: string) => {
+        if (!isCurrent()) return;
+        console.error("TTS error:", error);
+        this.currentItem = null;
+        this.currentEngine = null;
+        this.emit("tts:error", { item: queueItem, error });
+      },
     };
   }
 
@@ -327,8 +432,8 @@ export class TTSService {
    * Set specific voice by name or index
    * Requirements: 2.1
    */
-  public setVoice(voice: SpeechSynthesisVoice | string | number): boolean {
-    let targetVoice: SpeechSynthesisVoice | null = null;
+  public setVoice(voice: TTSVoice | string | number): boolean {
+    let targetVoice: TTSVoice | null = null;
 
     if (typeof voice === "string") {
       // Find voice by name
@@ -376,7 +481,7 @@ export class TTSService {
   /**
    * Get current voice information
    */
-  public getCurrentVoice(): SpeechSynthesisVoice | null {
+  public getCurrentVoice(): TTSVoice | null {
     return this.settings.voice;
   }
 
@@ -392,6 +497,7 @@ export class TTSService {
 
     const testMessage: ChatMessage = {
       id: "test",
+      channel: "",
       username: "test",
       message: text,
       timestamp: new Date(),
@@ -413,6 +519,7 @@ export class TTSService {
    */
   public destroy(): void {
     this.stop();
+    this.engines.forEach((engine) => engine.destroy());
     this.eventListeners.clear();
   }
 }
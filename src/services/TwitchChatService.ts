@@ -1,4 +1,32 @@
-import type { ChatMessage, ConnectionStatus, ServiceEvents } from "../types";
+import type {
+  AuthStatus,
+  ChannelJoinState,
+  ChatMessage,
+  ChatReply,
+  ConnectionStatus,
+  IRCMessage,
+  ServiceEvents,
+  TwitchCredentials,
+} from "../types";
+import { parseIRCLine } from "./IRCParser";
+import { parseEmoteFragments } from "../utils/messageFragments";
+import { normalizeChannelName } from "../utils/channelUrl";
+import { RateLimiter } from "./RateLimiter";
+
+/**
+ * Twitch's outgoing message limits: 20 messages per 30 seconds, or 100 in
+ * channels where the user is a moderator or the broadcaster
+ */
+const MESSAGE_RATE_WINDOW_MS = 30000;
+const MESSAGE_RATE_LIMIT = 20;
+const MODERATOR_MESSAGE_RATE_LIMIT = 100;
+const MAX_MESSAGE_LENGTH = 500;
+const ANONYMOUS_NICK = "justinfan12345";
+
+interface OutgoingMessage {
+  channel: string;
+  text: string;
+}
 
 /**
  * Service for connecting to Twitch IRC and handling chat messages
@@ -13,11 +41,27 @@ export class TwitchChatService {
   private reconnectTimeout: number | null = null;
   private isReconnecting = false;
   private eventListeners: Map<keyof ServiceEvents, Set<Function>> = new Map();
-  private channel: string;
+  private channels: Map<string, ChannelJoinState> = new Map();
+  private nick = ANONYMOUS_NICK;
+  private credentials: TwitchCredentials | null = null;
+  private authStatus: AuthStatus = "anonymous";
+  private userStates: Map<string, Record<string, string>> = new Map();
+  private outgoingQueue: OutgoingMessage[] = [];
+  private outgoingTimeout: number | null = null;
+  private rateLimiter = new RateLimiter(MESSAGE_RATE_WINDOW_MS);
+  private lastSentAt: Map<string, number> = new Map();
   private isIntentionalDisconnect = false;
-
-  constructor(channel: string = "huikkakoodaa") {
-    this.channel = channel.toLowerCase().replace("#", "");
+  private roomStates: Map<string, Record<string, string>> = new Map();
+  private globalUserState: Record<string, string> = {};
+
+  constructor(channels: string | string[] = "huikkakoodaa") {
+    const initialChannels = Array.isArray(channels) ? channels : [channels];
+    initialChannels.forEach((channel) => {
+      const normalizedChannel = normalizeChannelName(channel);
+      if (normalizedChannel) {
+        this.channels.set(normalizedChannel, "joining");
+      }
+    });
     this.initializeEventListeners();
   }
 
@@ -30,6 +74,13 @@ export class TwitchChatService {
       "chat:connected",
       "chat:disconnected",
       "chat:error",
+      "chat:notice",
+      "chat:userNotice",
+      "chat:messageDeleted",
+      "chat:userCleared",
+      "chat:chatCleared",
+      "chat:channelState",
+      "chat:authStatus",
     ];
 
     events.forEach((event) => {
@@ -118,12 +169,19 @@ export class TwitchChatService {
   public disconnect(): void {
     this.isIntentionalDisconnect = true;
     this.clearReconnectTimeout();
+    this.clearOutgoingQueue();
 
     if (this.ws) {
+      // Detach handlers so a late close event can't clobber a newer connection
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onclose = null;
+      this.ws.onerror = null;
       this.ws.close();
       this.ws = null;
     }
 
+    this.getChannels().forEach((channel) => this.setChannelState(channel, "joining"));
     this.setConnectionStatus("disconnected");
     this.emit("chat:disconnected", undefined);
   }
@@ -142,6 +200,160 @@ export class TwitchChatService {
     return this.reconnectAttempts;
   }
 
+  /**
+   * Join a channel, immediately when connected or on the next connect otherwise
+   * Requirements: 1.1
+   */
+  public joinChannel(channel: string): boolean {
+    const normalizedChannel = normalizeChannelName(channel);
+    if (!normalizedChannel || this.channels.has(normalizedChannel)) {
+      return false;
+    }
+
+    this.setChannelState(normalizedChannel, "joining");
+    if (this.connectionStatus === "connected") {
+      this.sendRawMessage(`JOIN #${normalizedChannel}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Leave a channel and forget its room state
+   * Requirements: 1.1
+   */
+  public partChannel(channel: string): boolean {
+    const normalizedChannel = normalizeChannelName(channel);
+    if (!this.channels.has(normalizedChannel)) {
+      return false;
+    }
+
+    this.channels.delete(normalizedChannel);
+    this.roomStates.delete(normalizedChannel);
+    if (this.connectionStatus === "connected") {
+      this.sendRawMessage(`PART #${normalizedChannel}`);
+    }
+
+    this.emit("chat:channelState", { channel: normalizedChannel, state: "parted" });
+    return true;
+  }
+
+  /**
+   * Replace every joined channel: disconnect, forget the old channels and
+   * reconnect to the new ones with a fresh reconnect budget
+   * Requirements: 1.1, 1.3
+   */
+  public async switchChannels(channels: string[]): Promise<void> {
+    const nextChannels = channels
+      .map((channel) => normalizeChannelName(channel))
+      .filter(Boolean);
+
+    if (nextChannels.length === 0) {
+      throw new Error("At least one channel is required");
+    }
+
+    this.disconnect();
+
+    this.getChannels()
+      .filter((channel) => !nextChannels.includes(channel))
+      .forEach((channel) => {
+        this.channels.delete(channel);
+        this.emit("chat:channelState", { channel, state: "parted" });
+      });
+    this.roomStates.clear();
+    this.userStates.clear();
+    nextChannels.forEach((channel) => this.setChannelState(channel, "joining"));
+
+    await this.reconnect();
+  }
+
+  /**
+   * Log in with an OAuth token, or go back to an anonymous read-only login with null
+   * An open connection is restarted so the new login takes effect
+   * Requirements: 1.1
+   */
+  public async setCredentials(credentials: TwitchCredentials | null): Promise<void> {
+    this.credentials = credentials
+      ? {
+          token: credentials.token.replace(/^oauth:/, ""),
+          username: credentials.username.trim().toLowerCase(),
+        }
+      : null;
+    this.nick = this.credentials?.username || ANONYMOUS_NICK;
+    this.setAuthStatus("anonymous");
+
+    if (this.connectionStatus === "connecting" || this.connectionStatus === "connected") {
+      this.disconnect();
+      await this.reconnect();
+    }
+  }
+
+  /**
+   * Get the current login state
+   */
+  public getAuthStatus(): AuthStatus {
+    return this.authStatus;
+  }
+
+  /**
+   * Get the nick used to log in
+   */
+  public getNick(): string {
+    return this.nick;
+  }
+
+  /**
+   * Queue a chat message for a joined channel
+   * Messages are sent in order within Twitch's rate limits, and only while logged in
+   * Requirements: 1.1
+   */
+  public sendMessage(channel: string, text: string): boolean {
+    const normalizedChannel = normalizeChannelName(channel);
+    // IRC messages are single lines
+    const body = text.replace(/[\r\n]+/g, " ").trim().slice(0, MAX_MESSAGE_LENGTH);
+
+    if (
+      this.authStatus !== "authenticated" ||
+      this.connectionStatus !== "connected" ||
+      this.channels.get(normalizedChannel) !== "joined" ||
+      !body
+    ) {
+      return false;
+    }
+
+    this.outgoingQueue.push({ channel: normalizedChannel, text: body });
+    this.flushOutgoingQueue();
+    return true;
+  }
+
+  /**
+   * Get the channels this service joins
+   */
+  public getChannels(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  /**
+   * Get the join state of every channel
+   */
+  public getChannelStates(): Record<string, ChannelJoinState> {
+    return Object.fromEntries(this.channels);
+  }
+
+  /**
+   * Get the latest ROOMSTATE tags for a joined channel
+   */
+  public getRoomState(channel: string): Record<string, string> {
+    return { ...this.roomStates.get(normalizeChannelName(channel)) };
+  }
+
+  /**
+   * Get the GLOBALUSERSTATE tags sent after login
+   */
+  public getGlobalUserState(): Record<string, string> {
+    return { ...this.globalUserState };
+  }
+
   /**
    * Setup WebSocket event handlers
    */
@@ -181,11 +393,21 @@ export class TwitchChatService {
   private handleConnectionOpen(): void {
     console.log("Connected to Twitch IRC");
 
-    // Send authentication and join channel
+    // Send authentication and join channels
     this.sendRawMessage("CAP REQ :twitch.tv/tags twitch.tv/commands");
-    this.sendRawMessage("PASS oauth:justinfan12345"); // Anonymous connection
-    this.sendRawMessage("NICK justinfan12345");
-    this.sendRawMessage(`JOIN #${this.channel}`);
+    if (this.credentials) {
+      this.setAuthStatus("authenticating");
+      this.sendRawMessage(`PASS oauth:${this.credentials.token}`);
+    } else {
+      this.sendRawMessage(`PASS oauth:${this.nick}`); // Anonymous connection
+    }
+    this.sendRawMessage(`NICK ${this.nick}`);
+
+    const channels = this.getChannels();
+    channels.forEach((channel) => this.setChannelState(channel, "joining"));
+    if (channels.length > 0) {
+      this.sendRawMessage(`JOIN ${channels.map((channel) => `#${channel}`).join(",")}`);
+    }
 
     this.reconnectAttempts = 0;
     this.setConnectionStatus("connected");
@@ -197,41 +419,198 @@ export class TwitchChatService {
    * Requirements: 1.2
    */
   private handleMessage(data: string): void {
-    const lines = data.trim().split("\r\n");
+    const lines = data.split("\r\n").filter((line) => line.trim());
 
     lines.forEach((line) => {
-      if (line.startsWith("PING")) {
+      const ircMessage = parseIRCLine(line);
+      if (ircMessage) {
+        this.dispatchIRCMessage(ircMessage);
+      }
+    });
+  }
+
+  /**
+   * Route a parsed IRC message to the handler for its command
+   * Requirements: 1.2, 1.4
+   */
+  private dispatchIRCMessage(ircMessage: IRCMessage): void {
+    switch (ircMessage.command) {
+      case "PING":
         // Respond to ping to keep connection alive
-        this.sendRawMessage(`PONG ${line.substring(5)}`);
-        return;
+        this.sendRawMessage(`PONG :${ircMessage.params[0] ?? "tmi.twitch.tv"}`);
+        break;
+
+      case "PRIVMSG": {
+        const chatMessage = this.parseIRCMessage(ircMessage);
+        if (chatMessage) {
+          this.emit("chat:message", chatMessage);
+        }
+        break;
+      }
+
+      case "USERNOTICE":
+        this.emit("chat:userNotice", {
+          channel: this.parseChannel(ircMessage.params[0]),
+          msgId: ircMessage.tags["msg-id"] || "",
+          username: ircMessage.tags.login || "",
+          systemMessage: ircMessage.tags["system-msg"] || "",
+          message: ircMessage.params[1] || "",
+          tags: ircMessage.tags,
+        });
+        break;
+
+      case "CLEARMSG":
+        this.emit("chat:messageDeleted", {
+          channel: this.parseChannel(ircMessage.params[0]),
+          messageId: ircMessage.tags["target-msg-id"] || "",
+          username: ircMessage.tags.login || "",
+        });
+        break;
+
+      case "CLEARCHAT":
+        this.handleClearChat(ircMessage);
+        break;
+
+      case "NOTICE":
+        this.handleNotice(ircMessage);
+        break;
+
+      case "ROOMSTATE": {
+        // ROOMSTATE updates only carry the tags that changed
+        const channel = this.parseChannel(ircMessage.params[0]);
+        this.roomStates.set(channel, { ...this.roomStates.get(channel), ...ircMessage.tags });
+        break;
       }
 
-      const chatMessage = this.parseIRCMessage(line);
-      if (chatMessage) {
-        this.emit("chat:message", chatMessage);
+      case "JOIN": {
+        // Twitch echoes our own JOIN once the channel has been joined
+        const channel = this.parseChannel(ircMessage.params[0]);
+        if (ircMessage.prefix?.nick?.toLowerCase() === this.nick && this.channels.has(channel)) {
+          this.setChannelState(channel, "joined");
+        }
+        break;
       }
+
+      case "001":
+        // The welcome numeric is only sent once the login has been accepted
+        if (this.credentials) {
+          this.setAuthStatus("authenticated");
+        }
+        break;
+
+      case "GLOBALUSERSTATE":
+        this.globalUserState = { ...ircMessage.tags };
+        break;
+
+      case "USERSTATE":
+        // Sent on join and after each of our messages, carries our badges in the channel
+        this.userStates.set(this.parseChannel(ircMessage.params[0]), { ...ircMessage.tags });
+        break;
+
+      case "RECONNECT":
+        this.handleReconnectRequest();
+        break;
+
+      default:
+        // Numerics and membership messages are not used
+        break;
+    }
+  }
+
+  /**
+   * Handle CLEARCHAT: a timeout or ban when a user is given, otherwise a full chat clear
+   * Requirements: 2.2, 6.1
+   */
+  private handleClearChat(ircMessage: IRCMessage): void {
+    const channel = this.parseChannel(ircMessage.params[0]);
+    const username = ircMessage.params[1];
+
+    if (!username) {
+      this.emit("chat:chatCleared", { channel });
+      return;
+    }
+
+    const banDuration = ircMessage.tags["ban-duration"];
+
+    this.emit("chat:userCleared", {
+      channel,
+      username: username.toLowerCase(),
+      userId: ircMessage.tags["target-user-id"] || undefined,
+      duration: banDuration ? parseInt(banDuration, 10) : undefined,
     });
   }
 
   /**
-   * Parse IRC message to ChatMessage object
+   * Handle NOTICE messages from the server
+   * Requirements: 1.4
+   */
+  private handleNotice(ircMessage: IRCMessage): void {
+    const notice = {
+      channel: this.parseChannel(ircMessage.params[0]),
+      msgId: ircMessage.tags["msg-id"] || "",
+      message: ircMessage.params[1] || "",
+    };
+
+    console.log("Twitch IRC notice:", notice.msgId, notice.message);
+    this.emit("chat:notice", notice);
+
+    // Joining a suspended or nonexistent channel fails with a channel NOTICE
+    if (
+      ["msg_channel_suspended", "msg_banned", "tos_ban"].includes(notice.msgId) &&
+      this.channels.has(notice.channel)
+    ) {
+      this.setChannelState(notice.channel, "failed");
+    }
+
+    // Authentication failures are reported as channel-less NOTICEs
+    if (
+      notice.message.startsWith("Login authentication failed") ||
+      notice.message.startsWith("Improperly formatted auth")
+    ) {
+      if (this.credentials) {
+        // Retrying with a rejected token can never succeed, reconnect anonymously instead
+        this.credentials = null;
+        this.nick = ANONYMOUS_NICK;
+        this.setAuthStatus("failed");
+      }
+      this.handleConnectionError(notice.message);
+    }
+  }
+
+  /**
+   * Handle RECONNECT requests sent by Twitch before a server restart
+   * Requirements: 1.4
+   */
+  private handleReconnectRequest(): void {
+    console.log("Twitch requested a reconnect");
+
+    // Closing without flagging an intentional disconnect triggers the normal reconnect flow
+    if (this.ws) {
+      this.ws.close();
+    }
+  }
+
+  /**
+   * Convert a parsed IRC PRIVMSG to ChatMessage object
    * Requirements: 1.2
    */
-  private parseIRCMessage(line: string): ChatMessage | null {
-    // Parse IRC message format: @tags :user!user@user.tmi.twitch.tv PRIVMSG #channel :message
-    const privmsgMatch = line.match(
-      /^@([^:]*):([^!]+)![^@]+@[^.]+\.tmi\.twitch\.tv PRIVMSG #[^\s]+ :(.+)$/
-    );
+  private parseIRCMessage(ircMessage: IRCMessage): ChatMessage | null {
+    if (ircMessage.command !== "PRIVMSG") {
+      return null;
+    }
+
+    const username = ircMessage.prefix?.nick;
+    const message = ircMessage.params[1];
 
-    if (!privmsgMatch) {
+    if (!username || message === undefined) {
       return null;
     }
 
-    const [, tagsString, username, message] = privmsgMatch;
-    const tags = this.parseTags(tagsString);
+    const { tags } = ircMessage;
 
-    // Generate unique ID for the message
-    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    // Use Twitch's message ID so moderator deletions can be matched, generate one otherwise
+    const id =
+      tags.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     // Check if user is a bot based on badges or username patterns
     const isBot = this.isUserBot(username, tags.badges || "");
@@ -241,30 +620,152 @@ export class TwitchChatService {
 
     return {
       id,
+      channel: this.parseChannel(ircMessage.params[0]),
       username,
       message,
-      timestamp: new Date(),
+      timestamp: this.parseTimestamp(tags["tmi-sent-ts"]),
       isBot,
       badges,
+      userId: tags["user-id"] || undefined,
+      displayName: tags["display-name"] || username,
+      color: tags.color || undefined,
+      roomId: tags["room-id"] || undefined,
+      isFirstMessage: tags["first-msg"] === "1",
+      isReturningChatter: tags["returning-chatter"] === "1",
+      reply: this.parseReply(tags),
+      bits: parseInt(tags.bits, 10) || undefined,
+      isHighlighted: tags["msg-id"] === "highlighted-message" || undefined,
+      fragments: parseEmoteFragments(message, tags.emotes || ""),
     };
   }
 
   /**
-   * Parse IRC tags into key-value pairs
+   * Parse the server timestamp (milliseconds since epoch), falling back to the client clock
+   */
+  private parseTimestamp(sentTimestamp: string | undefined): Date {
+    const milliseconds = sentTimestamp ? parseInt(sentTimestamp, 10) : NaN;
+    return isNaN(milliseconds) ? new Date() : new Date(milliseconds);
+  }
+
+  /**
+   * Parse reply-parent-* tags into the message being replied to
    */
-  private parseTags(tagsString: string): Record<string, string> {
-    const tags: Record<string, string> = {};
+  private parseReply(tags: Record<string, string>): ChatReply | undefined {
+    const messageId = tags["reply-parent-msg-id"];
+    if (!messageId) return undefined;
 
-    if (!tagsString) return tags;
+    const username = tags["reply-parent-user-login"] || "";
 
-    tagsString.split(";").forEach((tag) => {
-      const [key, value] = tag.split("=");
-      if (key && value !== undefined) {
-        tags[key] = value;
+    return {
+      messageId,
+      userId: tags["reply-parent-user-id"] || "",
+      username,
+      displayName: tags["reply-parent-display-name"] || username,
+      message: tags["reply-parent-msg-body"] || "",
+    };
+  }
+
+  /**
+   * Update the login state and notify listeners when it changes
+   */
+  private setAuthStatus(status: AuthStatus): void {
+    if (this.authStatus === status) return;
+
+    this.authStatus = status;
+    this.emit("chat:authStatus", status);
+  }
+
+  /**
+   * Check whether we moderate or own a channel, which raises the message rate limit
+   */
+  private isModerator(channel: string): boolean {
+    const userState = this.userStates.get(channel);
+    if (!userState) return false;
+
+    return userState.mod === "1" || (userState.badges || "").includes("broadcaster/");
+  }
+
+  /**
+   * Milliseconds until the next message may be sent to a channel
+   * Combines the global message limit with the channel's slow mode
+   */
+  private getSendDelay(channel: string): number {
+    const isModerator = this.isModerator(channel);
+    const limitDelay = this.rateLimiter.getWaitTime(
+      isModerator ? MODERATOR_MESSAGE_RATE_LIMIT : MESSAGE_RATE_LIMIT
+    );
+
+    // Moderators are exempt from slow mode
+    const slowSeconds = parseInt(this.roomStates.get(channel)?.slow || "0", 10);
+    const lastSentAt = this.lastSentAt.get(channel);
+    const slowDelay =
+      !isModerator && slowSeconds > 0 && lastSentAt !== undefined
+        ? lastSentAt + slowSeconds * 1000 - Date.now()
+        : 0;
+
+    return Math.max(0, limitDelay, slowDelay);
+  }
+
+  /**
+   * Send queued chat messages until a rate limit is hit, then retry once it has passed
+   */
+  private flushOutgoingQueue(): void {
+    if (this.outgoingTimeout !== null) return;
+
+    while (this.outgoingQueue.length > 0) {
+      const next = this.outgoingQueue[0];
+      const delay = this.getSendDelay(next.channel);
+
+      if (delay > 0) {
+        this.outgoingTimeout = setTimeout(() => {
+          this.outgoingTimeout = null;
+          this.flushOutgoingQueue();
+        }, delay);
+        return;
       }
-    });
 
-    return tags;
+      this.outgoingQueue.shift();
+      this.sendRawMessage(`PRIVMSG #${next.channel} :${next.text}`);
+      this.rateLimiter.record();
+      this.lastSentAt.set(next.channel, Date.now());
+    }
+  }
+
+  /**
+   * Drop unsent chat messages, they would be stale after a reconnect
+   */
+  private clearOutgoingQueue(): void {
+    if (this.outgoingTimeout !== null) {
+      clearTimeout(this.outgoingTimeout);
+      this.outgoingTimeout = null;
+    }
+    this.outgoingQueue = [];
+  }
+
+  /**
+   * Connect again after an intentional disconnect with a fresh reconnect budget
+   */
+  private async reconnect(): Promise<void> {
+    this.reconnectAttempts = 0;
+    this.isIntentionalDisconnect = false;
+    await this.connect();
+  }
+
+  /**
+   * Update a channel's join state and notify listeners when it changes
+   */
+  private setChannelState(channel: string, state: ChannelJoinState): void {
+    if (this.channels.get(channel) === state) return;
+
+    this.channels.set(channel, state);
+    this.emit("chat:channelState", { channel, state });
+  }
+
+  /**
+   * Strip the leading "#" from an IRC channel parameter
+   */
+  private parseChannel(channelParam: string | undefined): string {
+    return (channelParam || "").replace(/^#/, "");
   }
 
   /**
@@ -317,6 +818,9 @@ export class TwitchChatService {
     console.log("Twitch IRC connection closed:", event.code, event.reason);
 
     this.ws = null;
+    this.clearOutgoingQueue();
+    // Channels are joined again on the next connect
+    this.getChannels().forEach((channel) => this.setChannelState(channel, "joining"));
     this.setConnectionStatus("disconnected");
     this.emit("chat:disconnected", undefined);
 
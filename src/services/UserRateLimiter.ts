@@ -0,0 +1,162 @@
+import type { ChatMessage, FilterResult, RateLimitSettings, UserRateLimit } from '../types';
+import { formatWait, getUserRateLimit } from '../utils/rateLimits';
+import { getUserVoiceKey } from '../utils/viewerVoices';
+
+/**
+ * Token bucket and cooldown state for one chatter
+ */
+interface UserRateState {
+  tokens: number;
+  refilledAt: number;
+  lastSpokenAt?: number;
+  expiresAt: number; // Bucket full and cooldown over, the chatter is as good as new
+}
+
+/**
+ * Check whether a limit counts messages, a limit of 0 messages or a 0 second window does not
+ */
+function hasBucket(limit: UserRateLimit): boolean {
+  return limit.messages > 0 && limit.windowSeconds > 0;
+}
+
+/**
+ * Per-chatter rate limits for the TTS queue: a token bucket of accepted messages,
+ * a cooldown after each spoken message and an optional cap of one waiting message
+ * Limits are passed per check so settings changes apply straight away
+ * Only chatters inside a window or cooldown are remembered, nothing is recorded while limits are off
+ * Requirements: 4.1
+ */
+export class UserRateLimiter {
+  private users: Map<string, UserRateState> = new Map();
+  private now: () => number;
+
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now;
+  }
+
+  /**
+   * Check whether a chatter's message may be queued
+   * No token is taken, call `recordQueued` once the message is actually in the queue
+   * `countPending` counts the chatter's messages already waiting, it is only called for capped tiers
+   */
+  public admit(message: ChatMessage, settings: RateLimitSettings, countPending: () => number): FilterResult {
+    if (!settings.enabled) {
+      return { shouldProcess: true };
+    }
+
+    const now = this.now();
+    this.prune(now);
+
+    const limit = getUserRateLimit(message, settings);
+    const state = this.users.get(getUserVoiceKey(message)) ?? this.createState(now);
+
+    if (limit.onePending && countPending() > 0) {
+      return { shouldProcess: false, reason: 'A message from this chatter is already waiting' };
+    }
+
+    if (limit.cooldownSeconds > 0 && state.lastSpokenAt !== undefined) {
+      const remaining = state.lastSpokenAt + limit.cooldownSeconds * 1000 - now;
+      if (remaining > 0) {
+        return { shouldProcess: false, reason: `On cooldown for ${formatWait(remaining)}` };
+      }
+    }
+
+    if (hasBucket(limit)) {
+      this.refill(state, limit, now);
+
+      if (state.tokens < 1) {
+        const wait = (1 - state.tokens) * limit.windowSeconds * 1000 / limit.messages;
+        return {
+          shouldProcess: false,
+          reason: `Rate limited to ${limit.messages} per ${limit.windowSeconds}s, next in ${formatWait(wait)}`
+        };
+      }
+    }
+
+    return { shouldProcess: true };
+  }
+
+  /**
+   * Take a token for a chatter's message that made it into the queue
+   */
+  public recordQueued(message: ChatMessage, settings: RateLimitSettings): void {
+    const limit = getUserRateLimit(message, settings);
+    if (!settings.enabled || !hasBucket(limit)) {
+      return;
+    }
+
+    const now = this.now();
+    const state = this.getState(getUserVoiceKey(message), now);
+    this.refill(state, limit, now);
+    state.tokens -= 1;
+    // Tokens never go below 0, so the bucket is full again a window after the last one taken
+    state.expiresAt = Math.max(state.expiresAt, now + limit.windowSeconds * 1000);
+  }
+
+  /**
+   * Start a chatter's cooldown when one of their messages is spoken
+   */
+  public recordSpoken(message: Pick<ChatMessage, 'userId' | 'username' | 'badges'>, settings: RateLimitSettings): void {
+    const limit = getUserRateLimit(message, settings);
+    if (!settings.enabled || limit.cooldownSeconds <= 0) {
+      return;
+    }
+
+    const now = this.now();
+    const state = this.getState(getUserVoiceKey(message), now);
+    state.lastSpokenAt = now;
+    state.expiresAt = Math.max(state.expiresAt, now + limit.cooldownSeconds * 1000);
+  }
+
+  /**
+   * Get the number of chatters currently remembered
+   */
+  public getUserCount(): number {
+    return this.users.size;
+  }
+
+  /**
+   * Forget every chatter
+   */
+  public reset(): void {
+    this.users.clear();
+  }
+
+  /**
+   * Tokens trickle back at `messages` per window, up to a full bucket
+   */
+  private refill(state: UserRateState, limit: UserRateLimit, now: number): void {
+    state.tokens = Math.min(limit.messages, state.tokens + (now - state.refilledAt) * limit.messages / (limit.windowSeconds * 1000));
+    state.refilledAt = now;
+  }
+
+  /**
+   * Forget chatters whose window and cooldown have passed
+   */
+  private prune(now: number): void {
+    this.users.forEach((state, key) => {
+      if (state.expiresAt <= now) {
+        this.users.delete(key);
+      }
+    });
+  }
+
+  /**
+   * New chatters start with a full bucket
+   */
+  private createState(now: number): UserRateState {
+    return { tokens: Number.POSITIVE_INFINITY, refilledAt: now, expiresAt: now };
+  }
+
+  /**
+   * Get a chatter's state, remembering new chatters
+   */
+  private getState(key: string, now: number): UserRateState {
+    let state = this.users.get(key);
+    if (!state) {
+      state = this.createState(now);
+      this.users.set(key, state);
+    }
+    return state;
+  }
+}
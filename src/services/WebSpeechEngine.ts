@@ -0,0 +1,154 @@
+import type {
+  TTSEngine,
+  TTSEngineHandlers,
+  TTSEngineUtterance,
+  TTSVoice,
+} from "../types";
+
+/**
+ * TTS engine speaking through the browser's Web Speech API
+ * Requirements: 2.1, 3.2
+ */
+export class WebSpeechEngine implements TTSEngine {
+  public readonly id = "web-speech" as const;
+  private voices: TTSVoice[] = [];
+  private voicesLoaded = false;
+  private voicesChangedListeners = new Set<(voices: TTSVoice[]) => void>();
+  // Chrome stops firing events for utterances that are garbage collected mid-speech
+  private currentUtterance: SpeechSynthesisUtterance | null = null;
+
+  public isSupported(): boolean {
+    return "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+  }
+
+  public getVoices(): TTSVoice[] {
+    return [...this.voices];
+  }
+
+  public onVoicesChanged(listener: (voices: TTSVoice[]) => void): void {
+    this.voicesChangedListeners.add(listener);
+  }
+
+  /**
+   * Load voices, which some browsers only provide after a delay
+   * Resolves with no voices after 5 seconds
+   * Requirements: 2.1
+   */
+  public loadVoices(): Promise<TTSVoice[]> {
+    if (!this.isSupported()) {
+      return Promise.resolve([]);
+    }
+
+    const synthesis = window.speechSynthesis;
+
+    return new Promise((resolve) => {
+      let attempts = 0;
+      const maxAttempts = 50; // 5 seconds max wait time
+
+      // Voices might not be immediately available, so we need to wait
+      const loadVoices = () => {
+        attempts++;
+        const voices = synthesis.getVoices();
+
+        if (voices.length > 0) {
+          this.setVoices(voices);
+          resolve(this.getVoices());
+        } else if (attempts >= maxAttempts) {
+          console.warn("Web Speech voices not loaded after timeout, continuing without voices");
+          resolve([]);
+        } else {
+          // Voices not loaded yet, wait a bit and try again
+          setTimeout(loadVoices, 100);
+        }
+      };
+
+      // Some browsers fire this event when voices are loaded or change later
+      if ("onvoiceschanged" in synthesis) {
+        synthesis.onvoiceschanged = () => {
+          const voices = synthesis.getVoices();
+          if (!this.voicesLoaded || voices.length !== this.voices.length) {
+            this.setVoices(voices);
+          }
+        };
+      }
+
+      // Also try immediately in case voices are already available
+      loadVoices();
+    });
+  }
+
+  public speak(utterance: TTSEngineUtterance, handlers: TTSEngineHandlers): void {
+    const speech = new SpeechSynthesisUtterance(utterance.text);
+
+    // Web Speech needs its own voice object, so look it up by URI or name
+    const voice = utterance.voice && this.findNativeVoice(utterance.voice);
+    if (voice) {
+      speech.voice = voice;
+    }
+
+    speech.volume = utterance.volume;
+    speech.rate = utterance.rate;
+    speech.pitch = utterance.pitch;
+
+    speech.onstart = () => handlers.onStart?.();
+    speech.onend = () => {
+      this.currentUtterance = null;
+      handlers.onEnd();
+    };
+    speech.onerror = (event) => {
+      this.currentUtterance = null;
+      handlers.onError(`Speech synthesis error: ${event.error}`);
+    };
+    speech.onboundary = (event) => {
+      handlers.onBoundary?.({ charIndex: event.charIndex, charLength: event.charLength });
+    };
+
+    this.currentUtterance = speech;
+    window.speechSynthesis.speak(speech);
+  }
+
+  public cancel(): void {
+    const hasUtterance = this.currentUtterance !== null;
+    this.currentUtterance = null;
+    if (this.isSupported() && (hasUtterance || window.speechSynthesis.speaking)) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  public pause(): void {
+    if (this.isSupported()) {
+      window.speechSynthesis.pause();
+    }
+  }
+
+  public resume(): void {
+    if (this.isSupported()) {
+      window.speechSynthesis.resume();
+    }
+  }
+
+  public isSpeaking(): boolean {
+    return this.isSupported() && window.speechSynthesis.speaking;
+  }
+
+  public destroy(): void {
+    this.cancel();
+    this.voicesChangedListeners.clear();
+  }
+
+  /**
+   * Store voices and tell listeners, native voice objects already match TTSVoice
+   */
+  private setVoices(voices: SpeechSynthesisVoice[]): void {
+    this.voices = voices;
+    this.voicesLoaded = voices.length > 0;
+    this.voicesChangedListeners.forEach((listener) => listener(this.getVoices()));
+  }
+
+  private findNativeVoice(voice: TTSVoice): SpeechSynthesisVoice | undefined {
+    const voices = window.speechSynthesis.getVoices();
+    return voices.find((candidate) => candidate === voice)
+      ?? voices.find((candidate) => candidate.voiceURI === voice.voiceURI && candidate.name === voice.name)
+      ?? voices.find((candidate) => candidate.name === voice.name);
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FallbackTTSEngine } from '../FallbackTTSEngine';
+import type { TTSEngineUtterance } from '../../types';
+
+// Minimal Web Audio mocks that record playback
+class MockBufferSource {
+  buffer: { length: number } | null = null;
+  onended: (() => void) | null = null;
+  connect = vi.fn();
+  start = vi.fn();
+  stop = vi.fn();
+}
+
+class MockAudioContext {
+  static instances: MockAudioContext[] = [];
+  sources: MockBufferSource[] = [];
+  destination = {};
+  resume = vi.fn(() => Promise.resolve());
+  suspend = vi.fn(() => Promise.resolve());
+  close = vi.fn(() => Promise.resolve());
+
+  constructor() {
+    MockAudioContext.instances.push(this);
+  }
+
+  createBuffer(_channels: number, length: number) {
+    return { length, getChannelData: () => new Float32Array(length) };
+  }
+
+  createBufferSource() {
+    const source = new MockBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+}
+
+// Let the audio context resume
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('FallbackTTSEngine', () => {
+  let engine: FallbackTTSEngine;
+  let utterance: TTSEngineUtterance;
+
+  beforeEach(() => {
+    MockAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', MockAudioContext);
+    engine = new FallbackTTSEngine();
+    utterance = { text: 'hello there', voice: null, volume: 1, rate: 1, pitch: 1 };
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should offer built-in voices when Web Audio is available', async () => {
+    const listener = vi.fn();
+    engine.onVoicesChanged(listener);
+
+    const voices = await engine.loadVoices();
+
+    expect(voices.length).toBeGreaterThan(0);
+    expect(voices.every(voice => voice.engine === 'fallback')).toBe(true);
+    expect(listener).toHaveBeenCalledWith(voices);
+  });
+
+  it('should not be supported without Web Audio', async () => {
+    vi.unstubAllGlobals();
+    vi.stubGlobal('AudioContext', undefined);
+
+    expect(engine.isSupported()).toBe(false);
+    await expect(engine.loadVoices()).resolves.toEqual([]);
+  });
+
+  it('should play synthesized audio and report when it ends', async () => {
+    const handlers = { onStart: vi.fn(), onEnd: vi.fn(), onError: vi.fn() };
+
+    engine.speak(utterance, handlers);
+    expect(engine.isSpeaking()).toBe(true);
+    await flush();
+
+    const source = MockAudioContext.instances[0].sources[0];
+    expect(source.buffer?.length).toBeGreaterThan(0);
+    expect(source.start).toHaveBeenCalled();
+    expect(handlers.onStart).toHaveBeenCalled();
+
+    source.onended?.();
+
+    expect(handlers.onEnd).toHaveBeenCalled();
+    expect(engine.isSpeaking()).toBe(false);
+  });
+
+  it('should report word boundaries while speaking', async () => {
+    vi.useFakeTimers();
+    const handlers = { onEnd: vi.fn(), onError: vi.fn(), onBoundary: vi.fn() };
+
+    engine.speak(utterance, handlers);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(handlers.onBoundary).toHaveBeenCalledWith({ charIndex: 0, charLength: 5 });
+    expect(handlers.onBoundary).toHaveBeenCalledWith({ charIndex: 6, charLength: 5 });
+    vi.useRealTimers();
+  });
+
+  it('should stop playback when cancelled', async () => {
+    const handlers = { onEnd: vi.fn(), onError: vi.fn() };
+
+    engine.speak(utterance, handlers);
+    await flush();
+    const source = MockAudioContext.instances[0].sources[0];
+
+    engine.cancel();
+
+    expect(source.stop).toHaveBeenCalled();
+    expect(engine.isSpeaking()).toBe(false);
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+  });
+
+  it('should report text with nothing to say', () => {
+    const handlers = { onEnd: vi.fn(), onError: vi.fn() };
+
+    engine.speak({ ...utterance, text: '...' }, handlers);
+
+    expect(handlers.onError).toHaveBeenCalledWith('Nothing to say after synthesis');
+    expect(engine.isSpeaking()).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HttpTTSEngine } from '../HttpTTSEngine';
+import type { TTSEngineUtterance } from '../../types';
+
+// Minimal audio element that records playback
+class MockAudio {
+  static instances: MockAudio[] = [];
+  src: string;
+  volume = 1;
+  onplay: (() => void) | null = null;
+  onended: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  play = vi.fn(() => {
+    this.onplay?.();
+    return Promise.resolve();
+  });
+  pause = vi.fn();
+
+  constructor(src: string) {
+    this.src = src;
+    MockAudio.instances.push(this);
+  }
+}
+
+const jsonResponse = (data: unknown) => ({ ok: true, status: 200, json: () => Promise.resolve(data) });
+const audioResponse = () => ({ ok: true, status: 200, blob: () => Promise.resolve(new Blob(['audio'])) });
+
+// Let pending fetch and playback promises settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('HttpTTSEngine', () => {
+  const fetchMock = vi.fn();
+  let engine: HttpTTSEngine;
+  let utterance: TTSEngineUtterance;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    MockAudio.instances = [];
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('Audio', MockAudio);
+    URL.createObjectURL = vi.fn(() => 'blob:audio');
+    URL.revokeObjectURL = vi.fn();
+
+    engine = new HttpTTSEngine({ enabled: true, url: 'http://localhost:5002/' });
+    utterance = { text: 'Hello chat', voice: null, volume: 0.5, rate: 1.2, pitch: 1 };
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should have no voices and not speak until configured', async () => {
+    const unconfigured = new HttpTTSEngine({ enabled: false, url: 'http://localhost:5002' });
+
+    expect(unconfigured.isSupported()).toBe(false);
+    await expect(unconfigured.loadVoices()).resolves.toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should load voices from the server', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      voices: [{ id: 'amy', name: 'Amy', lang: 'en-US' }, { id: 'harri' }, { name: 'no id' }]
+    }));
+    const listener = vi.fn();
+    engine.onVoicesChanged(listener);
+
+    const voices = await engine.loadVoices();
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:5002/voices');
+    expect(voices).toEqual([
+      { name: 'Amy', lang: 'en-US', voiceURI: 'amy', default: false, localService: false, engine: 'http' },
+      { name: 'harri', lang: '', voiceURI: 'harri', default: false, localService: false, engine: 'http' }
+    ]);
+    expect(listener).toHaveBeenCalledWith(voices);
+  });
+
+  it('should reject when the voice list cannot be loaded', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 500 });
+
+    await expect(engine.loadVoices()).rejects.toThrow('Voice list request failed (500)');
+    expect(engine.getVoices()).toEqual([]);
+  });
+
+  it('should synthesize and play audio', async () => {
+    fetchMock.mockResolvedValue(audioResponse());
+    const handlers = { onStart: vi.fn(), onEnd: vi.fn(), onError: vi.fn() };
+
+    engine.speak(
+      { ...utterance, voice: { name: 'Amy', lang: 'en-US', voiceURI: 'amy', default: false, localService: false, engine: 'http' } },
+      handlers
+    );
+    expect(engine.isSpeaking()).toBe(true);
+    await flush();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:5002/synthesize');
+    expect(JSON.parse(init.body)).toEqual({ text: 'Hello chat', voice: 'amy', rate: 1.2, pitch: 1 });
+
+    const audio = MockAudio.instances[0];
+    expect(audio.volume).toBe(0.5);
+    expect(handlers.onStart).toHaveBeenCalled();
+
+    audio.onended?.();
+
+    expect(handlers.onEnd).toHaveBeenCalled();
+    expect(engine.isSpeaking()).toBe(false);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:audio');
+  });
+
+  it('should report server errors', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('model loading') });
+    const handlers = { onEnd: vi.fn(), onError: vi.fn() };
+
+    engine.speak(utterance, handlers);
+    await flush();
+
+    expect(handlers.onError).toHaveBeenCalledWith('Speech server error (503): model loading');
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+    expect(engine.isSpeaking()).toBe(false);
+  });
+
+  it('should not call back after being cancelled', async () => {
+    fetchMock.mockResolvedValue(audioResponse());
+    const handlers = { onEnd: vi.fn(), onError: vi.fn() };
+
+    engine.speak(utterance, handlers);
+    engine.cancel();
+    await flush();
+
+    expect(MockAudio.instances).toHaveLength(0);
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+    expect(handlers.onError).not.toHaveBeenCalled();
+    expect(engine.isSpeaking()).toBe(false);
+  });
+});
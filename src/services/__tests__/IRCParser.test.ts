@@ -0,0 +1,293 @@
+import { describe, it, expect } from 'vitest';
+import { parseIRCLine, parseTags, parsePrefix, unescapeTagValue } from '../IRCParser';
+import type { IRCMessage } from '../../types';
+
+type CorpusEntry = [string, string, Omit<IRCMessage, 'raw'>];
+
+// Real-world lines captured from Twitch IRC (identifiers shortened)
+const twitchCorpus: CorpusEntry[] = [
+  [
+    'PING',
+    'PING :tmi.twitch.tv',
+    { tags: {}, prefix: null, command: 'PING', params: ['tmi.twitch.tv'] }
+  ],
+  [
+    'PRIVMSG with tags',
+    '@badge-info=;badges=moderator/1;color=#FF0000;display-name=TestUser;emotes=;id=b34ccfc7-4977-403a-8a94-33c6bac34fb8;mod=1;room-id=1337;tmi-sent-ts=1507246572675;user-id=1337 :testuser!testuser@testuser.tmi.twitch.tv PRIVMSG #huikkakoodaa :Hello world!',
+    {
+      tags: {
+        'badge-info': '',
+        badges: 'moderator/1',
+        color: '#FF0000',
+        'display-name': 'TestUser',
+        emotes: '',
+        id: 'b34ccfc7-4977-403a-8a94-33c6bac34fb8',
+        mod: '1',
+        'room-id': '1337',
+        'tmi-sent-ts': '1507246572675',
+        'user-id': '1337'
+      },
+      prefix: { nick: 'testuser', user: 'testuser', host: 'testuser.tmi.twitch.tv' },
+      command: 'PRIVMSG',
+      params: ['#huikkakoodaa', 'Hello world!']
+    }
+  ],
+  [
+    'PRIVMSG whose text contains colons',
+    ':viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #huikkakoodaa :time is 12:30 :)',
+    {
+      tags: {},
+      prefix: { nick: 'viewer', user: 'viewer', host: 'viewer.tmi.twitch.tv' },
+      command: 'PRIVMSG',
+      params: ['#huikkakoodaa', 'time is 12:30 :)']
+    }
+  ],
+  [
+    'USERNOTICE resub with escaped system message',
+    '@badge-info=subscriber/8;badges=subscriber/6;display-name=Ronni;login=ronni;msg-id=resub;msg-param-cumulative-months=8;system-msg=ronni\\shas\\ssubscribed\\sfor\\s8\\smonths!;user-id=1337 :tmi.twitch.tv USERNOTICE #huikkakoodaa :Great stream -- keep it up!',
+    {
+      tags: {
+        'badge-info': 'subscriber/8',
+        badges: 'subscriber/6',
+        'display-name': 'Ronni',
+        login: 'ronni',
+        'msg-id': 'resub',
+        'msg-param-cumulative-months': '8',
+        'system-msg': 'ronni has subscribed for 8 months!',
+        'user-id': '1337'
+      },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'USERNOTICE',
+      params: ['#huikkakoodaa', 'Great stream -- keep it up!']
+    }
+  ],
+  [
+    'USERNOTICE raid without message',
+    '@login=raider;msg-id=raid;msg-param-viewerCount=15;system-msg=15\\sraiders\\sfrom\\sRaider\\shave\\sjoined! :tmi.twitch.tv USERNOTICE #huikkakoodaa',
+    {
+      tags: {
+        login: 'raider',
+        'msg-id': 'raid',
+        'msg-param-viewerCount': '15',
+        'system-msg': '15 raiders from Raider have joined!'
+      },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'USERNOTICE',
+      params: ['#huikkakoodaa']
+    }
+  ],
+  [
+    'CLEARCHAT timeout',
+    '@ban-duration=350;room-id=12345678;target-user-id=87654321;tmi-sent-ts=1642715756806 :tmi.twitch.tv CLEARCHAT #huikkakoodaa :ronni',
+    {
+      tags: {
+        'ban-duration': '350',
+        'room-id': '12345678',
+        'target-user-id': '87654321',
+        'tmi-sent-ts': '1642715756806'
+      },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'CLEARCHAT',
+      params: ['#huikkakoodaa', 'ronni']
+    }
+  ],
+  [
+    'CLEARCHAT whole room',
+    '@room-id=12345678;tmi-sent-ts=1642715695392 :tmi.twitch.tv CLEARCHAT #huikkakoodaa',
+    {
+      tags: { 'room-id': '12345678', 'tmi-sent-ts': '1642715695392' },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'CLEARCHAT',
+      params: ['#huikkakoodaa']
+    }
+  ],
+  [
+    'CLEARMSG',
+    '@login=foo;room-id=;target-msg-id=94e6c7ff-bf98-4faa-af5d-7ad633a158a9;tmi-sent-ts=1642720582342 :tmi.twitch.tv CLEARMSG #huikkakoodaa :HeyGuys',
+    {
+      tags: {
+        login: 'foo',
+        'room-id': '',
+        'target-msg-id': '94e6c7ff-bf98-4faa-af5d-7ad633a158a9',
+        'tmi-sent-ts': '1642720582342'
+      },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'CLEARMSG',
+      params: ['#huikkakoodaa', 'HeyGuys']
+    }
+  ],
+  [
+    'ROOMSTATE',
+    '@emote-only=0;followers-only=-1;r9k=0;room-id=12345678;slow=0;subs-only=0 :tmi.twitch.tv ROOMSTATE #huikkakoodaa',
+    {
+      tags: {
+        'emote-only': '0',
+        'followers-only': '-1',
+        r9k: '0',
+        'room-id': '12345678',
+        slow: '0',
+        'subs-only': '0'
+      },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'ROOMSTATE',
+      params: ['#huikkakoodaa']
+    }
+  ],
+  [
+    'NOTICE',
+    '@msg-id=emote_only_on :tmi.twitch.tv NOTICE #huikkakoodaa :This room is now in emote-only mode.',
+    {
+      tags: { 'msg-id': 'emote_only_on' },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'NOTICE',
+      params: ['#huikkakoodaa', 'This room is now in emote-only mode.']
+    }
+  ],
+  [
+    'NOTICE login failure',
+    ':tmi.twitch.tv NOTICE * :Login authentication failed',
+    {
+      tags: {},
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'NOTICE',
+      params: ['*', 'Login authentication failed']
+    }
+  ],
+  [
+    'GLOBALUSERSTATE',
+    '@badge-info=;badges=;color=#0D4200;display-name=justinfan12345;emote-sets=0;user-id=123456789;user-type= :tmi.twitch.tv GLOBALUSERSTATE',
+    {
+      tags: {
+        'badge-info': '',
+        badges: '',
+        color: '#0D4200',
+        'display-name': 'justinfan12345',
+        'emote-sets': '0',
+        'user-id': '123456789',
+        'user-type': ''
+      },
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'GLOBALUSERSTATE',
+      params: []
+    }
+  ],
+  [
+    'RECONNECT',
+    ':tmi.twitch.tv RECONNECT',
+    { tags: {}, prefix: { host: 'tmi.twitch.tv' }, command: 'RECONNECT', params: [] }
+  ],
+  [
+    'numeric welcome reply',
+    ':tmi.twitch.tv 001 justinfan12345 :Welcome, GLHF!',
+    {
+      tags: {},
+      prefix: { host: 'tmi.twitch.tv' },
+      command: '001',
+      params: ['justinfan12345', 'Welcome, GLHF!']
+    }
+  ],
+  [
+    'CAP ACK',
+    ':tmi.twitch.tv CAP * ACK :twitch.tv/tags twitch.tv/commands',
+    {
+      tags: {},
+      prefix: { host: 'tmi.twitch.tv' },
+      command: 'CAP',
+      params: ['*', 'ACK', 'twitch.tv/tags twitch.tv/commands']
+    }
+  ],
+  [
+    'JOIN',
+    ':justinfan12345!justinfan12345@justinfan12345.tmi.twitch.tv JOIN #huikkakoodaa',
+    {
+      tags: {},
+      prefix: {
+        nick: 'justinfan12345',
+        user: 'justinfan12345',
+        host: 'justinfan12345.tmi.twitch.tv'
+      },
+      command: 'JOIN',
+      params: ['#huikkakoodaa']
+    }
+  ]
+];
+
+describe('IRCParser', () => {
+  describe('parseIRCLine corpus', () => {
+    it.each(twitchCorpus)('should parse %s', (_name, line, expected) => {
+      expect(parseIRCLine(line)).toEqual({ raw: line, ...expected });
+    });
+  });
+
+  describe('parseIRCLine edge cases', () => {
+    it('should return null for empty lines', () => {
+      expect(parseIRCLine('')).toBeNull();
+      expect(parseIRCLine('   ')).toBeNull();
+    });
+
+    it('should strip trailing CRLF', () => {
+      const result = parseIRCLine('PING :tmi.twitch.tv\r\n');
+      expect(result?.raw).toBe('PING :tmi.twitch.tv');
+      expect(result?.params).toEqual(['tmi.twitch.tv']);
+    });
+
+    it('should keep an empty trailing parameter', () => {
+      const result = parseIRCLine(':nick!nick@host PRIVMSG #channel :');
+      expect(result?.params).toEqual(['#channel', '']);
+    });
+
+    it('should normalize the command to upper case', () => {
+      expect(parseIRCLine('ping :tmi.twitch.tv')?.command).toBe('PING');
+    });
+
+    it('should return null when only tags and prefix are present', () => {
+      expect(parseIRCLine('@a=b :tmi.twitch.tv')).toBeNull();
+    });
+  });
+
+  describe('parseTags', () => {
+    it('should treat tags without a value as empty strings', () => {
+      expect(parseTags('mod;subscriber=1')).toEqual({ mod: '', subscriber: '1' });
+    });
+
+    it('should keep "=" characters inside values', () => {
+      expect(parseTags('reply-parent-msg-body=a=b')).toEqual({ 'reply-parent-msg-body': 'a=b' });
+    });
+
+    it('should ignore empty segments', () => {
+      expect(parseTags('a=1;;b=2;')).toEqual({ a: '1', b: '2' });
+    });
+  });
+
+  describe('unescapeTagValue', () => {
+    it.each([
+      ['hello\\sworld', 'hello world'],
+      ['semi\\:colon', 'semi;colon'],
+      ['back\\\\slash', 'back\\slash'],
+      ['line\\rbreak\\n', 'line\rbreak\n'],
+      ['unknown\\qescape', 'unknownqescape'],
+      ['trailing\\', 'trailing'],
+      ['no escapes', 'no escapes']
+    ])('should unescape %j', (input, expected) => {
+      expect(unescapeTagValue(input)).toBe(expected);
+    });
+  });
+
+  describe('parsePrefix', () => {
+    it('should parse a full user prefix', () => {
+      expect(parsePrefix('nick!user@host.tmi.twitch.tv')).toEqual({
+        nick: 'nick',
+        user: 'user',
+        host: 'host.tmi.twitch.tv'
+      });
+    });
+
+    it('should parse a server prefix', () => {
+      expect(parsePrefix('tmi.twitch.tv')).toEqual({ host: 'tmi.twitch.tv' });
+    });
+
+    it('should parse a nick@host prefix', () => {
+      expect(parsePrefix('nick@host')).toEqual({ nick: 'nick', host: 'host' });
+    });
+  });
+});
@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
 import { QueueManager } from '../QueueManager';
 import { TTSService } from '../TTSService';
-import type { ChatMessage, TTSQueueItem, TTSSettings } from '../../types';
+import type { ChatMessage, OverflowPolicy, TTSQueueItem, TTSSettings } from '../../types';
+import { DEFAULT_QUEUE_PRIORITY_SETTINGS } from '../../utils/queuePriority';
+import { DEFAULT_QUEUE_LIMIT_SETTINGS } from '../../utils/queueLimit';
+import { createTestSettings } from '../../test-fixtures';
 
 // Mock TTSService
 vi.mock('../TTSService');
@@ -12,8 +15,9 @@ describe('QueueManager', () => {
   let mockTTSSettings: TTSSettings;
 
   // Helper function to create test chat messages
-  const createTestMessage = (id: string, message: string, username = 'testuser'): ChatMessage => ({
+  const createTestMessage = (id: string, message: string, username = 'testuser', channel = 'testchannel'): ChatMessage => ({
     id,
+    channel,
     username,
     message,
     timestamp: new Date(),
@@ -26,17 +30,7 @@ describe('QueueManager', () => {
     vi.clearAllMocks();
 
     // Create mock TTS settings
-    mockTTSSettings = {
-      enabled: true,
-      volume: 1,
-      rate: 1,
-      pitch: 1,
-      voice: null,
-      filterBots: false,
-      minMessageLength: 1,
-      blockedUsers: [],
-      skipEmoteOnly: false
-    };
+    mockTTSSettings = createTestSettings();
 
     // Create mock TTS service
     mockTTSService = new TTSService(mockTTSSettings);
@@ -81,6 +75,16 @@ describe('QueueManager', () => {
       expect(queueManager.isEmpty()).toBe(false);
     });
 
+    it('should label queue items with their detected language', () => {
+      (mockTTSService.detectMessageLanguage as Mock) = vi.fn().mockReturnValue('fi');
+      const message = createTestMessage('1', 'moikka mitä kuuluu');
+
+      const queueItem = queueManager.add(message);
+
+      expect(mockTTSService.detectMessageLanguage).toHaveBeenCalledWith(message);
+      expect(queueItem.language).toBe('fi');
+    });
+
     it('should generate unique IDs for queue items', () => {
       const message1 = createTestMessage('1', 'First message');
       const message2 = createTestMessage('2', 'Second message');
@@ -258,12 +262,107 @@ describe('QueueManager', () => {
       expect(mockTTSService.stop).toHaveBeenCalled();
     });
 
+    it('should only skip a message from the given channel', async () => {
+      (mockTTSService.isSpeaking as Mock).mockReturnValue(true);
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+
+      queueManager.add(createTestMessage('1', 'Test', 'testuser', 'first'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queueManager.skip('second')).toBe(false);
+      expect(mockTTSService.stop).not.toHaveBeenCalled();
+      expect(queueManager.skip('first')).toBe(true);
+    });
+
     it('should return false when skipping with no current message', () => {
       const skipped = queueManager.skip();
       expect(skipped).toBe(false);
     });
   });
 
+  describe('Moderation removals', () => {
+    it('should remove a pending item by chat message ID', async () => {
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+
+      queueManager.add(createTestMessage('1', 'First'));
+      queueManager.add(createTestMessage('2', 'Spam'));
+      queueManager.add(createTestMessage('3', 'Third'));
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queueManager.removeByMessageId('2')).toBe(1);
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['3']);
+      expect(queueManager.getCurrentItem()?.message.id).toBe('1');
+    });
+
+    it('should cut off the current item when its message is deleted', async () => {
+      (mockTTSService.isSpeaking as Mock).mockReturnValue(true);
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+
+      queueManager.add(createTestMessage('1', 'Spam'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queueManager.removeByMessageId('1')).toBe(1);
+      expect(mockTTSService.stop).toHaveBeenCalled();
+      expect(queueManager.getCurrentItem()).toBeNull();
+    });
+
+    it('should remove every item from a cleared user case-insensitively', async () => {
+      (mockTTSService.isSpeaking as Mock).mockReturnValue(true);
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+
+      queueManager.add(createTestMessage('1', 'Spam one', 'spammer'));
+      queueManager.add(createTestMessage('2', 'Hello', 'viewer'));
+      queueManager.add(createTestMessage('3', 'Spam two', 'Spammer'));
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queueManager.removeByUser('SPAMMER')).toBe(2);
+      expect(mockTTSService.stop).toHaveBeenCalled();
+      expect(queueManager.getQueue().map(item => item.message.username)).toEqual(['viewer']);
+    });
+
+    it('should only remove a cleared user\'s items from the given channel', () => {
+      queueManager.pause();
+      queueManager.add(createTestMessage('1', 'Spam', 'spammer', 'first_channel'));
+      queueManager.add(createTestMessage('2', 'Hello', 'spammer', 'second_channel'));
+      queueManager.add(createTestMessage('3', 'Hi', 'viewer', 'first_channel'));
+
+      expect(queueManager.removeByUser('spammer', 'First_Channel')).toBe(1);
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['2', '3']);
+    });
+
+    it('should remove a user\'s items from every channel when no channel is given', () => {
+      queueManager.pause();
+      queueManager.add(createTestMessage('1', 'Spam', 'spammer', 'first_channel'));
+      queueManager.add(createTestMessage('2', 'Hello', 'spammer', 'second_channel'));
+      queueManager.add(createTestMessage('3', 'Hi', 'viewer', 'first_channel'));
+
+      expect(queueManager.removeByUser('spammer')).toBe(2);
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['3']);
+    });
+
+    it('should remove only the cleared channel\'s items', () => {
+      queueManager.pause();
+      queueManager.add(createTestMessage('1', 'One', 'viewer', 'first_channel'));
+      queueManager.add(createTestMessage('2', 'Two', 'viewer', 'second_channel'));
+      queueManager.add(createTestMessage('3', 'Three', 'other', 'first_channel'));
+
+      expect(queueManager.removeByChannel('first_channel')).toBe(2);
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['2']);
+    });
+
+    it('should not emit updates when nothing matches', () => {
+      const listener = vi.fn();
+      queueManager.on('queue:updated', listener);
+
+      expect(queueManager.removeByMessageId('missing')).toBe(0);
+      expect(queueManager.removeByUser('nobody')).toBe(0);
+      expect(queueManager.removeByChannel('elsewhere')).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Event handling', () => {
     it('should emit queue:updated event when adding message', () => {
       const listener = vi.fn();
@@ -375,6 +474,308 @@ describe('QueueManager', () => {
 
       expect(mockTTSService.speak).toHaveBeenCalled();
     });
+
+    it('should hold new messages while paused', async () => {
+      queueManager.pause();
+      queueManager.add(createTestMessage('1', 'Test'));
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockTTSService.speak).not.toHaveBeenCalled();
+      expect(queueManager.isQueuePaused()).toBe(true);
+    });
+
+    it('should put the interrupted message back at the front of the queue', async () => {
+      (mockTTSService.isSpeaking as Mock).mockReturnValue(true);
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+
+      queueManager.add(createTestMessage('1', 'First'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      queueManager.add(createTestMessage('2', 'Second'));
+
+      queueManager.pause();
+
+      expect(queueManager.getCurrentItem()).toBeNull();
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['1', '2']);
+      expect(queueManager.getQueue()[0].status).toBe('pending');
+    });
+  });
+
+  describe('Priority tiers', () => {
+    const withBadges = (id: string, badges: string[], extra: Partial<ChatMessage> = {}): ChatMessage => ({
+      ...createTestMessage(id, `Message ${id}`, `user${id}`),
+      badges,
+      ...extra
+    });
+
+    beforeEach(() => {
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+      queueManager.updateSettings({ ...mockTTSSettings, queuePriority: { ...DEFAULT_QUEUE_PRIORITY_SETTINGS, enabled: true } });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should order waiting items by tier and keep arrival order within a tier', async () => {
+      queueManager.add(withBadges('speaking', []));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queueManager.add(withBadges('1', []));
+      queueManager.add(withBadges('2', ['subscriber']));
+      queueManager.add(withBadges('3', [], { bits: 100 }));
+      queueManager.add(withBadges('4', ['moderator']));
+      queueManager.add(withBadges('5', ['founder']));
+
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['4', '3', '2', '5', '1']);
+      expect(queueManager.getQueue().map(item => item.tier)).toEqual([
+        'Broadcaster and mods',
+        'Bits and highlights',
+        'Subscribers',
+        'Subscribers',
+        'Everyone'
+      ]);
+    });
+
+    it('should emit the effective order in queue updates', async () => {
+      const listener = vi.fn();
+      queueManager.add(withBadges('speaking', []));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      queueManager.on('queue:updated', listener);
+
+      queueManager.add(withBadges('1', []));
+      queueManager.add(withBadges('2', [], { isHighlighted: true }));
+
+      const lastUpdate: TTSQueueItem[] = listener.mock.calls[listener.mock.calls.length - 1][0];
+      expect(lastUpdate.map(item => item.message.id)).toEqual(['speaking', '2', '1']);
+    });
+
+    it('should speak the highest priority item next', async () => {
+      let finish: () => void = () => {};
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise<void>(resolve => { finish = resolve; }));
+      const endedHandler = (mockTTSService.on as Mock).mock.calls.find(([event]) => event === 'tts:ended')[1];
+
+      const first = queueManager.add(withBadges('1', []));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      queueManager.add(withBadges('2', []));
+      queueManager.add(withBadges('3', ['broadcaster']));
+
+      finish();
+      endedHandler(first);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queueManager.getCurrentItem()?.message.id).toBe('3');
+    });
+
+    it('should move waiting items up a tier as they age', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+      queueManager.add(withBadges('speaking', []));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queueManager.add(withBadges('1', []));
+      vi.setSystemTime(new Date('2024-01-01T12:00:40Z'));
+      queueManager.add(withBadges('2', ['subscriber']));
+      queueManager.add(withBadges('3', [], { bits: 50 }));
+
+      // 40 seconds of waiting lifts everyone to the subscriber tier, ahead of the newer subscriber
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['3', '1', '2']);
+
+      // Once everything has aged to the top tier the queue is back in arrival order
+      vi.setSystemTime(new Date('2024-01-01T12:01:40Z'));
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should stay first in, first out while priorities are off', async () => {
+      queueManager.updateSettings({ ...mockTTSSettings, queuePriority: DEFAULT_QUEUE_PRIORITY_SETTINGS });
+      queueManager.add(withBadges('speaking', []));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queueManager.add(withBadges('1', []));
+      queueManager.add(withBadges('2', ['moderator']));
+
+      expect(queueManager.getQueue().map(item => item.message.id)).toEqual(['1', '2']);
+      expect(queueManager.getQueue().every(item => item.tier === undefined)).toBe(true);
+    });
+
+    it('should relabel waiting items when the tiers change', async () => {
+      queueManager.add(withBadges('speaking', []));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      queueManager.add(withBadges('1', ['vip']));
+
+      queueManager.updateSettings({
+        ...mockTTSSettings,
+        queuePriority: {
+          enabled: true,
+          agingSeconds: 0,
+          tiers: [{ id: 'vips', label: 'VIPs', conditions: ['vip'] }]
+        }
+      });
+
+      expect(queueManager.getQueue()[0].tier).toBe('VIPs');
+    });
+  });
+
+  describe('Queue limit', () => {
+    const limitTo = (maxLength: number, overflowPolicy: OverflowPolicy) => {
+      queueManager.updateSettings({ ...mockTTSSettings, queueLimit: { ...DEFAULT_QUEUE_LIMIT_SETTINGS, maxLength, overflowPolicy } });
+    };
+
+    const waitingIds = () => queueManager.getQueue().map(item => item.message.id);
+
+    beforeEach(async () => {
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+      queueManager.add(createTestMessage('speaking', 'Now speaking'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+    });
+
+    it('should drop the oldest waiting items without counting the one being spoken', () => {
+      const overflow = vi.fn();
+      queueManager.on('queue:overflow', overflow);
+      limitTo(2, 'dropOldest');
+
+      queueManager.add(createTestMessage('1', 'First', 'alice'));
+      queueManager.add(createTestMessage('2', 'Second', 'bob'));
+      queueManager.add(createTestMessage('3', 'Third', 'carol'));
+
+      expect(queueManager.getCurrentItem()?.message.id).toBe('speaking');
+      expect(waitingIds()).toEqual(['2', '3']);
+      expect(overflow).toHaveBeenCalledTimes(1);
+      expect(overflow.mock.calls[0][0]).toEqual([expect.objectContaining({ status: 'dropped' })]);
+      expect(overflow.mock.calls[0][0][0].message.id).toBe('1');
+    });
+
+    it('should reject new messages', () => {
+      limitTo(2, 'rejectNewest');
+
+      queueManager.add(createTestMessage('1', 'First', 'alice'));
+      queueManager.add(createTestMessage('2', 'Second', 'bob'));
+      const rejected = queueManager.add(createTestMessage('3', 'Third', 'carol'));
+
+      expect(rejected.status).toBe('dropped');
+      expect(waitingIds()).toEqual(['1', '2']);
+    });
+
+    it('should keep one message per chatter before dropping newcomers', () => {
+      limitTo(3, 'onePerUser');
+
+      queueManager.add(createTestMessage('1', 'First', 'alice'));
+      queueManager.add(createTestMessage('2', 'Second', 'alice'));
+      queueManager.add(createTestMessage('3', 'Third', 'bob'));
+      queueManager.add(createTestMessage('4', 'Fourth', 'carol'));
+      expect(waitingIds()).toEqual(['2', '3', '4']);
+
+      queueManager.add(createTestMessage('5', 'Fifth', 'dave'));
+      expect(waitingIds()).toEqual(['2', '3', '4']);
+    });
+
+    it('should trim the queue when the limit is lowered', () => {
+      const updates = vi.fn();
+      queueManager.add(createTestMessage('1', 'First'));
+      queueManager.add(createTestMessage('2', 'Second'));
+      queueManager.add(createTestMessage('3', 'Third'));
+      queueManager.on('queue:updated', updates);
+
+      limitTo(1, 'dropOldest');
+
+      expect(waitingIds()).toEqual(['3']);
+      expect(updates).toHaveBeenCalled();
+    });
+
+    it('should never drop messages without a limit', () => {
+      limitTo(0, 'dropOldest');
+
+      for (let index = 0; index < 50; index++) {
+        queueManager.add(createTestMessage(`${index}`, 'Raid hype'));
+      }
+
+      expect(queueManager.getQueueCount()).toBe(50);
+    });
+  });
+
+  describe('Message expiry', () => {
+    const expireAfter = (maxAgeSeconds: number) => {
+      queueManager.updateSettings({
+        ...mockTTSSettings,
+        queueLimit: { ...DEFAULT_QUEUE_LIMIT_SETTINGS, maxAgeSeconds }
+      });
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+      (mockTTSService.speak as Mock).mockImplementation(() => new Promise(() => {}));
+    });
+
+    afterEach(() => {
+      queueManager.destroy();
+      vi.useRealTimers();
+    });
+
+    it('should expire waiting items on a timer while idle', () => {
+      const expiredListener = vi.fn();
+      const updates = vi.fn();
+      expireAfter(10);
+      queueManager.add(createTestMessage('speaking', 'Now speaking'));
+      vi.advanceTimersByTime(0);
+      queueManager.add(createTestMessage('1', 'Is the boss dead yet?'));
+      queueManager.on('queue:expired', expiredListener);
+      queueManager.on('queue:updated', updates);
+
+      vi.advanceTimersByTime(9000);
+      expect(queueManager.getQueueCount()).toBe(1);
+
+      vi.advanceTimersByTime(1000);
+      expect(queueManager.getQueueCount()).toBe(0);
+      expect(expiredListener).toHaveBeenCalledWith([expect.objectContaining({ status: 'expired' })]);
+      expect(updates).toHaveBeenLastCalledWith([expect.objectContaining({ status: 'speaking' })]);
+      expect(queueManager.getCurrentItem()?.message.id).toBe('speaking');
+    });
+
+    it('should skip expired items when picking the next one', () => {
+      expireAfter(10);
+      const endedHandler = (mockTTSService.on as Mock).mock.calls.find(([event]) => event === 'tts:ended')[1];
+      const first = queueManager.add(createTestMessage('1', 'First'));
+      vi.advanceTimersByTime(0);
+      const stale = queueManager.add(createTestMessage('2', 'Stale'));
+
+      // Jump the clock without running the expiry timer
+      vi.setSystemTime(new Date('2024-01-01T12:00:30Z'));
+      queueManager.add(createTestMessage('3', 'Fresh'));
+      endedHandler(first);
+
+      expect(stale.status).toBe('expired');
+      expect(queueManager.getCurrentItem()?.message.id).toBe('3');
+      expect(mockTTSService.speak).not.toHaveBeenCalledWith(expect.objectContaining({ id: stale.id }));
+    });
+
+    it('should apply a new time to live to waiting items', () => {
+      expireAfter(0);
+      queueManager.add(createTestMessage('speaking', 'Now speaking'));
+      vi.advanceTimersByTime(0);
+      const waiting = queueManager.add(createTestMessage('1', 'Waiting'));
+      expect(waiting.expiresAt).toBeUndefined();
+
+      vi.setSystemTime(new Date('2024-01-01T12:01:00Z'));
+      expireAfter(30);
+
+      expect(waiting.status).toBe('expired');
+      expect(queueManager.getQueueCount()).toBe(0);
+    });
+
+    it('should only run the expiry timer while items can expire', () => {
+      expireAfter(0);
+      queueManager.add(createTestMessage('1', 'First'));
+      vi.advanceTimersByTime(0);
+      queueManager.add(createTestMessage('2', 'Second'));
+      expect(vi.getTimerCount()).toBe(0);
+
+      expireAfter(10);
+      expect(vi.getTimerCount()).toBe(1);
+
+      queueManager.clear();
+      expect(vi.getTimerCount()).toBe(0);
+    });
   });
 
   describe('Cleanup', () => {
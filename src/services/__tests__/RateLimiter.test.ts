@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter } from '../RateLimiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter(30000, () => now);
+  });
+
+  it('should allow events under the limit', () => {
+    limiter.record();
+    limiter.record();
+
+    expect(limiter.getWaitTime(3)).toBe(0);
+  });
+
+  it('should wait until the oldest event leaves the window', () => {
+    limiter.record();
+    now = 10000;
+    limiter.record();
+
+    expect(limiter.getWaitTime(2)).toBe(20000);
+
+    now = 30000;
+    expect(limiter.getWaitTime(2)).toBe(0);
+  });
+
+  it('should apply a different limit to the same window', () => {
+    for (let i = 0; i < 20; i++) {
+      limiter.record();
+    }
+
+    expect(limiter.getWaitTime(20)).toBe(30000);
+    expect(limiter.getWaitTime(100)).toBe(0);
+  });
+
+  it('should forget events on reset', () => {
+    limiter.record();
+    limiter.reset();
+
+    expect(limiter.getWaitTime(1)).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpamDetector } from '../SpamDetector';
+import { DEFAULT_SPAM_FILTER_SETTINGS } from '../../utils/spamDetection';
+import type { SpamFilterSettings } from '../../types';
+
+/**
+ * A copypasta that made the rounds in Twitch chats
+ */
+const COPYPASTA = 'Hey chat, I just want to say that this is the best stream on Twitch and '
+  + 'I have been watching since day one, never change streamer, we love you';
+
+describe('SpamDetector', () => {
+  let now: number;
+  let detector: SpamDetector;
+
+  const settings: SpamFilterSettings = { ...DEFAULT_SPAM_FILTER_SETTINGS, enabled: true };
+
+  // Check a message and remember it when accepted, as the TTS context does once it is queued
+  const check = (message: string, channel = 'testchannel', spamSettings = settings, username = 'viewer') => {
+    const chatMessage = { channel, message, username };
+    const result = detector.check(chatMessage, spamSettings);
+    if (result.shouldProcess) {
+      detector.record(chatMessage, spamSettings);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    detector = new SpamDetector(() => now);
+  });
+
+  it('accepts everything when disabled', () => {
+    const disabled = { ...settings, enabled: false };
+
+    expect(check('AAAAAAAAAAAAAAAAAAAAAAAAA', 'testchannel', disabled).shouldProcess).toBe(true);
+    expect(check('first', 'testchannel', disabled).shouldProcess).toBe(true);
+    expect(check('first', 'testchannel', disabled).shouldProcess).toBe(true);
+  });
+
+  it('rejects single-message spam patterns', () => {
+    expect(check('AAAAAAAAAAAAAAAAAAAAAAAAA')).toEqual({ shouldProcess: false, reason: 'Repeated characters' });
+  });
+
+  describe('duplicates', () => {
+    it('rejects near-duplicates from any chatter within the window', () => {
+      expect(check('first').shouldProcess).toBe(true);
+      expect(check('FIRST!!!', 'testchannel', settings, 'other_viewer'))
+        .toEqual({ shouldProcess: false, reason: 'Duplicate of a recent message' });
+      expect(check('firsttt').shouldProcess).toBe(false);
+      expect(check('second').shouldProcess).toBe(true);
+    });
+
+    it('accepts a repeat once the window has passed', () => {
+      check('what game is this');
+      now = 31000;
+
+      expect(check('what game is this').shouldProcess).toBe(true);
+    });
+
+    it('lets one message of an ongoing flood through per window', () => {
+      check('Kappa 123');
+      const accepted = [1, 2, 3, 4, 5].filter((step) => {
+        now = step * 20000;
+        return check('kappa 123').shouldProcess;
+      });
+
+      expect(accepted).toEqual([2, 4]);
+    });
+
+    it('does not remember a message until it is recorded', () => {
+      expect(detector.check({ channel: 'testchannel', message: 'first', username: 'viewer' }, settings).shouldProcess)
+        .toBe(true);
+
+      expect(check('first', 'testchannel', settings, 'other_viewer').shouldProcess).toBe(true);
+    });
+
+    it('only compares very short messages with the same chatter\'s', () => {
+      check('gg', 'testchannel', settings, 'first_viewer');
+
+      expect(check('GGGG', 'testchannel', settings, 'second_viewer').shouldProcess).toBe(true);
+      expect(check('gg', 'testchannel', settings, 'first_viewer').shouldProcess).toBe(false);
+    });
+
+    it('compares each channel separately', () => {
+      check('hello chat', 'first_channel');
+
+      expect(check('hello chat', 'second_channel').shouldProcess).toBe(true);
+      expect(check('hello chat', 'first_channel').shouldProcess).toBe(false);
+    });
+
+    it('follows the similarity threshold', () => {
+      check('this stream is amazing');
+
+      expect(check('this stream is amazing lol').shouldProcess).toBe(false);
+      expect(check('this stream is amazing right now', 'testchannel', { ...settings, similarityThreshold: 1 }).shouldProcess)
+        .toBe(true);
+    });
+
+    it('stops comparing at a similarity of 0', () => {
+      const noComparing = { ...settings, similarityThreshold: 0 };
+      check('first', 'testchannel', noComparing);
+
+      expect(check('first', 'testchannel', noComparing).shouldProcess).toBe(true);
+    });
+
+    it('ignores messages with nothing to compare', () => {
+      expect(check('???').shouldProcess).toBe(true);
+      expect(check('???').shouldProcess).toBe(true);
+    });
+  });
+
+  describe('copypastas', () => {
+    it('rejects a long message posted again after the duplicate window', () => {
+      expect(check(COPYPASTA).shouldProcess).toBe(true);
+      now = 5 * 60 * 1000;
+
+      expect(check(COPYPASTA.replace('streamer', 'streamer <3'))).toEqual({
+        shouldProcess: false,
+        reason: 'Repeated copypasta',
+      });
+    });
+
+    it('accepts the copypasta again after the copypasta window', () => {
+      check(COPYPASTA);
+      now = 11 * 60 * 1000;
+
+      expect(check(COPYPASTA).shouldProcess).toBe(true);
+    });
+
+    it('only treats long messages as copypastas', () => {
+      check('what game is this');
+      now = 5 * 60 * 1000;
+
+      expect(check('what game is this').shouldProcess).toBe(true);
+    });
+  });
+
+  it('forgets messages on reset', () => {
+    check('first');
+    detector.reset();
+
+    expect(check('first').shouldProcess).toBe(true);
+  });
+});
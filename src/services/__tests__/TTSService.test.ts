@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TTSService } from '../TTSService';
 import type { TTSSettings, ChatMessage, TTSQueueItem } from '../../types';
+import { DEFAULT_NORMALIZATION_SETTINGS } from '../../utils/normalizers';
+import { DEFAULT_MESSAGE_TEMPLATE_SETTINGS } from '../../utils/messageTemplates';
+import { createTestSettings } from '../../test-fixtures';
 
 // Mock the Web Speech API
 const mockSpeechSynthesis = {
@@ -51,17 +54,7 @@ describe('TTSService', () => {
     vi.clearAllMocks();
     mockSpeechSynthesis.speaking = false;
 
-    defaultSettings = {
-      enabled: true,
-      volume: 1,
-      rate: 1,
-      pitch: 1,
-      voice: null,
-      filterBots: false,
-      minMessageLength: 1,
-      blockedUsers: [],
-      skipEmoteOnly: false
-    };
+    defaultSettings = createTestSettings();
 
     testMessage = {
       id: 'test-1',
@@ -172,11 +165,117 @@ describe('TTSService', () => {
     });
   });
 
+  describe('Engines', () => {
+    const fetchMock = vi.fn();
+    const browserVoices = mockSpeechSynthesis.getVoices.getMockImplementation()!;
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      mockSpeechSynthesis.getVoices.mockImplementation(browserVoices);
+    });
+
+    const enableServer = async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ voices: [{ id: 'amy', name: 'Amy', lang: 'en-US' }] })
+      });
+      ttsService.updateSettings({ httpEngine: { enabled: true, url: 'http://localhost:5002' } });
+      await new Promise(resolve => setTimeout(resolve, 0));
+    };
+
+    it('should merge voices from the speech server', async () => {
+      const voicesChanged = vi.fn();
+      ttsService.on('tts:voicesChanged', voicesChanged);
+
+      await enableServer();
+
+      const voices = ttsService.getAvailableVoices();
+      expect(voices.map(voice => voice.name)).toEqual(['Test Voice 1', 'Test Voice 2', 'Amy']);
+      expect(voices[2].engine).toBe('http');
+      expect(voicesChanged).toHaveBeenCalledWith(voices);
+    });
+
+    it('should fall back to the offline voice when the browser has no voices', async () => {
+      const start = vi.fn();
+      vi.stubGlobal('AudioContext', vi.fn().mockImplementation(() => ({
+        destination: {},
+        resume: () => Promise.resolve(),
+        close: () => Promise.resolve(),
+        createBuffer: (_channels: number, length: number) => ({ length, getChannelData: () => new Float32Array(length) }),
+        createBufferSource: () => ({ connect: vi.fn(), start, stop: vi.fn() })
+      })));
+      mockSpeechSynthesis.getVoices.mockReturnValue([]);
+      ttsService.destroy();
+      ttsService = new TTSService(defaultSettings);
+
+      expect(ttsService.getCurrentVoice()?.engine).toBe('fallback');
+
+      await ttsService.speak(testQueueItem);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockSpeechSynthesisUtterance).not.toHaveBeenCalled();
+      expect(start).toHaveBeenCalled();
+    });
+
+    it('should speak server voices through the speech server', async () => {
+      await enableServer();
+      fetchMock.mockReturnValueOnce(new Promise(() => {})); // Audio still rendering
+      ttsService.setVoice('Amy');
+
+      await ttsService.speak(testQueueItem);
+
+      expect(fetchMock).toHaveBeenLastCalledWith('http://localhost:5002/synthesize', expect.objectContaining({ method: 'POST' }));
+      expect(mockSpeechSynthesisUtterance).not.toHaveBeenCalled();
+      expect(ttsService.isSpeaking()).toBe(true);
+
+      ttsService.stop();
+      expect(ttsService.isSpeaking()).toBe(false);
+    });
+
+    it('should fall back to the browser\'s default voice when a server voice is selected and the server is off', async () => {
+      await enableServer();
+      ttsService.setVoice('Amy');
+      ttsService.updateSettings({ httpEngine: { enabled: false, url: 'http://localhost:5002' } });
+      fetchMock.mockClear();
+
+      await ttsService.speak(testQueueItem);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('Hello world!');
+      expect(mockSpeechSynthesis.speak).toHaveBeenCalledWith(
+        expect.objectContaining({ voice: expect.objectContaining({ name: 'Test Voice 1' }) })
+      );
+    });
+  });
+
   describe('Message Preprocessing', () => {
+    it('should apply substitutions before speaking', async () => {
+      ttsService.updateSettings({
+        substitutions: [
+          { id: '1', find: 'gg', replace: 'good game', regex: false, caseSensitive: false, wholeWord: true, scope: 'all' },
+          { id: '2', find: 'huikkakoodaa', replace: 'huikka koodaa', regex: false, caseSensitive: false, wholeWord: true, scope: 'usernames' }
+        ]
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, message: 'GG @huikkakoodaa' } });
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('good game huikka koodaa');
+    });
+
     it('should preprocess message correctly', async () => {
-      const messageWithUrl = {
+      const messageWithUrl: ChatMessage = {
         ...testMessage,
-        message: 'Check this out https://example.com KAPPA'
+        message: 'Check this out https://example.com Kappa',
+        fragments: [
+          { type: 'text', text: 'Check this out https://example.com ' },
+          { type: 'emote', text: 'Kappa', emoteId: '25' }
+        ]
       };
       const queueItem = { ...testQueueItem, message: messageWithUrl };
 
@@ -186,10 +285,39 @@ describe('TTSService', () => {
         expect.stringContaining('Check this out link')
       );
       expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith(
-        expect.not.stringContaining('KAPPA')
+        expect.not.stringContaining('Kappa')
       );
     });
 
+    it('should apply emote speech rules', async () => {
+      ttsService.updateSettings({
+        emoteSpeechRules: [{ emote: 'Kappa', action: 'phrase', phrase: 'kappa face' }]
+      });
+      const queueItem = {
+        ...testQueueItem,
+        message: {
+          ...testMessage,
+          message: 'nice Kappa',
+          fragments: [
+            { type: 'text' as const, text: 'nice ' },
+            { type: 'emote' as const, text: 'Kappa', emoteId: '25' }
+          ]
+        }
+      };
+
+      await ttsService.speak(queueItem);
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('nice kappa face');
+    });
+
+    it('should keep all-caps words that are not emotes', async () => {
+      const queueItem = { ...testQueueItem, message: { ...testMessage, message: 'LOL NASA is cool' } };
+
+      await ttsService.speak(queueItem);
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('LOL NASA is cool');
+    });
+
     it('should remove special characters', async () => {
       const messageWithSpecialChars = {
         ...testMessage,
@@ -207,7 +335,7 @@ describe('TTSService', () => {
     it('should limit message length', async () => {
       const longMessage = {
         ...testMessage,
-        message: 'a'.repeat(300) // Very long message
+        message: 'spam '.repeat(60) // Very long message
       };
       const queueItem = { ...testQueueItem, message: longMessage };
 
@@ -217,6 +345,95 @@ describe('TTSService', () => {
       expect(calledWith.length).toBeLessThanOrEqual(203); // 200 + '...'
       expect(calledWith).toMatch(/\.\.\.$/);
     });
+
+    it('should read links by their domain and spell out numbers', async () => {
+      const queueItem = {
+        ...testQueueItem,
+        message: { ...testMessage, message: 'watch https://www.youtube.com/watch?v=abc at 3rd place' }
+      };
+
+      await ttsService.speak(queueItem);
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('watch link to youtube dot com at third place');
+    });
+
+    it('should read emoji by name', async () => {
+      const queueItem = { ...testQueueItem, message: { ...testMessage, message: 'I love this ❤️🔥🔥🔥' } };
+
+      await ttsService.speak(queueItem);
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('I love this red heart fire times three');
+    });
+
+    it('should skip disabled normalizer stages', async () => {
+      ttsService.updateSettings({
+        normalization: {
+          ...DEFAULT_NORMALIZATION_SETTINGS,
+          stages: { ...DEFAULT_NORMALIZATION_SETTINGS.stages, numbers: false }
+        }
+      });
+      const queueItem = { ...testQueueItem, message: { ...testMessage, message: 'gg 3rd place' } };
+
+      await ttsService.speak(queueItem);
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('gg 3rd place');
+    });
+  });
+
+  describe('Message Templates', () => {
+    beforeEach(() => {
+      ttsService.updateSettings({ messageTemplates: { ...DEFAULT_MESSAGE_TEMPLATE_SETTINGS, enabled: true } });
+    });
+
+    it('should say who is talking', async () => {
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, displayName: 'TestUser' } });
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('TestUser says Hello world!');
+    });
+
+    it('should apply username substitutions to the spoken name', async () => {
+      ttsService.updateSettings({
+        substitutions: [{
+          id: '1', find: 'xX_Gamer_Xx', replace: 'Gamer', regex: false, caseSensitive: false, wholeWord: true, scope: 'usernames'
+        }]
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, username: 'xX_Gamer_Xx' } });
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('Gamer says Hello world!');
+    });
+
+    it('should read nicknames in templates and mentions', async () => {
+      ttsService.updateSettings({ nicknames: { testuser: 'Tester' }, autoCleanNames: true });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, message: 'hi @xX_d4rkL0rd_Xx and @TestUser' } });
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('Tester says hi Dark Lord and Tester');
+    });
+
+    it('should not repeat the name of the chatter who spoke last', async () => {
+      await ttsService.speak(testQueueItem);
+      ttsService.stop();
+      await ttsService.speak({ ...testQueueItem, id: 'queue-2', message: { ...testMessage, message: 'Again' } });
+      ttsService.stop();
+      await ttsService.speak({ ...testQueueItem, id: 'queue-3', message: { ...testMessage, username: 'other', message: 'Hi' } });
+
+      expect(mockSpeechSynthesisUtterance.mock.calls.map(call => call[0])).toEqual([
+        'testuser says Hello world!',
+        'Again',
+        'other says Hi'
+      ]);
+    });
+
+    it('should not speak just the template for messages that are empty', async () => {
+      const emoteOnly = {
+        ...testMessage,
+        message: 'Kappa',
+        fragments: [{ type: 'emote' as const, text: 'Kappa', emoteId: '25' }]
+      };
+
+      await expect(ttsService.speak({ ...testQueueItem, message: emoteOnly })).rejects.toThrow('Message is empty');
+    });
   });
 
   describe('Speech Control', () => {
@@ -257,6 +474,98 @@ describe('TTSService', () => {
       );
     });
 
+    it('should apply a viewer\'s chosen voice, rate and pitch', async () => {
+      ttsService.updateSettings({
+        viewerVoices: { enabled: true, permission: 'everyone', allowedVoices: [] },
+        userVoices: { 'user-1': { voiceName: 'Test Voice 2', rate: 1.5, pitch: 0.5 } },
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, userId: 'user-1' } });
+
+      const utterance = mockSpeechSynthesisUtterance.mock.results[0].value;
+      expect(utterance.voice.name).toBe('Test Voice 2');
+      expect(utterance.rate).toBe(1.5);
+      expect(utterance.pitch).toBe(0.5);
+    });
+
+    it('should ignore a viewer\'s voice when voice selection is off', async () => {
+      ttsService.updateSettings({
+        userVoices: { 'user-1': { voiceName: 'Test Voice 2', rate: 1.5 } },
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, userId: 'user-1' } });
+
+      const utterance = mockSpeechSynthesisUtterance.mock.results[0].value;
+      expect(utterance.voice?.name).not.toBe('Test Voice 2');
+      expect(utterance.rate).toBe(1);
+    });
+
+    it('should give a chatter their pooled voice with small offsets', async () => {
+      ttsService.updateSettings({
+        voicePool: { enabled: true, voices: ['Test Voice 2'], rateSpread: 0.2, pitchSpread: 0.2 },
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, userId: 'user-1' } });
+
+      const utterance = mockSpeechSynthesisUtterance.mock.results[0].value;
+      expect(utterance.voice.name).toBe('Test Voice 2');
+      expect(Math.abs(utterance.rate - 1)).toBeLessThanOrEqual(0.2);
+      expect(Math.abs(utterance.pitch - 1)).toBeLessThanOrEqual(0.2);
+    });
+
+    it('should prefer a viewer\'s chosen voice over their pooled voice', async () => {
+      ttsService.updateSettings({
+        voicePool: { enabled: true, voices: ['Test Voice 2'], rateSpread: 0.2, pitchSpread: 0.2 },
+        viewerVoices: { enabled: true, permission: 'everyone', allowedVoices: [] },
+        userVoices: { 'user-1': { voiceName: 'Test Voice 1', rate: 1.5 } },
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, userId: 'user-1' } });
+
+      const utterance = mockSpeechSynthesisUtterance.mock.results[0].value;
+      expect(utterance.voice.name).toBe('Test Voice 1');
+      expect(utterance.rate).toBe(1.5);
+    });
+
+    it('should speak with the voice profile of a chatter\'s badge', async () => {
+      ttsService.updateSettings({
+        badgeVoices: {
+          enabled: true,
+          profiles: [
+            { badge: 'moderator', enabled: true, voiceName: 'Test Voice 2', rate: 1.3, pitch: 0.8, volume: 0.4, prefix: 'Mod says' },
+          ],
+        },
+      });
+
+      await ttsService.speak({ ...testQueueItem, message: { ...testMessage, badges: ['moderator'] } });
+
+      expect(mockSpeechSynthesisUtterance).toHaveBeenCalledWith('Mod says Hello world!');
+      const utterance = mockSpeechSynthesisUtterance.mock.results[0].value;
+      expect(utterance.voice.name).toBe('Test Voice 2');
+      expect(utterance.rate).toBe(1.3);
+      expect(utterance.pitch).toBe(0.8);
+      expect(utterance.volume).toBe(0.4);
+    });
+
+    it('should read a message with the preferred voice for its detected language', async () => {
+      ttsService.updateSettings({
+        languageDetection: { enabled: true, preferredVoices: { en: 'Test Voice 2' } },
+      });
+
+      const message = { ...testMessage, message: 'that was a really good game' };
+      expect(ttsService.detectMessageLanguage(message)).toBe('en');
+
+      await ttsService.speak({ ...testQueueItem, message });
+
+      const utterance = mockSpeechSynthesisUtterance.mock.results[0].value;
+      expect(utterance.voice.name).toBe('Test Voice 2');
+    });
+
+    it('should not detect languages while detection is off', () => {
+      expect(ttsService.detectMessageLanguage({ ...testMessage, message: 'kiitos paljon tästä streamista' }))
+        .toBeUndefined();
+    });
+
     it('should stop current speech', () => {
       mockSpeechSynthesis.speaking = true;
       ttsService.stop();
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TwitchChatService } from '../TwitchChatService';
+import { parseIRCLine } from '../IRCParser';
+import type { ChatMessage, IRCMessage } from '../../types';
 
 // Mock WebSocket
 class MockWebSocket {
@@ -42,6 +44,14 @@ class MockWebSocket {
 // Mock global WebSocket
 (globalThis as any).WebSocket = MockWebSocket;
 
+// Private members exercised by the tests
+type ServiceInternals = {
+  ws: MockWebSocket | null;
+  handleMessage: (data: string) => void;
+  parseIRCMessage: (message: IRCMessage) => ChatMessage | null;
+  scheduleReconnect: () => void;
+};
+
 describe('TwitchChatService', () => {
   let service: TwitchChatService;
 
@@ -53,6 +63,9 @@ describe('TwitchChatService', () => {
     service.destroy();
   });
 
+  const internals = () => service as unknown as ServiceInternals;
+  const parseLine = (line: string) => internals().parseIRCMessage(parseIRCLine(line)!);
+
   it('should initialize with disconnected status', () => {
     expect(service.getConnectionStatus()).toBe('disconnected');
     expect(service.getReconnectAttempts()).toBe(0);
@@ -85,8 +98,7 @@ describe('TwitchChatService', () => {
     const mockMessage = '@badges=moderator/1;color=#FF0000;display-name=TestUser :testuser!testuser@testuser.tmi.twitch.tv PRIVMSG #testchannel :Hello world!';
     
     // Access private method for testing (not ideal but necessary for unit testing)
-    const parseMethod = (service as any).parseIRCMessage.bind(service);
-    const result = parseMethod(mockMessage);
+    const result = parseLine(mockMessage);
 
     expect(result).toMatchObject({
       username: 'testuser',
@@ -98,17 +110,88 @@ describe('TwitchChatService', () => {
     expect(result.timestamp).toBeInstanceOf(Date);
   });
 
+  it('should preserve Twitch message metadata', () => {
+    const result = parseLine(
+      '@badges=;color=#1E90FF;display-name=Ronni;first-msg=1;id=885196de-cb67-427a-baa8-82f9b0fcd05f;' +
+      'reply-parent-display-name=Huikkakoodaa;reply-parent-msg-body=any\\squestions?;reply-parent-msg-id=b34ccfc7;' +
+      'reply-parent-user-id=1337;reply-parent-user-login=huikkakoodaa;returning-chatter=0;room-id=1337;' +
+      'tmi-sent-ts=1642696567751;user-id=42 :ronni!ronni@ronni.tmi.twitch.tv PRIVMSG #testchannel :@Huikkakoodaa yes!'
+    );
+
+    expect(result).toMatchObject({
+      id: '885196de-cb67-427a-baa8-82f9b0fcd05f',
+      username: 'ronni',
+      displayName: 'Ronni',
+      userId: '42',
+      color: '#1E90FF',
+      roomId: '1337',
+      isFirstMessage: true,
+      isReturningChatter: false,
+      reply: {
+        messageId: 'b34ccfc7',
+        userId: '1337',
+        username: 'huikkakoodaa',
+        displayName: 'Huikkakoodaa',
+        message: 'any questions?'
+      }
+    });
+    expect(result?.timestamp.getTime()).toBe(1642696567751);
+  });
+
+  it('should read the bits cheered with a message', () => {
+    const cheer = parseLine(
+      '@bits=100;display-name=Viewer :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :Cheer100 great stream'
+    );
+    const plain = parseLine(
+      ':viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :great stream'
+    );
+
+    expect(cheer?.bits).toBe(100);
+    expect(plain?.bits).toBeUndefined();
+  });
+
+  it('should flag messages highlighted with channel points', () => {
+    const highlighted = parseLine(
+      '@display-name=Viewer;msg-id=highlighted-message :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :look at me'
+    );
+    const plain = parseLine(
+      ':viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :look at me'
+    );
+
+    expect(highlighted?.isHighlighted).toBe(true);
+    expect(plain?.isHighlighted).toBeUndefined();
+  });
+
+  it('should split messages into emote fragments', () => {
+    const result = parseLine(
+      '@emotes=25:0-4 :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :Kappa LOL'
+    );
+
+    expect(result?.fragments).toEqual([
+      { type: 'emote', text: 'Kappa', emoteId: '25' },
+      { type: 'text', text: ' LOL' }
+    ]);
+  });
+
+  it('should fall back when metadata tags are missing', () => {
+    const result = parseLine(':viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :hi');
+
+    expect(result?.displayName).toBe('viewer');
+    expect(result?.userId).toBeUndefined();
+    expect(result?.color).toBeUndefined();
+    expect(result?.reply).toBeUndefined();
+    expect(Math.abs(result!.timestamp.getTime() - Date.now())).toBeLessThan(1000);
+  });
+
   it('should identify bot users correctly', () => {
-    const parseMethod = (service as any).parseIRCMessage.bind(service);
-    
     // Test bot username
     const botMessage = '@badges= :nightbot!nightbot@nightbot.tmi.twitch.tv PRIVMSG #testchannel :Bot message';
-    const botResult = parseMethod(botMessage);
+    const botResult = parseLine(botMessage);
     expect(botResult?.isBot).toBe(true);
 
     // Test regular user
     const userMessage = '@badges= :regularuser!regularuser@regularuser.tmi.twitch.tv PRIVMSG #testchannel :User message';
-    const userResult = parseMethod(userMessage);
+    const userResult = parseLine(userMessage);
     expect(userResult?.isBot).toBe(false);
   });
 
@@ -126,14 +209,330 @@ describe('TwitchChatService', () => {
 
   it('should remove event listeners', () => {
     const listener = vi.fn();
+    const remainingListener = vi.fn();
     service.on('chat:message', listener);
+    service.on('chat:message', remainingListener);
     service.off('chat:message', listener);
 
-    // Simulate message - listener should not be called
-    const parseMethod = (service as any).parseIRCMessage.bind(service);
-    const mockMessage = '@badges= :testuser!testuser@testuser.tmi.twitch.tv PRIVMSG #testchannel :Test';
-    parseMethod(mockMessage);
+    internals().handleMessage('@badges= :testuser!testuser@testuser.tmi.twitch.tv PRIVMSG #testchannel :Test\r\n');
 
+    expect(remainingListener).toHaveBeenCalledTimes(1);
     expect(listener).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  describe('IRC command dispatch', () => {
+    const receive = (data: string) => internals().handleMessage(data);
+
+    it('should respond to PING with PONG', async () => {
+      await service.connect();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const sendSpy = vi.spyOn(internals().ws!, 'send');
+      receive('PING :tmi.twitch.tv\r\n');
+
+      expect(sendSpy).toHaveBeenCalledWith('PONG :tmi.twitch.tv\r\n');
+    });
+
+    it('should emit chat messages for each PRIVMSG line in a frame', () => {
+      const messageSpy = vi.fn();
+      service.on('chat:message', messageSpy);
+
+      receive(
+        ':first!first@first.tmi.twitch.tv PRIVMSG #testchannel :one\r\n' +
+        ':tmi.twitch.tv ROOMSTATE #testchannel\r\n' +
+        ':second!second@second.tmi.twitch.tv PRIVMSG #testchannel :two :)\r\n'
+      );
+
+      expect(messageSpy).toHaveBeenCalledTimes(2);
+      expect(messageSpy.mock.calls[1][0]).toMatchObject({ username: 'second', message: 'two :)' });
+    });
+
+    it('should emit USERNOTICE events with unescaped system messages', () => {
+      const noticeSpy = vi.fn();
+      service.on('chat:userNotice', noticeSpy);
+
+      receive('@login=ronni;msg-id=resub;system-msg=ronni\\shas\\ssubscribed! :tmi.twitch.tv USERNOTICE #testchannel :Great stream');
+
+      expect(noticeSpy).toHaveBeenCalledWith(expect.objectContaining({
+        channel: 'testchannel',
+        msgId: 'resub',
+        username: 'ronni',
+        systemMessage: 'ronni has subscribed!',
+        message: 'Great stream'
+      }));
+    });
+
+    it('should emit NOTICE events and report login failures as errors', () => {
+      const noticeSpy = vi.fn();
+      const errorSpy = vi.fn();
+      service.on('chat:notice', noticeSpy);
+      service.on('chat:error', errorSpy);
+
+      receive(':tmi.twitch.tv NOTICE * :Login authentication failed');
+
+      expect(noticeSpy).toHaveBeenCalledWith({ channel: '*', msgId: '', message: 'Login authentication failed' });
+      expect(errorSpy).toHaveBeenCalledWith('Login authentication failed');
+    });
+
+    it('should use the Twitch message ID when present', () => {
+      const messageSpy = vi.fn();
+      service.on('chat:message', messageSpy);
+
+      receive('@id=abc-123 :viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #testchannel :hi');
+
+      expect(messageSpy.mock.calls[0][0].id).toBe('abc-123');
+    });
+
+    it('should emit message deletions from CLEARMSG', () => {
+      const deletedSpy = vi.fn();
+      service.on('chat:messageDeleted', deletedSpy);
+
+      receive('@login=spammer;target-msg-id=abc-123 :tmi.twitch.tv CLEARMSG #testchannel :buy followers');
+
+      expect(deletedSpy).toHaveBeenCalledWith({ channel: 'testchannel', messageId: 'abc-123', username: 'spammer' });
+    });
+
+    it('should emit timeouts and bans from CLEARCHAT', () => {
+      const clearedSpy = vi.fn();
+      service.on('chat:userCleared', clearedSpy);
+
+      receive('@ban-duration=600;target-user-id=42 :tmi.twitch.tv CLEARCHAT #testchannel :Spammer');
+      receive('@target-user-id=43 :tmi.twitch.tv CLEARCHAT #testchannel :banned');
+
+      expect(clearedSpy).toHaveBeenNthCalledWith(1, { channel: 'testchannel', username: 'spammer', userId: '42', duration: 600 });
+      expect(clearedSpy).toHaveBeenNthCalledWith(2, { channel: 'testchannel', username: 'banned', userId: '43', duration: undefined });
+    });
+
+    it('should emit a chat clear from CLEARCHAT without a user', () => {
+      const chatClearedSpy = vi.fn();
+      const userClearedSpy = vi.fn();
+      service.on('chat:chatCleared', chatClearedSpy);
+      service.on('chat:userCleared', userClearedSpy);
+
+      receive(':tmi.twitch.tv CLEARCHAT #testchannel');
+
+      expect(chatClearedSpy).toHaveBeenCalledWith({ channel: 'testchannel' });
+      expect(userClearedSpy).not.toHaveBeenCalled();
+    });
+
+    it('should merge ROOMSTATE updates', () => {
+      receive('@emote-only=0;slow=0;room-id=1 :tmi.twitch.tv ROOMSTATE #testchannel');
+      receive('@slow=10;room-id=1 :tmi.twitch.tv ROOMSTATE #testchannel');
+
+      expect(service.getRoomState('testchannel')).toEqual({ 'emote-only': '0', slow: '10', 'room-id': '1' });
+    });
+
+    it('should store GLOBALUSERSTATE tags', () => {
+      receive('@display-name=justinfan12345;user-id=1 :tmi.twitch.tv GLOBALUSERSTATE');
+
+      expect(service.getGlobalUserState()).toEqual({ 'display-name': 'justinfan12345', 'user-id': '1' });
+    });
+
+    it('should reconnect when Twitch sends RECONNECT', async () => {
+      await service.connect();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const scheduleSpy = vi.spyOn(internals(), 'scheduleReconnect').mockImplementation(() => {});
+      receive(':tmi.twitch.tv RECONNECT');
+
+      expect(service.getConnectionStatus()).toBe('disconnected');
+      expect(scheduleSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('channels', () => {
+    const receive = (data: string) => internals().handleMessage(data);
+
+    it('should join every channel in one JOIN command on connect', async () => {
+      service.destroy();
+      service = new TwitchChatService(['#First', 'second']);
+
+      service.connect();
+      const sendSpy = vi.spyOn(internals().ws!, 'send');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(sendSpy).toHaveBeenCalledWith('JOIN #first,#second\r\n');
+      expect(service.getChannelStates()).toEqual({ first: 'joining', second: 'joining' });
+    });
+
+    it('should mark a channel joined when Twitch echoes our JOIN', () => {
+      const stateSpy = vi.fn();
+      service.on('chat:channelState', stateSpy);
+
+      receive(':justinfan12345!justinfan12345@justinfan12345.tmi.twitch.tv JOIN #testchannel');
+
+      expect(service.getChannelStates()).toEqual({ testchannel: 'joined' });
+      expect(stateSpy).toHaveBeenCalledWith({ channel: 'testchannel', state: 'joined' });
+    });
+
+    it('should join and part channels at runtime', async () => {
+      await service.connect();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const sendSpy = vi.spyOn(internals().ws!, 'send');
+
+      expect(service.joinChannel('#OtherChannel')).toBe(true);
+      expect(service.joinChannel('otherchannel')).toBe(false);
+      expect(sendSpy).toHaveBeenCalledWith('JOIN #otherchannel\r\n');
+
+      expect(service.partChannel('testchannel')).toBe(true);
+      expect(service.partChannel('testchannel')).toBe(false);
+      expect(sendSpy).toHaveBeenCalledWith('PART #testchannel\r\n');
+      expect(service.getChannels()).toEqual(['otherchannel']);
+    });
+
+    it('should mark a channel failed when Twitch refuses to join it', () => {
+      receive('@msg-id=msg_channel_suspended :tmi.twitch.tv NOTICE #testchannel :This channel does not exist or has been suspended.');
+
+      expect(service.getChannelStates()).toEqual({ testchannel: 'failed' });
+    });
+
+    it('should tag messages with the channel they were sent to', () => {
+      const messageSpy = vi.fn();
+      service.joinChannel('otherchannel');
+      service.on('chat:message', messageSpy);
+
+      receive(':viewer!viewer@viewer.tmi.twitch.tv PRIVMSG #otherchannel :hi');
+
+      expect(messageSpy.mock.calls[0][0].channel).toBe('otherchannel');
+    });
+
+    it('should keep room state per channel', () => {
+      service.joinChannel('otherchannel');
+
+      receive('@slow=10;room-id=1 :tmi.twitch.tv ROOMSTATE #testchannel');
+      receive('@slow=0;room-id=2 :tmi.twitch.tv ROOMSTATE #otherchannel');
+
+      expect(service.getRoomState('testchannel')).toEqual({ slow: '10', 'room-id': '1' });
+      expect(service.getRoomState('otherchannel')).toEqual({ slow: '0', 'room-id': '2' });
+    });
+
+    it('should switch to a new channel and reconnect', async () => {
+      await service.connect();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      receive('@slow=10 :tmi.twitch.tv ROOMSTATE #testchannel');
+
+      const stateSpy = vi.fn();
+      const disconnectedSpy = vi.fn();
+      service.on('chat:channelState', stateSpy);
+      service.on('chat:disconnected', disconnectedSpy);
+
+      const switching = service.switchChannels(['#NewChannel']);
+      const sendSpy = vi.spyOn(internals().ws!, 'send');
+      await switching;
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(disconnectedSpy).toHaveBeenCalledTimes(1);
+      expect(stateSpy).toHaveBeenCalledWith({ channel: 'testchannel', state: 'parted' });
+      expect(service.getChannels()).toEqual(['newchannel']);
+      expect(service.getRoomState('testchannel')).toEqual({});
+      expect(service.getConnectionStatus()).toBe('connected');
+      expect(sendSpy).toHaveBeenCalledWith('JOIN #newchannel\r\n');
+    });
+
+    it('should refuse to switch to no channels', async () => {
+      await expect(service.switchChannels([' '])).rejects.toThrow('At least one channel is required');
+      expect(service.getChannels()).toEqual(['testchannel']);
+    });
+  });
+
+  describe('authentication and sending', () => {
+    const receive = (data: string) => internals().handleMessage(data);
+
+    const connectAs = async (username: string) => {
+      await service.setCredentials({ token: 'oauth:secret', username });
+      service.connect();
+      const sendSpy = vi.spyOn(internals().ws!, 'send');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      receive(`:tmi.twitch.tv 001 ${username} :Welcome, GLHF!`);
+      receive(`:${username}!${username}@${username}.tmi.twitch.tv JOIN #testchannel`);
+      return sendSpy;
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should log in anonymously without credentials', async () => {
+      service.connect();
+      const sendSpy = vi.spyOn(internals().ws!, 'send');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(sendSpy).toHaveBeenCalledWith('NICK justinfan12345\r\n');
+      expect(service.getAuthStatus()).toBe('anonymous');
+      expect(service.sendMessage('testchannel', 'hello')).toBe(false);
+    });
+
+    it('should log in with an OAuth token and nick', async () => {
+      const authSpy = vi.fn();
+      service.on('chat:authStatus', authSpy);
+
+      const sendSpy = await connectAs('HuikkaBot');
+
+      expect(sendSpy).toHaveBeenCalledWith('PASS oauth:secret\r\n');
+      expect(sendSpy).toHaveBeenCalledWith('NICK huikkabot\r\n');
+      expect(authSpy.mock.calls.map(([status]) => status)).toEqual(['authenticating', 'authenticated']);
+      expect(service.getChannelStates()).toEqual({ testchannel: 'joined' });
+    });
+
+    it('should fall back to anonymous when the login is rejected', async () => {
+      vi.spyOn(internals(), 'scheduleReconnect').mockImplementation(() => {});
+      await service.setCredentials({ token: 'bad', username: 'huikkabot' });
+      await service.connect();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      receive(':tmi.twitch.tv NOTICE * :Login authentication failed');
+
+      expect(service.getAuthStatus()).toBe('failed');
+      expect(service.getNick()).toBe('justinfan12345');
+    });
+
+    it('should send chat messages to joined channels', async () => {
+      const sendSpy = await connectAs('huikkabot');
+
+      expect(service.sendMessage('#TestChannel', 'TTS is now\non')).toBe(true);
+      expect(service.sendMessage('otherchannel', 'hello')).toBe(false);
+      expect(service.sendMessage('testchannel', '   ')).toBe(false);
+      expect(sendSpy).toHaveBeenCalledWith('PRIVMSG #testchannel :TTS is now on\r\n');
+    });
+
+    it('should hold messages back once the rate limit is reached', async () => {
+      const sendSpy = await connectAs('huikkabot');
+      vi.useFakeTimers();
+
+      for (let i = 0; i < 21; i++) {
+        service.sendMessage('testchannel', `message ${i}`);
+      }
+
+      const sentMessages = () => sendSpy.mock.calls.filter(([data]) => data.startsWith('PRIVMSG'));
+      expect(sentMessages()).toHaveLength(20);
+
+      vi.advanceTimersByTime(30000);
+      expect(sentMessages()).toHaveLength(21);
+    });
+
+    it('should use the moderator rate limit in channels we moderate', async () => {
+      const sendSpy = await connectAs('huikkabot');
+      receive('@badges=moderator/1;mod=1 :tmi.twitch.tv USERSTATE #testchannel');
+
+      for (let i = 0; i < 21; i++) {
+        service.sendMessage('testchannel', `message ${i}`);
+      }
+
+      expect(sendSpy.mock.calls.filter(([data]) => data.startsWith('PRIVMSG'))).toHaveLength(21);
+    });
+
+    it('should respect slow mode', async () => {
+      const sendSpy = await connectAs('huikkabot');
+      vi.useFakeTimers();
+      receive('@slow=3 :tmi.twitch.tv ROOMSTATE #testchannel');
+
+      service.sendMessage('testchannel', 'first');
+      service.sendMessage('testchannel', 'second');
+
+      expect(sendSpy).not.toHaveBeenCalledWith('PRIVMSG #testchannel :second\r\n');
+
+      vi.advanceTimersByTime(3000);
+      expect(sendSpy).toHaveBeenCalledWith('PRIVMSG #testchannel :second\r\n');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UserRateLimiter } from '../UserRateLimiter';
+import { DEFAULT_RATE_LIMIT_SETTINGS } from '../../utils/rateLimits';
+import type { ChatMessage, RateLimitSettings, UserRateLimit } from '../../types';
+
+describe('UserRateLimiter', () => {
+  let now: number;
+  let limiter: UserRateLimiter;
+
+  const noLimit: UserRateLimit = { messages: 0, windowSeconds: 60, cooldownSeconds: 0, onePending: false };
+
+  const withLimit = (limit: Partial<UserRateLimit>, enabled = true): RateLimitSettings => ({
+    enabled,
+    limits: { ...DEFAULT_RATE_LIMIT_SETTINGS.limits, everyone: { ...noLimit, ...limit } },
+  });
+
+  const createMessage = (username = 'viewer', badges: string[] = []): ChatMessage => ({
+    id: `${username}-${now}`,
+    channel: 'testchannel',
+    username,
+    message: 'hello',
+    timestamp: new Date(now),
+    isBot: false,
+    badges,
+  });
+
+  const nothingPending = () => 0;
+
+  // Admit a message and take its token when it is accepted, as the TTS context does once it is queued
+  const submit = (message: ChatMessage, settings: RateLimitSettings) => {
+    const result = limiter.admit(message, settings, nothingPending);
+    if (result.shouldProcess) {
+      limiter.recordQueued(message, settings);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new UserRateLimiter(() => now);
+  });
+
+  it('should accept everything while rate limits are off', () => {
+    const settings = withLimit({ messages: 1, onePending: true }, false);
+
+    expect(limiter.admit(createMessage(), settings, () => 5)).toEqual({ shouldProcess: true });
+    expect(limiter.admit(createMessage(), settings, () => 5)).toEqual({ shouldProcess: true });
+  });
+
+  describe('token bucket', () => {
+    const settings = withLimit({ messages: 2, windowSeconds: 60 });
+
+    it('should accept a full bucket and then reject with the wait', () => {
+      expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+      expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+
+      expect(submit(createMessage(), settings)).toEqual({
+        shouldProcess: false,
+        reason: 'Rate limited to 2 per 60s, next in 30s',
+      });
+    });
+
+    it('should refill one token per share of the window', () => {
+      submit(createMessage(), settings);
+      submit(createMessage(), settings);
+
+      now = 29_000;
+      expect(submit(createMessage(), settings).reason).toBe('Rate limited to 2 per 60s, next in 1s');
+
+      now = 30_000;
+      expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+    });
+
+    it('should not take a token until the message is queued', () => {
+      const single = withLimit({ messages: 1, windowSeconds: 60 });
+
+      expect(limiter.admit(createMessage(), single, nothingPending).shouldProcess).toBe(true);
+      expect(limiter.admit(createMessage(), single, nothingPending).shouldProcess).toBe(true);
+
+      limiter.recordQueued(createMessage(), single);
+      expect(limiter.admit(createMessage(), single, nothingPending).shouldProcess).toBe(false);
+    });
+
+    it('should keep a separate bucket for each chatter', () => {
+      submit(createMessage('alice'), settings);
+      submit(createMessage('alice'), settings);
+
+      expect(submit(createMessage('alice'), settings).shouldProcess).toBe(false);
+      expect(submit(createMessage('bob'), settings).shouldProcess).toBe(true);
+    });
+  });
+
+  describe('cooldown', () => {
+    const settings = withLimit({ cooldownSeconds: 10 });
+
+    it('should reject messages until the cooldown after a spoken message is over', () => {
+      expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+      now = 2_000;
+      limiter.recordSpoken(createMessage(), settings);
+
+      now = 5_500;
+      expect(submit(createMessage(), settings)).toEqual({
+        shouldProcess: false,
+        reason: 'On cooldown for 7s',
+      });
+
+      now = 12_000;
+      expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+    });
+
+    it('should not take a token from a message rejected for another reason', () => {
+      const both = withLimit({ messages: 1, cooldownSeconds: 10 });
+      limiter.recordSpoken(createMessage(), both);
+
+      expect(submit(createMessage(), both).shouldProcess).toBe(false);
+
+      now = 10_000;
+      expect(submit(createMessage(), both).shouldProcess).toBe(true);
+    });
+  });
+
+  describe('pending cap', () => {
+    it('should reject while the chatter has a message waiting', () => {
+      const settings = withLimit({ onePending: true });
+
+      expect(limiter.admit(createMessage(), settings, () => 1)).toEqual({
+        shouldProcess: false,
+        reason: 'A message from this chatter is already waiting',
+      });
+      expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+    });
+
+    it('should only count waiting messages for capped tiers', () => {
+      let counted = false;
+      limiter.admit(createMessage(), withLimit({}), () => {
+        counted = true;
+        return 1;
+      });
+
+      expect(counted).toBe(false);
+    });
+  });
+
+  it('should use the limits for the chatter\'s highest badge', () => {
+    const settings = withLimit({ messages: 1 });
+
+    submit(createMessage('mod', ['moderator']), settings);
+    expect(submit(createMessage('mod', ['moderator']), settings).shouldProcess).toBe(true);
+
+    submit(createMessage('viewer'), settings);
+    expect(submit(createMessage('viewer'), settings).shouldProcess).toBe(false);
+  });
+
+  describe('memory', () => {
+    it('should not remember chatters while rate limits are off', () => {
+      const off = withLimit({ messages: 1, cooldownSeconds: 10 }, false);
+
+      limiter.admit(createMessage(), off, nothingPending);
+      limiter.recordQueued(createMessage(), off);
+      limiter.recordSpoken(createMessage(), off);
+
+      expect(limiter.getUserCount()).toBe(0);
+    });
+
+    it('should not remember chatters that only get checked', () => {
+      limiter.admit(createMessage(), withLimit({ messages: 1 }), nothingPending);
+
+      expect(limiter.getUserCount()).toBe(0);
+    });
+
+    it('should forget chatters once their window and cooldown have passed', () => {
+      const settings = withLimit({ messages: 2, windowSeconds: 60, cooldownSeconds: 90 });
+      submit(createMessage('alice'), settings);
+      limiter.recordSpoken(createMessage('alice'), settings);
+      now = 45_000;
+      submit(createMessage('bob'), settings);
+      expect(limiter.getUserCount()).toBe(2);
+
+      // Alice's cooldown ends at 90s, Bob's window at 105s
+      now = 95_000;
+      limiter.admit(createMessage('carol'), settings, nothingPending);
+      expect(limiter.getUserCount()).toBe(1);
+
+      now = 105_000;
+      limiter.admit(createMessage('carol'), settings, nothingPending);
+      expect(limiter.getUserCount()).toBe(0);
+    });
+  });
+
+  it('should forget every chatter on reset', () => {
+    const settings = withLimit({ messages: 1 });
+    submit(createMessage(), settings);
+
+    limiter.reset();
+
+    expect(submit(createMessage(), settings).shouldProcess).toBe(true);
+  });
+});
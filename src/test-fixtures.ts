@@ -0,0 +1,80 @@
+import { vi } from 'vitest';
+import type { TTSSettings, TTSVoice } from './types';
+import { DEFAULT_COMMAND_PERMISSIONS } from './utils/chatCommands';
+import { DEFAULT_VIEWER_VOICE_SETTINGS } from './utils/viewerVoices';
+import { DEFAULT_VOICE_POOL_SETTINGS } from './utils/voicePool';
+import { DEFAULT_BADGE_VOICE_SETTINGS } from './utils/badgeVoices';
+import { DEFAULT_LANGUAGE_DETECTION_SETTINGS } from './utils/languageDetection';
+import { DEFAULT_NORMALIZATION_SETTINGS } from './utils/normalizers';
+import { DEFAULT_MESSAGE_TEMPLATE_SETTINGS } from './utils/messageTemplates';
+import { DEFAULT_QUEUE_PRIORITY_SETTINGS } from './utils/queuePriority';
+import { DEFAULT_QUEUE_LIMIT_SETTINGS } from './utils/queueLimit';
+import { DEFAULT_RATE_LIMIT_SETTINGS } from './utils/rateLimits';
+import { DEFAULT_SPAM_FILTER_SETTINGS } from './utils/spamDetection';
+
+/**
+ * Complete TTS settings for tests, switched on with every message filter off
+ * Tests only pass the settings they are about
+ */
+export function createTestSettings(overrides: Partial<TTSSettings> = {}): TTSSettings {
+  return {
+    enabled: true,
+    volume: 1,
+    rate: 1,
+    pitch: 1,
+    voice: null,
+    filterBots: false,
+    minMessageLength: 1,
+    blockedUsers: [],
+    skipEmoteOnly: false,
+    emoteSpeechRules: [],
+    defaultEmoteAction: 'drop',
+    channelSettings: {},
+    commandPermissions: DEFAULT_COMMAND_PERMISSIONS,
+    viewerVoices: DEFAULT_VIEWER_VOICE_SETTINGS,
+    userVoices: {},
+    voicePool: DEFAULT_VOICE_POOL_SETTINGS,
+    badgeVoices: DEFAULT_BADGE_VOICE_SETTINGS,
+    languageDetection: DEFAULT_LANGUAGE_DETECTION_SETTINGS,
+    substitutions: [],
+    normalization: DEFAULT_NORMALIZATION_SETTINGS,
+    messageTemplates: DEFAULT_MESSAGE_TEMPLATE_SETTINGS,
+    nicknames: {},
+    autoCleanNames: false,
+    httpEngine: { enabled: false, url: '' },
+    queuePriority: DEFAULT_QUEUE_PRIORITY_SETTINGS,
+    queueLimit: DEFAULT_QUEUE_LIMIT_SETTINGS,
+    rateLimits: DEFAULT_RATE_LIMIT_SETTINGS,
+    spamFilter: DEFAULT_SPAM_FILTER_SETTINGS,
+    ...overrides,
+  };
+}
+
+/**
+ * What the mocked `useTTSSettings` hook returns, change it with `mockTTSSettings`
+ */
+export const ttsSettingsMock = {
+  settings: createTestSettings(),
+  updateSettings: vi.fn(),
+  availableVoices: [] as TTSVoice[],
+  isSupported: true,
+};
+
+/**
+ * Set the settings and voices the mocked `useTTSSettings` hook returns
+ */
+export function mockTTSSettings(overrides: Partial<TTSSettings> = {}, availableVoices: TTSVoice[] = []) {
+  ttsSettingsMock.settings = createTestSettings(overrides);
+  ttsSettingsMock.availableVoices = availableVoices;
+  return ttsSettingsMock;
+}
+
+/**
+ * Module replacing the TTS context in component tests, use as
+ * `vi.mock('../../contexts/TTSContext', async () => (await import('../../test-fixtures')).mockTTSContext())`
+ */
+export function mockTTSContext() {
+  return {
+    useTTSSettings: () => ttsSettingsMock,
+  };
+}
@@ -5,12 +5,112 @@
  * Requirements: 1.2, 2.1
  */
 export interface ChatMessage {
-  id: string;
-  username: string;
+  id: string; // Twitch message ID when available
+  channel: string; // Channel name without "#"
+  username: string; // Login name
   message: string;
-  timestamp: Date;
+  timestamp: Date; // Server time (tmi-sent-ts) when available
   isBot: boolean;
   badges: string[];
+  isDeleted?: boolean; // Set when a moderator removed the message
+  userId?: string;
+  displayName?: string;
+  color?: string; // Hex color chosen by the user, e.g. #FF0000
+  roomId?: string;
+  isFirstMessage?: boolean;
+  isReturningChatter?: boolean;
+  reply?: ChatReply;
+  bits?: number; // Bits cheered with the message
+  isHighlighted?: boolean; // Sent with the "Highlight my message" channel point reward
+  fragments?: MessageFragment[]; // Text and emote ranges from the emotes tag
+}
+
+/**
+ * A run of plain text or a single emote within a chat message
+ * Requirements: 2.4
+ */
+export interface MessageFragment {
+  type: 'text' | 'emote';
+  text: string;
+  emoteId?: string;
+}
+
+/**
+ * The message a chat message is replying to (reply-parent-* tags)
+ * Requirements: 1.2
+ */
+export interface ChatReply {
+  messageId: string;
+  userId: string;
+  username: string;
+  displayName: string;
+  message: string;
+}
+
+/**
+ * Source of an IRC message (nick!user@host or a server name)
+ * Requirements: 1.2
+ */
+export interface IRCPrefix {
+  nick?: string;
+  user?: string;
+  host?: string;
+}
+
+/**
+ * A single parsed IRC line with IRCv3 tags
+ * Requirements: 1.2
+ */
+export interface IRCMessage {
+  raw: string;
+  tags: Record<string, string>;
+  prefix: IRCPrefix | null;
+  command: string;
+  params: string[];
+}
+
+/**
+ * Server NOTICE message (e.g. room mode changes, login failures)
+ * Requirements: 1.2, 1.4
+ */
+export interface ChatNotice {
+  channel: string;
+  msgId: string;
+  message: string;
+}
+
+/**
+ * USERNOTICE event such as a sub, resub, raid or announcement
+ * Requirements: 1.2
+ */
+export interface UserNotice {
+  channel: string;
+  msgId: string;
+  username: string;
+  systemMessage: string;
+  message: string;
+  tags: Record<string, string>;
+}
+
+/**
+ * A single message removed by a moderator (CLEARMSG)
+ * Requirements: 2.2, 6.1
+ */
+export interface MessageDeletion {
+  channel: string;
+  messageId: string;
+  username: string;
+}
+
+/**
+ * A user timed out or banned by a moderator (CLEARCHAT with a target)
+ * Requirements: 2.2, 6.1
+ */
+export interface UserClear {
+  channel: string;
+  username: string;
+  userId?: string;
+  duration?: number; // Timeout length in seconds, undefined for a permanent ban
 }
 
 /**
@@ -20,7 +120,11 @@ export interface ChatMessage {
 export interface TTSQueueItem {
   id: string;
   message: ChatMessage;
-  status: 'pending' | 'speaking' | 'completed';
+  status: 'pending' | 'speaking' | 'completed' | 'dropped' | 'expired'; // Dropped when the queue overflowed, expired when it waited too long
+  language?: string; // Detected ISO 639-1 code, unset when unknown
+  queuedAt?: number; // Epoch milliseconds when the item was added
+  expiresAt?: number; // Epoch milliseconds after which the item is no longer spoken, unset never expires
+  tier?: string; // Label of the priority tier the message matched, unset while priorities are off
 }
 
 /**
@@ -32,11 +136,414 @@ export interface TTSSettings {
   volume: number; // 0-1
   rate: number; // 0.1-10
   pitch: number; // 0-2
-  voice: SpeechSynthesisVoice | null;
+  voice: TTSVoice | null;
   filterBots: boolean;
   minMessageLength: number;
   blockedUsers: string[];
   skipEmoteOnly: boolean;
+  emoteSpeechRules: EmoteSpeechRule[];
+  defaultEmoteAction: EmoteSpeechAction;
+  channelSettings: Record<string, ChannelTTSSettings>; // Keyed by channel name
+  commandPermissions: Record<ChatCommandName, CommandPermission>;
+  viewerVoices: ViewerVoiceSettings;
+  userVoices: Record<string, UserVoicePreference>; // Keyed by Twitch user id
+  voicePool: VoicePoolSettings;
+  badgeVoices: BadgeVoiceSettings;
+  languageDetection: LanguageDetectionSettings;
+  substitutions: SubstitutionRule[]; // Applied in order
+  normalization: NormalizationSettings;
+  messageTemplates: MessageTemplateSettings;
+  nicknames: Record<string, string>; // Login name (lowercase) -> name to speak, persisted in localStorage
+  autoCleanNames: boolean; // Read "xX_d4rkL0rd_Xx" as "Dark Lord" when no nickname is set
+  httpEngine: HttpEngineSettings;
+  queuePriority: QueuePrioritySettings;
+  queueLimit: QueueLimitSettings;
+  rateLimits: RateLimitSettings;
+  spamFilter: SpamFilterSettings;
+}
+
+/**
+ * A voice from any TTS engine
+ * Web Speech voices satisfy this shape, so they can be used directly
+ * Requirements: 2.1
+ */
+export interface TTSVoice {
+  name: string;
+  lang: string;
+  voiceURI: string; // Identifies the voice within its engine
+  default: boolean;
+  localService: boolean;
+  engine?: TTSEngineId; // Web Speech when unset
+}
+
+export type TTSEngineId = 'web-speech' | 'http' | 'fallback';
+
+/**
+ * Text and voice settings for a single utterance handed to an engine
+ */
+export interface TTSEngineUtterance {
+  text: string;
+  voice: TTSVoice | null; // Engine default when null
+  volume: number; // 0-1
+  rate: number; // 0.1-10
+  pitch: number; // 0-2
+}
+
+/**
+ * Callbacks an engine calls while speaking an utterance
+ * Every utterance ends with exactly one onEnd or onError, unless it is cancelled
+ */
+export interface TTSEngineHandlers {
+  onStart?: () => void;
+  onEnd: () => void;
+  onBoundary?: (boundary: { charIndex: number; charLength?: number }) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * A speech synthesizer that TTSService can speak through
+ * Requirements: 2.1, 3.2
+ */
+export interface TTSEngine {
+  readonly id: TTSEngineId;
+  isSupported(): boolean;
+  getVoices(): TTSVoice[];
+  loadVoices(): Promise<TTSVoice[]>;
+  onVoicesChanged(listener: (voices: TTSVoice[]) => void): void;
+  speak(utterance: TTSEngineUtterance, handlers: TTSEngineHandlers): void;
+  cancel(): void;
+  pause(): void;
+  resume(): void;
+  isSpeaking(): boolean;
+  destroy(): void;
+}
+
+/**
+ * Where to find an HTTP speech server, see HttpTTSEngine for the protocol
+ * Requirements: 2.1
+ */
+export interface HttpEngineSettings {
+  enabled: boolean;
+  url: string; // Base URL, e.g. http://localhost:5002
+}
+
+/**
+ * Who may pick their own voice with `!voice`, and from which voices
+ * Requirements: 3.1, 6.1
+ */
+export interface ViewerVoiceSettings {
+  enabled: boolean;
+  permission: CommandPermission;
+  allowedVoices: string[]; // Voice names, empty allows every voice
+}
+
+/**
+ * A viewer's own voice choice, unset fields use the streamer's settings
+ * Requirements: 3.1
+ */
+export interface UserVoicePreference {
+  voiceName?: string;
+  rate?: number; // 0.5-2
+  pitch?: number; // 0-2
+}
+
+/**
+ * Automatic voices that give every viewer the same recognisable voice each time they chat
+ * Requirements: 3.1
+ */
+export interface VoicePoolSettings {
+  enabled: boolean;
+  voices: string[]; // Voice names, empty uses every available voice
+  rateSpread: number; // Largest rate offset either way, 0-0.5
+  pitchSpread: number; // Largest pitch offset either way, 0-0.5
+}
+
+/**
+ * Badges that can have their own voice profile
+ * Requirements: 3.1
+ */
+export type VoiceProfileBadge = Exclude<CommandPermission, 'everyone'>;
+
+/**
+ * Voice and prosody for chatters wearing a badge, unset fields use the streamer's settings
+ * Requirements: 3.1
+ */
+export interface BadgeVoiceProfile {
+  badge: VoiceProfileBadge;
+  enabled: boolean;
+  voiceName?: string;
+  rate?: number; // 0.5-2
+  pitch?: number; // 0-2
+  volume?: number; // 0-1
+  prefix?: string; // Spoken before the message, e.g. "Moderator says"
+}
+
+/**
+ * Voice profiles for mods, VIPs, subscribers and the broadcaster
+ * Requirements: 3.1
+ */
+export interface BadgeVoiceSettings {
+  enabled: boolean;
+  profiles: BadgeVoiceProfile[]; // In priority order, the first profile matching a badge wins
+}
+
+/**
+ * Message metadata a priority tier can match on
+ * Badges match like command permissions, founders count as subscribers
+ * Requirements: 4.1
+ */
+export type PriorityCondition = VoiceProfileBadge | 'bits' | 'highlighted' | 'firstMessage';
+
+/**
+ * A queue priority tier, matching messages that meet any of its conditions
+ * A tier without conditions matches every message
+ * Requirements: 4.1
+ */
+export interface PriorityTier {
+  id: string;
+  label: string;
+  conditions: PriorityCondition[];
+  minBits?: number; // Smallest cheer matching the bits condition, any cheer when unset
+}
+
+/**
+ * Priority order for the TTS queue, FIFO while disabled
+ * Requirements: 4.1
+ */
+export interface QueuePrioritySettings {
+  enabled: boolean;
+  tiers: PriorityTier[]; // Highest priority first, the first matching tier wins
+  agingSeconds: number; // Waiting this long moves an item up one tier, 0 never ages
+}
+
+/**
+ * Which messages make way when the queue is full
+ * Requirements: 4.1
+ */
+export type OverflowPolicy = 'dropOldest' | 'rejectNewest' | 'onePerUser' | 'randomSample';
+
+/**
+ * Bounds the number of waiting messages so bursts of chat are not read minutes later
+ * Requirements: 4.1
+ */
+export interface QueueLimitSettings {
+  maxLength: number; // Waiting messages, not counting the one being spoken, 0 is unlimited
+  overflowPolicy: OverflowPolicy;
+  maxAgeSeconds: number; // Waiting messages older than this expire instead of being spoken, 0 never expires
+}
+
+/**
+ * How often one chatter may be spoken, 0 turns each limit off
+ * Requirements: 4.1
+ */
+export interface UserRateLimit {
+  messages: number; // Messages accepted per window, refilled evenly like a token bucket
+  windowSeconds: number;
+  cooldownSeconds: number; // Wait after each spoken message before the next is accepted
+  onePending: boolean; // Reject messages while one from the same chatter is waiting
+}
+
+/**
+ * Per-chatter rate limits, chosen by the highest permission level a chatter's badges grant
+ * Requirements: 4.1
+ */
+export interface RateLimitSettings {
+  enabled: boolean;
+  limits: Record<CommandPermission, UserRateLimit>;
+}
+
+/**
+ * Thresholds for rejecting spam before it reaches the queue, 0 turns a pattern check off
+ * Requirements: 6.1
+ */
+export interface SpamFilterSettings {
+  enabled: boolean;
+  similarityThreshold: number; // 0-1, how alike two messages must be to count as the same
+  duplicateWindowSeconds: number; // Messages repeating one from this long ago are duplicates
+  copypastaMinLength: number; // Messages at least this long are remembered as possible copypastas
+  copypastaWindowSeconds: number; // How long a possible copypasta is remembered
+  maxRepeatedChars: number; // Longest run of one character or short pattern, e.g. "hahaha"
+  maxCombiningMarks: number; // Most combining marks stacked on one letter before it is Zalgo text
+  maxArtSymbols: number; // Most drawing, braille or symbol characters before it is ASCII art
+}
+
+/**
+ * Offline language detection that reads each message with a voice speaking its language
+ * Requirements: 2.1, 3.1
+ */
+export interface LanguageDetectionSettings {
+  enabled: boolean;
+  preferredVoices: Record<string, string>; // Language code to voice name, unset uses any voice speaking it
+}
+
+/**
+ * `!tts` chat commands that control the app from chat
+ * Requirements: 4.3, 6.1
+ */
+export type ChatCommandName = 'skip' | 'clear' | 'pause' | 'resume' | 'on' | 'off' | 'volume' | 'block' | 'nick';
+
+/**
+ * Lowest badge level allowed to use a chat command, from least to most privileged
+ * Requirements: 6.1
+ */
+export type CommandPermission = 'everyone' | 'subscriber' | 'vip' | 'moderator' | 'broadcaster';
+
+/**
+ * A parsed chat command: `!tts volume 0.5` -> { name: 'volume', args: ['0.5'] }
+ * Requirements: 4.3
+ */
+export interface ChatCommand {
+  name: ChatCommandName;
+  args: string[];
+}
+
+/**
+ * Per-channel TTS overrides; unset filters and voice fall back to the global settings
+ * Requirements: 3.1, 6.1
+ */
+export interface ChannelTTSSettings {
+  enabled: boolean;
+  voice?: TTSVoice | null;
+  volume?: number; // 0-1
+  filterBots?: boolean;
+  minMessageLength?: number;
+  blockedUsers?: string[];
+  skipEmoteOnly?: boolean;
+}
+
+/**
+ * How an emote is spoken: dropped, read by name, replaced with a phrase,
+ * or read by name once with a repeat count ("LUL times three")
+ * Requirements: 2.4, 3.1
+ */
+export type EmoteSpeechAction = 'drop' | 'name' | 'phrase' | 'collapse';
+
+/**
+ * Speech handling for a single emote name
+ * Requirements: 2.4, 3.1
+ */
+export interface EmoteSpeechRule {
+  emote: string;
+  action: EmoteSpeechAction;
+  phrase?: string; // Used with the 'phrase' action
+}
+
+/**
+ * Where a substitution applies, usernames include @mentions in messages
+ * Requirements: 2.4
+ */
+export type SubstitutionScope = 'all' | 'usernames';
+
+/**
+ * A pronunciation fix or text substitution applied before speaking, e.g. "gg" to "good game"
+ * Requirements: 2.4, 3.1
+ */
+export interface SubstitutionRule {
+  id: string;
+  find: string; // Literal text or a regular expression
+  replace: string; // Regular expressions may refer to groups with $1
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  scope: SubstitutionScope;
+}
+
+/**
+ * Text normalizer stages that prepare a message for speech
+ * Requirements: 2.4
+ */
+export type NormalizerStageId =
+  | 'urls'
+  | 'mentions'
+  | 'emoji'
+  | 'repeatedLetters'
+  | 'numbers'
+  | 'punctuation'
+  | 'maxLength';
+
+/**
+ * How @mentions are read: "huikka", "at huikka" or not at all
+ */
+export type MentionMode = 'name' | 'at' | 'drop';
+
+/**
+ * How emoji are read: each one by name, repeats counted as "fire times three", or not at all
+ */
+export type EmojiMode = 'speak' | 'dedupe' | 'drop';
+
+/**
+ * Languages with bundled emoji names
+ */
+export type EmojiLanguage = 'en' | 'fi';
+
+/**
+ * Which normalizer stages run and their options
+ * Requirements: 2.4, 3.1
+ */
+export interface NormalizationSettings {
+  stages: Record<NormalizerStageId, boolean>;
+  mentionMode: MentionMode;
+  emojiMode: EmojiMode;
+  emojiOverrides: Record<string, string>; // Emoji -> name used in every language, empty to stay silent
+  maxLength: number; // Characters, longer messages are cut at a word and end with "..."
+}
+
+/**
+ * What a normalizer stage knows about the message besides its text
+ */
+export interface NormalizerContext {
+  settings: NormalizationSettings;
+  language?: string; // Detected ISO 639-1 code
+  speakName?: (username: string) => string; // Nickname or cleaned up name for @mentions
+}
+
+/**
+ * A named step of the text normalization pipeline
+ * Requirements: 2.4
+ */
+export interface NormalizerStage {
+  id: NormalizerStageId;
+  label: string;
+  description: string;
+  normalize: (text: string, context: NormalizerContext) => string;
+}
+
+/**
+ * Kinds of chat messages with their own spoken template
+ * Requirements: 2.4
+ */
+export type SpokenEventType = 'message' | 'reply' | 'cheer';
+
+/**
+ * Spoken templates such as "{displayName} says {message}"
+ * Requirements: 2.4, 3.1
+ */
+export interface MessageTemplateSettings {
+  enabled: boolean;
+  skipRepeatedName: boolean; // Read only the message when the same chatter speaks twice in a row
+  templates: Record<SpokenEventType, string>; // Used for languages without their own templates
+  languageTemplates: Record<string, Partial<Record<SpokenEventType, string>>>; // ISO 639-1 code -> templates
+}
+
+/**
+ * Join state of a single channel on the IRC connection
+ * Requirements: 1.1, 1.2
+ */
+export type ChannelJoinState = 'joining' | 'joined' | 'failed';
+
+/**
+ * Login state for Twitch IRC: anonymous connections can read but not send
+ * Requirements: 1.1, 1.2
+ */
+export type AuthStatus = 'anonymous' | 'authenticating' | 'authenticated' | 'failed';
+
+/**
+ * OAuth credentials for logging in to Twitch IRC as a real user
+ * Requirements: 1.1
+ */
+export interface TwitchCredentials {
+  token: string; // Access token without the "oauth:" prefix
+  username: string; // Login name the token belongs to
 }
 
 /**
@@ -61,15 +568,26 @@ export interface ServiceEvents {
   'chat:connected': void;
   'chat:disconnected': void;
   'chat:error': string;
+  'chat:notice': ChatNotice;
+  'chat:userNotice': UserNotice;
+  'chat:messageDeleted': MessageDeletion;
+  'chat:userCleared': UserClear;
+  'chat:chatCleared': { channel: string };
+  'chat:channelState': { channel: string; state: ChannelJoinState | 'parted' };
+  'chat:authStatus': AuthStatus;
   
   // TTS service events
   'tts:started': TTSQueueItem;
   'tts:ended': TTSQueueItem;
   'tts:error': { item: TTSQueueItem; error: string };
+  'tts:boundary': { item: TTSQueueItem; charIndex: number; charLength?: number };
+  'tts:voicesChanged': TTSVoice[];
   
   // Queue events
   'queue:updated': TTSQueueItem[];
   'queue:cleared': void;
+  'queue:overflow': TTSQueueItem[]; // Items dropped to keep the queue within its limit
+  'queue:expired': TTSQueueItem[]; // Items that waited longer than their time to live
 }
 
 /**
@@ -83,7 +601,7 @@ export interface ChatDisplayProps {
 export interface TTSControlsProps {
   settings: TTSSettings;
   onSettingsChange: (settings: Partial<TTSSettings>) => void;
-  voices: SpeechSynthesisVoice[];
+  voices: TTSVoice[];
 }
 
 export interface QueueStatusProps {
@@ -113,7 +631,7 @@ export interface ServiceResponse<T = any> {
   error?: string;
 }
 
-export interface VoiceLoadResponse extends ServiceResponse<SpeechSynthesisVoice[]> {}
+export interface VoiceLoadResponse extends ServiceResponse<TTSVoice[]> {}
 
 export interface ConnectionResponse extends ServiceResponse<void> {}
 
@@ -145,4 +663,12 @@ export interface SettingsValidation {
 export interface FilterResult {
   shouldProcess: boolean;
   reason?: string;
+}
+
+/**
+ * A chat message the filters kept out of the TTS queue, with the reason
+ */
+export interface RejectedMessage {
+  message: ChatMessage;
+  reason: string;
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BADGE_VOICE_SETTINGS,
+  findBadgeProfile,
+  moveBadgeProfile,
+  resolveBadgeVoice
+} from '../badgeVoices';
+import type { BadgeVoiceSettings, TTSVoice } from '../../types';
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US' },
+  { name: 'Daniel', lang: 'en-GB' },
+] as TTSVoice[];
+
+const badgeVoices: BadgeVoiceSettings = {
+  enabled: true,
+  profiles: [
+    { badge: 'broadcaster', enabled: false },
+    { badge: 'moderator', enabled: true, voiceName: 'Daniel', rate: 1.2, prefix: ' Moderator says ' },
+    { badge: 'vip', enabled: true, pitch: 1.5, volume: 0.5 },
+    { badge: 'subscriber', enabled: true, voiceName: 'Missing' },
+  ],
+};
+
+describe('badgeVoices', () => {
+  describe('findBadgeProfile', () => {
+    it('should do nothing while badge voices are off', () => {
+      expect(findBadgeProfile(['moderator'], DEFAULT_BADGE_VOICE_SETTINGS)).toBeUndefined();
+      expect(findBadgeProfile(['moderator'], { ...badgeVoices, enabled: false })).toBeUndefined();
+    });
+
+    it('should use the highest priority profile for chatters with several badges', () => {
+      expect(findBadgeProfile(['subscriber', 'vip', 'moderator'], badgeVoices)?.badge).toBe('moderator');
+    });
+
+    it('should follow the configured priority order', () => {
+      const reordered = { ...badgeVoices, profiles: moveBadgeProfile(badgeVoices.profiles, 'vip', -1) };
+
+      expect(findBadgeProfile(['vip', 'moderator'], reordered)?.badge).toBe('vip');
+    });
+
+    it('should skip disabled profiles', () => {
+      expect(findBadgeProfile(['broadcaster'], badgeVoices)).toBeUndefined();
+    });
+
+    it('should count founders as subscribers', () => {
+      expect(findBadgeProfile(['founder'], badgeVoices)?.badge).toBe('subscriber');
+    });
+
+    it('should not match chatters without a profiled badge', () => {
+      expect(findBadgeProfile(['premium'], badgeVoices)).toBeUndefined();
+    });
+  });
+
+  describe('resolveBadgeVoice', () => {
+    it('should resolve the profile voice, prosody and trimmed prefix', () => {
+      expect(resolveBadgeVoice({ badges: ['moderator'] }, badgeVoices, voices)).toEqual({
+        voice: voices[1],
+        rate: 1.2,
+        pitch: undefined,
+        volume: undefined,
+        prefix: 'Moderator says',
+      });
+    });
+
+    it('should leave out a voice that is no longer available', () => {
+      expect(resolveBadgeVoice({ badges: ['subscriber'] }, badgeVoices, voices)?.voice).toBeUndefined();
+    });
+
+    it('should return null without a matching profile', () => {
+      expect(resolveBadgeVoice({ badges: [] }, badgeVoices, voices)).toBeNull();
+    });
+  });
+
+  describe('moveBadgeProfile', () => {
+    it('should swap a profile with its neighbour', () => {
+      const moved = moveBadgeProfile(badgeVoices.profiles, 'subscriber', -1);
+
+      expect(moved.map(profile => profile.badge)).toEqual(['broadcaster', 'moderator', 'subscriber', 'vip']);
+    });
+
+    it('should not move past either end', () => {
+      expect(moveBadgeProfile(badgeVoices.profiles, 'broadcaster', -1)).toBe(badgeVoices.profiles);
+      expect(moveBadgeProfile(badgeVoices.profiles, 'subscriber', 1)).toBe(badgeVoices.profiles);
+    });
+  });
+});
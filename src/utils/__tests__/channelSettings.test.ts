@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { mergeChannelSettings, resolveChannelSettings } from '../channelSettings';
+import { createTestSettings } from '../../test-fixtures';
+
+describe('channelSettings', () => {
+  const voice = { name: 'Channel voice', lang: 'fi-FI' } as SpeechSynthesisVoice;
+
+  const settings = createTestSettings({
+    filterBots: true,
+    minMessageLength: 3,
+    blockedUsers: ['spammer'],
+    skipEmoteOnly: true,
+    channelSettings: {
+      quiet: { enabled: false },
+      finnish: { enabled: true, voice, volume: 0.4, minMessageLength: 10, blockedUsers: ['troll'] }
+    }
+  });
+
+  it('should use the global settings for channels without overrides', () => {
+    expect(resolveChannelSettings(settings, 'other')).toBe(settings);
+    expect(resolveChannelSettings(settings, undefined)).toBe(settings);
+  });
+
+  it('should disable TTS for a muted channel', () => {
+    expect(resolveChannelSettings(settings, 'quiet').enabled).toBe(false);
+  });
+
+  it('should never enable a channel while TTS is globally off', () => {
+    expect(resolveChannelSettings({ ...settings, enabled: false }, 'finnish').enabled).toBe(false);
+  });
+
+  it('should apply channel overrides and keep global blocked users', () => {
+    const resolved = resolveChannelSettings(settings, 'finnish');
+
+    expect(resolved.voice).toBe(voice);
+    expect(resolved.volume).toBe(0.4);
+    expect(resolved.minMessageLength).toBe(10);
+    expect(resolved.filterBots).toBe(true);
+    expect(resolved.blockedUsers).toEqual(['spammer', 'troll']);
+  });
+
+  it('should merge changes into a channel\'s overrides', () => {
+    expect(mergeChannelSettings(settings, 'quiet', { volume: 0.5 }).quiet).toEqual({ enabled: false, volume: 0.5 });
+    expect(mergeChannelSettings(settings, 'other', { volume: 0.5 })).toEqual({
+      ...settings.channelSettings,
+      other: { enabled: true, volume: 0.5 }
+    });
+  });
+});
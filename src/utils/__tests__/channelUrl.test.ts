@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChannelUrl,
+  getChannelsFromSearch,
+  isValidChannelName,
+  normalizeChannelName
+} from '../channelUrl';
+
+describe('channelUrl', () => {
+  it('should normalize channel names typed by users', () => {
+    expect(normalizeChannelName('  #HuikkaKoodaa ')).toBe('huikkakoodaa');
+  });
+
+  it('should validate Twitch login names', () => {
+    expect(isValidChannelName('huikka_koodaa42')).toBe(true);
+    expect(isValidChannelName('')).toBe(false);
+    expect(isValidChannelName('not a channel')).toBe(false);
+    expect(isValidChannelName('a'.repeat(26))).toBe(false);
+  });
+
+  it('should read channels from the query string', () => {
+    expect(getChannelsFromSearch('?channel=HuikkaKoodaa')).toEqual(['huikkakoodaa']);
+    expect(getChannelsFromSearch('?channel=first,%23second,first')).toEqual(['first', 'second']);
+  });
+
+  it('should return null without a valid channel', () => {
+    expect(getChannelsFromSearch('')).toBeNull();
+    expect(getChannelsFromSearch('?channel=')).toBeNull();
+    expect(getChannelsFromSearch('?channel=bad%20name')).toBeNull();
+  });
+
+  it('should set the channel parameter and keep the rest of the URL', () => {
+    expect(buildChannelUrl('https://example.com/tts/?theme=dark#chat', ['first', 'second']))
+      .toBe('https://example.com/tts/?theme=dark&channel=first%2Csecond#chat');
+    expect(buildChannelUrl('https://example.com/?channel=old', []))
+      .toBe('https://example.com/');
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_COMMAND_PERMISSIONS,
+  executeChatCommand,
+  getPermissionLevel,
+  getSessionChannel,
+  hasCommandPermission,
+  isChatCommand,
+  isCommandAllowedInChannel,
+  parseChatCommand,
+  type ChatCommandActions
+} from '../chatCommands';
+import type { ChatCommand, TTSSettings } from '../../types';
+
+describe('chatCommands', () => {
+  describe('parsing', () => {
+    it('should recognize !tts messages as commands', () => {
+      expect(isChatCommand('!tts skip')).toBe(true);
+      expect(isChatCommand('  !TTS  ')).toBe(true);
+      expect(isChatCommand('!ttsskip')).toBe(false);
+      expect(isChatCommand('I love !tts')).toBe(false);
+    });
+
+    it('should parse command names and arguments', () => {
+      expect(parseChatCommand('!tts volume 0.5')).toEqual({ name: 'volume', args: ['0.5'] });
+      expect(parseChatCommand('!TTS Block  @Spammer')).toEqual({ name: 'block', args: ['@Spammer'] });
+      expect(parseChatCommand('!tts skip')).toEqual({ name: 'skip', args: [] });
+    });
+
+    it('should not parse unknown commands or plain messages', () => {
+      expect(parseChatCommand('!tts dance')).toBeNull();
+      expect(parseChatCommand('!tts')).toBeNull();
+      expect(parseChatCommand('hello')).toBeNull();
+    });
+  });
+
+  describe('permissions', () => {
+    it('should use the highest badge', () => {
+      expect(getPermissionLevel(['subscriber', 'moderator'])).toBe('moderator');
+      expect(getPermissionLevel(['broadcaster', 'subscriber'])).toBe('broadcaster');
+      expect(getPermissionLevel(['founder'])).toBe('subscriber');
+      expect(getPermissionLevel(['premium'])).toBe('everyone');
+    });
+
+    it('should allow equal or higher levels', () => {
+      expect(hasCommandPermission(['vip'], 'vip')).toBe(true);
+      expect(hasCommandPermission(['moderator'], 'vip')).toBe(true);
+      expect(hasCommandPermission(['subscriber'], 'vip')).toBe(false);
+      expect(hasCommandPermission([], 'everyone')).toBe(true);
+    });
+
+    it('should let broadcaster, moderators and VIPs use every command by default', () => {
+      Object.values(DEFAULT_COMMAND_PERMISSIONS).forEach((permission) => {
+        expect(hasCommandPermission(['vip'], permission)).toBe(true);
+        expect(hasCommandPermission(['subscriber'], permission)).toBe(false);
+      });
+    });
+  });
+
+  describe('channels', () => {
+    it('should find the channel that owns the session', () => {
+      expect(getSessionChannel('Streamer', ['streamer', 'costreamer'])).toBe('streamer');
+      expect(getSessionChannel(null, ['streamer'])).toBe('streamer');
+      expect(getSessionChannel(null, ['streamer', 'costreamer'])).toBeNull();
+    });
+
+    it('should only take commands for the shared player from the session\'s channel', () => {
+      expect(isCommandAllowedInChannel('pause', 'streamer', 'streamer')).toBe(true);
+      expect(isCommandAllowedInChannel('pause', 'costreamer', 'streamer')).toBe(false);
+      expect(isCommandAllowedInChannel('resume', 'costreamer', null)).toBe(false);
+      expect(isCommandAllowedInChannel('off', 'costreamer', 'streamer')).toBe(true);
+    });
+  });
+
+  describe('execution', () => {
+    const settings = {
+      enabled: true,
+      blockedUsers: ['troll'],
+      volume: 0.8,
+      nicknames: { huikkakoodaa: 'Huikka' },
+      channelSettings: { costreamer: { enabled: true, minMessageLength: 5 } }
+    } as unknown as TTSSettings;
+    let actions: ChatCommandActions;
+
+    const run = (name: ChatCommand['name'], args: string[] = [], channel = 'streamer') =>
+      executeChatCommand({ name, args }, channel, settings, actions);
+
+    beforeEach(() => {
+      actions = {
+        skip: vi.fn().mockReturnValue(true),
+        clear: vi.fn(),
+        pause: vi.fn(),
+        resume: vi.fn(),
+        updateSettings: vi.fn(),
+        removeMessagesByUser: vi.fn().mockReturnValue(0)
+      };
+    });
+
+    it.each([
+      ['pause', 'pause', 'TTS paused'],
+      ['resume', 'resume', 'TTS resumed']
+    ] as const)('should run !tts %s', (name, action, acknowledgement) => {
+      expect(run(name)).toBe(acknowledgement);
+      expect(actions[action]).toHaveBeenCalled();
+    });
+
+    it('should only skip and clear in the command\'s channel', () => {
+      expect(run('skip', [], 'costreamer')).toBe('Skipped');
+      expect(actions.skip).toHaveBeenCalledWith('costreamer');
+
+      expect(run('clear', [], 'costreamer')).toBe('Queue cleared');
+      expect(actions.clear).toHaveBeenCalledWith('costreamer');
+    });
+
+    it('should turn TTS on and off only in the command\'s channel', () => {
+      expect(run('off', [], 'costreamer')).toBe('TTS is now off');
+      expect(actions.updateSettings).toHaveBeenLastCalledWith({
+        channelSettings: { costreamer: { enabled: false, minMessageLength: 5 } }
+      });
+      expect(actions.clear).toHaveBeenCalledWith('costreamer');
+
+      expect(run('on')).toBe('TTS is now on');
+      expect(actions.updateSettings).toHaveBeenLastCalledWith({
+        channelSettings: { costreamer: { enabled: true, minMessageLength: 5 }, streamer: { enabled: true } }
+      });
+    });
+
+    it('should tell chat when TTS is switched off in the app', () => {
+      expect(executeChatCommand({ name: 'on', args: [] }, 'streamer', { ...settings, enabled: false }, actions))
+        .toBe('TTS is on for this channel but switched off in the app');
+    });
+
+    it('should set the channel\'s volume within range', () => {
+      expect(run('volume', ['0.5'])).toBe('Volume set to 50%');
+      expect(actions.updateSettings).toHaveBeenCalledWith({
+        channelSettings: { ...settings.channelSettings, streamer: { enabled: true, volume: 0.5 } }
+      });
+
+      expect(run('volume', ['5'])).toMatch(/^Usage/);
+      expect(run('volume')).toMatch(/^Usage/);
+      expect(actions.updateSettings).toHaveBeenCalledTimes(1);
+    });
+
+    it('should block users and drop their queued messages', () => {
+      expect(run('block', ['@Spammer'])).toBe('spammer will not be read');
+      expect(actions.updateSettings).toHaveBeenCalledWith({ blockedUsers: ['troll', 'spammer'] });
+      expect(actions.removeMessagesByUser).toHaveBeenCalledWith('spammer');
+    });
+
+    it('should drop a blocked user\'s queued messages in every channel', () => {
+      run('block', ['spammer']);
+
+      // No channel means the removal is not limited to the channel the command came from
+      expect(vi.mocked(actions.removeMessagesByUser).mock.calls).toEqual([['spammer']]);
+    });
+
+    it('should not block a user twice', () => {
+      run('block', ['troll']);
+      expect(actions.updateSettings).not.toHaveBeenCalled();
+    });
+
+    it('should set a quoted nickname', () => {
+      const command = parseChatCommand('!tts nick @xX_d4rkL0rd_Xx "Dark Lord"');
+
+      expect(executeChatCommand(command!, 'streamer', settings, actions)).toBe('xx_d4rkl0rd_xx will be read as "Dark Lord"');
+      expect(actions.updateSettings).toHaveBeenCalledWith({
+        nicknames: { huikkakoodaa: 'Huikka', 'xx_d4rkl0rd_xx': 'Dark Lord' }
+      });
+    });
+
+    it('should remove a nickname when none is given', () => {
+      expect(run('nick', ['Huikkakoodaa'])).toBe('huikkakoodaa has no nickname');
+      expect(actions.updateSettings).toHaveBeenCalledWith({ nicknames: {} });
+    });
+
+    it('should explain the nick command without a username', () => {
+      expect(run('nick')).toMatch(/^Usage/);
+      expect(actions.updateSettings).not.toHaveBeenCalled();
+    });
+  });
+});
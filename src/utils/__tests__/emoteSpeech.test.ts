@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { renderFragmentsForSpeech, findEmoteRule } from '../emoteSpeech';
+import { parseEmoteFragments } from '../messageFragments';
+import type { EmoteSpeechRule } from '../../types';
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+describe('emoteSpeech', () => {
+  const rules: EmoteSpeechRule[] = [
+    { emote: 'Kappa', action: 'phrase', phrase: 'kappa face' },
+    { emote: 'LUL', action: 'collapse' },
+    { emote: 'huikkaHype', action: 'name' },
+    { emote: 'NotLikeThis', action: 'drop' }
+  ];
+
+  it('should speak custom phrases', () => {
+    const fragments = parseEmoteFragments('nice Kappa', '25:5-9');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop'))).toBe('nice kappa face');
+  });
+
+  it('should collapse repeated emotes with a spoken count', () => {
+    const fragments = parseEmoteFragments('LUL LUL LUL', '425618:0-2,4-6,8-10');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop'))).toBe('LUL times three');
+  });
+
+  it('should read collapsed counts in the message language', () => {
+    const fragments = parseEmoteFragments('LUL LUL LUL', '425618:0-2,4-6,8-10');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop', 'fi'))).toBe('LUL kolme kertaa');
+  });
+
+  it('should spell out large collapsed counts', () => {
+    const text = Array(25).fill('LUL').join(' ');
+    const ranges = Array.from({ length: 25 }, (_, index) => `${index * 4}-${index * 4 + 2}`).join(',');
+    const fragments = parseEmoteFragments(text, `425618:${ranges}`);
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop', 'en'))).toBe('LUL times twenty five');
+  });
+
+  it('should speak a single collapsed emote without a count', () => {
+    const fragments = parseEmoteFragments('that was LUL', '425618:9-11');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop'))).toBe('that was LUL');
+  });
+
+  it('should not collapse emotes separated by text', () => {
+    const fragments = parseEmoteFragments('LUL ok LUL', '425618:0-2,7-9');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop'))).toBe('LUL ok LUL');
+  });
+
+  it('should speak emote names and drop emotes per rule', () => {
+    const fragments = parseEmoteFragments('huikkaHype NotLikeThis go', '1:0-9/58765:11-21');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'name'))).toBe('huikkaHype go');
+  });
+
+  it('should use the default action for emotes without a rule', () => {
+    const fragments = parseEmoteFragments('hi PogChamp', '88:3-10');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'drop'))).toBe('hi');
+    expect(normalize(renderFragmentsForSpeech(fragments, rules, 'name'))).toBe('hi PogChamp');
+  });
+
+  it('should fall back to the emote name when a phrase is empty', () => {
+    const fragments = parseEmoteFragments('Kappa', '25:0-4');
+    const emptyPhrase: EmoteSpeechRule[] = [{ emote: 'Kappa', action: 'phrase', phrase: ' ' }];
+    expect(normalize(renderFragmentsForSpeech(fragments, emptyPhrase, 'drop'))).toBe('Kappa');
+  });
+
+  it('should match emote names case-sensitively', () => {
+    expect(findEmoteRule('kappa', rules)).toBeUndefined();
+    expect(findEmoteRule('Kappa', rules)?.phrase).toBe('kappa face');
+  });
+});
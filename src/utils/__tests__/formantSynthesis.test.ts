@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { synthesize, wordToPhonemes } from '../formantSynthesis';
+
+const options = { sampleRate: 8000, basePitch: 120, rate: 1, pitch: 1, volume: 1 };
+
+describe('formantSynthesis', () => {
+  describe('wordToPhonemes', () => {
+    it('should follow common spelling rules', () => {
+      expect(wordToPhonemes('chat')).toEqual(['t', 'sh', 'ae', 't']);
+      expect(wordToPhonemes('sheep')).toEqual(['sh', 'iy', 'p']);
+      expect(wordToPhonemes('hello')).toEqual(['hh', 'eh', 'l', 'aa']);
+    });
+
+    it('should lengthen vowels before a silent e', () => {
+      expect(wordToPhonemes('make')).toEqual(['m', 'eh', 'iy', 'k']);
+      expect(wordToPhonemes('time')).toEqual(['t', 'aa', 'iy', 'm']);
+    });
+
+    it('should soften c and g before e, i and y', () => {
+      expect(wordToPhonemes('city')).toEqual(['s', 'ih', 't', 'iy']);
+      expect(wordToPhonemes('gem')).toEqual(['d', 'zh', 'eh', 'm']);
+    });
+
+    it('should use the word list for irregular words', () => {
+      expect(wordToPhonemes('the')).toEqual(['dh', 'ax']);
+      expect(wordToPhonemes('you')).toEqual(['y', 'uw']);
+    });
+  });
+
+  describe('synthesize', () => {
+    it('should render audio within the requested volume', () => {
+      const { samples } = synthesize('hello chat', { ...options, volume: 0.5 });
+
+      expect(samples.length).toBeGreaterThan(options.sampleRate * 0.3);
+      const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+      expect(peak).toBeCloseTo(0.45, 2);
+    });
+
+    it('should report where each word starts', () => {
+      const { boundaries } = synthesize('hi there, 42', options);
+
+      expect(boundaries.map(boundary => boundary.charIndex)).toEqual([0, 3, 10, 11]);
+      expect(boundaries[0].time).toBe(0);
+      expect(boundaries[1].time).toBeGreaterThan(0);
+      expect(boundaries[3].time).toBeGreaterThan(boundaries[2].time);
+    });
+
+    it('should speak faster at a higher rate', () => {
+      const normal = synthesize('speaking rate', options).samples.length;
+      const fast = synthesize('speaking rate', { ...options, rate: 2 }).samples.length;
+
+      expect(fast).toBeLessThan(normal * 0.6);
+    });
+
+    it('should render the same text the same way every time', () => {
+      expect(synthesize('same', options).samples).toEqual(synthesize('same', options).samples);
+    });
+
+    it('should render nothing for text without words', () => {
+      expect(synthesize('!!! ...', options).samples).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LANGUAGE_DETECTION_SETTINGS,
+  chooseLanguageVoice,
+  detectLanguage,
+  getTrigrams,
+  voiceSpeaksLanguage
+} from '../languageDetection';
+import type { TTSVoice } from '../../types';
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US' },
+  { name: 'Daniel', lang: 'en-GB' },
+  { name: 'Satu', lang: 'fi-FI' },
+  { name: 'Onni', lang: 'fi_FI' },
+] as TTSVoice[];
+
+describe('languageDetection', () => {
+  describe('getTrigrams', () => {
+    it('should pad words and skip digits and punctuation', () => {
+      expect(getTrigrams('Hi, 42 yes!')).toEqual(['_hi', 'hi_', '_ye', 'yes', 'es_']);
+    });
+
+    it('should keep letters outside ASCII', () => {
+      expect(getTrigrams('tää')).toEqual(['_tä', 'tää', 'ää_']);
+    });
+  });
+
+  describe('detectLanguage', () => {
+    it.each([
+      ['moikka mitä kuuluu', 'fi'],
+      ['kiitos paljon tästä streamista', 'fi'],
+      ['hyvää huomenta kaikille', 'fi'],
+      ['mistä sä oot kotoisin', 'fi'],
+      ['that was a really good game', 'en'],
+      ['lol what is happening', 'en'],
+      ['where are you from', 'en'],
+      ['tack så mycket för streamen', 'sv'],
+      ['danke für den stream', 'de'],
+      ['gracias por el directo', 'es'],
+      ['merci pour le live', 'fr'],
+    ])('should detect "%s" as %s', (text, language) => {
+      expect(detectLanguage(text)).toBe(language);
+    });
+
+    it('should not guess the language of very short messages', () => {
+      expect(detectLanguage('gg')).toBeNull();
+      expect(detectLanguage('lol')).toBeNull();
+      expect(detectLanguage('123 !!!')).toBeNull();
+    });
+  });
+
+  describe('voiceSpeaksLanguage', () => {
+    it('should match the language part of the voice language', () => {
+      expect(voiceSpeaksLanguage({ lang: 'fi-FI' }, 'fi')).toBe(true);
+      expect(voiceSpeaksLanguage({ lang: 'FI' }, 'fi')).toBe(true);
+      expect(voiceSpeaksLanguage({ lang: 'en-US' }, 'fi')).toBe(false);
+    });
+  });
+
+  describe('chooseLanguageVoice', () => {
+    const settings = { enabled: true, preferredVoices: { fi: 'Onni' } };
+
+    it('should keep a personal voice that speaks the language', () => {
+      expect(chooseLanguageVoice('en', settings, voices, voices[1], voices[0])).toBe(voices[1]);
+    });
+
+    it('should use the preferred voice for the language', () => {
+      expect(chooseLanguageVoice('fi', settings, voices, voices[1], voices[0])).toBe(voices[3]);
+    });
+
+    it('should keep the default voice when it speaks the language', () => {
+      expect(chooseLanguageVoice('en', DEFAULT_LANGUAGE_DETECTION_SETTINGS, voices, undefined, voices[1])).toBe(voices[1]);
+    });
+
+    it('should use any voice speaking the language without a preference', () => {
+      expect(chooseLanguageVoice('fi', DEFAULT_LANGUAGE_DETECTION_SETTINGS, voices, undefined, voices[0])).toBe(voices[2]);
+    });
+
+    it('should fall back to the usual voice when no voice speaks the language', () => {
+      expect(chooseLanguageVoice('de', settings, voices, undefined, voices[0])).toBe(voices[0]);
+      expect(chooseLanguageVoice('de', settings, voices, voices[1], voices[0])).toBe(voices[1]);
+    });
+  });
+});
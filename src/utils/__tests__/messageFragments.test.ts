@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseEmoteFragments, getMessageFragments, isEmoteOnlyMessage } from '../messageFragments';
+import type { ChatMessage } from '../../types';
+
+describe('messageFragments', () => {
+  const createMessage = (overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+    id: '1',
+    username: 'viewer',
+    message: 'Hello',
+    timestamp: new Date(),
+    isBot: false,
+    badges: [],
+    ...overrides
+  });
+
+  describe('parseEmoteFragments', () => {
+    it('should return a single text fragment when there are no emotes', () => {
+      expect(parseEmoteFragments('LOL NASA rocks', '')).toEqual([
+        { type: 'text', text: 'LOL NASA rocks' }
+      ]);
+    });
+
+    it('should split text around emote ranges', () => {
+      expect(parseEmoteFragments('Kappa hello huikkaHype', '25:0-4/emotesv2_abc:12-21')).toEqual([
+        { type: 'emote', text: 'Kappa', emoteId: '25' },
+        { type: 'text', text: ' hello ' },
+        { type: 'emote', text: 'huikkaHype', emoteId: 'emotesv2_abc' }
+      ]);
+    });
+
+    it('should handle repeated emotes listed under one ID', () => {
+      expect(parseEmoteFragments('LUL LUL', '425618:0-2,4-6')).toEqual([
+        { type: 'emote', text: 'LUL', emoteId: '425618' },
+        { type: 'text', text: ' ' },
+        { type: 'emote', text: 'LUL', emoteId: '425618' }
+      ]);
+    });
+
+    it('should count positions in code points, not UTF-16 units', () => {
+      expect(parseEmoteFragments('😀 Kappa', '25:2-6')).toEqual([
+        { type: 'text', text: '😀 ' },
+        { type: 'emote', text: 'Kappa', emoteId: '25' }
+      ]);
+    });
+
+    it('should ignore malformed, out of range and overlapping ranges', () => {
+      expect(parseEmoteFragments('Kappa', '25:0-4/26:2-3/27:0-99/28:x-y/29')).toEqual([
+        { type: 'emote', text: 'Kappa', emoteId: '25' }
+      ]);
+    });
+  });
+
+  describe('getMessageFragments', () => {
+    it('should fall back to the raw message text', () => {
+      expect(getMessageFragments(createMessage())).toEqual([{ type: 'text', text: 'Hello' }]);
+    });
+
+    it('should return parsed fragments when present', () => {
+      const fragments = parseEmoteFragments('Kappa', '25:0-4');
+      expect(getMessageFragments(createMessage({ message: 'Kappa', fragments }))).toBe(fragments);
+    });
+  });
+
+  describe('isEmoteOnlyMessage', () => {
+    it('should detect messages made only of emotes', () => {
+      const message = createMessage({
+        message: 'Kappa Kappa',
+        fragments: parseEmoteFragments('Kappa Kappa', '25:0-4,6-10')
+      });
+      expect(isEmoteOnlyMessage(message)).toBe(true);
+    });
+
+    it('should not treat all-caps words as emotes', () => {
+      expect(isEmoteOnlyMessage(createMessage({ message: 'LOL NASA' }))).toBe(false);
+    });
+
+    it('should not flag messages mixing emotes and text', () => {
+      const message = createMessage({
+        message: 'Kappa nice',
+        fragments: parseEmoteFragments('Kappa nice', '25:0-4')
+      });
+      expect(isEmoteOnlyMessage(message)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MESSAGE_TEMPLATE_SETTINGS,
+  applyMessageTemplate,
+  fillTemplate,
+  getMessageTemplate,
+  getSpokenEventType
+} from '../messageTemplates';
+import type { ChatMessage, MessageTemplateSettings } from '../../types';
+
+const settings: MessageTemplateSettings = { ...DEFAULT_MESSAGE_TEMPLATE_SETTINGS, enabled: true };
+
+const message: ChatMessage = {
+  id: '1',
+  channel: 'huikkakoodaa',
+  username: 'ronni',
+  displayName: 'Ronni',
+  message: 'hello Kappa',
+  timestamp: new Date(),
+  isBot: false,
+  badges: [],
+  fragments: [
+    { type: 'text', text: 'hello ' },
+    { type: 'emote', text: 'Kappa', emoteId: '25' }
+  ]
+};
+
+const reply: ChatMessage = {
+  ...message,
+  message: '@Huikkakoodaa yes!',
+  fragments: undefined,
+  reply: {
+    messageId: 'parent',
+    userId: '1337',
+    username: 'huikkakoodaa',
+    displayName: 'Huikkakoodaa',
+    message: 'any questions?'
+  }
+};
+
+const cheer: ChatMessage = { ...message, message: 'Cheer100 great stream', fragments: undefined, bits: 100 };
+
+describe('messageTemplates', () => {
+  describe('getSpokenEventType', () => {
+    it('should tell messages, replies and cheers apart', () => {
+      expect(getSpokenEventType(message)).toBe('message');
+      expect(getSpokenEventType(reply)).toBe('reply');
+      expect(getSpokenEventType(cheer)).toBe('cheer');
+      expect(getSpokenEventType({ ...reply, bits: 5 })).toBe('cheer');
+    });
+  });
+
+  describe('getMessageTemplate', () => {
+    it('should prefer the template of the message language', () => {
+      expect(getMessageTemplate('message', settings, 'fi')).toBe('{displayName} sanoo {message}');
+    });
+
+    it('should fall back to the default templates', () => {
+      expect(getMessageTemplate('message', settings, 'de')).toBe('{displayName} says {message}');
+      expect(getMessageTemplate('reply', settings)).toBe('{displayName} replies to {replyTo}: {message}');
+    });
+
+    it('should fall back for events a language leaves empty', () => {
+      const partial = { ...settings, languageTemplates: { sv: { message: '{displayName} säger {message}', cheer: '' } } };
+
+      expect(getMessageTemplate('cheer', partial, 'sv')).toBe('{displayName} cheered {bits} bits: {message}');
+    });
+  });
+
+  describe('fillTemplate', () => {
+    it('should leave unknown placeholders as written', () => {
+      expect(fillTemplate('{displayName} {mood}', { displayName: 'Ronni' })).toBe('Ronni {mood}');
+    });
+  });
+
+  describe('applyMessageTemplate', () => {
+    it('should leave messages alone while templates are off', () => {
+      expect(applyMessageTemplate(message, DEFAULT_MESSAGE_TEMPLATE_SETTINGS)).toBe(message);
+    });
+
+    it('should wrap the message and keep its emote fragments', () => {
+      const spoken = applyMessageTemplate(message, settings);
+
+      expect(spoken.message).toBe('Ronni says hello Kappa');
+      expect(spoken.fragments).toEqual([
+        { type: 'text', text: 'Ronni says ' },
+        { type: 'text', text: 'hello ' },
+        { type: 'emote', text: 'Kappa', emoteId: '25' }
+      ]);
+    });
+
+    it('should name who a reply is for without reading the mention twice', () => {
+      expect(applyMessageTemplate(reply, settings).message).toBe('Ronni replies to Huikkakoodaa: yes!');
+    });
+
+    it('should read the bits cheered without the cheermotes', () => {
+      expect(applyMessageTemplate(cheer, settings).message).toBe('Ronni cheered 100 bits:  great stream');
+    });
+
+    it('should only remove known cheermotes from cheers', () => {
+      const mixed = { ...cheer, message: 'Kappa50 reached level50 on ps5 cheer50 top10', bits: 100 };
+
+      expect(applyMessageTemplate(mixed, settings).message).toBe('Ronni cheered 100 bits:  reached level50 on ps5  top10');
+    });
+
+    it('should use the template of the message language', () => {
+      expect(applyMessageTemplate(message, settings, { language: 'fi' }).message).toBe('Ronni sanoo hello Kappa');
+    });
+
+    it('should pass names through the name speller', () => {
+      const speakName = (username: string, displayName?: string) => (displayName || username).toUpperCase();
+      const spoken = applyMessageTemplate(reply, settings, { speakName });
+
+      expect(spoken.message).toBe('RONNI replies to HUIKKAKOODAA: yes!');
+    });
+
+    it('should skip the name when the same chatter speaks again', () => {
+      expect(applyMessageTemplate(message, settings, { repeatedSpeaker: true })).toBe(message);
+      expect(applyMessageTemplate(message, { ...settings, skipRepeatedName: false }, { repeatedSpeaker: true }).message)
+        .toBe('Ronni says hello Kappa');
+    });
+
+    it('should still introduce replies and cheers from the same chatter', () => {
+      expect(applyMessageTemplate(cheer, settings, { repeatedSpeaker: true }).message).toContain('cheered 100 bits');
+    });
+
+    it('should allow templates without the message', () => {
+      const nameOnly = { ...settings, templates: { ...settings.templates, message: '{username} in {channel}' } };
+
+      expect(applyMessageTemplate(message, nameOnly).message).toBe('ronni in huikkakoodaa');
+    });
+  });
+});
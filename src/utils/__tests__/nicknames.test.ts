@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  NICKNAMES_STORAGE_KEY,
+  cleanUsername,
+  getSpokenName,
+  loadNicknames,
+  parseNicknameArgs,
+  saveNicknames,
+  setNickname
+} from '../nicknames';
+
+describe('nicknames', () => {
+  describe('cleanUsername', () => {
+    it.each([
+      ['xX_d4rkL0rd_Xx', 'Dark Lord'],
+      ['gamer_1987', 'Gamer'],
+      ['Kalle123', 'Kalle'],
+      ['L33tH4x0r', 'Leet Haxor'],
+      ['M4tti', 'Matti'],
+      ['Dark_Lord', 'Dark Lord'],
+      ['DarkLORD', 'Dark Lord'],
+      ['huikkakoodaa', 'Huikkakoodaa'],
+      ['player1', 'Player1'],
+      ['2077fan', '2077fan'],
+      ['1337', '1337'],
+      ['___', '___'],
+    ])('should read %s as %s', (username, expected) => {
+      expect(cleanUsername(username)).toBe(expected);
+    });
+  });
+
+  describe('getSpokenName', () => {
+    const settings = { nicknames: { 'xx_d4rkl0rd_xx': 'Lord' }, autoCleanNames: false };
+
+    it('should prefer the nickname, matched without case', () => {
+      expect(getSpokenName('xX_d4rkL0rd_Xx', undefined, settings)).toBe('Lord');
+    });
+
+    it('should use the display name without a nickname', () => {
+      expect(getSpokenName('ronni', 'Ronni_99', settings)).toBe('Ronni_99');
+    });
+
+    it('should clean up names when asked to', () => {
+      expect(getSpokenName('ronni', 'Ronni_99', { ...settings, autoCleanNames: true })).toBe('Ronni');
+    });
+  });
+
+  describe('setNickname', () => {
+    it('should set nicknames by lowercase login', () => {
+      expect(setNickname({}, '@Ronni', ' Ron ')).toEqual({ ronni: 'Ron' });
+    });
+
+    it('should remove empty nicknames', () => {
+      expect(setNickname({ ronni: 'Ron', other: 'O' }, 'ronni', '')).toEqual({ other: 'O' });
+      expect(setNickname({ ronni: 'Ron' }, 'ronni', null)).toEqual({});
+    });
+  });
+
+  describe('parseNicknameArgs', () => {
+    it('should read quoted and unquoted nicknames', () => {
+      expect(parseNicknameArgs(['"Dark', 'Lord"'])).toBe('Dark Lord');
+      expect(parseNicknameArgs(["'Huikka'"])).toBe('Huikka');
+      expect(parseNicknameArgs(['Dark', 'Lord'])).toBe('Dark Lord');
+      expect(parseNicknameArgs([])).toBe('');
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should save and load nicknames', () => {
+      saveNicknames({ ronni: 'Ron' });
+
+      expect(loadNicknames()).toEqual({ ronni: 'Ron' });
+    });
+
+    it('should start empty with an unreadable store', () => {
+      localStorage.setItem(NICKNAMES_STORAGE_KEY, '[1, 2]');
+      expect(loadNicknames()).toEqual({});
+
+      localStorage.setItem(NICKNAMES_STORAGE_KEY, '{oops');
+      expect(loadNicknames()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_QUEUE_LIMIT_SETTINGS, getExpiryTime, isExpired, selectOverflow } from '../queueLimit';
+import type { QueueLimitSettings, TTSQueueItem } from '../../types';
+
+const createItem = (id: string, username = `user${id}`): TTSQueueItem => ({
+  id,
+  message: {
+    id,
+    channel: 'testchannel',
+    username,
+    message: 'hype',
+    timestamp: new Date(0),
+    isBot: false,
+    badges: []
+  },
+  status: 'pending'
+});
+
+const ids = (items: TTSQueueItem[]) => items.map(item => item.id);
+
+describe('queueLimit', () => {
+  describe('selectOverflow', () => {
+    const items = [createItem('1'), createItem('2'), createItem('3'), createItem('4')];
+    const limit = (overflowPolicy: QueueLimitSettings['overflowPolicy'], maxLength = 2): QueueLimitSettings =>
+      ({ maxLength, overflowPolicy, maxAgeSeconds: 0 });
+
+    it('should drop nothing within the limit or without one', () => {
+      expect(selectOverflow(items, limit('dropOldest', 4))).toEqual([]);
+      expect(selectOverflow(items, limit('dropOldest', 0))).toEqual([]);
+      expect(selectOverflow(items.slice(0, 2), DEFAULT_QUEUE_LIMIT_SETTINGS)).toEqual([]);
+    });
+
+    it('should drop the oldest items', () => {
+      expect(ids(selectOverflow(items, limit('dropOldest')))).toEqual(['1', '2']);
+    });
+
+    it('should drop the newest items', () => {
+      expect(ids(selectOverflow(items, limit('rejectNewest')))).toEqual(['3', '4']);
+    });
+
+    it('should drop older messages of chatters with several waiting', () => {
+      const repeated = [
+        createItem('1', 'Alice'),
+        createItem('2', 'bob'),
+        createItem('3', 'alice'),
+        createItem('4', 'bob'),
+        createItem('5', 'carol'),
+      ];
+
+      expect(ids(selectOverflow(repeated, limit('onePerUser', 3)))).toEqual(['1', '2']);
+    });
+
+    it('should drop the newest messages once every chatter has one left', () => {
+      const repeated = [createItem('1', 'alice'), createItem('2', 'alice'), createItem('3', 'bob'), createItem('4', 'carol')];
+
+      expect(ids(selectOverflow(repeated, limit('onePerUser', 2)))).toEqual(['1', '4']);
+    });
+
+    it('should drop a random sample', () => {
+      const rolls = [0.99, 0];
+      const random = () => rolls.shift() ?? 0;
+
+      expect(ids(selectOverflow(items, limit('randomSample'), random))).toEqual(['4', '1']);
+    });
+  });
+
+  describe('getExpiryTime', () => {
+    it('should add the time to live to the queue time', () => {
+      expect(getExpiryTime(1000, { ...DEFAULT_QUEUE_LIMIT_SETTINGS, maxAgeSeconds: 30 })).toBe(31_000);
+    });
+
+    it('should never expire without a time to live', () => {
+      expect(getExpiryTime(1000, { ...DEFAULT_QUEUE_LIMIT_SETTINGS, maxAgeSeconds: 0 })).toBeUndefined();
+    });
+  });
+
+  describe('isExpired', () => {
+    it('should expire items once their time is up', () => {
+      expect(isExpired({ expiresAt: 31_000 }, 30_999)).toBe(false);
+      expect(isExpired({ expiresAt: 31_000 }, 31_000)).toBe(true);
+      expect(isExpired({}, Number.MAX_SAFE_INTEGER)).toBe(false);
+    });
+  });
+});
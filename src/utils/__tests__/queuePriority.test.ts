@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_QUEUE_PRIORITY_SETTINGS,
+  findPriorityTier,
+  getEffectiveRank,
+  getPriorityTierLabel,
+  movePriorityTier,
+  orderQueue
+} from '../queuePriority';
+import type { ChatMessage, QueuePrioritySettings, TTSQueueItem } from '../../types';
+
+const settings: QueuePrioritySettings = { ...DEFAULT_QUEUE_PRIORITY_SETTINGS, enabled: true };
+const { tiers } = settings;
+
+const createItem = (id: string, extra: Partial<ChatMessage> = {}, queuedAt = 0): TTSQueueItem => ({
+  id,
+  message: {
+    id,
+    channel: 'testchannel',
+    username: `user${id}`,
+    message: 'hello',
+    timestamp: new Date(0),
+    isBot: false,
+    badges: [],
+    ...extra
+  },
+  status: 'pending',
+  queuedAt
+});
+
+describe('queuePriority', () => {
+  describe('findPriorityTier', () => {
+    it('should match badges, founders counting as subscribers', () => {
+      expect(findPriorityTier({ badges: ['broadcaster'] }, tiers)).toBe(0);
+      expect(findPriorityTier({ badges: ['subscriber', 'moderator'] }, tiers)).toBe(0);
+      expect(findPriorityTier({ badges: ['founder'] }, tiers)).toBe(2);
+    });
+
+    it('should match cheers and highlighted messages', () => {
+      expect(findPriorityTier({ badges: [], bits: 1 }, tiers)).toBe(1);
+      expect(findPriorityTier({ badges: [], isHighlighted: true }, tiers)).toBe(1);
+    });
+
+    it('should require the smallest cheer set on the tier', () => {
+      const bigCheers = [{ id: 'big', label: 'Big cheers', conditions: ['bits' as const], minBits: 500 }];
+
+      expect(findPriorityTier({ badges: [], bits: 499 }, bigCheers)).toBe(1);
+      expect(findPriorityTier({ badges: [], bits: 500 }, bigCheers)).toBe(0);
+    });
+
+    it('should match first messages in chat', () => {
+      const firstTimers = [{ id: 'new', label: 'New chatters', conditions: ['firstMessage' as const] }];
+
+      expect(findPriorityTier({ badges: [], isFirstMessage: true }, firstTimers)).toBe(0);
+    });
+
+    it('should match everyone with a tier without conditions', () => {
+      expect(findPriorityTier({ badges: ['premium'] }, tiers)).toBe(3);
+    });
+
+    it('should rank messages matching no tier below the last one', () => {
+      expect(findPriorityTier({ badges: [] }, tiers.slice(0, 2))).toBe(2);
+    });
+  });
+
+  describe('getEffectiveRank', () => {
+    it('should move up one tier for every aging interval waited', () => {
+      const item = createItem('1', {}, 0);
+
+      expect(getEffectiveRank(item, settings, 29_999)).toBe(3);
+      expect(getEffectiveRank(item, settings, 30_000)).toBe(2);
+      expect(getEffectiveRank(item, settings, 65_000)).toBe(1);
+      expect(getEffectiveRank(item, settings, 600_000)).toBe(0);
+    });
+
+    it('should not age without an aging interval', () => {
+      expect(getEffectiveRank(createItem('1'), { ...settings, agingSeconds: 0 }, 600_000)).toBe(3);
+    });
+  });
+
+  describe('orderQueue', () => {
+    const items = [
+      createItem('1'),
+      createItem('2', { badges: ['subscriber'] }),
+      createItem('3', { badges: ['moderator'] }),
+      createItem('4', { badges: ['vip'] }),
+    ];
+
+    it('should sort by tier and keep arrival order within a tier', () => {
+      expect(orderQueue(items, settings, 0).map(item => item.id)).toEqual(['3', '2', '1', '4']);
+    });
+
+    it('should keep arrival order while priorities are off', () => {
+      const ordered = orderQueue(items, DEFAULT_QUEUE_PRIORITY_SETTINGS, 0);
+
+      expect(ordered.map(item => item.id)).toEqual(['1', '2', '3', '4']);
+      expect(ordered).not.toBe(items);
+    });
+  });
+
+  describe('getPriorityTierLabel', () => {
+    it('should label the matching tier', () => {
+      expect(getPriorityTierLabel({ badges: [], bits: 10 }, settings)).toBe('Bits and highlights');
+    });
+
+    it('should not label messages while priorities are off or nothing matches', () => {
+      expect(getPriorityTierLabel({ badges: ['moderator'] }, DEFAULT_QUEUE_PRIORITY_SETTINGS)).toBeUndefined();
+      expect(getPriorityTierLabel({ badges: [] }, { ...settings, tiers: tiers.slice(0, 1) })).toBeUndefined();
+    });
+  });
+
+  describe('movePriorityTier', () => {
+    it('should swap a tier with its neighbour', () => {
+      expect(movePriorityTier(tiers, 'subscribers', -1).map(tier => tier.id))
+        .toEqual(['staff', 'subscribers', 'supporters', 'everyone']);
+    });
+
+    it('should not move past either end', () => {
+      expect(movePriorityTier(tiers, 'staff', -1)).toBe(tiers);
+      expect(movePriorityTier(tiers, 'everyone', 1)).toBe(tiers);
+    });
+  });
+});
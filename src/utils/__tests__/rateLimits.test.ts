@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RATE_LIMIT_SETTINGS, formatWait, getUserRateLimit } from '../rateLimits';
+
+describe('rateLimits', () => {
+  describe('getUserRateLimit', () => {
+    it('should pick the limits for the highest permission level', () => {
+      const { limits } = DEFAULT_RATE_LIMIT_SETTINGS;
+
+      expect(getUserRateLimit({ badges: [] }, DEFAULT_RATE_LIMIT_SETTINGS)).toBe(limits.everyone);
+      expect(getUserRateLimit({ badges: ['founder'] }, DEFAULT_RATE_LIMIT_SETTINGS)).toBe(limits.subscriber);
+      expect(getUserRateLimit({ badges: ['subscriber', 'moderator'] }, DEFAULT_RATE_LIMIT_SETTINGS)).toBe(limits.moderator);
+    });
+  });
+
+  describe('formatWait', () => {
+    it('should round up to whole seconds', () => {
+      expect(formatWait(1)).toBe('1s');
+      expect(formatWait(1500)).toBe('2s');
+      expect(formatWait(0)).toBe('1s');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SPAM_FILTER_SETTINGS,
+  countArtSymbols,
+  detectSpamPattern,
+  getLongestRepetition,
+  getMaxCombiningMarks,
+  getSimilarity,
+  normalizeForComparison,
+} from '../spamDetection';
+
+/**
+ * Spam collected from Twitch chats, with the reason each should be rejected
+ */
+const SPAM_CORPUS: [string, string][] = [
+  ['⠀⠀⠀⠀⠀⣀⣤⣴⣶⣶⣶⣶⣦⣤⣀⠀⠀⠀⠀⠀ ⠀⠀⣠⣾⣿⣿⣿⣿⣿⣿⣿⣿⣿⣿⣷⣄⠀⠀ ⠀⣼⣿⣿⠟⠋⠉⠉⠉⠉⠙⠻⣿⣿⣿⣧⠀', 'ASCII art'],
+  ['┏━━━━━━━━┓ ┃ POGGERS ┃ ┗━━━━━━━━┛', 'ASCII art'],
+  ['(\\__/) ( •_•) / >🍪 you want this cookie? ───── ( ͡° ͜ʖ ͡°) ┬─┬ノ( º _ ºノ) (╯°□°）╯︵ ┻━┻', 'ASCII art'],
+  ['░░░░░▄▄▀▀▀▀▀▀▀▀▄▄░░░░░ ░░░▄▀░░░░░░░░░░░░▀▄░░░ ░░█░░░░░░░░░░░░░░░░█░░', 'Repeated characters'],
+  ['H̸̡̪̯ͨ͊̽̅̾̎Ȩ̬̩̾͛ͪ̈́̀́͘ ̶̧̨̱̹̭̯ͧ̾ͬC̷̙̲̝͖ͭ̏ͥͮ͟Oͮ͏̮̪̝͍M̲̖͊̒ͪͩͬ̚̚͜Ȇ̴̟̟͙̞ͩ͌͝S̨̥̫͎̭ͯ̿̔̀ͅ', 'Zalgo text'],
+  ['AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA', 'Repeated characters'],
+  ['hahahahahahahahahahahahahaha', 'Repeated characters'],
+  ['LOLOLOLOLOLOLOLOLOLOL', 'Repeated characters'],
+  ['!!!!!!!!!!!!!!!!!!!!!!!', 'Repeated characters'],
+];
+
+/**
+ * Ordinary chat that must get through
+ */
+const HAM_CORPUS = [
+  '(╯°□°）╯︵ ┻━┻',
+  '¯\\_(ツ)_/¯',
+  'LUL LUL LUL',
+  'looooool that was great',
+  'Moi kaikki! Mitä kuuluu tänään? Hyvää iltaa Helsingistä',
+  'Tiếng Việt có dấu thanh điệu rất đẹp',
+  'Tiếng Việt có dấu thanh điệu rất đẹp'.normalize('NFD'),
+  'ผมชอบเล่นเกมนี้มากครับ',
+  'मुझे यह स्ट्रीम बहुत पसंद है',
+  'check https://example.com/some/path?query=1&b=2 for the schedule',
+  'gg wp',
+  '1000000000 bits when',
+  '??? what just happened',
+  '❤️❤️❤️❤️❤️❤️❤️❤️❤️❤️',
+];
+
+describe('spamDetection', () => {
+  describe('detectSpamPattern', () => {
+    it.each(SPAM_CORPUS)('rejects %s', (text, reason) => {
+      expect(detectSpamPattern(text, DEFAULT_SPAM_FILTER_SETTINGS)).toBe(reason);
+    });
+
+    it.each(HAM_CORPUS)('accepts %s', (text) => {
+      expect(detectSpamPattern(text, DEFAULT_SPAM_FILTER_SETTINGS)).toBeNull();
+    });
+
+    it('skips checks with a limit of 0', () => {
+      const settings = { ...DEFAULT_SPAM_FILTER_SETTINGS, maxRepeatedChars: 0, maxCombiningMarks: 0, maxArtSymbols: 0 };
+
+      SPAM_CORPUS.forEach(([text]) => {
+        expect(detectSpamPattern(text, settings)).toBeNull();
+      });
+    });
+  });
+
+  describe('getLongestRepetition', () => {
+    it('measures runs of a character or short pattern', () => {
+      expect(getLongestRepetition('hello')).toBe(2);
+      expect(getLongestRepetition('no runs')).toBe(0);
+      expect(getLongestRepetition('xd hahaha')).toBe(6);
+      expect(getLongestRepetition('KEKWKEKWKEKW')).toBe(12);
+    });
+
+    it('does not count variation selectors', () => {
+      expect(getLongestRepetition('❤️❤️❤️')).toBe(3);
+    });
+  });
+
+  describe('getMaxCombiningMarks', () => {
+    it('finds the tallest stack of marks', () => {
+      expect(getMaxCombiningMarks('plain')).toBe(0);
+      expect(getMaxCombiningMarks('café'.normalize('NFD'))).toBe(1);
+      expect(getMaxCombiningMarks('Z͓͑͒à')).toBe(3);
+    });
+  });
+
+  describe('countArtSymbols', () => {
+    it('counts drawing characters', () => {
+      expect(countArtSymbols('hi ▀▄▀ there')).toBe(3);
+    });
+
+    it('counts every symbol in long messages made mostly of symbols', () => {
+      expect(countArtSymbols('(\\__/) ( •_•) / >> <<( •_•)')).toBeGreaterThan(15);
+      expect(countArtSymbols('wait... what?!')).toBe(0);
+    });
+
+    it('does not count emoji', () => {
+      expect(countArtSymbols('🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥')).toBe(0);
+    });
+  });
+
+  describe('normalizeForComparison', () => {
+    it('ignores case, punctuation, accents and stretched letters', () => {
+      expect(normalizeForComparison('FIRST!!!')).toBe('first');
+      expect(normalizeForComparison('firsttt')).toBe('first');
+      expect(normalizeForComparison('  Fírst   one ')).toBe('first one');
+    });
+  });
+
+  describe('getSimilarity', () => {
+    it('scores identical text as 1 and unrelated text near 0', () => {
+      expect(getSimilarity('hello chat', 'hello chat')).toBe(1);
+      expect(getSimilarity('hello chat', 'xyz')).toBe(0);
+    });
+
+    it('scores small edits highly', () => {
+      expect(getSimilarity('this stream is amazing', 'this stream is amazing lol')).toBeGreaterThan(0.85);
+      expect(getSimilarity('this stream is amazing', 'what game is this')).toBeLessThan(0.5);
+    });
+
+    it('scores single characters by equality', () => {
+      expect(getSimilarity('a', 'b')).toBe(0);
+      expect(getSimilarity('', '')).toBe(1);
+    });
+  });
+});
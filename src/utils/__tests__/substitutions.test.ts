@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileSubstitution,
+  exportSubstitutions,
+  getSubstitutionError,
+  importSubstitutions,
+  mergeSubstitutions,
+  substituteMessageText,
+  substituteUsername
+} from '../substitutions';
+import type { SubstitutionRule } from '../../types';
+
+function rule(find: string, replace: string, options: Partial<SubstitutionRule> = {}): SubstitutionRule {
+  return {
+    id: `rule-${find}`,
+    find,
+    replace,
+    regex: false,
+    caseSensitive: false,
+    wholeWord: true,
+    scope: 'all',
+    ...options
+  };
+}
+
+describe('substitutions', () => {
+  describe('substituteMessageText', () => {
+    it('should replace whole words regardless of case', () => {
+      const rules = [rule('gg', 'good game'), rule('xd', 'ex dee')];
+
+      expect(substituteMessageText('GG everyone xD', rules)).toBe('good game everyone ex dee');
+      expect(substituteMessageText('eggs', rules)).toBe('eggs');
+    });
+
+    it('should treat letters outside ASCII as part of words', () => {
+      expect(substituteMessageText('tää tääkin', [rule('tää', 'tämä')])).toBe('tämä tääkin');
+    });
+
+    it('should match inside words when whole word is off', () => {
+      expect(substituteMessageText('eggs', [rule('gg', 'G', { wholeWord: false })])).toBe('eGs');
+    });
+
+    it('should respect case when asked', () => {
+      const rules = [rule('US', 'United States', { caseSensitive: true })];
+
+      expect(substituteMessageText('US and us', rules)).toBe('United States and us');
+    });
+
+    it('should keep dollar signs in literal replacements', () => {
+      expect(substituteMessageText('price', [rule('price', '$1 each')])).toBe('$1 each');
+    });
+
+    it('should support regular expressions with groups', () => {
+      const rules = [rule('(\\d+)k', '$1 thousand', { regex: true })];
+
+      expect(substituteMessageText('we hit 10k followers', rules)).toBe('we hit 10 thousand followers');
+    });
+
+    it('should skip invalid regular expressions', () => {
+      expect(substituteMessageText('hello (', [rule('(', 'paren', { regex: true })])).toBe('hello (');
+    });
+
+    it('should apply username rules to mentions only', () => {
+      const rules = [rule('huikkakoodaa', 'huikka koodaa', { scope: 'usernames' })];
+
+      expect(substituteMessageText('@huikkakoodaa hi, huikkakoodaa', rules))
+        .toBe('@huikka koodaa hi, huikkakoodaa');
+    });
+
+    it('should apply rules in order', () => {
+      const rules = [rule('gg', 'good game'), rule('good', 'great')];
+
+      expect(substituteMessageText('gg', rules)).toBe('great game');
+    });
+  });
+
+  describe('substituteUsername', () => {
+    it('should apply username rules and rules for all messages', () => {
+      const rules = [rule('koodaa', 'coder', { wholeWord: false }), rule('huikka', 'Huikka', { scope: 'usernames', wholeWord: false })];
+
+      expect(substituteUsername('huikkakoodaa', rules)).toBe('Huikkacoder');
+    });
+  });
+
+  describe('validation', () => {
+    it('should describe unusable rules', () => {
+      expect(getSubstitutionError(rule('', 'x'))).toBe('Enter the text to find');
+      expect(getSubstitutionError(rule('[a', 'x', { regex: true }))).toBe('Invalid regular expression');
+      expect(getSubstitutionError(rule('[a', 'x'))).toBeNull();
+    });
+
+    it('should escape literal text', () => {
+      expect(compileSubstitution(rule('a.b', 'x', { wholeWord: false }))?.test('axb')).toBe(false);
+    });
+  });
+
+  describe('import and export', () => {
+    it('should round-trip rules without their ids', () => {
+      const rules = [rule('gg', 'good game'), rule('(\\d+)k', '$1 thousand', { regex: true, scope: 'usernames' })];
+
+      const json = exportSubstitutions(rules);
+      expect(json).not.toContain('rule-gg');
+
+      const imported = importSubstitutions(json);
+      expect(imported).toEqual(rules.map(original => ({ ...original, id: expect.stringMatching(/^substitution-/) })));
+    });
+
+    it('should fill in missing flags', () => {
+      expect(importSubstitutions('[{ "find": "gg", "replace": "good game" }]')[0]).toMatchObject({
+        regex: false,
+        caseSensitive: false,
+        wholeWord: true,
+        scope: 'all'
+      });
+    });
+
+    it('should reject malformed JSON and rules', () => {
+      expect(() => importSubstitutions('nope')).toThrow('The text is not valid JSON');
+      expect(() => importSubstitutions('{}')).toThrow('Expected a list of substitution rules');
+      expect(() => importSubstitutions('[{ "find": "gg" }]')).toThrow('Rule 1 needs "find" and "replace" text');
+      expect(() => importSubstitutions('[{ "find": "(", "replace": "", "regex": true }]'))
+        .toThrow('Rule 1: Invalid regular expression');
+    });
+
+    it('should replace existing rules that find the same text when merging', () => {
+      const existing = [rule('gg', 'good game'), rule('xd', 'ex dee')];
+      const imported = [rule('gg', 'great game')];
+
+      expect(mergeSubstitutions(existing, imported).map(r => r.replace)).toEqual(['ex dee', 'great game']);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildAuthorizeUrl,
+  normalizeOAuthToken,
+  parseAuthRedirect,
+  validateToken
+} from '../twitchAuth';
+
+describe('twitchAuth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should strip the oauth: prefix from tokens', () => {
+    expect(normalizeOAuthToken(' oauth:abc123 ')).toBe('abc123');
+    expect(normalizeOAuthToken('abc123')).toBe('abc123');
+  });
+
+  it('should build an implicit grant URL with the chat scopes', () => {
+    const url = new URL(buildAuthorizeUrl('client', 'https://example.com/tts/', 'xyz'));
+
+    expect(url.origin + url.pathname).toBe('https://id.twitch.tv/oauth2/authorize');
+    expect(url.searchParams.get('response_type')).toBe('token');
+    expect(url.searchParams.get('client_id')).toBe('client');
+    expect(url.searchParams.get('redirect_uri')).toBe('https://example.com/tts/');
+    expect(url.searchParams.get('scope')).toBe('chat:read chat:edit');
+    expect(url.searchParams.get('state')).toBe('xyz');
+  });
+
+  it('should read the token from a redirect with a matching state', () => {
+    const hash = '#access_token=abc123&scope=chat%3Aread+chat%3Aedit&state=xyz&token_type=bearer';
+
+    expect(parseAuthRedirect(hash, 'xyz')).toBe('abc123');
+    expect(parseAuthRedirect(hash, 'other')).toBeNull();
+    expect(parseAuthRedirect(hash, null)).toBeNull();
+    expect(parseAuthRedirect('#error=access_denied&state=xyz', 'xyz')).toBeNull();
+  });
+
+  it('should look up the login a token belongs to', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        client_id: 'client',
+        login: 'huikkakoodaa',
+        scopes: ['chat:read', 'chat:edit'],
+        user_id: '1337',
+        expires_in: 3600
+      })
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(validateToken('oauth:abc123')).resolves.toEqual({
+      login: 'huikkakoodaa',
+      userId: '1337',
+      clientId: 'client',
+      scopes: ['chat:read', 'chat:edit'],
+      expiresIn: 3600
+    });
+    expect(fetchMock).toHaveBeenCalledWith('https://id.twitch.tv/oauth2/validate', {
+      headers: { Authorization: 'OAuth abc123' }
+    });
+  });
+
+  it('should reject tokens Twitch does not accept', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401 }));
+
+    await expect(validateToken('expired')).rejects.toThrow('Invalid or expired token');
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_VIEWER_VOICE_SETTINGS,
+  USER_VOICES_STORAGE_KEY,
+  canChooseVoice,
+  executeVoiceCommand,
+  findVoice,
+  getAllowedVoices,
+  getUserVoiceKey,
+  isVoiceCommand,
+  loadUserVoices,
+  parseVoiceCommand,
+  resolveUserVoice,
+  saveUserVoices,
+  type VoiceCommandActions
+} from '../viewerVoices';
+import type { ChatMessage, TTSSettings } from '../../types';
+import { createTestSettings } from '../../test-fixtures';
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US' },
+  { name: 'Daniel', lang: 'en-GB' },
+  { name: 'Satu', lang: 'fi-FI' },
+] as SpeechSynthesisVoice[];
+
+describe('viewerVoices', () => {
+  let settings: TTSSettings;
+  let message: ChatMessage;
+
+  beforeEach(() => {
+    settings = createTestSettings({
+      viewerVoices: { ...DEFAULT_VIEWER_VOICE_SETTINGS, enabled: true }
+    });
+
+    message = {
+      id: 'msg-1',
+      channel: 'streamer',
+      username: 'viewer',
+      userId: 'user-1',
+      message: '!voice list',
+      timestamp: new Date(),
+      isBot: false,
+      badges: []
+    };
+  });
+
+  describe('parsing', () => {
+    it('should recognize !voice messages as commands', () => {
+      expect(isVoiceCommand('!voice list')).toBe(true);
+      expect(isVoiceCommand('  !VOICE ')).toBe(true);
+      expect(isVoiceCommand('!voices')).toBe(false);
+      expect(isVoiceCommand('nice !voice')).toBe(false);
+    });
+
+    it('should parse list, reset and a bare command', () => {
+      expect(parseVoiceCommand('!voice list')).toEqual({ type: 'list' });
+      expect(parseVoiceCommand('!voice RESET')).toEqual({ type: 'reset' });
+      expect(parseVoiceCommand('!voice')).toEqual({ type: 'show' });
+      expect(parseVoiceCommand('hello')).toBeNull();
+    });
+
+    it('should parse a voice with optional rate and pitch', () => {
+      expect(parseVoiceCommand('!voice 2')).toEqual({ type: 'select', query: '2', rate: undefined, pitch: undefined });
+      expect(parseVoiceCommand('!voice Google UK English 1.2 0.8')).toEqual({
+        type: 'select',
+        query: 'Google UK English',
+        rate: 1.2,
+        pitch: 0.8,
+      });
+      expect(parseVoiceCommand('!voice 3 1.5')).toEqual({ type: 'select', query: '3', rate: 1.5, pitch: undefined });
+    });
+  });
+
+  describe('voice lookup', () => {
+    it('should limit voices to the allowed list when one is set', () => {
+      expect(getAllowedVoices(voices, settings.viewerVoices)).toHaveLength(3);
+      expect(
+        getAllowedVoices(voices, { ...settings.viewerVoices, allowedVoices: ['Satu', 'Daniel'] }).map(voice => voice.name)
+      ).toEqual(['Daniel', 'Satu']);
+    });
+
+    it('should find voices by number, exact name and partial name', () => {
+      expect(findVoice('1', voices)?.name).toBe('Samantha');
+      expect(findVoice('4', voices)).toBeUndefined();
+      expect(findVoice('daniel', voices)?.name).toBe('Daniel');
+      expect(findVoice('sat', voices)?.name).toBe('Satu');
+      expect(findVoice('nobody', voices)).toBeUndefined();
+    });
+
+    it('should key users by id and fall back to the login', () => {
+      expect(getUserVoiceKey(message)).toBe('user-1');
+      expect(getUserVoiceKey({ username: 'Viewer' })).toBe('login:viewer');
+    });
+  });
+
+  describe('permissions', () => {
+    it('should require voice selection to be on', () => {
+      expect(canChooseVoice(message, settings.viewerVoices)).toBe(true);
+      expect(canChooseVoice(message, { ...settings.viewerVoices, enabled: false })).toBe(false);
+    });
+
+    it('should restrict voice selection to subscribers when configured', () => {
+      const subscribersOnly = { ...settings.viewerVoices, permission: 'subscriber' as const };
+      expect(canChooseVoice(message, subscribersOnly)).toBe(false);
+      expect(canChooseVoice({ ...message, badges: ['subscriber'] }, subscribersOnly)).toBe(true);
+      expect(canChooseVoice({ ...message, badges: ['moderator'] }, subscribersOnly)).toBe(true);
+    });
+  });
+
+  describe('resolveUserVoice', () => {
+    it('should resolve a saved voice, rate and pitch', () => {
+      settings.userVoices = { 'user-1': { voiceName: 'Daniel', rate: 1.5, pitch: 0.5 } };
+
+      const resolved = resolveUserVoice(message, settings, voices);
+      expect(resolved?.voice?.name).toBe('Daniel');
+      expect(resolved?.rate).toBe(1.5);
+      expect(resolved?.pitch).toBe(0.5);
+    });
+
+    it('should ignore saved voices when the viewer may not choose one', () => {
+      settings.userVoices = { 'user-1': { voiceName: 'Daniel' } };
+      settings.viewerVoices = { ...settings.viewerVoices, permission: 'subscriber' };
+
+      expect(resolveUserVoice(message, settings, voices)).toBeNull();
+    });
+
+    it('should drop a saved voice that is no longer allowed', () => {
+      settings.userVoices = { 'user-1': { voiceName: 'Daniel', rate: 1.5 } };
+      settings.viewerVoices = { ...settings.viewerVoices, allowedVoices: ['Satu'] };
+
+      const resolved = resolveUserVoice(message, settings, voices);
+      expect(resolved?.voice).toBeUndefined();
+      expect(resolved?.rate).toBe(1.5);
+    });
+  });
+
+  describe('executeVoiceCommand', () => {
+    let actions: VoiceCommandActions;
+
+    beforeEach(() => {
+      actions = { setUserVoice: vi.fn() };
+    });
+
+    it('should list numbered voices', () => {
+      const reply = executeVoiceCommand({ type: 'list' }, message, settings, voices, actions);
+      expect(reply).toBe('Voices: 1. Samantha, 2. Daniel, 3. Satu');
+    });
+
+    it('should number only allowed voices', () => {
+      settings.viewerVoices = { ...settings.viewerVoices, allowedVoices: ['Satu'] };
+
+      expect(executeVoiceCommand({ type: 'list' }, message, settings, voices, actions)).toBe('Voices: 1. Satu');
+      expect(executeVoiceCommand({ type: 'select', query: '1' }, message, settings, voices, actions)).toBe('Your voice is now Satu');
+    });
+
+    it('should save the chosen voice with clamped rate and pitch', () => {
+      const reply = executeVoiceCommand(
+        { type: 'select', query: 'daniel', rate: 5, pitch: -1 },
+        message,
+        settings,
+        voices,
+        actions
+      );
+
+      expect(reply).toBe('Your voice is now Daniel');
+      expect(actions.setUserVoice).toHaveBeenCalledWith('user-1', { voiceName: 'Daniel', rate: 2, pitch: 0 });
+    });
+
+    it('should not save an unknown voice', () => {
+      const reply = executeVoiceCommand({ type: 'select', query: 'Robot' }, message, settings, voices, actions);
+
+      expect(reply).toContain('No voice matches "Robot"');
+      expect(actions.setUserVoice).not.toHaveBeenCalled();
+    });
+
+    it('should reset the viewer\'s voice', () => {
+      expect(executeVoiceCommand({ type: 'reset' }, message, settings, voices, actions)).toBe('Your voice was reset');
+      expect(actions.setUserVoice).toHaveBeenCalledWith('user-1', null);
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should save and load user voices', () => {
+      saveUserVoices({ 'user-1': { voiceName: 'Satu' } });
+      expect(loadUserVoices()).toEqual({ 'user-1': { voiceName: 'Satu' } });
+    });
+
+    it('should start empty when the stored value is unreadable', () => {
+      localStorage.setItem(USER_VOICES_STORAGE_KEY, '{not json');
+      expect(loadUserVoices()).toEqual({});
+    });
+  });
+});
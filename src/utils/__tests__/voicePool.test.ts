@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_VOICE_POOL_SETTINGS,
+  assignPoolVoice,
+  getPoolVoices,
+  hashString
+} from '../voicePool';
+import type { TTSVoice, VoicePoolSettings } from '../../types';
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha' },
+  { name: 'Daniel', lang: 'en-GB', voiceURI: 'daniel', default: true },
+  { name: 'Karen', lang: 'en-AU', voiceURI: 'karen' },
+  { name: 'Satu', lang: 'fi-FI', voiceURI: 'satu' },
+  { name: 'Offline voice', lang: 'en-US', voiceURI: 'fallback-low', engine: 'fallback' },
+] as TTSVoice[];
+
+const englishVoices = voices.slice(0, 3);
+
+const pool: VoicePoolSettings = { enabled: true, voices: [], rateSpread: 0.2, pitchSpread: 0.2 };
+
+describe('voicePool', () => {
+  describe('hashString', () => {
+    it('should hash the same text the same way every time', () => {
+      expect(hashString('12345')).toBe(hashString('12345'));
+      expect(hashString('12345')).not.toBe(hashString('12346'));
+    });
+
+    it('should return an unsigned 32-bit number', () => {
+      const hash = hashString('a much longer user name');
+
+      expect(Number.isInteger(hash)).toBe(true);
+      expect(hash).toBeGreaterThanOrEqual(0);
+      expect(hash).toBeLessThan(2 ** 32);
+    });
+  });
+
+  describe('getPoolVoices', () => {
+    it('should use the default voice\'s engine and language when the pool is empty', () => {
+      expect(getPoolVoices(voices, pool).map(voice => voice.name)).toEqual(['Daniel', 'Karen', 'Samantha']);
+      expect(getPoolVoices(voices, pool, voices[3]).map(voice => voice.name)).toEqual(['Satu']);
+      expect(getPoolVoices(voices, pool, voices[4]).map(voice => voice.name)).toEqual(['Offline voice']);
+      expect(getPoolVoices([], pool)).toEqual([]);
+    });
+
+    it('should sort the pool whatever order voices load in', () => {
+      expect(getPoolVoices([...voices].reverse(), pool)).toEqual(getPoolVoices(voices, pool));
+    });
+
+    it('should skip pool voices that are not available', () => {
+      const result = getPoolVoices(voices, { ...pool, voices: ['Satu', 'Missing'] });
+
+      expect(result.map(voice => voice.name)).toEqual(['Satu']);
+    });
+  });
+
+  describe('assignPoolVoice', () => {
+    it('should do nothing while the pool is off', () => {
+      expect(assignPoolVoice({ userId: '1', username: 'a' }, DEFAULT_VOICE_POOL_SETTINGS, voices)).toBeNull();
+    });
+
+    it('should give a chatter the same voice and offsets every time', () => {
+      const first = assignPoolVoice({ userId: '42', username: 'viewer' }, pool, voices);
+      const again = assignPoolVoice({ userId: '42', username: 'renamed' }, pool, voices);
+
+      expect(first).toEqual(again);
+      expect(englishVoices).toContain(first?.voice);
+    });
+
+    it('should keep a chatter\'s voice when more voices load later', () => {
+      const chatters = Array.from({ length: 30 }, (_, i) => ({ userId: `user-${i}`, username: 'x' }));
+      const webSpeechOnly = voices.filter(voice => voice.engine !== 'fallback');
+      const before = chatters.map(chatter => assignPoolVoice(chatter, pool, webSpeechOnly)?.voice);
+
+      // HTTP voices arrive after the browser's, and the browser lists its voices in a new order
+      const httpVoices = [
+        { name: 'Server voice', lang: 'en-US', voiceURI: 'server', engine: 'http' },
+      ] as TTSVoice[];
+      const after = chatters.map(chatter => assignPoolVoice(chatter, pool, [...[...voices].reverse(), ...httpVoices])?.voice);
+
+      expect(after).toEqual(before);
+    });
+
+    it('should move only a few chatters when a voice of the pool\'s language loads later', () => {
+      const chatters = Array.from({ length: 60 }, (_, i) => ({ userId: `user-${i}`, username: 'x' }));
+      const before = chatters.map(chatter => assignPoolVoice(chatter, pool, voices)?.voice?.name);
+
+      const lateVoice = { name: 'Moira', lang: 'en-IE', voiceURI: 'moira' } as TTSVoice;
+      const after = chatters.map(chatter => assignPoolVoice(chatter, pool, [...voices, lateVoice])?.voice?.name);
+
+      after.forEach((name, i) => {
+        expect([before[i], 'Moira']).toContain(name);
+      });
+      expect(after.filter((name, i) => name !== before[i]).length).toBeLessThan(chatters.length / 2);
+    });
+
+    it('should spread chatters across the pool', () => {
+      const names = new Set(
+        Array.from({ length: 30 }, (_, i) => assignPoolVoice({ userId: `user-${i}`, username: 'x' }, pool, voices)?.voice?.name)
+      );
+
+      expect(names.size).toBe(englishVoices.length);
+    });
+
+    it('should keep offsets within the spread', () => {
+      for (let i = 0; i < 30; i++) {
+        const result = assignPoolVoice({ userId: `user-${i}`, username: 'x' }, pool, voices);
+
+        expect(Math.abs(result!.rateOffset)).toBeLessThanOrEqual(0.2);
+        expect(Math.abs(result!.pitchOffset)).toBeLessThanOrEqual(0.2);
+      }
+    });
+
+    it('should not offset rate or pitch without a spread', () => {
+      const result = assignPoolVoice({ userId: '42', username: 'viewer' }, { ...pool, rateSpread: 0, pitchSpread: 0 }, voices);
+
+      expect(Math.abs(result!.rateOffset)).toBe(0);
+      expect(Math.abs(result!.pitchOffset)).toBe(0);
+    });
+
+    it('should still offset rate and pitch when no pool voice is available', () => {
+      const result = assignPoolVoice({ userId: '42', username: 'viewer' }, { ...pool, voices: ['Missing'] }, voices);
+
+      expect(result?.voice).toBeUndefined();
+      expect(result).toHaveProperty('rateOffset');
+    });
+  });
+});
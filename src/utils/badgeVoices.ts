@@ -0,0 +1,94 @@
+import type {
+  BadgeVoiceProfile,
+  BadgeVoiceSettings,
+  ChatMessage,
+  TTSVoice,
+  VoiceProfileBadge,
+} from '../types';
+import { hasPermissionBadge } from './chatCommands';
+
+/**
+ * Labels for each badge with a voice profile
+ */
+export const BADGE_LABELS: Record<VoiceProfileBadge, string> = {
+  broadcaster: 'Broadcaster',
+  moderator: 'Moderator',
+  vip: 'VIP',
+  subscriber: 'Subscriber',
+};
+
+/**
+ * Every badge starts with an empty, disabled profile, most privileged first
+ */
+export const DEFAULT_BADGE_VOICE_SETTINGS: BadgeVoiceSettings = {
+  enabled: false,
+  profiles: [
+    { badge: 'broadcaster', enabled: false },
+    { badge: 'moderator', enabled: false },
+    { badge: 'vip', enabled: false },
+    { badge: 'subscriber', enabled: false },
+  ],
+};
+
+/**
+ * Find the first enabled profile, in priority order, for a badge the chatter wears
+ * Requirements: 3.1
+ */
+export function findBadgeProfile(
+  badges: string[],
+  badgeVoices: BadgeVoiceSettings
+): BadgeVoiceProfile | undefined {
+  if (!badgeVoices.enabled) {
+    return undefined;
+  }
+
+  return badgeVoices.profiles.find((profile) => profile.enabled && hasPermissionBadge(badges, profile.badge));
+}
+
+/**
+ * Resolve the voice, prosody and prefix phrase for a message from the chatter's badges
+ * Returns null when badge voices are off or no profile matches
+ * A profile voice that is no longer available falls back to the streamer's voice
+ * Requirements: 3.1
+ */
+export function resolveBadgeVoice(
+  message: Pick<ChatMessage, 'badges'>,
+  badgeVoices: BadgeVoiceSettings,
+  voices: TTSVoice[]
+): { voice?: TTSVoice; rate?: number; pitch?: number; volume?: number; prefix?: string } | null {
+  const profile = findBadgeProfile(message.badges, badgeVoices);
+  if (!profile) {
+    return null;
+  }
+
+  const voice = profile.voiceName
+    ? voices.find((candidate) => candidate.name === profile.voiceName)
+    : undefined;
+
+  return {
+    voice,
+    rate: profile.rate,
+    pitch: profile.pitch,
+    volume: profile.volume,
+    prefix: profile.prefix?.trim() || undefined,
+  };
+}
+
+/**
+ * Move a profile up or down the priority order
+ */
+export function moveBadgeProfile(
+  profiles: BadgeVoiceProfile[],
+  badge: VoiceProfileBadge,
+  direction: -1 | 1
+): BadgeVoiceProfile[] {
+  const index = profiles.findIndex((profile) => profile.badge === badge);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= profiles.length) {
+    return profiles;
+  }
+
+  const reordered = [...profiles];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
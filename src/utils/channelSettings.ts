@@ -0,0 +1,42 @@
+import type { ChannelTTSSettings, TTSSettings } from '../types';
+
+/**
+ * Resolve the effective TTS settings for a channel by applying its overrides
+ * Channels without an entry use the global settings unchanged
+ * Requirements: 3.1, 6.1
+ */
+export function resolveChannelSettings(settings: TTSSettings, channel: string | undefined): TTSSettings {
+  const channelSettings = channel ? settings.channelSettings[channel] : undefined;
+
+  if (!channelSettings) {
+    return settings;
+  }
+
+  return {
+    ...settings,
+    enabled: settings.enabled && channelSettings.enabled,
+    voice: channelSettings.voice ?? settings.voice,
+    volume: channelSettings.volume ?? settings.volume,
+    filterBots: channelSettings.filterBots ?? settings.filterBots,
+    minMessageLength: channelSettings.minMessageLength ?? settings.minMessageLength,
+    blockedUsers: channelSettings.blockedUsers
+      ? [...settings.blockedUsers, ...channelSettings.blockedUsers]
+      : settings.blockedUsers,
+    skipEmoteOnly: channelSettings.skipEmoteOnly ?? settings.skipEmoteOnly,
+  };
+}
+
+/**
+ * Merge changes into a channel's overrides, channels without overrides start from an enabled channel
+ * Requirements: 3.1, 6.1
+ */
+export function mergeChannelSettings(
+  settings: TTSSettings,
+  channel: string,
+  changes: Partial<ChannelTTSSettings>
+): Record<string, ChannelTTSSettings> {
+  return {
+    ...settings.channelSettings,
+    [channel]: { ...(settings.channelSettings[channel] ?? { enabled: true }), ...changes },
+  };
+}
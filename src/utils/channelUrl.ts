@@ -0,0 +1,53 @@
+/**
+ * Twitch login names: 1-25 characters of letters, digits and underscores
+ */
+const CHANNEL_NAME_PATTERN = /^[a-z0-9_]{1,25}$/;
+
+/**
+ * Normalize a channel name typed by a user ("#HuikkaKoodaa" -> "huikkakoodaa")
+ */
+export function normalizeChannelName(channel: string): string {
+  return channel.trim().toLowerCase().replace(/^#/, '');
+}
+
+/**
+ * Check whether a normalized channel name is a valid Twitch login
+ */
+export function isValidChannelName(channel: string): boolean {
+  return CHANNEL_NAME_PATTERN.test(channel);
+}
+
+/**
+ * Read the channels from a `?channel=` query parameter, comma separated for several channels
+ * Invalid names are ignored, returns null when no valid channel is given
+ * Requirements: 1.1
+ */
+export function getChannelsFromSearch(search: string): string[] | null {
+  const param = new URLSearchParams(search).get('channel');
+  if (!param) {
+    return null;
+  }
+
+  const channels = param
+    .split(',')
+    .map(normalizeChannelName)
+    .filter(isValidChannelName);
+
+  return channels.length > 0 ? Array.from(new Set(channels)) : null;
+}
+
+/**
+ * Build a URL with the `?channel=` query parameter set to the given channels
+ * Other query parameters and the hash are kept
+ */
+export function buildChannelUrl(href: string, channels: string[]): string {
+  const url = new URL(href);
+
+  if (channels.length > 0) {
+    url.searchParams.set('channel', channels.join(','));
+  } else {
+    url.searchParams.delete('channel');
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,249 @@
+import type {
+  ChatCommand,
+  ChatCommandName,
+  CommandPermission,
+  TTSSettings,
+} from '../types';
+import { mergeChannelSettings } from './channelSettings';
+import { parseNicknameArgs, setNickname } from './nicknames';
+
+/**
+ * Every chat message starting with this prefix is a command and never spoken
+ */
+export const COMMAND_PREFIX = '!tts';
+
+export const CHAT_COMMAND_NAMES: ChatCommandName[] = [
+  'skip', 'clear', 'pause', 'resume', 'on', 'off', 'volume', 'block', 'nick'
+];
+
+/**
+ * Commands that control the one player shared by every joined channel rather than a single channel
+ */
+export const SESSION_COMMANDS: ChatCommandName[] = ['pause', 'resume'];
+
+/**
+ * Permission levels from least to most privileged
+ */
+export const COMMAND_PERMISSIONS: CommandPermission[] = [
+  'everyone', 'subscriber', 'vip', 'moderator', 'broadcaster'
+];
+
+/**
+ * Broadcaster, moderators and VIPs can use every command by default
+ */
+export const DEFAULT_COMMAND_PERMISSIONS: Record<ChatCommandName, CommandPermission> = {
+  skip: 'vip',
+  clear: 'vip',
+  pause: 'vip',
+  resume: 'vip',
+  on: 'vip',
+  off: 'vip',
+  volume: 'vip',
+  block: 'vip',
+  nick: 'vip',
+};
+
+/**
+ * Badges that grant each permission level, founders count as subscribers
+ */
+const PERMISSION_BADGES: Record<CommandPermission, string[]> = {
+  everyone: [],
+  subscriber: ['subscriber', 'founder'],
+  vip: ['vip'],
+  moderator: ['moderator'],
+  broadcaster: ['broadcaster'],
+};
+
+/**
+ * Labels for each permission level
+ */
+export const PERMISSION_LABELS: Record<CommandPermission, string> = {
+  everyone: 'Everyone',
+  subscriber: 'Subscribers',
+  vip: 'VIPs',
+  moderator: 'Moderators',
+  broadcaster: 'Broadcaster',
+};
+
+/**
+ * Describe who a permission level lets in, e.g. "VIPs and up"
+ */
+export function formatPermission(permission: CommandPermission): string {
+  return permission === 'everyone' || permission === 'broadcaster'
+    ? PERMISSION_LABELS[permission]
+    : `${PERMISSION_LABELS[permission]} and up`;
+}
+
+/**
+ * Check whether a chat message is a `!tts` command, known or not
+ * Requirements: 4.3
+ */
+export function isChatCommand(text: string): boolean {
+  const trimmed = text.trim().toLowerCase();
+  return trimmed === COMMAND_PREFIX || trimmed.startsWith(`${COMMAND_PREFIX} `);
+}
+
+/**
+ * Parse a `!tts <command> [args]` message, returns null for other messages and unknown commands
+ * Requirements: 4.3
+ */
+export function parseChatCommand(text: string): ChatCommand | null {
+  if (!isChatCommand(text)) {
+    return null;
+  }
+
+  const [, name, ...args] = text.trim().split(/\s+/);
+  const commandName = name?.toLowerCase() as ChatCommandName;
+
+  if (!CHAT_COMMAND_NAMES.includes(commandName)) {
+    return null;
+  }
+
+  return { name: commandName, args };
+}
+
+/**
+ * Check whether a user wears a badge for exactly this permission level, founders count as subscribers
+ */
+export function hasPermissionBadge(badges: string[], permission: CommandPermission): boolean {
+  return PERMISSION_BADGES[permission].some((badge) => badges.includes(badge));
+}
+
+/**
+ * Get the highest permission level granted by a user's badges
+ * Requirements: 6.1
+ */
+export function getPermissionLevel(badges: string[]): CommandPermission {
+  for (let index = COMMAND_PERMISSIONS.length - 1; index > 0; index--) {
+    const permission = COMMAND_PERMISSIONS[index];
+    if (hasPermissionBadge(badges, permission)) {
+      return permission;
+    }
+  }
+
+  return 'everyone';
+}
+
+/**
+ * Check whether a user's badges meet a required permission level
+ * Requirements: 6.1
+ */
+export function hasCommandPermission(badges: string[], required: CommandPermission): boolean {
+  return COMMAND_PERMISSIONS.indexOf(getPermissionLevel(badges)) >= COMMAND_PERMISSIONS.indexOf(required);
+}
+
+/**
+ * The channel that owns the session: the logged in account's channel, or the only joined channel
+ * Null when several channels are joined anonymously, then no channel can control the shared player
+ * Requirements: 6.1
+ */
+export function getSessionChannel(username: string | null, channels: string[]): string | null {
+  if (username) {
+    return username.toLowerCase();
+  }
+
+  return channels.length === 1 ? channels[0].toLowerCase() : null;
+}
+
+/**
+ * Check whether a command may be run from a channel
+ * Commands for the shared player are only taken from the session's own channel
+ * Requirements: 6.1
+ */
+export function isCommandAllowedInChannel(
+  name: ChatCommandName,
+  channel: string,
+  sessionChannel: string | null
+): boolean {
+  return !SESSION_COMMANDS.includes(name) || channel.toLowerCase() === sessionChannel;
+}
+
+/**
+ * Actions a chat command can perform
+ */
+export interface ChatCommandActions {
+  skip: (channel: string) => boolean; // Only skips a message from the channel
+  clear: (channel: string) => void; // Only the channel's waiting messages
+  pause: () => void;
+  resume: () => void;
+  updateSettings: (settings: Partial<TTSSettings>) => void;
+  removeMessagesByUser: (username: string, channel?: string) => number; // Every channel when no channel is given
+}
+
+/**
+ * Run a chat command sent in a channel and return a short acknowledgement to post back to chat
+ * Moderators and VIPs of one channel only act on that channel: skip, clear, on, off and volume
+ * change its messages and its channel settings, never the other joined channels
+ * Requirements: 3.1, 4.3, 6.1
+ */
+export function executeChatCommand(
+  command: ChatCommand,
+  channel: string,
+  settings: TTSSettings,
+  actions: ChatCommandActions
+): string {
+  switch (command.name) {
+    case 'skip':
+      return actions.skip(channel) ? 'Skipped' : 'Nothing to skip';
+
+    case 'clear':
+      actions.clear(channel);
+      return 'Queue cleared';
+
+    case 'pause':
+      actions.pause();
+      return 'TTS paused';
+
+    case 'resume':
+      actions.resume();
+      return 'TTS resumed';
+
+    case 'on':
+      actions.updateSettings({ channelSettings: mergeChannelSettings(settings, channel, { enabled: true }) });
+      return settings.enabled ? 'TTS is now on' : 'TTS is on for this channel but switched off in the app';
+
+    case 'off':
+      actions.updateSettings({ channelSettings: mergeChannelSettings(settings, channel, { enabled: false }) });
+      actions.clear(channel);
+      return 'TTS is now off';
+
+    case 'volume': {
+      const volume = parseFloat(command.args[0]);
+      if (isNaN(volume) || volume < 0 || volume > 1) {
+        return 'Usage: !tts volume 0.5 (between 0 and 1)';
+      }
+
+      actions.updateSettings({ channelSettings: mergeChannelSettings(settings, channel, { volume }) });
+      return `Volume set to ${Math.round(volume * 100)}%`;
+    }
+
+    case 'block': {
+      const username = (command.args[0] || '').replace(/^@/, '').toLowerCase();
+      if (!username) {
+        return 'Usage: !tts block username';
+      }
+
+      if (!settings.blockedUsers.includes(username)) {
+        actions.updateSettings({ blockedUsers: [...settings.blockedUsers, username] });
+      }
+      // Blocked users are muted in every joined channel, so their waiting messages go from every channel too
+      actions.removeMessagesByUser(username);
+      return `${username} will not be read`;
+    }
+
+    case 'nick': {
+      const [target = '', ...nameArgs] = command.args;
+      const username = target.replace(/^@/, '').toLowerCase();
+      if (!username) {
+        return 'Usage: !tts nick username "Nickname"';
+      }
+
+      const nickname = parseNicknameArgs(nameArgs);
+      actions.updateSettings({ nicknames: setNickname(settings.nicknames, username, nickname) });
+      return nickname ? `${username} will be read as "${nickname}"` : `${username} has no nickname`;
+    }
+
+    default:
+      return 'Unknown command';
+  }
+}
@@ -0,0 +1,76 @@
+import type { EmoteSpeechAction, EmoteSpeechRule, MessageFragment } from '../types';
+import { countRepeatedName, getEmojiLanguage } from './normalizers/emoji';
+
+/**
+ * Find the speech rule for an emote name (emote names are case-sensitive)
+ */
+export function findEmoteRule(
+  emoteName: string,
+  rules: EmoteSpeechRule[]
+): EmoteSpeechRule | undefined {
+  return rules.find((rule) => rule.emote === emoteName);
+}
+
+/**
+ * Get the words spoken for a single emote occurrence
+ */
+function speakEmote(emoteName: string, action: EmoteSpeechAction, phrase?: string): string {
+  switch (action) {
+    case 'name':
+    case 'collapse':
+      return emoteName;
+    case 'phrase':
+      return phrase?.trim() || emoteName;
+    case 'drop':
+    default:
+      return '';
+  }
+}
+
+/**
+ * Turn message fragments into speakable text using the emote speech table
+ * Emotes without a rule use the default action, collapsed counts are read in the message's language
+ * Requirements: 2.4
+ */
+export function renderFragmentsForSpeech(
+  fragments: MessageFragment[],
+  rules: EmoteSpeechRule[],
+  defaultAction: EmoteSpeechAction,
+  language?: string
+): string {
+  const parts: string[] = [];
+
+  for (let index = 0; index < fragments.length; index++) {
+    const fragment = fragments[index];
+
+    if (fragment.type === 'text') {
+      parts.push(fragment.text);
+      continue;
+    }
+
+    const rule = findEmoteRule(fragment.text, rules);
+    const action = rule?.action ?? defaultAction;
+
+    if (action !== 'collapse') {
+      // Pad emotes so they never merge with neighbouring words
+      parts.push(` ${speakEmote(fragment.text, action, rule?.phrase)} `);
+      continue;
+    }
+
+    // Count the same emote repeated back to back, separated only by whitespace
+    let count = 1;
+    while (
+      fragments[index + 1]?.type === 'text' &&
+      !fragments[index + 1].text.trim() &&
+      fragments[index + 2]?.type === 'emote' &&
+      fragments[index + 2].text === fragment.text
+    ) {
+      count++;
+      index += 2;
+    }
+
+    parts.push(` ${countRepeatedName(speakEmote(fragment.text, action), count, getEmojiLanguage(language))} `);
+  }
+
+  return parts.join('');
+}
@@ -0,0 +1,412 @@
+/**
+ * A small rule-based formant synthesizer used when the browser has no speech voices
+ * Text is turned into phonemes with simple English spelling rules, then each phoneme is
+ * rendered by filtering a glottal pulse train or noise through formant resonators
+ * The result is robotic but intelligible, and needs nothing but Web Audio to play
+ */
+
+/**
+ * How a phoneme is produced
+ */
+type PhonemeKind = 'vowel' | 'voiced' | 'fricative' | 'voicedFricative' | 'stop' | 'voicedStop' | 'pause';
+
+interface Phoneme {
+  kind: PhonemeKind;
+  formants: [number, number, number]; // F1-F3 in Hz
+  duration: number; // Milliseconds at normal rate
+  amplitude: number; // Relative loudness, vowels are 1
+  noise?: number; // Center frequency of the frication noise in Hz
+}
+
+/**
+ * Formant targets for each phoneme, roughly following Peterson and Barney
+ */
+const PHONEMES: Record<string, Phoneme> = {
+  // Vowels
+  aa: { kind: 'vowel', formants: [730, 1090, 2440], duration: 120, amplitude: 1 },
+  ae: { kind: 'vowel', formants: [660, 1720, 2410], duration: 110, amplitude: 1 },
+  eh: { kind: 'vowel', formants: [530, 1840, 2480], duration: 95, amplitude: 1 },
+  iy: { kind: 'vowel', formants: [270, 2290, 3010], duration: 110, amplitude: 0.9 },
+  ih: { kind: 'vowel', formants: [390, 1990, 2550], duration: 85, amplitude: 0.9 },
+  ao: { kind: 'vowel', formants: [570, 840, 2410], duration: 120, amplitude: 1 },
+  uw: { kind: 'vowel', formants: [300, 870, 2240], duration: 110, amplitude: 0.9 },
+  ah: { kind: 'vowel', formants: [640, 1190, 2390], duration: 85, amplitude: 1 },
+  er: { kind: 'vowel', formants: [490, 1350, 1690], duration: 120, amplitude: 0.9 },
+  ax: { kind: 'vowel', formants: [500, 1500, 2500], duration: 60, amplitude: 0.8 },
+
+  // Nasals and approximants
+  m: { kind: 'voiced', formants: [280, 900, 2200], duration: 70, amplitude: 0.5 },
+  n: { kind: 'voiced', formants: [280, 1700, 2600], duration: 65, amplitude: 0.5 },
+  ng: { kind: 'voiced', formants: [280, 2300, 2750], duration: 70, amplitude: 0.5 },
+  l: { kind: 'voiced', formants: [360, 1300, 2700], duration: 65, amplitude: 0.6 },
+  r: { kind: 'voiced', formants: [420, 1300, 1600], duration: 65, amplitude: 0.6 },
+  w: { kind: 'voiced', formants: [300, 610, 2200], duration: 60, amplitude: 0.6 },
+  y: { kind: 'voiced', formants: [260, 2070, 3020], duration: 60, amplitude: 0.6 },
+
+  // Fricatives
+  s: { kind: 'fricative', formants: [320, 1390, 2530], duration: 100, amplitude: 0.35, noise: 5500 },
+  sh: { kind: 'fricative', formants: [300, 1840, 2750], duration: 100, amplitude: 0.35, noise: 2800 },
+  f: { kind: 'fricative', formants: [340, 1100, 2080], duration: 90, amplitude: 0.2, noise: 6500 },
+  th: { kind: 'fricative', formants: [320, 1290, 2540], duration: 90, amplitude: 0.15, noise: 5000 },
+  hh: { kind: 'fricative', formants: [500, 1500, 2500], duration: 60, amplitude: 0.25, noise: 1500 },
+  z: { kind: 'voicedFricative', formants: [240, 1390, 2530], duration: 80, amplitude: 0.35, noise: 5500 },
+  zh: { kind: 'voicedFricative', formants: [300, 1840, 2750], duration: 80, amplitude: 0.35, noise: 2800 },
+  v: { kind: 'voicedFricative', formants: [220, 1100, 2080], duration: 70, amplitude: 0.3, noise: 6500 },
+  dh: { kind: 'voicedFricative', formants: [270, 1290, 2540], duration: 60, amplitude: 0.3, noise: 5000 },
+
+  // Stops: a closure followed by a short burst
+  p: { kind: 'stop', formants: [400, 1100, 2150], duration: 80, amplitude: 0.3, noise: 900 },
+  t: { kind: 'stop', formants: [400, 1600, 2600], duration: 80, amplitude: 0.3, noise: 4000 },
+  k: { kind: 'stop', formants: [300, 1990, 2850], duration: 80, amplitude: 0.3, noise: 2200 },
+  b: { kind: 'voicedStop', formants: [200, 1100, 2150], duration: 65, amplitude: 0.3, noise: 900 },
+  d: { kind: 'voicedStop', formants: [200, 1600, 2600], duration: 65, amplitude: 0.3, noise: 4000 },
+  g: { kind: 'voicedStop', formants: [200, 1990, 2850], duration: 65, amplitude: 0.3, noise: 2200 },
+
+  // Silence between words and at punctuation
+  _: { kind: 'pause', formants: [500, 1500, 2500], duration: 60, amplitude: 0 },
+  __: { kind: 'pause', formants: [500, 1500, 2500], duration: 250, amplitude: 0 },
+};
+
+/**
+ * Spelling rules tried longest first, each maps letters to phonemes
+ */
+const SPELLING_RULES: [string, string[]][] = [
+  ['tch', ['t', 'sh']],
+  ['igh', ['aa', 'iy']],
+  ['ough', ['ao']],
+  ['tion', ['sh', 'ax', 'n']],
+  ['sh', ['sh']],
+  ['ch', ['t', 'sh']],
+  ['th', ['th']],
+  ['ph', ['f']],
+  ['wh', ['w']],
+  ['ck', ['k']],
+  ['ng', ['ng']],
+  ['qu', ['k', 'w']],
+  ['ee', ['iy']],
+  ['ea', ['iy']],
+  ['oo', ['uw']],
+  ['ou', ['aa', 'uw']],
+  ['ow', ['aa', 'uw']],
+  ['ai', ['eh', 'iy']],
+  ['ay', ['eh', 'iy']],
+  ['ey', ['eh', 'iy']],
+  ['oi', ['ao', 'iy']],
+  ['oy', ['ao', 'iy']],
+  ['oa', ['ao', 'uw']],
+  ['au', ['ao']],
+  ['aw', ['ao']],
+  ['er', ['er']],
+  ['ir', ['er']],
+  ['ur', ['er']],
+  ['ar', ['aa', 'r']],
+  ['or', ['ao', 'r']],
+  ['a', ['ae']],
+  ['e', ['eh']],
+  ['i', ['ih']],
+  ['o', ['aa']],
+  ['u', ['ah']],
+  ['y', ['ih']],
+  ['b', ['b']],
+  ['c', ['k']],
+  ['d', ['d']],
+  ['f', ['f']],
+  ['g', ['g']],
+  ['h', ['hh']],
+  ['j', ['d', 'zh']],
+  ['k', ['k']],
+  ['l', ['l']],
+  ['m', ['m']],
+  ['n', ['n']],
+  ['p', ['p']],
+  ['r', ['r']],
+  ['s', ['s']],
+  ['t', ['t']],
+  ['v', ['v']],
+  ['w', ['w']],
+  ['x', ['k', 's']],
+  ['z', ['z']],
+];
+
+/**
+ * Long vowels used when a word ends in a silent "e", as in "make" or "time"
+ */
+const LONG_VOWELS: Record<string, string[]> = {
+  a: ['eh', 'iy'],
+  e: ['iy'],
+  i: ['aa', 'iy'],
+  o: ['ao', 'uw'],
+  u: ['y', 'uw'],
+};
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+/**
+ * Common short words whose spelling rules go wrong
+ */
+const WORD_PHONEMES: Record<string, string[]> = {
+  the: ['dh', 'ax'],
+  a: ['ax'],
+  to: ['t', 'uw'],
+  do: ['d', 'uw'],
+  you: ['y', 'uw'],
+  i: ['aa', 'iy'],
+  is: ['ih', 'z'],
+  was: ['w', 'ah', 'z'],
+  of: ['ah', 'v'],
+  one: ['w', 'ah', 'n'],
+  two: ['t', 'uw'],
+  are: ['aa', 'r'],
+  have: ['hh', 'ae', 'v'],
+  said: ['s', 'eh', 'd'],
+  says: ['s', 'eh', 'z'],
+  what: ['w', 'ah', 't'],
+  lol: ['l', 'ao', 'l'],
+};
+
+/**
+ * Convert a single lowercase word to phonemes
+ */
+export function wordToPhonemes(word: string): string[] {
+  if (WORD_PHONEMES[word]) {
+    return [...WORD_PHONEMES[word]];
+  }
+
+  // Magic "e": a vowel, one consonant and a final silent e
+  let letters = word;
+  let longVowelIndex = -1;
+  const magicE = /([aeiou])[bcdfgklmnprstvz]e$/.exec(letters);
+  if (magicE && letters.length > 3) {
+    longVowelIndex = magicE.index;
+    letters = letters.slice(0, -1);
+  } else if (letters.length > 2 && letters.endsWith('e') && !/[aeiouy]e$/.test(letters)) {
+    letters = letters.slice(0, -1);
+  }
+
+  const phonemes: string[] = [];
+  let index = 0;
+  while (index < letters.length) {
+    if (index === longVowelIndex) {
+      phonemes.push(...LONG_VOWELS[letters[index]]);
+      index++;
+      continue;
+    }
+
+    // "c" and "g" soften before e, i and y
+    const next = letters[index + 1];
+    if ((letters[index] === 'c' || letters[index] === 'g') && next && 'eiy'.includes(next)) {
+      phonemes.push(...(letters[index] === 'c' ? ['s'] : ['d', 'zh']));
+      index++;
+      continue;
+    }
+
+    // "y" starting a word is a consonant, ending one is a long "ee"
+    if (letters[index] === 'y') {
+      phonemes.push(index === 0 ? 'y' : index === letters.length - 1 ? 'iy' : 'ih');
+      index++;
+      continue;
+    }
+
+    const rule = SPELLING_RULES.find(([pattern]) => letters.startsWith(pattern, index));
+    if (!rule) {
+      index++;
+      continue;
+    }
+
+    // Doubled consonants are spoken once
+    const [pattern, sounds] = rule;
+    if (phonemes.length > 0 && sounds.length === 1 && phonemes[phonemes.length - 1] === sounds[0]
+      && PHONEMES[sounds[0]].kind !== 'vowel') {
+      index += pattern.length;
+      continue;
+    }
+
+    phonemes.push(...sounds);
+    index += pattern.length;
+  }
+
+  return phonemes;
+}
+
+/**
+ * A word's position in the text and in the rendered audio
+ */
+export interface SynthesisBoundary {
+  charIndex: number;
+  charLength: number;
+  time: number; // Seconds from the start of the audio
+}
+
+/**
+ * A phoneme to render with its duration already scaled by the speech rate
+ */
+interface Segment {
+  phoneme: Phoneme;
+  samples: number;
+}
+
+export interface SynthesisOptions {
+  sampleRate: number;
+  basePitch: number; // Fundamental frequency in Hz at pitch 1
+  rate: number; // 0.1-10, 1 is normal
+  pitch: number; // 0-2, 1 is normal
+  volume: number; // 0-1
+}
+
+export interface SynthesisResult {
+  samples: Float32Array;
+  boundaries: SynthesisBoundary[];
+}
+
+/**
+ * Split text into words with their character offsets, digits are spoken one by one
+ */
+function tokenize(text: string): { word: string; charIndex: number; charLength: number; pause: string | null }[] {
+  const tokens: { word: string; charIndex: number; charLength: number; pause: string | null }[] = [];
+  const pattern = /([a-z]+|\d)|([.!?;:]+)|(,)/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[1]) {
+      const word = /\d/.test(match[1]) ? DIGIT_WORDS[Number(match[1])] : match[1].toLowerCase();
+      tokens.push({ word, charIndex: match.index, charLength: match[1].length, pause: null });
+    } else if (tokens.length > 0) {
+      tokens[tokens.length - 1].pause = match[2] ? '__' : '_';
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Klatt-style two-pole resonator
+ */
+class Resonator {
+  private a = 0;
+  private b = 0;
+  private c = 0;
+  private y1 = 0;
+  private y2 = 0;
+  private sampleRate: number;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  public set(frequency: number, bandwidth: number): void {
+    const period = 1 / this.sampleRate;
+    this.c = -Math.exp(-2 * Math.PI * bandwidth * period);
+    this.b = 2 * Math.exp(-Math.PI * bandwidth * period) * Math.cos(2 * Math.PI * frequency * period);
+    this.a = 1 - this.b - this.c;
+  }
+
+  public process(input: number): number {
+    const output = this.a * input + this.b * this.y1 + this.c * this.y2;
+    this.y2 = this.y1;
+    this.y1 = output;
+    return output;
+  }
+}
+
+/**
+ * Render text to mono audio samples
+ */
+export function synthesize(text: string, options: SynthesisOptions): SynthesisResult {
+  const { sampleRate } = options;
+  const rate = Math.max(0.3, Math.min(3, options.rate));
+  const f0 = options.basePitch * (0.5 + Math.max(0, Math.min(2, options.pitch)) * 0.5);
+  const toSamples = (milliseconds: number) => Math.round((milliseconds / 1000) * sampleRate / rate);
+
+  // Build the phoneme sequence and remember where each word starts
+  const segments: Segment[] = [];
+  const boundaries: SynthesisBoundary[] = [];
+  let totalSamples = 0;
+
+  tokenize(text).forEach((token) => {
+    boundaries.push({ charIndex: token.charIndex, charLength: token.charLength, time: totalSamples / sampleRate });
+
+    [...wordToPhonemes(token.word), token.pause ?? '_'].forEach((name) => {
+      const phoneme = PHONEMES[name];
+      const samples = toSamples(phoneme.duration);
+      segments.push({ phoneme, samples });
+      totalSamples += samples;
+    });
+  });
+
+  const samples = new Float32Array(totalSamples);
+  const formants = [new Resonator(sampleRate), new Resonator(sampleRate), new Resonator(sampleRate)];
+  const noiseFilter = new Resonator(sampleRate);
+  const bandwidths = [70, 100, 160];
+
+  // Deterministic noise so the same text always sounds the same
+  let seed = 22222;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x3fffffff - 1;
+  };
+
+  let position = 0;
+  let phase = 0;
+  let previous: Phoneme = PHONEMES._;
+  let amplitude = 0;
+  const glide = toSamples(30);
+  const smoothing = 1 / Math.max(1, toSamples(12));
+
+  segments.forEach(({ phoneme, samples: length }) => {
+    const isStop = phoneme.kind === 'stop' || phoneme.kind === 'voicedStop';
+    const closure = isStop ? Math.round(length * 0.7) : 0;
+
+    for (let offset = 0; offset < length; offset++, position++) {
+      // Glide formants from the previous phoneme
+      const blend = Math.min(1, offset / Math.max(1, glide));
+      if (offset % 32 === 0) {
+        formants.forEach((resonator, index) => {
+          const frequency = previous.formants[index] + (phoneme.formants[index] - previous.formants[index]) * blend;
+          resonator.set(frequency, bandwidths[index]);
+        });
+        noiseFilter.set(phoneme.noise ?? 3000, (phoneme.noise ?? 3000) * 0.4);
+      }
+
+      // Pitch falls slightly over the whole utterance, like a statement
+      const pitch = f0 * (1.1 - 0.2 * (position / Math.max(1, totalSamples)));
+      phase += pitch / sampleRate;
+      if (phase >= 1) phase -= 1;
+      const glottal = phase < 0.6 ? Math.sin((Math.PI * phase) / 0.6) ** 2 - 0.3 : -0.3;
+
+      const inBurst = isStop && offset >= closure;
+      const isVoiced = phoneme.kind === 'vowel' || phoneme.kind === 'voiced'
+        || phoneme.kind === 'voicedFricative' || (phoneme.kind === 'voicedStop' && !inBurst);
+      const hasNoise = phoneme.kind === 'fricative' || phoneme.kind === 'voicedFricative' || inBurst;
+
+      // Stops are silent during the closure apart from a faint voice bar
+      const target = isStop && !inBurst
+        ? (phoneme.kind === 'voicedStop' ? 0.1 : 0)
+        : phoneme.amplitude;
+      amplitude += (target - amplitude) * smoothing;
+
+      let voiced = isVoiced ? glottal : 0;
+      formants.forEach((resonator) => {
+        voiced = resonator.process(voiced);
+      });
+      const hiss = noiseFilter.process(hasNoise ? noise() : 0);
+
+      samples[position] = amplitude * (voiced + hiss * (phoneme.kind === 'voicedFricative' ? 0.5 : 1));
+    }
+
+    previous = phoneme.kind === 'pause' ? previous : phoneme;
+  });
+
+  // Normalize to the requested volume
+  let peak = 0;
+  for (let index = 0; index < samples.length; index++) {
+    peak = Math.max(peak, Math.abs(samples[index]));
+  }
+  if (peak > 0) {
+    const gain = (0.9 * Math.max(0, Math.min(1, options.volume))) / peak;
+    for (let index = 0; index < samples.length; index++) {
+      samples[index] *= gain;
+    }
+  }
+
+  return { samples, boundaries };
+}
@@ -0,0 +1,197 @@
+import type { LanguageDetectionSettings, TTSVoice } from '../types';
+
+/**
+ * Most common character trigrams in each language, most frequent first
+ * Built from chat-style sample text with words padded by underscores, so "_th" means a word starting with "th"
+ */
+const TRIGRAM_PROFILES: Record<string, string> = {
+  en:
+    '_th the he_ is_ _yo you re_ ou_ ng_ me_ ing _to nd_ at_ _is _an her to_ hat _wa and thi er_ rea ' +
+    'ay_ _a_ _i_ _so it_ ere _ar are ame _fo _it _he _st ow_ ll_ tha ld_ _wh for _be _wi ne_ _we oul ' +
+    'uld his _go _ne ter ver ery one _pl hin _sh st_ _ga gam or_ _ch ut_ _wo _in igh ght ht_ eve all ' +
+    'was as_ nk_ hou ry_ out _lo wha id_ _ju _sa han _ha ice ce_ ill _ev yon ck_ str tre eam _al _do ' +
+    'pla lay we_ sho so_ _di jus ust _ca in_ ple ve_ ave wat cha _bu _se rt_ _of of_ on_ _ri wil th_ ' +
+    'wit ith ryo ome _ba _ho oin eat ink _tr oth rou _ti tim ime did can an_ se_ ood od_ ank hav en_ ' +
+    'atc tch chi el_ do_ nex ext xt_ mor orr _re eal ly_ _ni wou sta ins ch_ see ee_ _no et_ est _my ' +
+    'my_ _mu _vo _le rig har ard rd_ eep _me now le_ tte oun und ell llo wel com bac ack am_ how tod ' +
+    'oda day try _ot _ro ute te_ _fu',
+  fi:
+    'on_ tä_ ta_ aa_ en_ _ka in_ _se _tä itä än_ ist sta lä_ _on an_ _ja ja_ _mi llä taa ään tta _jo ' +
+    'lle le_ se_ _to tos _ki tää _pe pel _mu _pa ää_ aik isi _ol si_ _me itt äll _ha aan _mä mä_ maa ' +
+    'kai _te _ta ill _ku eli un_ stä oit ko_ _va kki ais mit oli osi _hy _pi pal mis ava _si _ih han ' +
+    'ikk sin iin tän li_ hyv iel est pit _ko lla iä_ _vo voi alj ljo jon iit att ääl na_ utt iha hta ' +
+    'all oi_ ki_ _st str kuu uul uu_ änä yvä la_ ois _ke ust _sa itk tko kii os_ kat kan vaa kaa sit ' +
+    'enn ia_ _nä ten ssa sa_ nä_ ell tai ee_ ulo oa_ tre rea eam ami tei eil luu mun mie ele is_ toi ' +
+    'tti hah ka_ _ju sen _uu kää ito seu eur ura raa _oo ton ana jo_ hdä atk liä _hu men nna mut oma ' +
+    '_vä lin par ara as_ koh oht sii _ma et_ iko _ää vai jot ote mal _ei ike nta _en kee een lta ukk ' +
+    'päi rjo joi ost lai len _mo vet',
+  sv:
+    'en_ et_ _de är_ det ar_ _oc och ch_ _är ag_ _va tt_ er_ den _ja jag ra_ att _hä här _fö för _ti ' +
+    '_st _sp spe pel an_ _du du_ ör_ _vä ka_ _al all ill var _så _sk ele let ara na_ til tre men _at ' +
+    '_vi vi_ gen _ha så_ _ka _ta _på på_ _in hop pa_ str år_ yck cke ord rde de_ _gå nge vad ad_ st_ ' +
+    'kan la_ ska itt tta kul _i_ ätt tte nt_ _me sta tar ta_ lle ter _kl lar _he lli lih iho opa väl ' +
+    'll_ rea eam _hu igt gt_ _bo bor _pr _sa ela låt ten tac ack ck_ tit len _se sen gon on_ int tan ' +
+    'ann _en us_ _bä äst ing sku ull le_ _hö kla rt_ _so lla _mi bar _ba llb lba bak aka ame hur ur_ ' +
+    '_ni ni_ _id ida dag _et ett _br bra _ty tyc ker ova va_ _an ha_ sa_ han _lå åte _ig ige _äl äls ' +
+    'lsk kar at_ ana ale _gö gör öra _ny _mo mor org rgo _jä jät nar hel re_ nne _dä där lt_ te_ cka ' +
+    '_pa pau aus bäs ant isk _hi nst',
+  de:
+    'en_ er_ ch_ ich st_ sch es_ nd_ _di und _da as_ die _un _wi ie_ ein _de _ge _sp _sc ach das iel ' +
+    '_ic der _wa ist hen _es te_ _ei spi pie den wir nde _is _du du_ che _st ute cht _ka _al cha _ma ' +
+    'ter ine _ha _zu mme el_ ir_ _we de_ ges lle ste _be all war _so ies was gen ese mac ung _me _na ' +
+    'nac men wie ht_ ar_ in_ tig ig_ _gu gut nke ke_ ere _er kan ann nst _li len le_ dan ank _fü für ' +
+    'hau aue ue_ ber ng_ ess sse ne_ mei bes rüc ück _im str tre rea eam am_ geh uch eut tes oll al_ ' +
+    '_an and _ne so_ sti ger era rad ade nns lie ieb ebe an_ ür_ cho hon on_ imm als ls_ _nä els rge ' +
+    'kli abe lei nen seh ehe _ve ver ser zu_ aus se_ est des ind nn_ man he_ _re _si ses um_ ede ben ' +
+    'esc ft_ ers _mi _se hr_ _bi bis _ch re_ ill omm zur urü ck_ im_ _eu euc _he heu sol llt lte ten ' +
+    'mal lus hat at_ sag gt_ ied ele',
+  es:
+    '_es _de el_ os_ est la_ _el es_ _y_ _la or_ as_ do_ _mu _a_ _qu _po de_ ue_ na_ _ca ndo te_ ien ' +
+    '_di to_ _un _ju can ra_ por _en _co _to al_ mo_ stá ría ar_ _ve ir_ des go_ _pe en_ _lo tod odo ' +
+    'dos _al da_ muy uy_ uen ena que mos _pr ro_ sta ta_ rac aci qué ué_ er_ _me ana ste _si per _mi ' +
+    'con _vo _ho evo vo_ rec is_ _fu fue ber no_ so_ _gr gra ued ón_ _pa cia gui _vi end _ha ora jue ' +
+    'ueg ego _no un_ esc ca_ ent lo_ ía_ nte ido _nu nue uev dir ire ect cto oy_ sa_ una uga _bu bue ' +
+    'ebe erí _ot otr vez ez_ eci _pu pue ede ión tra me_ par ias seg egu nal muc uch iem emp ver hor ' +
+    '_ma ero cas asa ist sca ans mej ejo jor del ica _in ere cha tán dif _so los ara arí _bi bie _có ' +
+    'cóm ómo hoy esa jug ada cre deb amo pro tro cam ami aja ba_ dec cir ció enc ant art rti tid ida ' +
+    '_se cho ho_ _ti tie mpo po_ vie',
+  fr:
+    'le_ _es _le de_ est _de st_ nt_ _je re_ es_ _et et_ ent on_ er_ is_ our _qu _ce te_ ur_ it_ ais ' +
+    '_mo ait je_ ce_ _la la_ _to tou ien lle _au rai _pe qu_ _ch _tu tu_ _à_ ut_ mon _c_ _un ne_ _il ' +
+    '_me au_ mai _ma _pa ue_ _co men il_ _re cha son _po pou eau eu_ que out _vo jou _ét _on _l_ in_ ' +
+    '_di ire en_ ci_ _pr nte _sa ond nde _bi bie _li ive com _al all ous us_ éta tai une _be se_ aut ' +
+    '_fo _tr peu ard ant _fa _en ite as_ jeu ain ici eur les rès ès_ era _do _su liv ve_ ez_ ujo rd_ ' +
+    'vra ell ens ess ssa tre che ett vie eme dor ore mer erc rci reg ega gar rde tem _am san fai uit ' +
+    '_va ouv uve bea res ter _bo par _du du_ _av _j_ auc oi_ dif iff _so ten un_ ont nue sur omm mme ' +
+    'vou auj urd _hu hui ui_ _vr aim ime _ac say aye yer cet tte tro _dr dir eux ux_ han ans _jo uis ' +
+    '_lo mus sui vas _no nou vea dem',
+};
+
+/**
+ * Languages the detector can tell apart, as ISO 639-1 codes
+ */
+export const DETECTABLE_LANGUAGES = Object.keys(TRIGRAM_PROFILES);
+
+/**
+ * English names for each detectable language
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  fi: 'Finnish',
+  sv: 'Swedish',
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+};
+
+/**
+ * Messages with fewer trigrams than this are too short to tell apart, e.g. "gg" or "lol"
+ */
+const MIN_TRIGRAMS = 5;
+
+/**
+ * How much better, per trigram, the best language must score than the runner-up
+ */
+const MIN_MARGIN = 0.1;
+
+/**
+ * Rank offset that flattens the scores of the most common trigrams
+ */
+const RANK_SMOOTHING = 10;
+
+const PROFILE_RANKS: Record<string, Map<string, number>> = Object.fromEntries(
+  Object.entries(TRIGRAM_PROFILES).map(([language, profile]) => [
+    language,
+    new Map(profile.split(' ').map((trigram, rank) => [trigram, rank])),
+  ])
+);
+
+/**
+ * Split text into lowercase character trigrams of its words, ignoring digits and punctuation
+ */
+export function getTrigrams(text: string): string[] {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+
+  return words.flatMap((word) => {
+    const padded = `_${word}_`;
+    return Array.from({ length: padded.length - 2 }, (_, i) => padded.slice(i, i + 3));
+  });
+}
+
+/**
+ * Score how well trigrams fit a language profile, higher is better
+ * Each trigram scores by its rank in the profile, following Zipf's law, with a fixed penalty when missing
+ */
+function scoreLanguage(trigrams: string[], ranks: Map<string, number>): number {
+  const missing = Math.log(1 / (ranks.size * 5));
+  const total = trigrams.reduce((sum, trigram) => {
+    const rank = ranks.get(trigram);
+    return sum + (rank === undefined ? missing : Math.log(1 / (rank + RANK_SMOOTHING)));
+  }, 0);
+
+  return total / trigrams.length;
+}
+
+/**
+ * Guess the language of a piece of text offline
+ * Returns null when the text is too short or no language is a clear winner
+ * Requirements: 2.1
+ */
+export function detectLanguage(text: string): string | null {
+  const trigrams = getTrigrams(text);
+  if (trigrams.length < MIN_TRIGRAMS) {
+    return null;
+  }
+
+  const [best, runnerUp] = Object.entries(PROFILE_RANKS)
+    .map(([language, ranks]) => ({ language, score: scoreLanguage(trigrams, ranks) }))
+    .sort((a, b) => b.score - a.score);
+
+  return best.score - runnerUp.score >= MIN_MARGIN ? best.language : null;
+}
+
+/**
+ * Language detection is off until the streamer turns it on
+ */
+export const DEFAULT_LANGUAGE_DETECTION_SETTINGS: LanguageDetectionSettings = {
+  enabled: false,
+  preferredVoices: {},
+};
+
+/**
+ * Check whether a voice speaks a language, "fi-FI" and "fi" both speak "fi"
+ */
+export function voiceSpeaksLanguage(voice: Pick<TTSVoice, 'lang'>, language: string): boolean {
+  return voice.lang.toLowerCase().split(/[-_]/)[0] === language;
+}
+
+/**
+ * Choose the voice to read a message in a detected language
+ * A chatter's badge or pooled voice is kept when it speaks the language, then the streamer's
+ * preferred voice for the language is used, then the default voice when it speaks the language,
+ * then any voice speaking it. Without one, the voice that would have been used anyway is kept
+ * Requirements: 3.1
+ */
+export function chooseLanguageVoice(
+  language: string,
+  languageDetection: LanguageDetectionSettings,
+  voices: TTSVoice[],
+  personalVoice: TTSVoice | null | undefined,
+  defaultVoice: TTSVoice | null | undefined
+): TTSVoice | null | undefined {
+  if (personalVoice && voiceSpeaksLanguage(personalVoice, language)) {
+    return personalVoice;
+  }
+
+  const preferredName = languageDetection.preferredVoices[language];
+  const preferred = preferredName ? voices.find((voice) => voice.name === preferredName) : undefined;
+  if (preferred) {
+    return preferred;
+  }
+
+  if (defaultVoice && voiceSpeaksLanguage(defaultVoice, language)) {
+    return defaultVoice;
+  }
+
+  return voices.find((voice) => voiceSpeaksLanguage(voice, language)) ?? personalVoice ?? defaultVoice;
+}
@@ -0,0 +1,73 @@
+import type { ChatMessage, MessageFragment } from '../types';
+
+/**
+ * Split a chat message into text and emote fragments using the Twitch `emotes` tag
+ * Tag format: `emoteId:start-end,start-end/emoteId:start-end` with inclusive
+ * positions counted in Unicode code points
+ * Requirements: 2.4
+ */
+export function parseEmoteFragments(message: string, emotesTag: string): MessageFragment[] {
+  const characters = Array.from(message);
+  const ranges: Array<{ emoteId: string; start: number; end: number }> = [];
+
+  if (emotesTag) {
+    emotesTag.split('/').forEach((entry) => {
+      const [emoteId, positions] = entry.split(':');
+      if (!emoteId || !positions) return;
+
+      positions.split(',').forEach((position) => {
+        const [start, end] = position.split('-').map((value) => parseInt(value, 10));
+        if (isNaN(start) || isNaN(end) || start > end || end >= characters.length) return;
+
+        ranges.push({ emoteId, start, end });
+      });
+    });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  const fragments: MessageFragment[] = [];
+  let cursor = 0;
+
+  ranges.forEach(({ emoteId, start, end }) => {
+    // Ignore overlapping ranges from malformed tags
+    if (start < cursor) return;
+
+    if (start > cursor) {
+      fragments.push({ type: 'text', text: characters.slice(cursor, start).join('') });
+    }
+
+    fragments.push({ type: 'emote', text: characters.slice(start, end + 1).join(''), emoteId });
+    cursor = end + 1;
+  });
+
+  if (cursor < characters.length) {
+    fragments.push({ type: 'text', text: characters.slice(cursor).join('') });
+  }
+
+  return fragments;
+}
+
+/**
+ * Get the fragments of a message, treating messages without emote data as plain text
+ */
+export function getMessageFragments(message: ChatMessage): MessageFragment[] {
+  if (message.fragments) {
+    return message.fragments;
+  }
+
+  return message.message ? [{ type: 'text', text: message.message }] : [];
+}
+
+/**
+ * Check whether a message consists only of emotes and whitespace
+ * Requirements: 6.2
+ */
+export function isEmoteOnlyMessage(message: ChatMessage): boolean {
+  const fragments = getMessageFragments(message);
+
+  return (
+    fragments.some((fragment) => fragment.type === 'emote') &&
+    fragments.every((fragment) => fragment.type === 'emote' || !fragment.text.trim())
+  );
+}
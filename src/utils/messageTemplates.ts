@@ -0,0 +1,167 @@
+import type {
+  ChatMessage,
+  ChatReply,
+  MessageFragment,
+  MessageTemplateSettings,
+  SpokenEventType,
+} from '../types';
+import { getMessageFragments } from './messageFragments';
+
+/**
+ * Labels for each kind of message with its own template
+ */
+export const SPOKEN_EVENT_LABELS: Record<SpokenEventType, string> = {
+  message: 'Message',
+  reply: 'Reply',
+  cheer: 'Cheer',
+};
+
+export const SPOKEN_EVENT_TYPES = Object.keys(SPOKEN_EVENT_LABELS) as SpokenEventType[];
+
+/**
+ * Placeholders a template may use
+ */
+export const TEMPLATE_PLACEHOLDERS = ['displayName', 'username', 'message', 'replyTo', 'bits', 'channel'];
+
+/**
+ * Templates are off by default, English templates are used for languages without their own
+ */
+export const DEFAULT_MESSAGE_TEMPLATE_SETTINGS: MessageTemplateSettings = {
+  enabled: false,
+  skipRepeatedName: true,
+  templates: {
+    message: '{displayName} says {message}',
+    reply: '{displayName} replies to {replyTo}: {message}',
+    cheer: '{displayName} cheered {bits} bits: {message}',
+  },
+  languageTemplates: {
+    fi: {
+      message: '{displayName} sanoo {message}',
+      reply: '{displayName} vastaa käyttäjälle {replyTo}: {message}',
+      cheer: '{displayName} cheerasi {bits} bittiä: {message}',
+    },
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Prefixes of Twitch's global cheermotes, channel cheermotes are read as written
+ */
+const CHEERMOTE_PREFIXES = [
+  'Cheer', 'DoodleCheer', 'BibleThump', 'cheerwhal', 'Corgo', 'Scoops', 'uni', 'ShowLove', 'Party',
+  'SeemsGood', 'Pride', 'Kappa', 'FrankerZ', 'HeyGuys', 'DansGame', 'EleGiggle', 'TriHard', 'Kreygasm',
+  '4Head', 'SwiftRage', 'NotLikeThis', 'FailFish', 'VoHiYo', 'PJSalt', 'MrDestructoid', 'bday',
+  'RIPCheer', 'Shamrock', 'BitBoss', 'Streamlabs', 'Muxy', 'HolidayCheer', 'Goal', 'Anon', 'Charity',
+];
+
+/**
+ * Cheermotes such as "Cheer100" or "Kappa50", the template already reads the bits
+ * Other words ending in digits, such as "level50" or "ps5", are kept
+ */
+const CHEERMOTE_PATTERN = new RegExp(`(?<!\\S)(?:${CHEERMOTE_PREFIXES.join('|')})\\d+(?!\\S)`, 'gi');
+
+/**
+ * Tell plain messages, replies and cheers apart
+ */
+export function getSpokenEventType(message: Pick<ChatMessage, 'bits' | 'reply'>): SpokenEventType {
+  if (message.bits) {
+    return 'cheer';
+  }
+
+  return message.reply ? 'reply' : 'message';
+}
+
+/**
+ * Find the template for a kind of message in a language, falling back to the default templates
+ */
+export function getMessageTemplate(
+  eventType: SpokenEventType,
+  settings: MessageTemplateSettings,
+  language?: string
+): string {
+  return (language && settings.languageTemplates[language]?.[eventType]) || settings.templates[eventType];
+}
+
+/**
+ * Replace placeholders with their values, unknown placeholders are left as written
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Remove the "@name" Twitch puts at the start of replies, the template names who is replied to
+ */
+function stripReplyMention(fragments: MessageFragment[], reply: ChatReply): MessageFragment[] {
+  const [first, ...rest] = fragments;
+  const mention = first?.type === 'text' ? first.text.match(/^@(\S+)\s*/) : null;
+  const repliedTo = [reply.username, reply.displayName].map((name) => name.toLowerCase());
+
+  if (!mention || !repliedTo.includes(mention[1].toLowerCase())) {
+    return fragments;
+  }
+
+  const text = first.text.slice(mention[0].length);
+  return text ? [{ ...first, text }, ...rest] : rest;
+}
+
+/**
+ * Remove cheermotes from the text of a cheer
+ */
+function stripCheermotes(fragments: MessageFragment[]): MessageFragment[] {
+  return fragments.map((fragment) => (fragment.type === 'text'
+    ? { ...fragment, text: fragment.text.replace(CHEERMOTE_PATTERN, '') }
+    : fragment));
+}
+
+/**
+ * Wrap a message in its spoken template, keeping its emote fragments for preprocessing
+ * Plain messages from the chatter who spoke last are left as they are when repeated names are skipped
+ * Requirements: 2.4
+ */
+export function applyMessageTemplate(
+  message: ChatMessage,
+  settings: MessageTemplateSettings,
+  options: {
+    language?: string;
+    repeatedSpeaker?: boolean;
+    speakName?: (username: string, displayName?: string) => string;
+  } = {}
+): ChatMessage {
+  const eventType = getSpokenEventType(message);
+  if (!settings.enabled || (eventType === 'message' && settings.skipRepeatedName && options.repeatedSpeaker)) {
+    return message;
+  }
+
+  const speakName = options.speakName ?? ((username: string, displayName?: string) => displayName || username);
+  const values: Record<string, string> = {
+    displayName: speakName(message.username, message.displayName),
+    username: speakName(message.username),
+    replyTo: message.reply ? speakName(message.reply.username, message.reply.displayName) : '',
+    bits: String(message.bits ?? 0),
+    channel: message.channel,
+  };
+
+  let fragments = getMessageFragments(message);
+  if (message.reply) {
+    fragments = stripReplyMention(fragments, message.reply);
+  }
+  if (eventType === 'cheer') {
+    fragments = stripCheermotes(fragments);
+  }
+
+  // Splitting on the message placeholder puts the message fragments between the filled parts
+  const templated = getMessageTemplate(eventType, settings, options.language)
+    .split('{message}')
+    .flatMap((part, index): MessageFragment[] => {
+      const text = part ? [{ type: 'text' as const, text: fillTemplate(part, values) }] : [];
+      return index === 0 ? text : [...fragments, ...text];
+    });
+
+  return {
+    ...message,
+    message: templated.map((fragment) => fragment.text).join(''),
+    fragments: templated,
+  };
+}
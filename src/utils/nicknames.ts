@@ -0,0 +1,133 @@
+import type { TTSSettings } from '../types';
+
+/**
+ * localStorage key for nicknames set by the streamer and moderators
+ */
+export const NICKNAMES_STORAGE_KEY = 'tts-nicknames';
+
+/**
+ * Digits and symbols read as the letters they stand in for, e.g. "d4rk" as "dark"
+ */
+const LEET_LETTERS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  '$': 's',
+};
+
+/**
+ * Decorations around gamer tags, e.g. the "xX_" and "_Xx" in "xX_Sniper_Xx"
+ */
+const WRAPPER_START_PATTERN = /^(?:x+X+|X+x+)[_-]*(?=.)/;
+const WRAPPER_END_PATTERN = /(?<=.)[_-]*(?:X+x+|x+X+)$/;
+
+/**
+ * Digits ending a name, e.g. "1987" in "gamer_1987", a single digit like "player1" is kept
+ */
+const NUMBER_SUFFIX_PATTERN = /(?<=\D)(?:[_-]+\d+|\d{2,})$/;
+
+/**
+ * Digits and symbols inside a word, so "d4rk" and "l33t" change but "2077fan" does not
+ */
+const LEET_PATTERN = /(?<=\p{L})[0134578@$]+(?=\p{L})/gu;
+
+/**
+ * Turn a username into something a voice can say, e.g. "xX_d4rkL0rd_Xx" into "Dark Lord"
+ * Strips gamer tag decorations and number suffixes, reads leetspeak as letters and splits
+ * words at underscores and capitals. Names that would come out empty are kept as they are
+ * Requirements: 2.4
+ */
+export function cleanUsername(username: string): string {
+  const words = username
+    .replace(WRAPPER_START_PATTERN, '')
+    .replace(WRAPPER_END_PATTERN, '')
+    .replace(NUMBER_SUFFIX_PATTERN, '')
+    .replace(LEET_PATTERN, (symbols) => symbols.split('').map((symbol) => LEET_LETTERS[symbol]).join(''))
+    // Split "darkLord" and "DarkLORD" before their capitals
+    .replace(/(?<=\p{Ll})(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/gu, ' ')
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+
+  if (words.length === 0) {
+    return username;
+  }
+
+  return words.map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join(' ');
+}
+
+/**
+ * The name to speak for a chatter: their nickname, their cleaned up name or their display name
+ * Requirements: 2.4
+ */
+export function getSpokenName(
+  username: string,
+  displayName: string | undefined,
+  settings: Pick<TTSSettings, 'nicknames' | 'autoCleanNames'>
+): string {
+  const nickname = settings.nicknames[username.toLowerCase()];
+  if (nickname) {
+    return nickname;
+  }
+
+  const name = displayName || username;
+  return settings.autoCleanNames ? cleanUsername(name) : name;
+}
+
+/**
+ * Set or, with an empty nickname, remove the nickname of a chatter
+ */
+export function setNickname(
+  nicknames: Record<string, string>,
+  username: string,
+  nickname: string | null
+): Record<string, string> {
+  const key = username.replace(/^@/, '').toLowerCase();
+  const updated = { ...nicknames };
+  const trimmed = nickname?.trim();
+
+  if (trimmed) {
+    updated[key] = trimmed;
+  } else {
+    delete updated[key];
+  }
+
+  return updated;
+}
+
+/**
+ * Read the nickname from `!tts nick` arguments, with or without quotes around it
+ */
+export function parseNicknameArgs(args: string[]): string {
+  return args.join(' ').trim().replace(/^(["'])(.*)\1$/, '$2').trim();
+}
+
+/**
+ * Load saved nicknames, an unreadable store starts empty
+ * Requirements: 3.1
+ */
+export function loadNicknames(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(NICKNAMES_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save nicknames so they persist between visits
+ * Requirements: 3.1
+ */
+export function saveNicknames(nicknames: Record<string, string>): void {
+  try {
+    localStorage.setItem(NICKNAMES_STORAGE_KEY, JSON.stringify(nicknames));
+  } catch {
+    // Storage can be full or disabled, nicknames then only last for this visit
+  }
+}
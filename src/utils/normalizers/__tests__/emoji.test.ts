@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { countRepeatedName, emojiStage, getEmojiLanguage, getEmojiName } from '../emoji';
+import { EMOJI_NAMES } from '../emojiNames';
+import { itNormalizes } from './stageHarness';
+
+describe('emojiStage', () => {
+  describe('speak mode', () => {
+    itNormalizes(emojiStage, [
+      ['this is 🔥', 'this is fire'],
+      ['gg👍👍', 'gg thumbs up thumbs up'],
+      ['nice 👍🏽', 'nice thumbs up'],
+      ['I love this ❤️🔥', 'I love this red heart fire'],
+      ['hei 🇫🇮', 'hei flag: Finland'],
+      ['what 🫠', 'what'],
+      ['no emoji', 'no emoji'],
+    ], { settings: { emojiMode: 'speak' } });
+  });
+
+  describe('dedupe mode', () => {
+    itNormalizes(emojiStage, [
+      ['🔥🔥🔥', 'fire times three'],
+      ['🔥 🔥 🔥 hype', 'fire times three hype'],
+      ['😂😂 😂😂😂 💀', 'face with tears of joy times five skull'],
+      ['🔥❤️🔥', 'fire red heart fire'],
+      ['👍👍🏿👍🏻', 'thumbs up times three'],
+      ['🔥🫠🔥', 'fire times two'],
+    ], { settings: { emojiMode: 'dedupe' } });
+  });
+
+  describe('drop mode', () => {
+    itNormalizes(emojiStage, [
+      ['I love this ❤️🔥', 'I love this'],
+      ['gg 👍🏽 wp', 'gg wp'],
+    ], { settings: { emojiMode: 'drop' } });
+  });
+
+  describe('in Finnish', () => {
+    itNormalizes(emojiStage, [
+      ['tää on 🔥🔥🔥', 'tää on tuli kolme kertaa'],
+      ['kiitos ❤️', 'kiitos punainen sydän'],
+    ], { language: 'fi' });
+  });
+
+  describe('with overrides', () => {
+    itNormalizes(emojiStage, [
+      ['W 🐐', 'W GOAT'],
+      ['💀💀', 'dead times two'],
+      ['🤡 ok', 'ok'],
+    ], { settings: { emojiOverrides: { '🐐': 'GOAT', '💀': 'dead', '🤡': '' } } });
+  });
+
+  describe('getEmojiName', () => {
+    it('should ignore skin tones and variation selectors', () => {
+      expect(getEmojiName('👋🏿')).toBe('waving hand');
+      expect(getEmojiName('❤️')).toBe('red heart');
+    });
+
+    it('should read joined emoji without a name by their first part', () => {
+      expect(getEmojiName('❤️‍🔥')).toBe('red heart');
+    });
+
+    it('should use overrides in every language', () => {
+      expect(getEmojiName('🔥', 'fi', { '🔥': 'lit' })).toBe('lit');
+    });
+
+    it('should return undefined for unknown emoji', () => {
+      expect(getEmojiName('🫠')).toBeUndefined();
+    });
+  });
+
+  describe('getEmojiLanguage', () => {
+    it('should fall back to English for languages without names', () => {
+      expect(getEmojiLanguage('fi')).toBe('fi');
+      expect(getEmojiLanguage('de')).toBe('en');
+      expect(getEmojiLanguage(undefined)).toBe('en');
+    });
+  });
+
+  describe('countRepeatedName', () => {
+    it('should read single emoji without a count', () => {
+      expect(countRepeatedName('fire', 1, 'en')).toBe('fire');
+    });
+
+    it('should leave large Finnish counts as digits', () => {
+      expect(countRepeatedName('tuli', 12, 'fi')).toBe('tuli 12 kertaa');
+      expect(countRepeatedName('fire', 12, 'en')).toBe('fire times twelve');
+    });
+  });
+
+  describe('EMOJI_NAMES', () => {
+    it('should name the same emoji in every language', () => {
+      expect(Object.keys(EMOJI_NAMES.fi).sort()).toEqual(Object.keys(EMOJI_NAMES.en).sort());
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_NORMALIZATION_SETTINGS, NORMALIZER_STAGES, normalizeText } from '..';
+import type { NormalizerStageId } from '../../../types';
+
+function withoutStage(id: NormalizerStageId) {
+  return {
+    ...DEFAULT_NORMALIZATION_SETTINGS,
+    stages: { ...DEFAULT_NORMALIZATION_SETTINGS.stages, [id]: false },
+  };
+}
+
+describe('normalizeText', () => {
+  it('should have a setting for every stage', () => {
+    expect(NORMALIZER_STAGES.map(stage => stage.id).sort())
+      .toEqual(Object.keys(DEFAULT_NORMALIZATION_SETTINGS.stages).sort());
+  });
+
+  it('should run every stage in order', () => {
+    expect(normalizeText('@huikka check https://www.youtube.com/x 🔥🔥 loooool 2nd!!!', DEFAULT_NORMALIZATION_SETTINGS))
+      .toBe('huikka check link to youtube dot com fire times two lol second!');
+  });
+
+  it('should tidy whitespace', () => {
+    expect(normalizeText('  lots   of\n space  ', DEFAULT_NORMALIZATION_SETTINGS)).toBe('lots of space');
+  });
+
+  it('should skip disabled stages', () => {
+    expect(normalizeText('loooool 3rd', withoutStage('repeatedLetters'))).toBe('loooool third');
+    expect(normalizeText('loooool 3rd', withoutStage('numbers'))).toBe('lol 3rd');
+  });
+
+  it('should keep link digits out of the number stage', () => {
+    expect(normalizeText('https://site123.com', DEFAULT_NORMALIZATION_SETTINGS)).toBe('link to site one hundred twenty three dot com');
+  });
+
+  it('should pass the language to the stages', () => {
+    expect(normalizeText('voitin 2 kertaa', DEFAULT_NORMALIZATION_SETTINGS, { language: 'fi' })).toBe('voitin 2 kertaa');
+  });
+
+  it('should read mentions with the name speller', () => {
+    const speakName = (username: string) => (username === 'xX_d4rkL0rd_Xx' ? 'Dark Lord' : username);
+
+    expect(normalizeText('gg @xX_d4rkL0rd_Xx', DEFAULT_NORMALIZATION_SETTINGS, { speakName })).toBe('gg Dark Lord');
+  });
+
+  it('should apply the length limit to the normalized text', () => {
+    const settings = { ...DEFAULT_NORMALIZATION_SETTINGS, maxLength: 20 };
+
+    expect(normalizeText('see https://www.example.com/a/very/long/path now', settings)).toBe('see link to example...');
+  });
+});
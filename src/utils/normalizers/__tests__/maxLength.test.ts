@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { maxLengthStage, truncateText } from '../maxLength';
+import { itNormalizes } from './stageHarness';
+
+describe('maxLengthStage', () => {
+  itNormalizes(maxLengthStage, [
+    ['short message', 'short message'],
+    ['this message is far too long to read', 'this message is far...'],
+  ], { settings: { maxLength: 22 } });
+
+  describe('truncateText', () => {
+    it('should keep text within the limit', () => {
+      expect(truncateText('exactly ten', 11)).toBe('exactly ten');
+    });
+
+    it('should cut in the middle of a word without a nearby space', () => {
+      expect(truncateText('a'.repeat(50), 30)).toBe(`${'a'.repeat(30)}...`);
+    });
+  });
+});
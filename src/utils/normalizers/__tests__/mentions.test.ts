@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { mentionStage } from '../mentions';
+import { itNormalizes, runStage } from './stageHarness';
+
+describe('mentionStage', () => {
+  describe('name mode', () => {
+    itNormalizes(mentionStage, [
+      ['@huikkakoodaa gg', 'huikkakoodaa gg'],
+      ['thanks @streamer_1!', 'thanks streamer_1!'],
+      ['mail me at user@example.com', 'mail me at user@example.com'],
+    ]);
+  });
+
+  describe('at mode', () => {
+    itNormalizes(mentionStage, [
+      ['@huikkakoodaa gg', 'at huikkakoodaa gg'],
+      ['hi (@mod)', 'hi (at mod)'],
+    ], { settings: { mentionMode: 'at' } });
+  });
+
+  describe('with nicknames', () => {
+    it('should read the nickname of a mentioned chatter', () => {
+      const speakName = (username: string) => (username === 'huikkakoodaa' ? 'Huikka' : username);
+
+      expect(runStage(mentionStage, 'hi @huikkakoodaa and @other', { speakName })).toBe('hi Huikka and other');
+    });
+  });
+
+  describe('drop mode', () => {
+    itNormalizes(mentionStage, [
+      ['@huikkakoodaa gg', 'gg'],
+      ['gg @a @b', 'gg'],
+    ], { settings: { mentionMode: 'drop' } });
+  });
+});
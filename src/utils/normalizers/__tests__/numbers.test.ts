@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { integerToWords, numberStage, numberToWords, ordinalToWords } from '../numbers';
+import { itNormalizes } from './stageHarness';
+
+describe('numberStage', () => {
+  itNormalizes(numberStage, [
+    ['gg 2 ez', 'gg two ez'],
+    ['1,500 viewers', 'one thousand five hundred viewers'],
+    ['came 3rd again', 'came third again'],
+    ['21st try', 'twenty first try'],
+    ['10k subs', 'ten k subs'],
+    ['version 1.5', 'version one point five'],
+    ['code 007', 'code zero zero seven'],
+  ]);
+
+  describe('in other languages', () => {
+    itNormalizes(numberStage, [
+      ['kolme 3 kertaa', 'kolme 3 kertaa'],
+    ], { language: 'fi' });
+  });
+
+  describe('integerToWords', () => {
+    it('should spell out each scale', () => {
+      expect(integerToWords('0')).toBe('zero');
+      expect(integerToWords('115')).toBe('one hundred fifteen');
+      expect(integerToWords('1000001')).toBe('one million one');
+      expect(integerToWords('2024')).toBe('two thousand twenty four');
+    });
+
+    it('should read very long numbers digit by digit', () => {
+      expect(integerToWords('1234567890123')).toBe('one two three four five six seven eight nine zero one two three');
+    });
+  });
+
+  describe('numberToWords', () => {
+    it('should read decimals digit by digit', () => {
+      expect(numberToWords('3.14')).toBe('three point one four');
+    });
+  });
+
+  describe('ordinalToWords', () => {
+    it('should handle irregular and tens ordinals', () => {
+      expect(ordinalToWords('1')).toBe('first');
+      expect(ordinalToWords('12')).toBe('twelfth');
+      expect(ordinalToWords('40')).toBe('fortieth');
+      expect(ordinalToWords('100')).toBe('one hundredth');
+    });
+  });
+});
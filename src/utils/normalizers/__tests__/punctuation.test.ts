@@ -0,0 +1,15 @@
+import { describe } from 'vitest';
+import { punctuationStage } from '../punctuation';
+import { itNormalizes } from './stageHarness';
+
+describe('punctuationStage', () => {
+  itNormalizes(punctuationStage, [
+    ['Hello #hashtag $money!', 'Hello hashtag money!'],
+    ['what!!!???', 'what!?'],
+    ['hmm.....', 'hmm...'],
+    ['hyvää päivää, kiitos', 'hyvää päivää, kiitos'],
+    ['räksmörgås åäö', 'räksmörgås åäö'],
+    ["don't stop", "don't stop"],
+    ['<3 ~~~ ***', '3'],
+  ]);
+});
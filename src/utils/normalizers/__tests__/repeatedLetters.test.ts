@@ -0,0 +1,14 @@
+import { describe } from 'vitest';
+import { repeatedLetterStage } from '../repeatedLetters';
+import { itNormalizes } from './stageHarness';
+
+describe('repeatedLetterStage', () => {
+  itNormalizes(repeatedLetterStage, [
+    ['loooool', 'lol'],
+    ['noooooo way', 'no way'],
+    ['jooooo', 'jo'],
+    ['äääää', 'ä'],
+    ['cool tuuli', 'cool tuuli'],
+    ['1000 points', '1000 points'],
+  ]);
+});
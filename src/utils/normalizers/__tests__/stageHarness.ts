@@ -0,0 +1,31 @@
+import { it, expect } from 'vitest';
+import { DEFAULT_NORMALIZATION_SETTINGS, tidySpacing } from '..';
+import type { NormalizationSettings, NormalizerStage } from '../../../types';
+
+/**
+ * Input text and the text the stage should produce
+ */
+export type StageCase = [input: string, expected: string];
+
+export interface StageOptions {
+  settings?: Partial<NormalizationSettings>;
+  language?: string;
+  speakName?: (username: string) => string;
+}
+
+/**
+ * Run a single stage on its own, tidying spacing like the pipeline does between stages
+ */
+export function runStage(stage: NormalizerStage, text: string, options: StageOptions = {}): string {
+  const settings = { ...DEFAULT_NORMALIZATION_SETTINGS, ...options.settings };
+  return tidySpacing(stage.normalize(text, { ...options, settings }));
+}
+
+/**
+ * Add a test for each case, named after its input
+ */
+export function itNormalizes(stage: NormalizerStage, cases: StageCase[], options: StageOptions = {}): void {
+  it.each(cases)('should normalize %j to %j', (input, expected) => {
+    expect(runStage(stage, input, options)).toBe(expected);
+  });
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { speakDomain, urlStage } from '../urls';
+import { itNormalizes } from './stageHarness';
+
+describe('urlStage', () => {
+  itNormalizes(urlStage, [
+    ['watch https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'watch link to youtube dot com'],
+    ['clip at https://clips.twitch.tv/SomeClip-abc123 lol', 'clip at link to clips dot twitch dot tv lol'],
+    ['www.example.org/path', 'link to example dot org'],
+    ['HTTP://EXAMPLE.COM', 'link to example dot com'],
+    ['no links here', 'no links here'],
+  ]);
+
+  describe('speakDomain', () => {
+    it('should read the host without www', () => {
+      expect(speakDomain('https://www.github.com/user/repo')).toBe('github dot com');
+    });
+
+    it('should accept addresses without a scheme', () => {
+      expect(speakDomain('www.twitch.tv')).toBe('twitch dot tv');
+    });
+
+    it('should return null for text that is not an address', () => {
+      expect(speakDomain('https://')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import type { EmojiLanguage, NormalizerStage } from '../../types';
+import { EMOJI_NAMES } from './emojiNames';
+import { integerToWords } from './numbers';
+
+/**
+ * A single emoji with its variation selectors, skin tones and joined parts, or a flag
+ */
+const EMOJI_SOURCE = '\\p{Regional_Indicator}{2}|\\p{Extended_Pictographic}(?:\\p{Emoji_Modifier}|\\uFE0F|\\u200D\\p{Extended_Pictographic})*';
+const EMOJI_PATTERN = new RegExp(EMOJI_SOURCE, 'gu');
+
+/**
+ * Emoji next to each other, with or without spaces between them
+ */
+const EMOJI_RUN_PATTERN = new RegExp(`(?:${EMOJI_SOURCE})(?:\\s*(?:${EMOJI_SOURCE}))*`, 'gu');
+
+/**
+ * Finnish counts for repeated emoji and emotes, larger counts are left as digits for the voice to read
+ */
+const FINNISH_COUNTS = ['nolla', 'yksi', 'kaksi', 'kolme', 'neljä', 'viisi', 'kuusi', 'seitsemän', 'kahdeksan', 'yhdeksän', 'kymmenen'];
+
+/**
+ * Choose the bundled names for a detected language, English when there are none
+ */
+export function getEmojiLanguage(language?: string): EmojiLanguage {
+  return language && language in EMOJI_NAMES ? language as EmojiLanguage : 'en';
+}
+
+/**
+ * The emoji without variation selectors and skin tones, used to look up names and overrides
+ */
+export function getEmojiKey(emoji: string): string {
+  return emoji.replace(/[\uFE0F\p{Emoji_Modifier}]/gu, '');
+}
+
+/**
+ * Find the spoken name of an emoji, preferring the streamer's own names
+ * Joined emoji without a name of their own are read by their first part
+ */
+export function getEmojiName(
+  emoji: string,
+  language: EmojiLanguage = 'en',
+  overrides: Record<string, string> = {}
+): string | undefined {
+  const key = getEmojiKey(emoji);
+  const first = Array.from(key)[0];
+  const names = EMOJI_NAMES[language];
+
+  return overrides[key] ?? names[key] ?? overrides[first] ?? names[first];
+}
+
+/**
+ * Read a repeated emoji or emote name once with its count, e.g. "fire times three" or "tuli kolme kertaa"
+ */
+export function countRepeatedName(name: string, count: number, language: EmojiLanguage): string {
+  if (count === 1) {
+    return name;
+  }
+
+  return language === 'fi'
+    ? `${name} ${FINNISH_COUNTS[count] ?? count} kertaa`
+    : `${name} times ${integerToWords(String(count))}`;
+}
+
+/**
+ * Group names repeated in a row and read each group once with its count
+ */
+function countRepeats(names: string[], language: EmojiLanguage): string[] {
+  const groups: { name: string; count: number }[] = [];
+  for (const name of names) {
+    const last = groups[groups.length - 1];
+    if (last?.name === name) {
+      last.count++;
+    } else {
+      groups.push({ name, count: 1 });
+    }
+  }
+
+  return groups.map(({ name, count }) => countRepeatedName(name, count, language));
+}
+
+/**
+ * Read emoji by name in the message's language, count repeats or leave them out
+ * Emoji without a known name are left out
+ * Requirements: 2.4
+ */
+export const emojiStage: NormalizerStage = {
+  id: 'emoji',
+  label: 'Emoji',
+  description: 'Read emoji by name, e.g. "🔥" as "fire"',
+  normalize: (text, { settings, language }) => {
+    if (settings.emojiMode === 'drop') {
+      return text.replace(EMOJI_PATTERN, ' ');
+    }
+
+    const emojiLanguage = getEmojiLanguage(language);
+    return text.replace(EMOJI_RUN_PATTERN, (run) => {
+      const names = (run.match(EMOJI_PATTERN) ?? [])
+        .map((emoji) => getEmojiName(emoji, emojiLanguage, settings.emojiOverrides))
+        .filter((name): name is string => !!name);
+      const spoken = settings.emojiMode === 'dedupe' ? countRepeats(names, emojiLanguage) : names;
+
+      return ` ${spoken.join(' ')} `;
+    });
+  },
+};
@@ -0,0 +1,467 @@
+import type { EmojiLanguage } from '../../types';
+
+/**
+ * Spoken short names of emoji common in chat, from the Unicode CLDR annotations
+ * Keys leave out variation selectors and skin tones, which do not change the name
+ * Requirements: 2.4
+ */
+export const EMOJI_NAMES: Record<EmojiLanguage, Record<string, string>> = {
+  en: {
+    '😀': 'grinning face',
+    '😃': 'grinning face with big eyes',
+    '😄': 'grinning face with smiling eyes',
+    '😁': 'beaming face with smiling eyes',
+    '😆': 'grinning squinting face',
+    '😅': 'grinning face with sweat',
+    '🤣': 'rolling on the floor laughing',
+    '😂': 'face with tears of joy',
+    '🙂': 'slightly smiling face',
+    '🙃': 'upside-down face',
+    '😉': 'winking face',
+    '😊': 'smiling face with smiling eyes',
+    '😇': 'smiling face with halo',
+    '🥰': 'smiling face with hearts',
+    '😍': 'smiling face with heart-eyes',
+    '🤩': 'star-struck',
+    '😘': 'face blowing a kiss',
+    '😋': 'face savoring food',
+    '😛': 'face with tongue',
+    '😜': 'winking face with tongue',
+    '🤪': 'zany face',
+    '😝': 'squinting face with tongue',
+    '🤑': 'money-mouth face',
+    '🤗': 'smiling face with open hands',
+    '🤭': 'face with hand over mouth',
+    '🤫': 'shushing face',
+    '🤔': 'thinking face',
+    '🤐': 'zipper-mouth face',
+    '🤨': 'face with raised eyebrow',
+    '😐': 'neutral face',
+    '😑': 'expressionless face',
+    '😶': 'face without mouth',
+    '😏': 'smirking face',
+    '😒': 'unamused face',
+    '🙄': 'face with rolling eyes',
+    '😬': 'grimacing face',
+    '🤥': 'lying face',
+    '😌': 'relieved face',
+    '😔': 'pensive face',
+    '😪': 'sleepy face',
+    '🤤': 'drooling face',
+    '😴': 'sleeping face',
+    '😷': 'face with medical mask',
+    '🤒': 'face with thermometer',
+    '🤢': 'nauseated face',
+    '🤮': 'face vomiting',
+    '🥵': 'hot face',
+    '🥶': 'cold face',
+    '🥴': 'woozy face',
+    '😵': 'face with crossed-out eyes',
+    '🤯': 'exploding head',
+    '🥳': 'partying face',
+    '😎': 'smiling face with sunglasses',
+    '🤓': 'nerd face',
+    '🧐': 'face with monocle',
+    '😕': 'confused face',
+    '😟': 'worried face',
+    '🙁': 'slightly frowning face',
+    '😮': 'face with open mouth',
+    '😯': 'hushed face',
+    '😲': 'astonished face',
+    '😳': 'flushed face',
+    '🥺': 'pleading face',
+    '🥹': 'face holding back tears',
+    '😦': 'frowning face with open mouth',
+    '😧': 'anguished face',
+    '😨': 'fearful face',
+    '😰': 'anxious face with sweat',
+    '😥': 'sad but relieved face',
+    '😢': 'crying face',
+    '😭': 'loudly crying face',
+    '😱': 'face screaming in fear',
+    '😖': 'confounded face',
+    '😣': 'persevering face',
+    '😞': 'disappointed face',
+    '😓': 'downcast face with sweat',
+    '😩': 'weary face',
+    '😫': 'tired face',
+    '🥱': 'yawning face',
+    '😤': 'face with steam from nose',
+    '😡': 'enraged face',
+    '😠': 'angry face',
+    '🤬': 'face with symbols on mouth',
+    '😈': 'smiling face with horns',
+    '💀': 'skull',
+    '☠': 'skull and crossbones',
+    '💩': 'pile of poo',
+    '🤡': 'clown face',
+    '👻': 'ghost',
+    '👽': 'alien',
+    '🤖': 'robot',
+    '😺': 'grinning cat',
+    '😹': 'cat with tears of joy',
+    '🙈': 'see-no-evil monkey',
+    '🙉': 'hear-no-evil monkey',
+    '🙊': 'speak-no-evil monkey',
+    '💋': 'kiss mark',
+    '💯': 'hundred points',
+    '💢': 'anger symbol',
+    '💥': 'collision',
+    '💫': 'dizzy',
+    '💦': 'sweat droplets',
+    '💨': 'dashing away',
+    '💬': 'speech balloon',
+    '💤': 'zzz',
+    '👋': 'waving hand',
+    '🤚': 'raised back of hand',
+    '✋': 'raised hand',
+    '👌': 'OK hand',
+    '🤌': 'pinched fingers',
+    '✌': 'victory hand',
+    '🤞': 'crossed fingers',
+    '🤟': 'love-you gesture',
+    '🤘': 'sign of the horns',
+    '🤙': 'call me hand',
+    '👈': 'backhand index pointing left',
+    '👉': 'backhand index pointing right',
+    '👆': 'backhand index pointing up',
+    '👇': 'backhand index pointing down',
+    '☝': 'index pointing up',
+    '👍': 'thumbs up',
+    '👎': 'thumbs down',
+    '✊': 'raised fist',
+    '👊': 'oncoming fist',
+    '👏': 'clapping hands',
+    '🙌': 'raising hands',
+    '🫶': 'heart hands',
+    '👐': 'open hands',
+    '🤝': 'handshake',
+    '🙏': 'folded hands',
+    '💪': 'flexed biceps',
+    '👀': 'eyes',
+    '👁': 'eye',
+    '🧠': 'brain',
+    '❤': 'red heart',
+    '🧡': 'orange heart',
+    '💛': 'yellow heart',
+    '💚': 'green heart',
+    '💙': 'blue heart',
+    '💜': 'purple heart',
+    '🖤': 'black heart',
+    '🤍': 'white heart',
+    '💔': 'broken heart',
+    '💕': 'two hearts',
+    '💖': 'sparkling heart',
+    '💗': 'growing heart',
+    '💘': 'heart with arrow',
+    '🔥': 'fire',
+    '✨': 'sparkles',
+    '⭐': 'star',
+    '🌟': 'glowing star',
+    '⚡': 'high voltage',
+    '🌈': 'rainbow',
+    '☀': 'sun',
+    '🌙': 'crescent moon',
+    '❄': 'snowflake',
+    '☔': 'umbrella with rain drops',
+    '🎉': 'party popper',
+    '🎊': 'confetti ball',
+    '🎈': 'balloon',
+    '🎁': 'wrapped gift',
+    '🎂': 'birthday cake',
+    '🏆': 'trophy',
+    '🥇': '1st place medal',
+    '🎮': 'video game',
+    '🕹': 'joystick',
+    '🎲': 'game die',
+    '🎵': 'musical note',
+    '🎶': 'musical notes',
+    '🎤': 'microphone',
+    '🎧': 'headphone',
+    '📢': 'loudspeaker',
+    '🔔': 'bell',
+    '💰': 'money bag',
+    '💎': 'gem stone',
+    '📈': 'chart increasing',
+    '📉': 'chart decreasing',
+    '⏰': 'alarm clock',
+    '⌛': 'hourglass done',
+    '🚀': 'rocket',
+    '🚨': 'police car light',
+    '⚠': 'warning',
+    '🚫': 'prohibited',
+    '✅': 'check mark button',
+    '❌': 'cross mark',
+    '❓': 'red question mark',
+    '❗': 'red exclamation mark',
+    '💡': 'light bulb',
+    '🔴': 'red circle',
+    '🟢': 'green circle',
+    '🐐': 'goat',
+    '🐶': 'dog face',
+    '🐱': 'cat face',
+    '🐸': 'frog',
+    '🐍': 'snake',
+    '🐢': 'turtle',
+    '🦀': 'crab',
+    '🐧': 'penguin',
+    '🦆': 'duck',
+    '🦄': 'unicorn',
+    '🐝': 'honeybee',
+    '🌹': 'rose',
+    '🌲': 'evergreen tree',
+    '🍀': 'four leaf clover',
+    '🍕': 'pizza',
+    '🍔': 'hamburger',
+    '🍟': 'french fries',
+    '🌮': 'taco',
+    '🍿': 'popcorn',
+    '🍩': 'doughnut',
+    '🍪': 'cookie',
+    '🍫': 'chocolate bar',
+    '🍓': 'strawberry',
+    '🍌': 'banana',
+    '🍎': 'red apple',
+    '🧂': 'salt',
+    '☕': 'hot beverage',
+    '🍺': 'beer mug',
+    '🍻': 'clinking beer mugs',
+    '🥂': 'clinking glasses',
+    '🍷': 'wine glass',
+    '🧃': 'beverage box',
+    '⚽': 'soccer ball',
+    '🏒': 'ice hockey',
+    '🏀': 'basketball',
+    '🎯': 'bullseye',
+    '🇫🇮': 'flag: Finland',
+  },
+  fi: {
+    '😀': 'virnistävät kasvot',
+    '😃': 'virnistävät kasvot isoilla silmillä',
+    '😄': 'virnistävät kasvot hymyilevillä silmillä',
+    '😁': 'säteilevät kasvot hymyilevillä silmillä',
+    '😆': 'virnistävät kasvot siristetyillä silmillä',
+    '😅': 'virnistävät kasvot ja hikipisara',
+    '🤣': 'kieriä lattialla nauraen',
+    '😂': 'ilonkyyneleet',
+    '🙂': 'hieman hymyilevät kasvot',
+    '🙃': 'ylösalaiset kasvot',
+    '😉': 'silmää iskevät kasvot',
+    '😊': 'hymyilevät kasvot hymyilevillä silmillä',
+    '😇': 'hymyilevät kasvot ja sädekehä',
+    '🥰': 'hymyilevät kasvot ja sydämet',
+    '😍': 'hymyilevät kasvot ja sydänsilmät',
+    '🤩': 'tähtisilmät',
+    '😘': 'lentosuukko',
+    '😋': 'herkuttelevat kasvot',
+    '😛': 'kieltä näyttävät kasvot',
+    '😜': 'silmää iskevät kasvot ja kieli',
+    '🤪': 'hölmöt kasvot',
+    '😝': 'siristävät kasvot ja kieli',
+    '🤑': 'rahasuu',
+    '🤗': 'halaavat kasvot',
+    '🤭': 'käsi suun edessä',
+    '🤫': 'hyssyttelevät kasvot',
+    '🤔': 'mietteliäät kasvot',
+    '🤐': 'vetoketjusuu',
+    '🤨': 'kulmakarvaa kohottavat kasvot',
+    '😐': 'neutraalit kasvot',
+    '😑': 'ilmeettömät kasvot',
+    '😶': 'suuttomat kasvot',
+    '😏': 'virnuilevat kasvot',
+    '😒': 'huvittumattomat kasvot',
+    '🙄': 'silmiään pyörittävät kasvot',
+    '😬': 'irvistävät kasvot',
+    '🤥': 'valehtelevat kasvot',
+    '😌': 'helpottuneet kasvot',
+    '😔': 'mietteliäät alakuloiset kasvot',
+    '😪': 'uniset kasvot',
+    '🤤': 'kuolaavat kasvot',
+    '😴': 'nukkuvat kasvot',
+    '😷': 'kasvot ja hengityssuojain',
+    '🤒': 'kasvot ja kuumemittari',
+    '🤢': 'pahoinvoivat kasvot',
+    '🤮': 'oksentavat kasvot',
+    '🥵': 'kuumissaan olevat kasvot',
+    '🥶': 'jäätyneet kasvot',
+    '🥴': 'pökertyneet kasvot',
+    '😵': 'ristisilmät',
+    '🤯': 'räjähtävä pää',
+    '🥳': 'juhlivat kasvot',
+    '😎': 'hymyilevät kasvot ja aurinkolasit',
+    '🤓': 'nörttikasvot',
+    '🧐': 'kasvot ja monokkeli',
+    '😕': 'hämmentyneet kasvot',
+    '😟': 'huolestuneet kasvot',
+    '🙁': 'hieman kurtistavat kasvot',
+    '😮': 'kasvot ja avoin suu',
+    '😯': 'hiljentyneet kasvot',
+    '😲': 'hämmästyneet kasvot',
+    '😳': 'punastuneet kasvot',
+    '🥺': 'anelevat kasvot',
+    '🥹': 'kyyneliä pidättelevät kasvot',
+    '😦': 'kurtistavat kasvot ja avoin suu',
+    '😧': 'tuskaiset kasvot',
+    '😨': 'pelokkaat kasvot',
+    '😰': 'ahdistuneet kasvot ja hiki',
+    '😥': 'surulliset mutta helpottuneet kasvot',
+    '😢': 'itkevät kasvot',
+    '😭': 'vollottavat kasvot',
+    '😱': 'kauhusta kirkuvat kasvot',
+    '😖': 'sekaisin olevat kasvot',
+    '😣': 'sinnittelevät kasvot',
+    '😞': 'pettyneet kasvot',
+    '😓': 'alakuloiset kasvot ja hiki',
+    '😩': 'väsyneet kasvot',
+    '😫': 'uupuneet kasvot',
+    '🥱': 'haukottelevat kasvot',
+    '😤': 'höyryävät kasvot',
+    '😡': 'raivoisat kasvot',
+    '😠': 'vihaiset kasvot',
+    '🤬': 'kiroilevat kasvot',
+    '😈': 'hymyilevät kasvot ja sarvet',
+    '💀': 'pääkallo',
+    '☠': 'pääkallo ja sääriluut',
+    '💩': 'kakkakasa',
+    '🤡': 'pellen kasvot',
+    '👻': 'kummitus',
+    '👽': 'avaruusolento',
+    '🤖': 'robotti',
+    '😺': 'virnistävä kissa',
+    '😹': 'kissa ja ilonkyyneleet',
+    '🙈': 'ei nää pahaa -apina',
+    '🙉': 'ei kuule pahaa -apina',
+    '🙊': 'ei puhu pahaa -apina',
+    '💋': 'suukon jälki',
+    '💯': 'sata pistettä',
+    '💢': 'vihan symboli',
+    '💥': 'törmäys',
+    '💫': 'huimaus',
+    '💦': 'hikipisarat',
+    '💨': 'vauhdikas lähtö',
+    '💬': 'puhekupla',
+    '💤': 'zzz',
+    '👋': 'heiluttava käsi',
+    '🤚': 'kohotettu kämmenselkä',
+    '✋': 'kohotettu käsi',
+    '👌': 'OK-käsi',
+    '🤌': 'puristetut sormet',
+    '✌': 'voitonmerkki',
+    '🤞': 'ristityt sormet',
+    '🤟': 'rakastan sinua -ele',
+    '🤘': 'sarvimerkki',
+    '🤙': 'soita minulle -käsi',
+    '👈': 'etusormi osoittaa vasemmalle',
+    '👉': 'etusormi osoittaa oikealle',
+    '👆': 'etusormi osoittaa ylös',
+    '👇': 'etusormi osoittaa alas',
+    '☝': 'osoittava etusormi',
+    '👍': 'peukku ylös',
+    '👎': 'peukku alas',
+    '✊': 'kohotettu nyrkki',
+    '👊': 'lähestyvä nyrkki',
+    '👏': 'taputtavat kädet',
+    '🙌': 'kohotetut kädet',
+    '🫶': 'sydänkädet',
+    '👐': 'avoimet kädet',
+    '🤝': 'kädenpuristus',
+    '🙏': 'yhteen liitetyt kädet',
+    '💪': 'jännitetty hauis',
+    '👀': 'silmät',
+    '👁': 'silmä',
+    '🧠': 'aivot',
+    '❤': 'punainen sydän',
+    '🧡': 'oranssi sydän',
+    '💛': 'keltainen sydän',
+    '💚': 'vihreä sydän',
+    '💙': 'sininen sydän',
+    '💜': 'violetti sydän',
+    '🖤': 'musta sydän',
+    '🤍': 'valkoinen sydän',
+    '💔': 'särkynyt sydän',
+    '💕': 'kaksi sydäntä',
+    '💖': 'kimaltava sydän',
+    '💗': 'kasvava sydän',
+    '💘': 'sydän ja nuoli',
+    '🔥': 'tuli',
+    '✨': 'kimallus',
+    '⭐': 'tähti',
+    '🌟': 'hehkuva tähti',
+    '⚡': 'korkeajännite',
+    '🌈': 'sateenkaari',
+    '☀': 'aurinko',
+    '🌙': 'kuunsirppi',
+    '❄': 'lumihiutale',
+    '☔': 'sateenvarjo ja sadepisarat',
+    '🎉': 'juhlapaukku',
+    '🎊': 'konfettipallo',
+    '🎈': 'ilmapallo',
+    '🎁': 'lahjapaketti',
+    '🎂': 'syntymäpäiväkakku',
+    '🏆': 'pokaali',
+    '🥇': 'kultamitali',
+    '🎮': 'videopeli',
+    '🕹': 'ohjaussauva',
+    '🎲': 'noppa',
+    '🎵': 'nuotti',
+    '🎶': 'nuotit',
+    '🎤': 'mikrofoni',
+    '🎧': 'kuulokkeet',
+    '📢': 'kovaääninen',
+    '🔔': 'kello',
+    '💰': 'rahapussi',
+    '💎': 'jalokivi',
+    '📈': 'nouseva kaavio',
+    '📉': 'laskeva kaavio',
+    '⏰': 'herätyskello',
+    '⌛': 'tiimalasi',
+    '🚀': 'raketti',
+    '🚨': 'poliisiauton valo',
+    '⚠': 'varoitus',
+    '🚫': 'kielletty',
+    '✅': 'valintamerkki',
+    '❌': 'ristimerkki',
+    '❓': 'punainen kysymysmerkki',
+    '❗': 'punainen huutomerkki',
+    '💡': 'hehkulamppu',
+    '🔴': 'punainen ympyrä',
+    '🟢': 'vihreä ympyrä',
+    '🐐': 'vuohi',
+    '🐶': 'koiran kasvot',
+    '🐱': 'kissan kasvot',
+    '🐸': 'sammakko',
+    '🐍': 'käärme',
+    '🐢': 'kilpikonna',
+    '🦀': 'rapu',
+    '🐧': 'pingviini',
+    '🦆': 'ankka',
+    '🦄': 'yksisarvinen',
+    '🐝': 'mehiläinen',
+    '🌹': 'ruusu',
+    '🌲': 'havupuu',
+    '🍀': 'neliapila',
+    '🍕': 'pizza',
+    '🍔': 'hampurilainen',
+    '🍟': 'ranskalaiset',
+    '🌮': 'taco',
+    '🍿': 'popcorn',
+    '🍩': 'donitsi',
+    '🍪': 'keksi',
+    '🍫': 'suklaapatukka',
+    '🍓': 'mansikka',
+    '🍌': 'banaani',
+    '🍎': 'punainen omena',
+    '🧂': 'suola',
+    '☕': 'kuuma juoma',
+    '🍺': 'oluttuoppi',
+    '🍻': 'kilistävät oluttuopit',
+    '🥂': 'kilistävät lasit',
+    '🍷': 'viinilasi',
+    '🧃': 'mehupurkki',
+    '⚽': 'jalkapallo',
+    '🏒': 'jääkiekko',
+    '🏀': 'koripallo',
+    '🎯': 'napakymppi',
+    '🇫🇮': 'lippu: Suomi',
+  },
+};
@@ -0,0 +1,65 @@
+import type { NormalizationSettings, NormalizerContext, NormalizerStage } from '../../types';
+import { urlStage } from './urls';
+import { mentionStage } from './mentions';
+import { emojiStage } from './emoji';
+import { repeatedLetterStage } from './repeatedLetters';
+import { numberStage } from './numbers';
+import { punctuationStage } from './punctuation';
+import { maxLengthStage } from './maxLength';
+
+/**
+ * Every normalizer stage in the order it runs
+ * Links go first so their digits and symbols are never read, emoji are named before symbols are
+ * removed, and the length limit applies to the text that will actually be spoken
+ * Requirements: 2.4
+ */
+export const NORMALIZER_STAGES: NormalizerStage[] = [
+  urlStage,
+  mentionStage,
+  emojiStage,
+  repeatedLetterStage,
+  numberStage,
+  punctuationStage,
+  maxLengthStage,
+];
+
+/**
+ * Every stage runs by default
+ */
+export const DEFAULT_NORMALIZATION_SETTINGS: NormalizationSettings = {
+  stages: {
+    urls: true,
+    mentions: true,
+    emoji: true,
+    repeatedLetters: true,
+    numbers: true,
+    punctuation: true,
+    maxLength: true,
+  },
+  mentionMode: 'name',
+  emojiMode: 'dedupe',
+  emojiOverrides: {},
+  maxLength: 200,
+};
+
+/**
+ * Collapse whitespace that stages leave behind, including spaces before punctuation
+ */
+export function tidySpacing(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/ ([.,!?])/g, '$1').trim();
+}
+
+/**
+ * Run the enabled normalizer stages over text and tidy its whitespace
+ * Requirements: 2.4
+ */
+export function normalizeText(
+  text: string,
+  settings: NormalizationSettings,
+  context: Omit<NormalizerContext, 'settings'> = {}
+): string {
+  return NORMALIZER_STAGES
+    .filter((stage) => settings.stages[stage.id])
+    // Tidy after every stage, the length limit needs the extra spaces gone
+    .reduce((result, stage) => tidySpacing(stage.normalize(result, { ...context, settings })), tidySpacing(text));
+}
@@ -0,0 +1,32 @@
+import type { NormalizerStage } from '../../types';
+
+/**
+ * How far back from the limit to look for a space to cut at
+ */
+const WORD_CUT_WINDOW = 20;
+
+/**
+ * Cut text to a length, at a word when one ends close to the limit, and end it with "..."
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  const atWord = lastSpace >= maxLength - WORD_CUT_WINDOW ? cut.slice(0, lastSpace) : cut;
+
+  return `${atWord.trimEnd()}...`;
+}
+
+/**
+ * Limit message length to prevent very long speeches
+ * Requirements: 2.4
+ */
+export const maxLengthStage: NormalizerStage = {
+  id: 'maxLength',
+  label: 'Length limit',
+  description: 'Cut long messages short',
+  normalize: (text, { settings }) => truncateText(text, settings.maxLength),
+};
@@ -0,0 +1,26 @@
+import type { NormalizerStage } from '../../types';
+
+const MENTION_PATTERN = /(^|[^\w])@(\w+)/g;
+
+/**
+ * Read @mentions as just the name, as "at" and the name, or leave them out
+ * Names are read with the chatter's nickname when the pipeline is given one
+ * Requirements: 2.4
+ */
+export const mentionStage: NormalizerStage = {
+  id: 'mentions',
+  label: 'Mentions',
+  description: 'Read @mentions as the name, "at" and the name, or not at all',
+  normalize: (text, { settings, speakName }) => text.replace(MENTION_PATTERN, (_match, before: string, username: string) => {
+    const name = speakName ? speakName(username) : username;
+
+    switch (settings.mentionMode) {
+      case 'drop':
+        return before;
+      case 'at':
+        return `${before}at ${name}`;
+      default:
+        return `${before}${name}`;
+    }
+  }),
+};
@@ -0,0 +1,121 @@
+import type { NormalizerStage } from '../../types';
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion'];
+
+/**
+ * Ordinals that do not just add "th"
+ */
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+/**
+ * Numbers with more digits than this are read digit by digit, like phone numbers
+ */
+const MAX_DIGITS = 12;
+
+const ORDINAL_PATTERN = /\b(\d+)(?:st|nd|rd|th)\b/gi;
+const NUMBER_PATTERN = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+
+function spellDigits(digits: string): string {
+  return digits.split('').map((digit) => ONES[Number(digit)]).join(' ');
+}
+
+function hundredsToWords(value: number): string {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (hundreds > 0) {
+    words.push(ONES[hundreds], 'hundred');
+  }
+  if (rest >= 20) {
+    words.push(TENS[Math.floor(rest / 10)]);
+    if (rest % 10 > 0) {
+      words.push(ONES[rest % 10]);
+    }
+  } else if (rest > 0) {
+    words.push(ONES[rest]);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Spell out a whole number in English, e.g. "1205" as "one thousand two hundred five"
+ * Long numbers and numbers with leading zeros are read digit by digit
+ */
+export function integerToWords(digits: string): string {
+  if (digits.length > MAX_DIGITS || (digits.length > 1 && digits.startsWith('0'))) {
+    return spellDigits(digits);
+  }
+
+  let value = Number(digits);
+  if (value === 0) {
+    return ONES[0];
+  }
+
+  const groups: string[] = [];
+  for (let scale = 0; value > 0; scale++, value = Math.floor(value / 1000)) {
+    const group = value % 1000;
+    if (group > 0) {
+      groups.unshift([hundredsToWords(group), SCALES[scale]].filter(Boolean).join(' '));
+    }
+  }
+
+  return groups.join(' ');
+}
+
+/**
+ * Spell out a number with optional thousands separators and decimals, e.g. "1,000.5"
+ */
+export function numberToWords(text: string): string {
+  const [whole, decimals] = text.replace(/,/g, '').split('.');
+  const words = integerToWords(whole);
+
+  return decimals ? `${words} point ${spellDigits(decimals)}` : words;
+}
+
+/**
+ * Spell out an ordinal, e.g. "21" as "twenty first"
+ */
+export function ordinalToWords(digits: string): string {
+  const words = integerToWords(digits).split(' ');
+  const last = words[words.length - 1];
+
+  words[words.length - 1] = IRREGULAR_ORDINALS[last]
+    ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+
+  return words.join(' ');
+}
+
+/**
+ * Spell out numbers and ordinals in English, surrounded by spaces so "10k" reads as "ten k"
+ * Messages detected as another language are left for the voice to read in that language
+ * Requirements: 2.4
+ */
+export const numberStage: NormalizerStage = {
+  id: 'numbers',
+  label: 'Numbers',
+  description: 'Read "3rd" as "third" and "1,500" as "one thousand five hundred"',
+  normalize: (text, { language }) => {
+    if (language && language !== 'en') {
+      return text;
+    }
+
+    return text
+      .replace(ORDINAL_PATTERN, (_match, digits: string) => ` ${ordinalToWords(digits)} `)
+      .replace(NUMBER_PATTERN, (number) => ` ${numberToWords(number)} `);
+  },
+};
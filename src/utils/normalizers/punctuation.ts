@@ -0,0 +1,25 @@
+import type { NormalizerStage } from '../../types';
+
+/**
+ * Anything that is not a letter, mark, digit, whitespace or basic punctuation, in any script
+ */
+const SYMBOL_PATTERN = /[^\p{L}\p{M}\p{N}\s.,!?'-]/gu;
+
+/**
+ * The same punctuation mark several times in a row
+ */
+const REPEATED_PUNCTUATION_PATTERN = /([.,!?'-])\1+/g;
+
+/**
+ * Remove symbols while keeping letters of every language, e.g. "ä", "ö" and "å"
+ * Repeated marks are shortened to one, except "..." which voices read as a pause
+ * Requirements: 2.4
+ */
+export const punctuationStage: NormalizerStage = {
+  id: 'punctuation',
+  label: 'Symbols',
+  description: 'Remove symbols and repeated punctuation, keeping letters of every language',
+  normalize: (text) => text
+    .replace(SYMBOL_PATTERN, ' ')
+    .replace(REPEATED_PUNCTUATION_PATTERN, (_marks: string, mark: string) => (mark === '.' ? '...' : mark)),
+};
@@ -0,0 +1,18 @@
+import type { NormalizerStage } from '../../types';
+
+/**
+ * Three or more of the same letter in a row, long enough that it is never spelling
+ */
+const REPEATED_LETTER_PATTERN = /(\p{L})\1{2,}/gu;
+
+/**
+ * Collapse stretched words, e.g. "loooool" to "lol" and "noooo" to "no"
+ * Double letters are kept, so "cool" and "tuuli" read as written
+ * Requirements: 2.4
+ */
+export const repeatedLetterStage: NormalizerStage = {
+  id: 'repeatedLetters',
+  label: 'Stretched words',
+  description: 'Read "loooool" as "lol"',
+  normalize: (text) => text.replace(REPEATED_LETTER_PATTERN, '$1'),
+};
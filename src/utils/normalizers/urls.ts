@@ -0,0 +1,32 @@
+import type { NormalizerStage } from '../../types';
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+/gi;
+
+/**
+ * Read the domain of a URL, e.g. "https://www.youtube.com/watch?v=1" as "youtube dot com"
+ * Returns null when the text has no usable host
+ */
+export function speakDomain(url: string): string | null {
+  const withScheme = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+
+  try {
+    const host = new URL(withScheme).hostname.replace(/^www\./i, '');
+    return host ? host.split('.').filter(Boolean).join(' dot ') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace links with "link to" and their domain instead of reading the whole address
+ * Requirements: 2.4
+ */
+export const urlStage: NormalizerStage = {
+  id: 'urls',
+  label: 'Links',
+  description: 'Read links as "link to youtube dot com"',
+  normalize: (text) => text.replace(URL_PATTERN, (url) => {
+    const domain = speakDomain(url);
+    return domain ? `link to ${domain}` : 'link';
+  }),
+};
@@ -0,0 +1,111 @@
+import type { OverflowPolicy, QueueLimitSettings, TTSQueueItem } from '../types';
+
+/**
+ * Labels for each overflow policy
+ */
+export const OVERFLOW_POLICY_LABELS: Record<OverflowPolicy, string> = {
+  dropOldest: 'Drop the oldest message',
+  rejectNewest: 'Reject new messages',
+  onePerUser: 'Keep one message per chatter',
+  randomSample: 'Keep a random sample',
+};
+
+export const OVERFLOW_POLICIES = Object.keys(OVERFLOW_POLICY_LABELS) as OverflowPolicy[];
+
+/**
+ * No limit and no expiry, so the queue keeps every message as it did before limits existed
+ * Streamers opt in from the Limits panel, 30 messages and 120 seconds are suggested there for raids
+ */
+export const DEFAULT_QUEUE_LIMIT_SETTINGS: QueueLimitSettings = {
+  maxLength: 0,
+  overflowPolicy: 'dropOldest',
+  maxAgeSeconds: 0,
+};
+
+/**
+ * Limits suggested for busy chats and raids
+ */
+export const SUGGESTED_QUEUE_LIMIT_SETTINGS: QueueLimitSettings = {
+  maxLength: 30,
+  overflowPolicy: 'dropOldest',
+  maxAgeSeconds: 120,
+};
+
+/**
+ * When an item queued at `queuedAt` expires, undefined when messages never expire
+ * Requirements: 4.1
+ */
+export function getExpiryTime(queuedAt: number, settings: QueueLimitSettings): number | undefined {
+  return settings.maxAgeSeconds > 0 ? queuedAt + settings.maxAgeSeconds * 1000 : undefined;
+}
+
+/**
+ * Check whether a waiting item has outlived its time to live
+ * Requirements: 4.1
+ */
+export function isExpired(item: Pick<TTSQueueItem, 'expiresAt'>, now: number = Date.now()): boolean {
+  return item.expiresAt !== undefined && now >= item.expiresAt;
+}
+
+/**
+ * Drop older items of chatters with several waiting, keeping each chatter's newest message
+ * Once every chatter is down to one message, the newest messages are dropped
+ */
+function selectRepeatedUsers(items: TTSQueueItem[], excess: number): TTSQueueItem[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = item.message.username.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const dropped: TTSQueueItem[] = [];
+  for (const item of items) {
+    if (dropped.length === excess) {
+      return dropped;
+    }
+
+    const key = item.message.username.toLowerCase();
+    const count = counts.get(key) ?? 0;
+    if (count > 1) {
+      dropped.push(item);
+      counts.set(key, count - 1);
+    }
+  }
+
+  const remaining = items.filter((item) => !dropped.includes(item));
+  return [...dropped, ...remaining.slice(remaining.length - (excess - dropped.length))];
+}
+
+/**
+ * Pick the waiting items to drop so at most `maxLength` remain
+ * Items are in arrival order with the newest last, `random` is replaceable for tests
+ * Requirements: 4.1
+ */
+export function selectOverflow(
+  items: TTSQueueItem[],
+  settings: QueueLimitSettings,
+  random: () => number = Math.random
+): TTSQueueItem[] {
+  const excess = settings.maxLength > 0 ? items.length - settings.maxLength : 0;
+  if (excess <= 0) {
+    return [];
+  }
+
+  switch (settings.overflowPolicy) {
+    case 'rejectNewest':
+      return items.slice(-excess);
+    case 'onePerUser':
+      return selectRepeatedUsers(items, excess);
+    case 'randomSample': {
+      // Every waiting message, the new one included, is equally likely to make way
+      const remaining = [...items];
+      const dropped: TTSQueueItem[] = [];
+      while (dropped.length < excess) {
+        dropped.push(...remaining.splice(Math.floor(random() * remaining.length), 1));
+      }
+      return dropped;
+    }
+    default:
+      return items.slice(0, excess);
+  }
+}
@@ -0,0 +1,149 @@
+import type {
+  ChatMessage,
+  PriorityCondition,
+  PriorityTier,
+  QueuePrioritySettings,
+  TTSQueueItem,
+} from '../types';
+import { hasPermissionBadge } from './chatCommands';
+
+/**
+ * Labels for each condition a tier can match on
+ */
+export const PRIORITY_CONDITION_LABELS: Record<PriorityCondition, string> = {
+  broadcaster: 'Broadcaster',
+  moderator: 'Moderator',
+  vip: 'VIP',
+  subscriber: 'Subscriber',
+  bits: 'Cheered bits',
+  highlighted: 'Highlighted message',
+  firstMessage: 'First message in chat',
+};
+
+export const PRIORITY_CONDITIONS = Object.keys(PRIORITY_CONDITION_LABELS) as PriorityCondition[];
+
+/**
+ * Staff first, then supporters, then subscribers, then everyone else
+ * Priorities start off so the queue stays first in, first out until enabled
+ */
+export const DEFAULT_QUEUE_PRIORITY_SETTINGS: QueuePrioritySettings = {
+  enabled: false,
+  tiers: [
+    { id: 'staff', label: 'Broadcaster and mods', conditions: ['broadcaster', 'moderator'] },
+    { id: 'supporters', label: 'Bits and highlights', conditions: ['bits', 'highlighted'] },
+    { id: 'subscribers', label: 'Subscribers', conditions: ['subscriber'] },
+    { id: 'everyone', label: 'Everyone', conditions: [] },
+  ],
+  agingSeconds: 30,
+};
+
+/**
+ * Create a unique id for a priority tier
+ */
+export function createPriorityTierId(): string {
+  return `tier-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Check a single tier condition against a message
+ */
+function matchesCondition(
+  message: Pick<ChatMessage, 'badges' | 'bits' | 'isHighlighted' | 'isFirstMessage'>,
+  condition: PriorityCondition,
+  tier: PriorityTier
+): boolean {
+  switch (condition) {
+    case 'bits':
+      return (message.bits ?? 0) >= Math.max(tier.minBits ?? 1, 1);
+    case 'highlighted':
+      return !!message.isHighlighted;
+    case 'firstMessage':
+      return !!message.isFirstMessage;
+    default:
+      return hasPermissionBadge(message.badges, condition);
+  }
+}
+
+/**
+ * Find the index of the first tier a message matches
+ * Messages matching no tier rank below the last one
+ * Requirements: 4.1
+ */
+export function findPriorityTier(
+  message: Pick<ChatMessage, 'badges' | 'bits' | 'isHighlighted' | 'isFirstMessage'>,
+  tiers: PriorityTier[]
+): number {
+  const index = tiers.findIndex((tier) =>
+    tier.conditions.length === 0 || tier.conditions.some((condition) => matchesCondition(message, condition, tier)));
+
+  return index === -1 ? tiers.length : index;
+}
+
+/**
+ * Rank of a waiting item, 0 is the highest priority
+ * Every `agingSeconds` spent waiting moves the item up one tier so low tiers never starve
+ * Requirements: 4.1
+ */
+export function getEffectiveRank(
+  item: Pick<TTSQueueItem, 'message' | 'queuedAt'>,
+  settings: QueuePrioritySettings,
+  now: number = Date.now()
+): number {
+  const rank = findPriorityTier(item.message, settings.tiers);
+  if (settings.agingSeconds <= 0 || item.queuedAt === undefined) {
+    return rank;
+  }
+
+  const steps = Math.floor((now - item.queuedAt) / (settings.agingSeconds * 1000));
+  return Math.max(rank - Math.max(steps, 0), 0);
+}
+
+/**
+ * Order waiting items by effective rank, keeping arrival order within a rank
+ * Returns a copy in the original order while priorities are off
+ * Requirements: 4.1, 4.2
+ */
+export function orderQueue(
+  items: TTSQueueItem[],
+  settings: QueuePrioritySettings,
+  now: number = Date.now()
+): TTSQueueItem[] {
+  if (!settings.enabled) {
+    return [...items];
+  }
+
+  // Array.prototype.sort is stable, so equal ranks keep their queue order
+  return items
+    .map((item) => ({ item, rank: getEffectiveRank(item, settings, now) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+}
+
+/**
+ * Label of the tier a message matches, undefined while priorities are off or nothing matches
+ */
+export function getPriorityTierLabel(
+  message: Pick<ChatMessage, 'badges' | 'bits' | 'isHighlighted' | 'isFirstMessage'>,
+  settings: QueuePrioritySettings
+): string | undefined {
+  if (!settings.enabled) {
+    return undefined;
+  }
+
+  return settings.tiers[findPriorityTier(message, settings.tiers)]?.label;
+}
+
+/**
+ * Move a tier up or down the priority order
+ */
+export function movePriorityTier(tiers: PriorityTier[], id: string, direction: -1 | 1): PriorityTier[] {
+  const index = tiers.findIndex((tier) => tier.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= tiers.length) {
+    return tiers;
+  }
+
+  const reordered = [...tiers];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
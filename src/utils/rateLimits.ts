@@ -0,0 +1,32 @@
+import type { ChatMessage, RateLimitSettings, UserRateLimit } from '../types';
+import { getPermissionLevel } from './chatCommands';
+
+/**
+ * Chatters without badges get the tightest limits, moderators and the broadcaster none
+ * Rate limits start off until the streamer turns them on
+ */
+export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
+  enabled: false,
+  limits: {
+    everyone: { messages: 3, windowSeconds: 60, cooldownSeconds: 10, onePending: true },
+    subscriber: { messages: 5, windowSeconds: 60, cooldownSeconds: 5, onePending: false },
+    vip: { messages: 5, windowSeconds: 60, cooldownSeconds: 0, onePending: false },
+    moderator: { messages: 0, windowSeconds: 60, cooldownSeconds: 0, onePending: false },
+    broadcaster: { messages: 0, windowSeconds: 60, cooldownSeconds: 0, onePending: false },
+  },
+};
+
+/**
+ * Limits for a chatter's highest permission level
+ * Requirements: 4.1
+ */
+export function getUserRateLimit(message: Pick<ChatMessage, 'badges'>, settings: RateLimitSettings): UserRateLimit {
+  return settings.limits[getPermissionLevel(message.badges)];
+}
+
+/**
+ * Format a wait as whole seconds, rounding up so "0s" is never shown
+ */
+export function formatWait(milliseconds: number): string {
+  return `${Math.max(1, Math.ceil(milliseconds / 1000))}s`;
+}
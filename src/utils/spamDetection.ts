@@ -0,0 +1,143 @@
+import type { SpamFilterSettings } from '../types';
+
+/**
+ * Off until the streamer turns it on, the thresholds catch floods, raids and copypastas
+ * without rejecting ordinary chatter
+ */
+export const DEFAULT_SPAM_FILTER_SETTINGS: SpamFilterSettings = {
+  enabled: false,
+  similarityThreshold: 0.85,
+  duplicateWindowSeconds: 30,
+  copypastaMinLength: 50,
+  copypastaWindowSeconds: 600,
+  maxRepeatedChars: 12,
+  maxCombiningMarks: 2,
+  maxArtSymbols: 20,
+};
+
+/**
+ * A character or short pattern repeated back to back, e.g. "aaaa" or "hahaha"
+ */
+const REPETITION_PATTERN = /(.{1,4}?)\1+/gsu;
+
+/**
+ * Stacked combining marks, the building block of Zalgo text
+ */
+const COMBINING_MARKS_PATTERN = /\p{M}+/gu;
+
+/**
+ * Box drawing, block elements, geometric shapes and braille patterns used to draw pictures in chat
+ */
+const DRAWING_PATTERN = /[─-◿⠀-⣿]/u;
+
+const SYMBOL_PATTERN = /[\p{P}\p{S}]/u;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+/**
+ * Messages this long made up mostly of symbols are pictures rather than punctuation
+ */
+const SYMBOL_ART_MIN_LENGTH = 20;
+const SYMBOL_ART_RATIO = 0.6;
+
+/**
+ * Reduce a message to its letters and digits for comparing, so "FIRST!!!" and "firsttt" match
+ */
+export function normalizeForComparison(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/(.)\1+/gu, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Count the two-character pairs of a string
+ */
+function getBigrams(text: string): Map<string, number> {
+  const characters = [...text];
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < characters.length - 1; index++) {
+    const bigram = characters[index] + characters[index + 1];
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * Similarity of two normalized messages from 0 to 1 (Sørensen-Dice coefficient over character pairs)
+ * Requirements: 6.1
+ */
+export function getSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const first = getBigrams(a);
+  const second = getBigrams(b);
+  const total = [...first.values(), ...second.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  first.forEach((count, bigram) => {
+    shared += Math.min(count, second.get(bigram) ?? 0);
+  });
+
+  return (2 * shared) / total;
+}
+
+/**
+ * Length in characters of the longest run of a repeated character or short pattern
+ * Combining marks and emoji variation selectors are not counted, so "❤️❤️" is a run of 2
+ */
+export function getLongestRepetition(text: string): number {
+  return Math.max(0, ...[...text.matchAll(REPETITION_PATTERN)]
+    .map((match) => [...match[0].replace(/\p{M}/gu, '')].length));
+}
+
+/**
+ * Most combining marks stacked on a single character
+ */
+export function getMaxCombiningMarks(text: string): number {
+  return Math.max(0, ...[...text.matchAll(COMBINING_MARKS_PATTERN)].map((match) => match[0].length));
+}
+
+/**
+ * Count characters used for drawing, every symbol counts when symbols make up most of a long message
+ * Emoji are left out, they are read by name
+ */
+export function countArtSymbols(text: string): number {
+  const characters = [...text].filter((character) => character.trim() !== '');
+  const drawing = characters.filter((character) => DRAWING_PATTERN.test(character)).length;
+  const symbols = characters.filter((character) =>
+    DRAWING_PATTERN.test(character) || (SYMBOL_PATTERN.test(character) && !EMOJI_PATTERN.test(character))).length;
+
+  return characters.length >= SYMBOL_ART_MIN_LENGTH && symbols / characters.length > SYMBOL_ART_RATIO
+    ? symbols
+    : drawing;
+}
+
+/**
+ * Check a single message for character repetition, Zalgo text and ASCII art
+ * Returns the reason to reject it, or null when it looks fine
+ * Requirements: 6.1
+ */
+export function detectSpamPattern(text: string, settings: SpamFilterSettings): string | null {
+  if (settings.maxRepeatedChars > 0 && getLongestRepetition(text) > settings.maxRepeatedChars) {
+    return 'Repeated characters';
+  }
+
+  if (settings.maxCombiningMarks > 0 && getMaxCombiningMarks(text) > settings.maxCombiningMarks) {
+    return 'Zalgo text';
+  }
+
+  if (settings.maxArtSymbols > 0 && countArtSymbols(text) > settings.maxArtSymbols) {
+    return 'ASCII art';
+  }
+
+  return null;
+}
@@ -0,0 +1,171 @@
+import type { SubstitutionRule, SubstitutionScope } from '../types';
+
+/**
+ * A rule as stored in exported JSON, ids are assigned again on import
+ */
+export type ExportedSubstitutionRule = Omit<SubstitutionRule, 'id'>;
+
+/**
+ * Letters and digits in any script, so whole-word rules work with words like "tää"
+ */
+const WORD_BEFORE = '(?<![\\p{L}\\p{N}_])';
+const WORD_AFTER = '(?![\\p{L}\\p{N}_])';
+
+/**
+ * Usernames mentioned in a message, e.g. "@huikkakoodaa"
+ */
+const MENTION_PATTERN = /(@\w+)/;
+
+/**
+ * Create a unique id for a substitution rule
+ */
+export function createSubstitutionId(): string {
+  return `substitution-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a rule into a global regular expression
+ * Returns null for empty rules and invalid regular expressions, which are skipped
+ * Requirements: 2.4
+ */
+export function compileSubstitution(rule: Pick<SubstitutionRule, 'find' | 'regex' | 'caseSensitive' | 'wholeWord'>): RegExp | null {
+  if (!rule.find) {
+    return null;
+  }
+
+  const source = rule.regex ? rule.find : escapeRegExp(rule.find);
+  const flags = rule.caseSensitive ? 'gu' : 'giu';
+
+  try {
+    // Check the expression on its own first, wrapping it could close an unterminated group or class
+    const pattern = new RegExp(source, flags);
+    return rule.wholeWord ? new RegExp(`${WORD_BEFORE}(?:${source})${WORD_AFTER}`, flags) : pattern;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describe why a regular expression rule can not be used, or null when it can
+ */
+export function getSubstitutionError(rule: Pick<SubstitutionRule, 'find' | 'regex' | 'caseSensitive' | 'wholeWord'>): string | null {
+  if (!rule.find) {
+    return 'Enter the text to find';
+  }
+
+  return compileSubstitution(rule) ? null : 'Invalid regular expression';
+}
+
+/**
+ * Apply every rule for a scope in order
+ * Rules scoped to all messages apply to usernames too
+ */
+function applyRules(text: string, rules: SubstitutionRule[], scope: SubstitutionScope): string {
+  return rules
+    .filter((rule) => rule.scope === 'all' || rule.scope === scope)
+    .reduce((result, rule) => {
+      const pattern = compileSubstitution(rule);
+      if (!pattern) {
+        return result;
+      }
+
+      // Literal replacements must not treat "$" as a group reference
+      return rule.regex
+        ? result.replace(pattern, rule.replace)
+        : result.replace(pattern, () => rule.replace);
+    }, text);
+}
+
+/**
+ * Apply substitutions to a username
+ * Requirements: 2.4
+ */
+export function substituteUsername(username: string, rules: SubstitutionRule[]): string {
+  return applyRules(username, rules, 'usernames');
+}
+
+/**
+ * Apply substitutions to message text, @mentions are treated as usernames
+ * Requirements: 2.4
+ */
+export function substituteMessageText(text: string, rules: SubstitutionRule[]): string {
+  // Splitting on a captured pattern puts the mentions at odd indexes
+  return text
+    .split(MENTION_PATTERN)
+    .map((part, index) => (index % 2 === 1
+      ? `@${substituteUsername(part.slice(1), rules)}`
+      : applyRules(part, rules, 'all')))
+    .join('');
+}
+
+/**
+ * Serialize rules for sharing, without their ids
+ * Requirements: 3.1
+ */
+export function exportSubstitutions(rules: SubstitutionRule[]): string {
+  const exported: ExportedSubstitutionRule[] = rules.map((rule) => ({
+    find: rule.find,
+    replace: rule.replace,
+    regex: rule.regex,
+    caseSensitive: rule.caseSensitive,
+    wholeWord: rule.wholeWord,
+    scope: rule.scope,
+  }));
+  return JSON.stringify(exported, null, 2);
+}
+
+/**
+ * Parse rules exported with `exportSubstitutions`, missing flags use their defaults
+ * Throws an error describing the first problem found
+ * Requirements: 3.1
+ */
+export function importSubstitutions(json: string): SubstitutionRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The text is not valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a list of substitution rules');
+  }
+
+  return parsed.map((entry, index) => {
+    if (typeof entry !== 'object' || entry === null
+      || typeof entry.find !== 'string' || typeof entry.replace !== 'string') {
+      throw new Error(`Rule ${index + 1} needs "find" and "replace" text`);
+    }
+
+    const rule: SubstitutionRule = {
+      id: createSubstitutionId(),
+      find: entry.find,
+      replace: entry.replace,
+      regex: entry.regex === true,
+      caseSensitive: entry.caseSensitive === true,
+      wholeWord: entry.wholeWord !== false,
+      scope: entry.scope === 'usernames' ? 'usernames' : 'all',
+    };
+
+    const error = getSubstitutionError(rule);
+    if (error) {
+      throw new Error(`Rule ${index + 1}: ${error}`);
+    }
+
+    return rule;
+  });
+}
+
+/**
+ * Add imported rules, replacing existing rules that find the same text in the same scope
+ */
+export function mergeSubstitutions(existing: SubstitutionRule[], imported: SubstitutionRule[]): SubstitutionRule[] {
+  const isSame = (a: SubstitutionRule, b: SubstitutionRule) =>
+    a.find === b.find && a.scope === b.scope && a.regex === b.regex;
+
+  return [...existing.filter((rule) => !imported.some((other) => isSame(rule, other))), ...imported];
+}
@@ -0,0 +1,77 @@
+/**
+ * Scopes needed to read and send chat messages over IRC
+ */
+export const CHAT_SCOPES = ['chat:read', 'chat:edit'];
+
+/**
+ * Details Twitch returns when validating an access token
+ */
+export interface TokenValidation {
+  login: string;
+  userId: string;
+  clientId: string;
+  scopes: string[];
+  expiresIn: number; // Seconds
+}
+
+/**
+ * Strip the "oauth:" prefix that IRC token generators add
+ */
+export function normalizeOAuthToken(token: string): string {
+  return token.trim().replace(/^oauth:/i, '');
+}
+
+/**
+ * Build the Twitch implicit grant URL that redirects back with a token in the URL hash
+ * Requirements: 1.1
+ */
+export function buildAuthorizeUrl(clientId: string, redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    response_type: 'token',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: CHAT_SCOPES.join(' '),
+    state,
+  });
+
+  return `https://id.twitch.tv/oauth2/authorize?${params.toString()}`;
+}
+
+/**
+ * Read the access token from an implicit grant redirect hash
+ * Returns null when the hash is not a redirect, the state does not match or the user denied access
+ * Requirements: 1.1
+ */
+export function parseAuthRedirect(hash: string, expectedState: string | null): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const token = params.get('access_token');
+
+  if (!token || !expectedState || params.get('state') !== expectedState) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Look up the login a token belongs to, rejects when Twitch does not accept the token
+ * Requirements: 1.1
+ */
+export async function validateToken(token: string): Promise<TokenValidation> {
+  const response = await fetch('https://id.twitch.tv/oauth2/validate', {
+    headers: { Authorization: `OAuth ${normalizeOAuthToken(token)}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(response.status === 401 ? 'Invalid or expired token' : `Token validation failed (${response.status})`);
+  }
+
+  const data = await response.json();
+  return {
+    login: data.login,
+    userId: data.user_id,
+    clientId: data.client_id,
+    scopes: data.scopes ?? [],
+    expiresIn: data.expires_in,
+  };
+}
@@ -0,0 +1,264 @@
+import type {
+  ChatMessage,
+  TTSSettings,
+  TTSVoice,
+  UserVoicePreference,
+  ViewerVoiceSettings,
+} from '../types';
+import { hasCommandPermission } from './chatCommands';
+
+/**
+ * Every chat message starting with this prefix is a voice command and never spoken
+ */
+export const VOICE_COMMAND_PREFIX = '!voice';
+
+/**
+ * localStorage key for viewers' saved voices
+ */
+export const USER_VOICES_STORAGE_KEY = 'tts-user-voices';
+
+/**
+ * Range viewers may choose for their own rate and pitch
+ */
+export const VIEWER_RATE_RANGE = { min: 0.5, max: 2 };
+export const VIEWER_PITCH_RANGE = { min: 0, max: 2 };
+
+/**
+ * Voice selection is off until the streamer turns it on
+ */
+export const DEFAULT_VIEWER_VOICE_SETTINGS: ViewerVoiceSettings = {
+  enabled: false,
+  permission: 'everyone',
+  allowedVoices: [],
+};
+
+/**
+ * The most voices listed in a single chat reply, Twitch messages are capped at 500 characters
+ */
+const MAX_LISTED_VOICES = 10;
+
+/**
+ * A parsed `!voice` command
+ */
+export type VoiceCommand =
+  | { type: 'list' }
+  | { type: 'reset' }
+  | { type: 'show' }
+  | { type: 'select'; query: string; rate?: number; pitch?: number };
+
+/**
+ * Check whether a chat message is a `!voice` command
+ * Requirements: 4.3
+ */
+export function isVoiceCommand(text: string): boolean {
+  const trimmed = text.trim().toLowerCase();
+  return trimmed === VOICE_COMMAND_PREFIX || trimmed.startsWith(`${VOICE_COMMAND_PREFIX} `);
+}
+
+/**
+ * Parse a `!voice <name|number> [rate] [pitch]`, `!voice list` or `!voice reset` message
+ * Returns null for other messages
+ * Requirements: 4.3
+ */
+export function parseVoiceCommand(text: string): VoiceCommand | null {
+  if (!isVoiceCommand(text)) {
+    return null;
+  }
+
+  const args = text.trim().split(/\s+/).slice(1);
+  const keyword = args[0]?.toLowerCase();
+
+  if (!keyword) {
+    return { type: 'show' };
+  }
+  if (args.length === 1 && (keyword === 'list' || keyword === 'reset')) {
+    return { type: keyword };
+  }
+
+  // Trailing numbers after a voice name are rate and pitch, e.g. "!voice Samantha 1.2 0.8"
+  const numbers: number[] = [];
+  while (args.length > 1 && numbers.length < 2 && !isNaN(Number(args[args.length - 1]))) {
+    numbers.unshift(Number(args.pop()));
+  }
+
+  return {
+    type: 'select',
+    query: args.join(' '),
+    rate: numbers[0],
+    pitch: numbers[1],
+  };
+}
+
+/**
+ * Voices viewers may choose from, in the order they are numbered in `!voice list`
+ * Requirements: 3.1
+ */
+export function getAllowedVoices(
+  voices: TTSVoice[],
+  viewerVoices: ViewerVoiceSettings
+): TTSVoice[] {
+  if (viewerVoices.allowedVoices.length === 0) {
+    return voices;
+  }
+
+  return voices.filter((voice) => viewerVoices.allowedVoices.includes(voice.name));
+}
+
+/**
+ * Find a voice by its 1-based number or its name, exact matches win over partial ones
+ * Requirements: 3.1
+ */
+export function findVoice(query: string, voices: TTSVoice[]): TTSVoice | undefined {
+  const trimmed = query.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return voices[parseInt(trimmed, 10) - 1];
+  }
+
+  const lower = trimmed.toLowerCase();
+  return voices.find((voice) => voice.name.toLowerCase() === lower)
+    ?? voices.find((voice) => voice.name.toLowerCase().includes(lower));
+}
+
+/**
+ * Key a viewer's saved voice by user id so it survives name changes, falling back to the login
+ */
+export function getUserVoiceKey(message: Pick<ChatMessage, 'userId' | 'username'>): string {
+  return message.userId || `login:${message.username.toLowerCase()}`;
+}
+
+/**
+ * Check whether a viewer may choose their own voice
+ * Requirements: 6.1
+ */
+export function canChooseVoice(message: ChatMessage, viewerVoices: ViewerVoiceSettings): boolean {
+  return viewerVoices.enabled && hasCommandPermission(message.badges, viewerVoices.permission);
+}
+
+/**
+ * Resolve the voice, rate and pitch a viewer chose for their messages
+ * Returns null when voice selection is off, the viewer lacks permission or has not chosen anything
+ * A saved voice that is no longer available or allowed falls back to the streamer's voice
+ * Requirements: 3.1, 6.1
+ */
+export function resolveUserVoice(
+  message: ChatMessage,
+  settings: TTSSettings,
+  voices: TTSVoice[]
+): { voice?: TTSVoice; rate?: number; pitch?: number } | null {
+  if (!canChooseVoice(message, settings.viewerVoices)) {
+    return null;
+  }
+
+  const preference = settings.userVoices[getUserVoiceKey(message)];
+  if (!preference) {
+    return null;
+  }
+
+  const voice = preference.voiceName
+    ? getAllowedVoices(voices, settings.viewerVoices).find((candidate) => candidate.name === preference.voiceName)
+    : undefined;
+
+  return { voice, rate: preference.rate, pitch: preference.pitch };
+}
+
+/**
+ * Actions a voice command can perform
+ */
+export interface VoiceCommandActions {
+  setUserVoice: (key: string, preference: UserVoicePreference | null) => void;
+}
+
+/**
+ * Run a voice command for the viewer who sent it and return a short reply to post back to chat
+ * Requirements: 3.1, 4.3, 6.1
+ */
+export function executeVoiceCommand(
+  command: VoiceCommand,
+  message: ChatMessage,
+  settings: TTSSettings,
+  voices: TTSVoice[],
+  actions: VoiceCommandActions
+): string {
+  const allowedVoices = getAllowedVoices(voices, settings.viewerVoices);
+  const key = getUserVoiceKey(message);
+
+  switch (command.type) {
+    case 'list': {
+      if (allowedVoices.length === 0) {
+        return 'No voices available';
+      }
+
+      const listed = allowedVoices
+        .slice(0, MAX_LISTED_VOICES)
+        .map((voice, index) => `${index + 1}. ${voice.name}`)
+        .join(', ');
+      const more = allowedVoices.length > MAX_LISTED_VOICES
+        ? ` (+${allowedVoices.length - MAX_LISTED_VOICES} more)`
+        : '';
+      return `Voices: ${listed}${more}`;
+    }
+
+    case 'reset':
+      actions.setUserVoice(key, null);
+      return 'Your voice was reset';
+
+    case 'show': {
+      const current = settings.userVoices[key]?.voiceName;
+      return current
+        ? `Your voice is ${current}. Usage: !voice <name|number> [rate] [pitch], !voice list, !voice reset`
+        : 'Usage: !voice <name|number> [rate] [pitch], !voice list, !voice reset';
+    }
+
+    case 'select': {
+      const voice = findVoice(command.query, allowedVoices);
+      if (!voice) {
+        return `No voice matches "${command.query}", see !voice list`;
+      }
+
+      const preference: UserVoicePreference = { voiceName: voice.name };
+      if (command.rate !== undefined) {
+        preference.rate = clamp(command.rate, VIEWER_RATE_RANGE.min, VIEWER_RATE_RANGE.max);
+      }
+      if (command.pitch !== undefined) {
+        preference.pitch = clamp(command.pitch, VIEWER_PITCH_RANGE.min, VIEWER_PITCH_RANGE.max);
+      }
+
+      actions.setUserVoice(key, preference);
+      return `Your voice is now ${voice.name}`;
+    }
+
+    default:
+      return 'Unknown command';
+  }
+}
+
+/**
+ * Load viewers' saved voices, an unreadable store starts empty
+ * Requirements: 3.1
+ */
+export function loadUserVoices(): Record<string, UserVoicePreference> {
+  try {
+    const stored = localStorage.getItem(USER_VOICES_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save viewers' voices so they persist between visits
+ * Requirements: 3.1
+ */
+export function saveUserVoices(userVoices: Record<string, UserVoicePreference>): void {
+  try {
+    localStorage.setItem(USER_VOICES_STORAGE_KEY, JSON.stringify(userVoices));
+  } catch {
+    // Storage can be full or disabled, voices then only last for this visit
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,135 @@
+import type { ChatMessage, TTSVoice, VoicePoolSettings } from '../types';
+import { getUserVoiceKey } from './viewerVoices';
+
+/**
+ * Largest rate or pitch offset a pooled voice may get either way
+ */
+export const VOICE_POOL_SPREAD_MAX = 0.5;
+
+/**
+ * Pooled voices are off until the streamer turns them on
+ */
+export const DEFAULT_VOICE_POOL_SETTINGS: VoicePoolSettings = {
+  enabled: false,
+  voices: [],
+  rateSpread: 0.1,
+  pitchSpread: 0.1,
+};
+
+/**
+ * A viewer's pooled voice and the offsets added to the streamer's rate and pitch
+ */
+export interface PooledVoice {
+  voice?: TTSVoice;
+  rateOffset: number;
+  pitchOffset: number;
+}
+
+/**
+ * 32-bit FNV-1a hash, stable across sessions and browsers so a viewer keeps their voice
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Map a key onto an offset between -spread and spread, rounded to two decimals
+ */
+function getOffset(key: string, spread: number): number {
+  const clamped = Math.max(0, Math.min(VOICE_POOL_SPREAD_MAX, spread));
+  const position = hashString(key) / 0xffffffff * 2 - 1;
+
+  return Math.round(position * clamped * 100) / 100;
+}
+
+/**
+ * Identify a voice across engines and page loads
+ */
+function getVoiceId(voice: TTSVoice): string {
+  return `${voice.engine ?? 'web-speech'}:${voice.voiceURI}`;
+}
+
+/**
+ * Primary language subtag of a voice, e.g. "en" for "en-GB"
+ */
+function getVoiceLanguage(voice: TTSVoice): string {
+  return voice.lang.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Voices viewers are spread across, sorted by voice id so the order voices load in does not matter
+ * An empty pool means the voices of the default voice's engine and language, so viewers are not read
+ * in random languages or by the offline fallback voice
+ * Pool entries that are no longer available are skipped
+ * Requirements: 3.1
+ */
+export function getPoolVoices(
+  voices: TTSVoice[],
+  voicePool: VoicePoolSettings,
+  defaultVoice?: TTSVoice | null
+): TTSVoice[] {
+  let pool: TTSVoice[];
+
+  if (voicePool.voices.length > 0) {
+    pool = voices.filter((voice) => voicePool.voices.includes(voice.name));
+  } else {
+    const baseVoice = defaultVoice ?? voices.find((voice) => voice.default) ?? voices[0];
+    pool = baseVoice
+      ? voices.filter((voice) => (voice.engine ?? 'web-speech') === (baseVoice.engine ?? 'web-speech')
+        && getVoiceLanguage(voice) === getVoiceLanguage(baseVoice))
+      : [];
+  }
+
+  return [...pool].sort((a, b) => getVoiceId(a).localeCompare(getVoiceId(b)));
+}
+
+/**
+ * Pick a viewer's voice by the highest hash of viewer and voice (rendezvous hashing)
+ * Unlike an index into the pool, a voice loading late only takes over the viewers it wins,
+ * everyone else keeps the voice they had
+ */
+function pickPoolVoice(key: string, pool: TTSVoice[]): TTSVoice | undefined {
+  let picked: TTSVoice | undefined;
+  let highest = -1;
+
+  pool.forEach((voice) => {
+    const weight = hashString(`${key}:${getVoiceId(voice)}`);
+    if (weight > highest) {
+      picked = voice;
+      highest = weight;
+    }
+  });
+
+  return picked;
+}
+
+/**
+ * Pick the voice and offsets a viewer always gets from the pool
+ * Returns null when the pool is off
+ * Requirements: 3.1
+ */
+export function assignPoolVoice(
+  message: Pick<ChatMessage, 'userId' | 'username'>,
+  voicePool: VoicePoolSettings,
+  voices: TTSVoice[],
+  defaultVoice?: TTSVoice | null
+): PooledVoice | null {
+  if (!voicePool.enabled) {
+    return null;
+  }
+
+  const key = getUserVoiceKey(message);
+
+  return {
+    voice: pickPoolVoice(key, getPoolVoices(voices, voicePool, defaultVoice)),
+    rateOffset: getOffset(`${key}:rate`, voicePool.rateSpread),
+    pitchOffset: getOffset(`${key}:pitch`, voicePool.pitchSpread),
+  };
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Twitch application client ID, enables "Log in with Twitch" when set
+  readonly VITE_TWITCH_CLIENT_ID?: string;
+}